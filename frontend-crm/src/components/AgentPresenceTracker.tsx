@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import * as crmAgentsService from "@/services/crmAgentsService";
+import type { AgentPresenceState } from "@/services/crmAgentsService";
+
+// No input for this long marks the agent idle
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+// Tabs share input at most this often; the idle timeout is far longer
+const ACTIVITY_BROADCAST_INTERVAL_MS = 15 * 1000;
+
+// Only the tab holding the lock reports; the channel shares input of all tabs
+const PRESENCE_LOCK_NAME = "syntra_crm_presence_reporter";
+const ACTIVITY_CHANNEL_NAME = "syntra_crm_presence_activity";
+
+interface PresenceActivityMessage {
+  at: number;
+}
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+] as const;
+
+/**
+ * Reports the agent as online or idle based on browser activity. Input in
+ * any open tab counts, and one tab per agent reports (Web Locks), so a
+ * background tab cannot mark the agent idle while another one is in use.
+ */
+const AgentPresenceReporter = ({ userId }: { userId: string }) => {
+  const lastActivityRef = useRef(Date.now());
+  const [isReportingTab, setIsReportingTab] = useState(false);
+  // Set while this tab reports; re-evaluates presence after new activity
+  const evaluateRef = useRef<(() => void) | null>(null);
+
+  // Track input in this tab and share it with the other tabs
+  useEffect(() => {
+    lastActivityRef.current = Date.now();
+    let lastBroadcastAt = 0;
+
+    const channel =
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : new BroadcastChannel(`${ACTIVITY_CHANNEL_NAME}:${userId}`);
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<PresenceActivityMessage>) => {
+        lastActivityRef.current = Math.max(
+          lastActivityRef.current,
+          event.data.at,
+        );
+        evaluateRef.current?.();
+      };
+    }
+
+    const handleActivity = () => {
+      const now = Date.now();
+      lastActivityRef.current = now;
+      evaluateRef.current?.();
+      if (channel && now - lastBroadcastAt >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+        lastBroadcastAt = now;
+        channel.postMessage({ at: now } satisfies PresenceActivityMessage);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") handleActivity();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true }),
+    );
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity),
+      );
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      channel?.close();
+    };
+  }, [userId]);
+
+  // Hold the reporter lock while this tab is open
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      setIsReportingTab(true);
+      return;
+    }
+
+    const controller = new AbortController();
+    let releaseLock: () => void = () => undefined;
+    const held = new Promise<void>((resolve) => {
+      releaseLock = resolve;
+    });
+
+    navigator.locks
+      .request(
+        `${PRESENCE_LOCK_NAME}:${userId}`,
+        { signal: controller.signal },
+        () => {
+          setIsReportingTab(true);
+          return held;
+        },
+      )
+      .catch((error) => {
+        if (error.name !== "AbortError") {
+          console.error("Failed to acquire presence lock:", error);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      releaseLock();
+      setIsReportingTab(false);
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!isReportingTab) return;
+
+    let presence: AgentPresenceState | null = null;
+    const evaluate = () => {
+      const state: AgentPresenceState =
+        Date.now() - lastActivityRef.current >= IDLE_TIMEOUT_MS
+          ? "idle"
+          : "online";
+      if (presence === state) return;
+      presence = state;
+      crmAgentsService.reportAgentPresence(state);
+    };
+
+    evaluateRef.current = evaluate;
+    evaluate();
+    const interval = setInterval(evaluate, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      evaluateRef.current = null;
+      clearInterval(interval);
+    };
+  }, [isReportingTab, userId]);
+
+  return null;
+};
+
+/**
+ * AgentPresenceTracker Component
+ *
+ * Tracks presence only for signed-in users with an agent profile, so the
+ * backend can switch the agent status automatically. Going offline on
+ * logout is reported by AuthContext.
+ */
+export const AgentPresenceTracker = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [agentUserId, setAgentUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAgentUserId(null);
+    if (!userId) return;
+
+    let cancelled = false;
+    crmAgentsService
+      .getAgents()
+      .then((agents) => {
+        if (cancelled) return;
+        if (agents.some((agent) => agent.userId === userId)) {
+          setAgentUserId(userId);
+        }
+      })
+      .catch((error) =>
+        console.error("Failed to check agent profile for presence:", error),
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (!agentUserId || agentUserId !== userId) return null;
+  return <AgentPresenceReporter userId={agentUserId} />;
+};
@@ -0,0 +1,52 @@
+import { cn } from "@/lib/utils";
+
+interface AgentLoadIndicatorProps {
+  assignedChats: number;
+  maxConcurrentChats?: number | null; // null = unlimited
+  className?: string;
+}
+
+// Share of capacity at which the bar turns amber
+const HIGH_LOAD_RATIO = 0.8;
+
+/**
+ * Assigned chats against the agent's capacity, e.g. "3/5 chat"
+ */
+export const AgentLoadIndicator = ({
+  assignedChats,
+  maxConcurrentChats,
+  className,
+}: AgentLoadIndicatorProps) => {
+  if (!maxConcurrentChats) {
+    return (
+      <span className={cn("text-xs text-muted-foreground", className)}>
+        {assignedChats} chat · tanpa batas
+      </span>
+    );
+  }
+
+  const ratio = Math.min(assignedChats / maxConcurrentChats, 1);
+  const barColor =
+    ratio >= 1
+      ? "bg-red-500"
+      : ratio >= HIGH_LOAD_RATIO
+        ? "bg-amber-500"
+        : "bg-emerald-500";
+
+  return (
+    <div
+      className={cn("flex items-center gap-2", className)}
+      title={`${assignedChats} dari ${maxConcurrentChats} chat`}
+    >
+      <div className="h-1.5 flex-1 min-w-[48px] rounded-full bg-secondary overflow-hidden">
+        <div
+          className={cn("h-full transition-all", barColor)}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+      <span className="text-xs tabular-nums text-muted-foreground whitespace-nowrap">
+        {assignedChats}/{maxConcurrentChats} chat
+      </span>
+    </div>
+  );
+};
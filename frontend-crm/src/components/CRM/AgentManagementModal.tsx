@@ -2,6 +2,8 @@ import { useState } from "react";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -20,6 +22,7 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import {
   UserPlus,
@@ -31,6 +34,7 @@ import {
   MoreVertical,
   Settings,
   Trash2,
+  Gauge,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -41,6 +45,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { AddAgentDialog } from "./AddAgentDialog";
 import { AgentSettingsModal } from "./AgentSettingsModal";
+import { AgentLoadIndicator } from "./AgentLoadIndicator";
 
 interface Agent {
   id: string;
@@ -48,8 +53,10 @@ interface Agent {
   email: string;
   phone: string;
   status: "active" | "inactive" | "busy";
+  statusSource?: "manual" | "capacity" | "idle" | "logout";
   avatar?: string;
   assignedChats: number;
+  maxConcurrentChats?: number | null;
   resolvedToday: number;
   avgResponseTime: string;
   lastActive: string;
@@ -74,6 +81,10 @@ interface AgentManagementModalProps {
     agentId: string,
     status: "active" | "inactive" | "busy",
   ) => void;
+  onUpdateAgentCapacity: (
+    agentId: string,
+    maxConcurrentChats: number | null,
+  ) => void;
   onSaveAgentSettings: (agentId: string, settings: any) => void;
   onDeleteAgent: (agentId: string) => void; // Added Prop
 }
@@ -84,6 +95,7 @@ export const AgentManagementModal = ({
   agents,
   onAddAgent,
   onUpdateAgentStatus,
+  onUpdateAgentCapacity,
   onSaveAgentSettings,
   onDeleteAgent,
 }: AgentManagementModalProps) => {
@@ -97,6 +109,11 @@ export const AgentManagementModal = ({
   const [settingsAgent, setSettingsAgent] = useState<Agent | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
 
+  // Capacity State. Empty input = unlimited.
+  const [capacityAgent, setCapacityAgent] = useState<Agent | null>(null);
+  const [capacityInput, setCapacityInput] = useState("");
+  const [capacityError, setCapacityError] = useState("");
+
   // Delete Confirmation State
   const [agentToDelete, setAgentToDelete] = useState<Agent | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -129,6 +146,20 @@ export const AgentManagementModal = ({
     }
   };
 
+  // Why the backend changed the status on its own
+  const getAutoStatusLabel = (agent: Agent) => {
+    switch (agent.statusSource) {
+      case "capacity":
+        return "Otomatis: kapasitas penuh";
+      case "idle":
+        return "Otomatis: tidak ada aktivitas";
+      case "logout":
+        return "Otomatis: logout";
+      default:
+        return null;
+    }
+  };
+
   // Filter agents
   const filteredAgents = agents.filter((agent) => {
     const matchesSearch =
@@ -171,6 +202,27 @@ export const AgentManagementModal = ({
     setSettingsAgent(null);
   };
 
+  const openCapacityDialog = (agent: Agent) => {
+    setCapacityAgent(agent);
+    setCapacityInput(
+      agent.maxConcurrentChats ? String(agent.maxConcurrentChats) : "",
+    );
+    setCapacityError("");
+  };
+
+  const handleSaveCapacity = () => {
+    if (!capacityAgent) return;
+    const trimmed = capacityInput.trim();
+    const value = Number(trimmed);
+    if (trimmed && (!Number.isInteger(value) || value < 1)) {
+      setCapacityError("Kapasitas harus bilangan bulat minimal 1");
+      return;
+    }
+
+    onUpdateAgentCapacity(capacityAgent.id, trimmed ? value : null);
+    setCapacityAgent(null);
+  };
+
   const confirmDelete = (agent: Agent) => {
     setAgentToDelete(agent);
     setDeleteDialogOpen(true);
@@ -331,7 +383,14 @@ export const AgentManagementModal = ({
                                 <h3 className="font-semibold text-lg">
                                   {agent.name}
                                 </h3>
-                                {getStatusBadge(agent.status)}
+                                <div className="flex items-center gap-2">
+                                  {getStatusBadge(agent.status)}
+                                  {getAutoStatusLabel(agent) && (
+                                    <span className="text-xs text-muted-foreground">
+                                      {getAutoStatusLabel(agent)}
+                                    </span>
+                                  )}
+                                </div>
                               </div>
                               <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
@@ -346,6 +405,12 @@ export const AgentManagementModal = ({
                                     <Settings className="h-4 w-4 mr-2" />
                                     Settings
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => openCapacityDialog(agent)}
+                                  >
+                                    <Gauge className="h-4 w-4 mr-2" />
+                                    Set Capacity
+                                  </DropdownMenuItem>
                                   <DropdownMenuSeparator />
                                   <DropdownMenuItem
                                     onClick={() =>
@@ -390,10 +455,12 @@ export const AgentManagementModal = ({
                                 <span>{agent.phone}</span>
                               </div>
                               <div className="flex items-center gap-2 text-muted-foreground">
-                                <MessageSquare className="h-3.5 w-3.5" />
-                                <span>
-                                  {agent.assignedChats} assigned chats
-                                </span>
+                                <MessageSquare className="h-3.5 w-3.5 shrink-0" />
+                                <AgentLoadIndicator
+                                  className="flex-1"
+                                  assignedChats={agent.assignedChats}
+                                  maxConcurrentChats={agent.maxConcurrentChats}
+                                />
                               </div>
                               <div className="flex items-center gap-2 text-muted-foreground">
                                 <Clock className="h-3.5 w-3.5" />
@@ -455,6 +522,50 @@ export const AgentManagementModal = ({
         onSave={handleSaveSettings}
       />
 
+      {/* Capacity Dialog */}
+      <Dialog
+        open={!!capacityAgent}
+        onOpenChange={(isOpen) => !isOpen && setCapacityAgent(null)}
+      >
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Kapasitas {capacityAgent?.name}</DialogTitle>
+            <DialogDescription>
+              Agent otomatis menjadi Busy saat mencapai batas ini. Chat
+              berikutnya menunggu di antrian sampai ada kapasitas.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="max-concurrent-chats">
+              Maksimal chat bersamaan
+            </Label>
+            <Input
+              id="max-concurrent-chats"
+              type="number"
+              min={1}
+              placeholder="Tanpa batas"
+              value={capacityInput}
+              onChange={(e) => {
+                setCapacityInput(e.target.value);
+                setCapacityError("");
+              }}
+              className={capacityError ? "border-red-500" : ""}
+            />
+            {capacityError && (
+              <p className="text-xs text-red-500 font-medium">
+                {capacityError}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCapacityAgent(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveCapacity}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Alert */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -46,11 +46,14 @@ import { WhatsAppIntegration } from "./integrations/WhatsAppIntegration";
 import { TelegramIntegration } from "./integrations/TelegramIntegration";
 import { EmailIntegration } from "./integrations/EmailIntegration";
 import { MCPIntegration } from "./integrations/MCPIntegration";
+import { OutOfHoursSettings } from "./OutOfHoursSettings";
+import { ScheduleCalendarsSettings } from "./ScheduleCalendarsSettings";
 import { toast } from "sonner";
 import * as crmAgentsService from "@/services/crmAgentsService";
 import type {
   AgentSettingsFrontend,
   KnowledgeDocument as KnowledgeDocumentAPI,
+  OutOfHoursConfig,
 } from "@/services/crmAgentsService";
 import { useWebSocket } from "@/contexts/WebSocketContext";
 
@@ -75,6 +78,8 @@ interface AgentSettings {
     enabled: boolean;
     timezone: string;
     workingHours: WorkingHours[];
+    outOfHours: OutOfHoursConfig;
+    calendarIds: string[];
   };
   integrations: {
     whatsapp: ChannelIntegration;
@@ -183,6 +188,8 @@ export const AgentSettingsModal = ({
       timezone: "Asia/Jakarta",
       // When scheduling is disabled we keep workingHours empty. When enabled, we'll populate defaults or use API values.
       workingHours: [],
+      outOfHours: crmAgentsService.DEFAULT_OUT_OF_HOURS,
+      calendarIds: [],
     },
     integrations: {
       whatsapp: { enabled: false, config: {} },
@@ -414,6 +421,8 @@ export const AgentSettingsModal = ({
               enabled: apiSettings.schedule.enabled,
               timezone: apiSettings.schedule.timezone,
               workingHours: workingHours,
+              outOfHours: apiSettings.schedule.outOfHours,
+              calendarIds: apiSettings.schedule.calendarIds,
             },
             integrations: integrationsObj,
             advanced: apiSettings.advanced,
@@ -465,6 +474,8 @@ export const AgentSettingsModal = ({
                 end: wh.end,
               }))
             : [], // Empty array when schedule is disabled
+          outOfHours: settings.schedule.outOfHours,
+          calendarIds: settings.schedule.calendarIds,
         },
         advanced: settings.advanced,
         ticketing: settings.ticketing,
@@ -1328,16 +1339,35 @@ export const AgentSettingsModal = ({
                         </div>
                       )}
 
-                      {settings.schedule.enabled && (
-                        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                          <p className="text-xs text-blue-800">
-                            <strong>Note:</strong> Agent hanya akan merespons
-                            chat di luar jam kerja dengan auto-reply message.
-                          </p>
-                        </div>
-                      )}
                     </CardContent>
                   </Card>
+
+                  {settings.schedule.enabled && (
+                    <ScheduleCalendarsSettings
+                      value={settings.schedule.calendarIds}
+                      onChange={(calendarIds) =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          schedule: { ...prev.schedule, calendarIds },
+                        }))
+                      }
+                    />
+                  )}
+
+                  {settings.schedule.enabled && (
+                    <OutOfHoursSettings
+                      timezone={settings.schedule.timezone}
+                      workingHours={settings.schedule.workingHours}
+                      calendarIds={settings.schedule.calendarIds}
+                      value={settings.schedule.outOfHours}
+                      onChange={(outOfHours) =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          schedule: { ...prev.schedule, outOfHours },
+                        }))
+                      }
+                    />
+                  )}
                 </TabsContent>
 
                 {/* INTEGRATIONS TAB */}
@@ -1,5 +1,11 @@
 import { Button } from "@/components/ui/button";
-import { Headphones, Users, TrendingUp } from "lucide-react";
+import {
+  Headphones,
+  Users,
+  TrendingUp,
+  Megaphone,
+  BarChart3,
+} from "lucide-react";
 
 interface CRMNavbarProps {
   activeTab: string;
@@ -28,6 +34,16 @@ export const CRMNavbar = ({
       label: "Sales Management",
       icon: TrendingUp,
     },
+    {
+      key: "campaigns",
+      label: "Broadcast",
+      icon: Megaphone,
+    },
+    {
+      key: "analytics",
+      label: "Analytics",
+      icon: BarChart3,
+    },
   ];
 
   return (
@@ -0,0 +1,599 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Edit,
+  FileUp,
+  Loader2,
+  MessageSquare,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import * as crmCalendarsService from "@/services/crmCalendarsService";
+import * as crmSlaService from "@/services/crmSlaService";
+import type {
+  CalendarEntry,
+  CalendarEntryInput,
+} from "@/services/crmCalendarsService";
+import { formatEntryDates, parseIcsEvents } from "@/lib/holidayCalendars";
+
+interface CalendarEntriesPanelProps {
+  calendarId: string;
+  canEdit: boolean;
+  onEntryCountChange: (count: number) => void;
+}
+
+const emptyEntry = (): CalendarEntryInput => {
+  const today = format(new Date(), "yyyy-MM-dd");
+  return {
+    name: "",
+    start_date: today,
+    end_date: today,
+    closed: true,
+    start: "09:00",
+    end: "13:00",
+    auto_reply_message: "",
+  };
+};
+
+/**
+ * Dates of one holiday calendar, with manual entries and ICS import
+ */
+export const CalendarEntriesPanel = ({
+  calendarId,
+  canEdit,
+  onEntryCountChange,
+}: CalendarEntriesPanelProps) => {
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Editor dialog state. `editingId` is null when creating a new entry.
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CalendarEntryInput>(emptyEntry());
+  const [isSaving, setIsSaving] = useState(false);
+  const [entryToDelete, setEntryToDelete] = useState<CalendarEntry | null>(
+    null,
+  );
+
+  // ICS import: parsed events and the indexes picked for import
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importEntries, setImportEntries] = useState<CalendarEntryInput[]>([]);
+  const [selectedImports, setSelectedImports] = useState<Set<number>>(
+    new Set(),
+  );
+  const [isImporting, setIsImporting] = useState(false);
+
+  const updateEntries = (next: CalendarEntry[]) => {
+    setEntries(next);
+    onEntryCountChange(next.length);
+  };
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await crmCalendarsService.getCalendarEntries(calendarId));
+    } catch (error) {
+      console.error("Failed to fetch calendar entries:", error);
+      toast.error("Gagal memuat tanggal kalender");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [calendarId]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(emptyEntry());
+    setEditorOpen(true);
+  };
+
+  const openEdit = (entry: CalendarEntry) => {
+    setEditingId(entry.id);
+    setDraft({
+      name: entry.name,
+      start_date: entry.start_date,
+      end_date: entry.end_date,
+      closed: entry.closed,
+      start: entry.start || "09:00",
+      end: entry.end || "13:00",
+      auto_reply_message: entry.auto_reply_message || "",
+    });
+    setEditorOpen(true);
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+
+    if (!name) {
+      toast.error("Nama tanggal harus diisi");
+      return;
+    }
+    if (!draft.start_date || !draft.end_date) {
+      toast.error("Tanggal mulai dan selesai harus diisi");
+      return;
+    }
+    if (draft.end_date < draft.start_date) {
+      toast.error("Tanggal selesai tidak boleh sebelum tanggal mulai");
+      return;
+    }
+    if (
+      !draft.closed &&
+      (!draft.start || !draft.end || draft.start >= draft.end)
+    ) {
+      toast.error("Jam tutup harus setelah jam buka");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload: CalendarEntryInput = {
+        ...draft,
+        name,
+        start: draft.closed ? null : draft.start,
+        end: draft.closed ? null : draft.end,
+        auto_reply_message: draft.auto_reply_message?.trim() || null,
+      };
+      if (editingId) {
+        const updated = await crmCalendarsService.updateCalendarEntry(
+          calendarId,
+          editingId,
+          payload,
+        );
+        setEntries((prev) =>
+          prev.map((e) => (e.id === editingId ? updated : e)),
+        );
+      } else {
+        const [created] = await crmCalendarsService.createCalendarEntries(
+          calendarId,
+          [payload],
+        );
+        if (created) {
+          updateEntries(
+            [...entries, created].sort((a, b) =>
+              a.start_date.localeCompare(b.start_date),
+            ),
+          );
+        }
+      }
+      toast.success("Tanggal berhasil disimpan");
+      setEditorOpen(false);
+    } catch (error) {
+      console.error("Failed to save calendar entry:", error);
+      toast.error(error.message || "Gagal menyimpan tanggal");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entryToDelete) return;
+    const entry = entryToDelete;
+    setEntryToDelete(null);
+
+    try {
+      await crmCalendarsService.deleteCalendarEntry(calendarId, entry.id);
+      toast.success("Tanggal berhasil dihapus");
+      updateEntries(entries.filter((e) => e.id !== entry.id));
+    } catch (error) {
+      console.error("Failed to delete calendar entry:", error);
+      toast.error(error.message || "Gagal menghapus tanggal");
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      // Event times are read in the organization's business-hours timezone
+      const { timezone } = await crmSlaService
+        .getBusinessHours()
+        .catch(() => crmSlaService.DEFAULT_BUSINESS_HOURS);
+      const { entries: parsed, skipped } = parseIcsEvents(
+        await file.text(),
+        timezone,
+      );
+      if (skipped.length > 0) {
+        toast.warning(`${skipped.length} event tidak diimpor`, {
+          description: skipped
+            .slice(0, 5)
+            .map((event) => `${event.name}: ${event.reason}`)
+            .join("\n"),
+        });
+      }
+      if (parsed.length === 0) {
+        if (skipped.length === 0) {
+          toast.error("File tidak berisi event kalender");
+        }
+        return;
+      }
+      // Dates already in the calendar are left unchecked
+      const existing = new Set(
+        entries.map((entry) => `${entry.start_date}|${entry.name}`),
+      );
+      setImportEntries(parsed);
+      setSelectedImports(
+        new Set(
+          parsed
+            .map((entry, index) =>
+              existing.has(`${entry.start_date}|${entry.name}`) ? -1 : index,
+            )
+            .filter((index) => index !== -1),
+        ),
+      );
+    } catch (error) {
+      console.error("Failed to parse ICS file:", error);
+      toast.error("Gagal membaca file. Pastikan format iCalendar (.ics).");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const toggleImport = (index: number) => {
+    setSelectedImports((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const selected = importEntries.filter((_, index) =>
+      selectedImports.has(index),
+    );
+    if (selected.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const created = await crmCalendarsService.createCalendarEntries(
+        calendarId,
+        selected,
+      );
+      toast.success(`${created.length} tanggal berhasil diimpor`);
+      setImportEntries([]);
+      updateEntries(
+        [...entries, ...created].sort((a, b) =>
+          a.start_date.localeCompare(b.start_date),
+        ),
+      );
+    } catch (error) {
+      console.error("Failed to import calendar entries:", error);
+      toast.error(error.message || "Gagal mengimpor tanggal");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {canEdit && (
+        <div className="flex justify-end gap-2">
+          <input
+            type="file"
+            ref={fileInputRef}
+            accept=".ics,text/calendar"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp className="w-4 h-4 mr-2" />
+            Import ICS
+          </Button>
+          <Button variant="outline" size="sm" onClick={openCreate}>
+            <Plus className="w-4 h-4 mr-2" />
+            Tambah Tanggal
+          </Button>
+        </div>
+      )}
+
+      {isLoading && entries.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-4">
+          Belum ada tanggal. Tambahkan manual atau import file .ics
+        </p>
+      ) : (
+        entries.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex items-center gap-3 px-2 py-1.5 rounded-md bg-muted/40"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{entry.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatEntryDates(entry)}
+              </p>
+            </div>
+            {entry.auto_reply_message && (
+              <MessageSquare
+                className="w-3.5 h-3.5 text-muted-foreground"
+                aria-label="Auto-reply khusus"
+              />
+            )}
+            {entry.closed ? (
+              <Badge variant="outline" className="text-[10px]">
+                Tutup
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="text-[10px]">
+                {entry.start} - {entry.end}
+              </Badge>
+            )}
+            {canEdit && (
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => openEdit(entry)}
+                >
+                  <Edit className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setEntryToDelete(entry)}
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-red-500" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? "Edit Tanggal" : "Tanggal Baru"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="entry-name">Nama</Label>
+              <Input
+                id="entry-name"
+                placeholder="e.g. Idul Fitri"
+                value={draft.name}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="entry-start-date">Mulai</Label>
+                <Input
+                  id="entry-start-date"
+                  type="date"
+                  value={draft.start_date}
+                  onChange={(e) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      start_date: e.target.value,
+                      // Keep single-day entries single-day while picking
+                      end_date:
+                        prev.end_date < e.target.value
+                          ? e.target.value
+                          : prev.end_date,
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entry-end-date">Selesai</Label>
+                <Input
+                  id="entry-end-date"
+                  type="date"
+                  min={draft.start_date}
+                  value={draft.end_date}
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, end_date: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Tutup seharian</Label>
+                <p className="text-xs text-muted-foreground">
+                  Jika mati, agent buka dengan jam khusus di tanggal ini
+                </p>
+              </div>
+              <Switch
+                checked={draft.closed}
+                onCheckedChange={(checked) =>
+                  setDraft((prev) => ({ ...prev, closed: checked }))
+                }
+              />
+            </div>
+
+            {!draft.closed && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="entry-start">Jam buka</Label>
+                  <Input
+                    id="entry-start"
+                    type="time"
+                    value={draft.start || ""}
+                    onChange={(e) =>
+                      setDraft((prev) => ({ ...prev, start: e.target.value }))
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="entry-end">Jam tutup</Label>
+                  <Input
+                    id="entry-end"
+                    type="time"
+                    value={draft.end || ""}
+                    onChange={(e) =>
+                      setDraft((prev) => ({ ...prev, end: e.target.value }))
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="entry-auto-reply">Auto-reply khusus</Label>
+              <Textarea
+                id="entry-auto-reply"
+                rows={3}
+                placeholder="Kosongkan untuk memakai auto-reply agent"
+                value={draft.auto_reply_message || ""}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    auto_reply_message: e.target.value,
+                  }))
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Mendukung variabel {"{{customer.first_name}}"} dan{" "}
+                {"{{schedule.next_open}}"}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditorOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* ICS Import Preview */}
+      <Dialog
+        open={importEntries.length > 0}
+        onOpenChange={(open) => !open && setImportEntries([])}
+      >
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Import ICS</DialogTitle>
+            <DialogDescription>
+              Pilih tanggal yang diimpor sebagai hari tutup. Hanya event
+              seharian yang diimpor, dan tanggal yang sudah ada tidak dicentang.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[50vh] overflow-y-auto space-y-1 py-2">
+            {importEntries.map((entry, index) => (
+              <label
+                key={`${entry.start_date}-${index}`}
+                className="flex items-center gap-3 px-2 py-1.5 rounded-md hover:bg-muted/50 cursor-pointer"
+              >
+                <Checkbox
+                  checked={selectedImports.has(index)}
+                  onCheckedChange={() => toggleImport(index)}
+                />
+                <span className="flex-1 min-w-0 text-sm truncate">
+                  {entry.name}
+                </span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatEntryDates(entry)}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setImportEntries([])}
+              disabled={isImporting}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || selectedImports.size === 0}
+            >
+              {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Import {selectedImports.size} Tanggal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={Boolean(entryToDelete)}
+        onOpenChange={(open) => !open && setEntryToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus "{entryToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Agent yang berlangganan kalender ini kembali memakai jam kerja
+              mingguan pada tanggal tersebut.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,345 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  CalendarDays,
+  ChevronDown,
+  ChevronRight,
+  Edit,
+  Loader2,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import * as crmCalendarsService from "@/services/crmCalendarsService";
+import type {
+  HolidayCalendar,
+  HolidayCalendarInput,
+} from "@/services/crmCalendarsService";
+import { CalendarEntriesPanel } from "./CalendarEntriesPanel";
+
+interface CalendarSettingsProps {
+  canEdit: boolean;
+}
+
+const emptyCalendar = (): HolidayCalendarInput => ({
+  name: "",
+  description: "",
+});
+
+export const CalendarSettings = ({ canEdit }: CalendarSettingsProps) => {
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Editor dialog state. `editingId` is null when creating a new calendar.
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<HolidayCalendarInput>(emptyCalendar());
+  const [isSaving, setIsSaving] = useState(false);
+  const [calendarToDelete, setCalendarToDelete] =
+    useState<HolidayCalendar | null>(null);
+
+  const fetchCalendars = async () => {
+    setIsLoading(true);
+    try {
+      setCalendars(await crmCalendarsService.getCalendars());
+    } catch (error) {
+      console.error("Failed to fetch calendars:", error);
+      toast.error("Gagal memuat kalender");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCalendars();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(emptyCalendar());
+    setEditorOpen(true);
+  };
+
+  const openEdit = (calendar: HolidayCalendar) => {
+    setEditingId(calendar.id);
+    setDraft({
+      name: calendar.name,
+      description: calendar.description || "",
+    });
+    setEditorOpen(true);
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+
+    if (!name) {
+      toast.error("Nama kalender harus diisi");
+      return;
+    }
+    if (
+      calendars.some(
+        (c) =>
+          c.name.toLowerCase() === name.toLowerCase() && c.id !== editingId,
+      )
+    ) {
+      toast.error(`Kalender "${name}" sudah ada`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name,
+        description: draft.description?.trim() || null,
+      };
+      if (editingId) {
+        await crmCalendarsService.updateCalendar(editingId, payload);
+      } else {
+        const created = await crmCalendarsService.createCalendar(payload);
+        setExpandedId(created.id);
+      }
+      toast.success("Kalender berhasil disimpan");
+      setEditorOpen(false);
+      await fetchCalendars();
+    } catch (error) {
+      console.error("Failed to save calendar:", error);
+      toast.error(error.message || "Gagal menyimpan kalender");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!calendarToDelete) return;
+    const calendar = calendarToDelete;
+    setCalendarToDelete(null);
+
+    try {
+      await crmCalendarsService.deleteCalendar(calendar.id);
+      toast.success("Kalender berhasil dihapus");
+      setCalendars((prev) => prev.filter((c) => c.id !== calendar.id));
+    } catch (error) {
+      console.error("Failed to delete calendar:", error);
+      toast.error(error.message || "Gagal menghapus kalender");
+    }
+  };
+
+  const setEntryCount = (calendarId: string, count: number) =>
+    setCalendars((prev) =>
+      prev.map((c) => (c.id === calendarId ? { ...c, entry_count: count } : c)),
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              Kalender Libur
+            </CardTitle>
+            <CardDescription>
+              Hari libur dan jam khusus, misalnya libur nasional atau jam
+              Ramadan. Tanggal di kalender menggantikan jam kerja mingguan agent
+              yang berlangganan.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Kalender
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && calendars.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Belum ada kalender
+          </p>
+        ) : (
+          calendars.map((calendar) => {
+            const isExpanded = expandedId === calendar.id;
+            return (
+              <div key={calendar.id} className="rounded-md border">
+                <div className="flex items-center gap-3 p-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      setExpandedId(isExpanded ? null : calendar.id)
+                    }
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="w-4 h-4" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4" />
+                    )}
+                  </Button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {calendar.name}
+                    </p>
+                    {calendar.description && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {calendar.description}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                    {calendar.entry_count} tanggal · {calendar.subscriber_count}{" "}
+                    agent
+                  </span>
+                  {canEdit && (
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => openEdit(calendar)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setCalendarToDelete(calendar)}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {isExpanded && (
+                  <div className="border-t p-2">
+                    <CalendarEntriesPanel
+                      calendarId={calendar.id}
+                      canEdit={canEdit}
+                      onEntryCountChange={(count) =>
+                        setEntryCount(calendar.id, count)
+                      }
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? "Edit Kalender" : "Kalender Baru"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="calendar-name">Nama</Label>
+              <Input
+                id="calendar-name"
+                placeholder="e.g. Libur Nasional 2025"
+                value={draft.name}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="calendar-description">Deskripsi</Label>
+              <Input
+                id="calendar-description"
+                placeholder="Untuk tim atau negara mana (opsional)"
+                value={draft.description || ""}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    description: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditorOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={Boolean(calendarToDelete)}
+        onOpenChange={(open) => !open && setCalendarToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus kalender "{calendarToDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {calendarToDelete?.entry_count || 0} tanggal ikut terhapus.{" "}
+              {calendarToDelete?.subscriber_count || 0} agent yang berlangganan
+              kembali memakai jam kerja mingguan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,354 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Pause, Play, Search, XCircle } from "lucide-react";
+import * as crmCampaignsService from "@/services/crmCampaignsService";
+import type {
+  Campaign,
+  CampaignRecipient,
+  CampaignRecipientStatus,
+} from "@/services/crmCampaignsService";
+import {
+  CAMPAIGN_STATUS_STYLES,
+  RECIPIENT_STATUS_STYLES,
+  getCampaignFunnel,
+} from "@/lib/campaignStats";
+
+interface CampaignDetailDialogProps {
+  open: boolean;
+  onClose: () => void;
+  campaign: Campaign | null;
+  onPause: (campaign: Campaign) => void;
+  onResume: (campaign: Campaign) => void;
+  onCancel: (campaign: Campaign) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const formatTime = (value: string | null) =>
+  value ? format(new Date(value), "dd MMM HH:mm") : "-";
+
+export const CampaignDetailDialog = ({
+  open,
+  onClose,
+  campaign,
+  onPause,
+  onResume,
+  onCancel,
+}: CampaignDetailDialogProps) => {
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<
+    CampaignRecipientStatus | "all"
+  >("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setStatusFilter("all");
+    setSearchQuery("");
+    setPage(0);
+  }, [open, campaign?.id]);
+
+  // Recipient list. The parent polls running campaigns, so a fresh campaign
+  // object also refreshes the recipients.
+  useEffect(() => {
+    if (!open || !campaign) return;
+    let cancelled = false;
+
+    const fetchRecipients = async () => {
+      setIsLoading(true);
+      try {
+        const response = await crmCampaignsService.getCampaignRecipients(
+          campaign.id,
+          {
+            status: statusFilter === "all" ? undefined : statusFilter,
+            search: searchQuery || undefined,
+            skip: page * PAGE_SIZE,
+            limit: PAGE_SIZE,
+          },
+        );
+        if (cancelled) return;
+        setRecipients(response.recipients);
+        setTotal(response.total);
+      } catch (error) {
+        console.error("Failed to fetch campaign recipients:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    const timer = setTimeout(fetchRecipients, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, campaign, statusFilter, searchQuery, page]);
+
+  if (!campaign) return null;
+
+  const { stats } = campaign;
+  const funnelStats = getCampaignFunnel(stats);
+  const processed = stats.total - stats.pending;
+  const canPause = campaign.status === "running";
+  const canResume = campaign.status === "paused";
+  const canCancel = ["scheduled", "running", "paused"].includes(
+    campaign.status,
+  );
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const funnel = [
+    { label: "Terkirim", ...funnelStats.sent },
+    { label: "Diterima", ...funnelStats.delivered },
+    { label: "Dibaca", ...funnelStats.read },
+    { label: "Dibalas", ...funnelStats.replied },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {campaign.name}
+            <Badge
+              className={CAMPAIGN_STATUS_STYLES[campaign.status].className}
+            >
+              {CAMPAIGN_STATUS_STYLES[campaign.status].label}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {campaign.segment_name || "Segment"} ·{" "}
+            {
+              crmCampaignsService.CAMPAIGN_CHANNELS.find(
+                (c) => c.value === campaign.channel,
+              )?.label
+            }{" "}
+            · {campaign.throttle_per_minute} pesan/menit
+            {campaign.scheduled_at &&
+              ` · dijadwalkan ${formatTime(campaign.scheduled_at)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Progress & Actions */}
+          <div className="flex items-center gap-3">
+            <div className="flex-1 space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {processed} / {stats.total} diproses
+                </span>
+                <span>
+                  {stats.failed} gagal · {stats.opted_out} opt-out
+                </span>
+              </div>
+              <Progress
+                value={stats.total ? (processed / stats.total) * 100 : 0}
+                className="h-2"
+              />
+            </div>
+            {canPause && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onPause(campaign)}
+              >
+                <Pause className="w-4 h-4 mr-1.5" />
+                Pause
+              </Button>
+            )}
+            {canResume && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onResume(campaign)}
+              >
+                <Play className="w-4 h-4 mr-1.5" />
+                Resume
+              </Button>
+            )}
+            {canCancel && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={() => onCancel(campaign)}
+              >
+                <XCircle className="w-4 h-4 mr-1.5" />
+                Batalkan
+              </Button>
+            )}
+          </div>
+
+          {/* Funnel */}
+          <div className="grid grid-cols-4 gap-3">
+            {funnel.map((step) => (
+              <div key={step.label} className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">{step.label}</p>
+                <p className="text-xl font-bold">{step.count}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {step.rate.toFixed(1)}%
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Recipients */}
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+              <Input
+                placeholder="Cari penerima..."
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setPage(0);
+                }}
+                className="pl-8 h-8 text-xs"
+              />
+            </div>
+            <Select
+              value={statusFilter}
+              onValueChange={(v) => {
+                setStatusFilter(v as CampaignRecipientStatus | "all");
+                setPage(0);
+              }}
+            >
+              <SelectTrigger className="w-40 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all" className="text-xs">
+                  Semua status
+                </SelectItem>
+                {Object.entries(RECIPIENT_STATUS_STYLES).map(
+                  ([status, style]) => (
+                    <SelectItem key={status} value={status} className="text-xs">
+                      {style.label}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="border rounded-lg max-h-[320px] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Kontak</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Terkirim</TableHead>
+                  <TableHead>Dibaca</TableHead>
+                  <TableHead>Dibalas</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && recipients.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-20 text-center">
+                      <Loader2 className="w-4 h-4 animate-spin inline" />
+                    </TableCell>
+                  </TableRow>
+                ) : recipients.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="h-20 text-center text-sm text-muted-foreground"
+                    >
+                      Tidak ada penerima
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  recipients.map((recipient) => (
+                    <TableRow key={recipient.id}>
+                      <TableCell className="text-sm font-medium">
+                        {recipient.customer_name}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {recipient.contact}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={`text-[10px] ${RECIPIENT_STATUS_STYLES[recipient.status].className}`}
+                          title={recipient.error || undefined}
+                        >
+                          {RECIPIENT_STATUS_STYLES[recipient.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {formatTime(recipient.sent_at)}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {formatTime(recipient.read_at)}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {formatTime(recipient.replied_at)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{total} penerima</span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={page === 0}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                Sebelumnya
+              </Button>
+              <span>
+                {page + 1} / {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={page + 1 >= totalPages}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                Berikutnya
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
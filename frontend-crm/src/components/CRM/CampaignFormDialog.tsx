@@ -0,0 +1,556 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, Megaphone, Users } from "lucide-react";
+import type { Customer } from "@/services/crmChatsService";
+import {
+  CAMPAIGN_CHANNELS,
+  type Campaign,
+  type CampaignChannel,
+  type CampaignInput,
+} from "@/services/crmCampaignsService";
+import * as crmSegmentsService from "@/services/crmSegmentsService";
+import type { Segment } from "@/services/crmSegmentsService";
+import * as crmAgentsService from "@/services/crmAgentsService";
+import type { AgentFrontend } from "@/services/crmAgentsService";
+import {
+  CUSTOMER_TEMPLATE_VARIABLES,
+  renderMessageTemplate,
+} from "@/lib/messageTemplate";
+
+interface CampaignFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** `launch` is true when the user chose to send/schedule instead of saving a draft */
+  onSubmit: (campaign: CampaignInput, launch: boolean) => Promise<void> | void;
+  campaign?: Campaign | null; // When provided the dialog works in edit mode
+}
+
+const DEFAULT_OPT_OUT_TEXT = "Balas STOP untuk berhenti menerima pesan ini.";
+
+// Conservative defaults to avoid the sender number being flagged as spam
+const DEFAULT_THROTTLE: Record<CampaignChannel, number> = {
+  whatsapp: 20,
+  telegram: 20,
+  email: 60,
+};
+
+const emptyForm = (): CampaignInput => ({
+  name: "",
+  channel: "whatsapp",
+  sender_agent_id: "",
+  segment_id: "",
+  subject: "",
+  template: "Halo {{customer.first_name}}, ",
+  scheduled_at: null,
+  throttle_per_minute: DEFAULT_THROTTLE.whatsapp,
+  respect_opt_out: true,
+  opt_out_text: DEFAULT_OPT_OUT_TEXT,
+});
+
+const toFormValues = (campaign: Campaign): CampaignInput => ({
+  name: campaign.name,
+  channel: campaign.channel,
+  sender_agent_id: campaign.sender_agent_id,
+  segment_id: campaign.segment_id,
+  subject: campaign.subject || "",
+  template: campaign.template,
+  scheduled_at: campaign.scheduled_at,
+  throttle_per_minute: campaign.throttle_per_minute,
+  respect_opt_out: campaign.respect_opt_out,
+  opt_out_text: campaign.opt_out_text || "",
+});
+
+export const CampaignFormDialog = ({
+  open,
+  onClose,
+  onSubmit,
+  campaign,
+}: CampaignFormDialogProps) => {
+  const isEdit = Boolean(campaign);
+  const [form, setForm] = useState<CampaignInput>(emptyForm());
+  const [sendMode, setSendMode] = useState<"now" | "schedule">("now");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState<"draft" | "launch" | null>(null);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [agents, setAgents] = useState<AgentFrontend[]>([]);
+  const [recipientCount, setRecipientCount] = useState<number | null>(null);
+  const [sampleCustomer, setSampleCustomer] = useState<Customer | null>(null);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm(campaign ? toFormValues(campaign) : emptyForm());
+    setSendMode(campaign?.scheduled_at ? "schedule" : "now");
+    setErrors({});
+  }, [open, campaign]);
+
+  useEffect(() => {
+    if (!open) return;
+    crmSegmentsService
+      .getSegments()
+      .then(setSegments)
+      .catch((error) => console.error("Failed to fetch segments:", error));
+    crmAgentsService
+      .getAgents()
+      .then(setAgents)
+      .catch((error) => console.error("Failed to fetch agents:", error));
+  }, [open]);
+
+  // Recipients reachable on the channel + a sample customer for the preview
+  useEffect(() => {
+    if (!open || !form.segment_id) {
+      setRecipientCount(null);
+      setSampleCustomer(null);
+      return;
+    }
+    let cancelled = false;
+    crmSegmentsService
+      .getSegmentCustomers(form.segment_id, { channel: form.channel, limit: 1 })
+      .then((response) => {
+        if (cancelled) return;
+        setRecipientCount(response.total);
+        setSampleCustomer(response.customers[0] || null);
+      })
+      .catch((error) => {
+        console.error("Failed to fetch segment customers:", error);
+        if (!cancelled) setRecipientCount(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, form.segment_id, form.channel]);
+
+  // Only agents with a connected integration for the channel can send
+  const senderAgents = agents.filter((agent) =>
+    agent.activeIntegrations?.includes(form.channel),
+  );
+
+  const handleChange = <K extends keyof CampaignInput>(
+    field: K,
+    value: CampaignInput[K],
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: "" }));
+  };
+
+  const handleChannelChange = (channel: CampaignChannel) => {
+    setForm((prev) => ({
+      ...prev,
+      channel,
+      sender_agent_id: "",
+      throttle_per_minute: DEFAULT_THROTTLE[channel],
+    }));
+    setErrors({});
+  };
+
+  const insertVariable = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const textarea = templateRef.current;
+    const start = textarea?.selectionStart ?? form.template.length;
+    const end = textarea?.selectionEnd ?? form.template.length;
+    handleChange(
+      "template",
+      form.template.slice(0, start) + placeholder + form.template.slice(end),
+    );
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(
+        start + placeholder.length,
+        start + placeholder.length,
+      );
+    });
+  };
+
+  const validateForm = (launch: boolean): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (!form.name.trim()) newErrors.name = "Nama campaign harus diisi";
+    if (!form.segment_id) newErrors.segment_id = "Pilih segment tujuan";
+    if (!form.template.trim()) newErrors.template = "Pesan harus diisi";
+    if (form.channel === "email" && !form.subject?.trim())
+      newErrors.subject = "Subject email harus diisi";
+
+    if (launch) {
+      if (!form.sender_agent_id)
+        newErrors.sender_agent_id = "Pilih agent pengirim";
+      if (recipientCount === 0)
+        newErrors.segment_id =
+          "Segment tidak memiliki penerima untuk channel ini";
+      if (sendMode === "schedule") {
+        if (!form.scheduled_at)
+          newErrors.scheduled_at = "Tentukan waktu pengiriman";
+        else if (new Date(form.scheduled_at).getTime() <= Date.now())
+          newErrors.scheduled_at = "Waktu pengiriman harus di masa depan";
+      }
+    }
+    if (form.throttle_per_minute < 1 || form.throttle_per_minute > 600)
+      newErrors.throttle_per_minute =
+        "Batas pengiriman antara 1 - 600 pesan/menit";
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (launch: boolean) => {
+    if (!validateForm(launch)) return;
+
+    setSubmitting(launch ? "launch" : "draft");
+    try {
+      await onSubmit(
+        {
+          ...form,
+          name: form.name.trim(),
+          subject: form.channel === "email" ? form.subject?.trim() : null,
+          template: form.template.trim(),
+          scheduled_at:
+            sendMode === "schedule" && form.scheduled_at
+              ? new Date(form.scheduled_at).toISOString()
+              : null,
+          opt_out_text: form.respect_opt_out
+            ? form.opt_out_text?.trim() || null
+            : null,
+        },
+        launch,
+      );
+      onClose();
+    } catch (error) {
+      // Parent is responsible for surfacing the error toast
+      console.error("Failed to save campaign:", error);
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const preview = renderMessageTemplate(form.template, {
+    customer: sampleCustomer || { name: "Budi Santoso" },
+  });
+
+  const errorText = (field: string) =>
+    errors[field] && (
+      <p className="text-xs text-red-500 font-medium">{errors[field]}</p>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5" />
+            {isEdit ? "Edit Campaign" : "Campaign Baru"}
+          </DialogTitle>
+          <DialogDescription>
+            Kirim pesan broadcast ke satu segment customer melalui integrasi
+            agent yang terhubung.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">
+              Nama Campaign <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="campaign-name"
+              placeholder="e.g. Promo Lebaran 2026"
+              value={form.name}
+              maxLength={120}
+              onChange={(e) => handleChange("name", e.target.value)}
+              className={errors.name ? "border-red-500" : ""}
+            />
+            {errorText("name")}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select
+                value={form.channel}
+                onValueChange={(v) => handleChannelChange(v as CampaignChannel)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CAMPAIGN_CHANNELS.map((ch) => (
+                    <SelectItem key={ch.value} value={ch.value}>
+                      {ch.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Agent Pengirim</Label>
+              <Select
+                value={form.sender_agent_id || undefined}
+                onValueChange={(v) => handleChange("sender_agent_id", v)}
+                disabled={senderAgents.length === 0}
+              >
+                <SelectTrigger
+                  className={errors.sender_agent_id ? "border-red-500" : ""}
+                >
+                  <SelectValue
+                    placeholder={
+                      senderAgents.length
+                        ? "Pilih agent..."
+                        : "Tidak ada integrasi terhubung"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {senderAgents.map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errorText("sender_agent_id")}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Segment Tujuan</Label>
+            <Select
+              value={form.segment_id || undefined}
+              onValueChange={(v) => handleChange("segment_id", v)}
+            >
+              <SelectTrigger
+                className={errors.segment_id ? "border-red-500" : ""}
+              >
+                <SelectValue
+                  placeholder={
+                    segments.length
+                      ? "Pilih segment..."
+                      : "Buat segment di Kontak Pelanggan terlebih dahulu"
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {segments.map((segment) => (
+                  <SelectItem key={segment.id} value={segment.id}>
+                    {segment.name} ({segment.customer_count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {recipientCount !== null && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Users className="w-3 h-3" />
+                {recipientCount} penerima memiliki kontak{" "}
+                {CAMPAIGN_CHANNELS.find((c) => c.value === form.channel)?.label}
+              </p>
+            )}
+            {errorText("segment_id")}
+          </div>
+
+          <Separator />
+
+          {form.channel === "email" && (
+            <div className="space-y-2">
+              <Label htmlFor="campaign-subject">Subject</Label>
+              <Input
+                id="campaign-subject"
+                value={form.subject || ""}
+                onChange={(e) => handleChange("subject", e.target.value)}
+                className={errors.subject ? "border-red-500" : ""}
+              />
+              {errorText("subject")}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-template">Pesan</Label>
+              <Textarea
+                id="campaign-template"
+                ref={templateRef}
+                rows={8}
+                value={form.template}
+                onChange={(e) => handleChange("template", e.target.value)}
+                className={`resize-none ${errors.template ? "border-red-500" : ""}`}
+              />
+              <div className="flex flex-wrap gap-1">
+                {CUSTOMER_TEMPLATE_VARIABLES.map((variable) => (
+                  <Badge
+                    key={variable.key}
+                    variant="outline"
+                    className="cursor-pointer text-[10px] hover:bg-muted"
+                    onClick={() => insertVariable(variable.key)}
+                  >
+                    {variable.label}
+                  </Badge>
+                ))}
+              </div>
+              {errorText("template")}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <div className="rounded-lg border bg-muted/40 p-3 text-sm whitespace-pre-wrap min-h-[170px]">
+                {preview}
+                {form.respect_opt_out && form.opt_out_text && (
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    {form.opt_out_text}
+                  </p>
+                )}
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Contoh untuk {sampleCustomer?.name || "customer contoh"}
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Waktu Pengiriman</Label>
+              <RadioGroup
+                value={sendMode}
+                onValueChange={(v) => setSendMode(v as "now" | "schedule")}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem id="send-now" value="now" />
+                  <Label htmlFor="send-now" className="font-normal">
+                    Kirim sekarang
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem id="send-schedule" value="schedule" />
+                  <Label htmlFor="send-schedule" className="font-normal">
+                    Jadwalkan
+                  </Label>
+                </div>
+              </RadioGroup>
+              {sendMode === "schedule" && (
+                <Input
+                  type="datetime-local"
+                  value={
+                    form.scheduled_at
+                      ? format(
+                          new Date(form.scheduled_at),
+                          "yyyy-MM-dd'T'HH:mm",
+                        )
+                      : ""
+                  }
+                  onChange={(e) =>
+                    handleChange("scheduled_at", e.target.value || null)
+                  }
+                  className={errors.scheduled_at ? "border-red-500" : ""}
+                />
+              )}
+              {errorText("scheduled_at")}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign-throttle">Batas Pengiriman</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="campaign-throttle"
+                  type="number"
+                  min={1}
+                  max={600}
+                  value={form.throttle_per_minute}
+                  onChange={(e) =>
+                    handleChange("throttle_per_minute", Number(e.target.value))
+                  }
+                  className={`w-24 ${errors.throttle_per_minute ? "border-red-500" : ""}`}
+                />
+                <span className="text-sm text-muted-foreground">
+                  pesan / menit
+                </span>
+              </div>
+              {recipientCount ? (
+                <p className="text-[10px] text-muted-foreground">
+                  Estimasi selesai dalam{" "}
+                  {Math.ceil(recipientCount / (form.throttle_per_minute || 1))}{" "}
+                  menit
+                </p>
+              ) : null}
+              {errorText("throttle_per_minute")}
+            </div>
+          </div>
+
+          <div className="space-y-2 p-3 rounded-lg bg-muted/50">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="campaign-opt-out"
+                checked={form.respect_opt_out}
+                onCheckedChange={(checked) =>
+                  handleChange("respect_opt_out", checked)
+                }
+              />
+              <Label htmlFor="campaign-opt-out">
+                Lewati customer yang berhenti berlangganan (opt-out)
+              </Label>
+            </div>
+            {form.respect_opt_out && (
+              <Input
+                placeholder={DEFAULT_OPT_OUT_TEXT}
+                value={form.opt_out_text || ""}
+                onChange={(e) => handleChange("opt_out_text", e.target.value)}
+                className="h-8 text-xs"
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={submitting !== null}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => handleSubmit(false)}
+            disabled={submitting !== null}
+          >
+            {submitting === "draft" && (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            )}
+            Simpan Draft
+          </Button>
+          <Button
+            onClick={() => handleSubmit(true)}
+            disabled={submitting !== null}
+          >
+            {submitting === "launch" && (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            )}
+            {sendMode === "schedule" ? "Jadwalkan" : "Kirim Sekarang"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
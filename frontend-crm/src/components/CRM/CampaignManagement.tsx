@@ -0,0 +1,621 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  BellOff,
+  CheckCheck,
+  Edit,
+  Eye,
+  Loader2,
+  Megaphone,
+  MessageSquareReply,
+  MoreHorizontal,
+  Pause,
+  Play,
+  Plus,
+  Send,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { CampaignFormDialog } from "./CampaignFormDialog";
+import { CampaignDetailDialog } from "./CampaignDetailDialog";
+import * as crmCampaignsService from "@/services/crmCampaignsService";
+import type {
+  Campaign,
+  CampaignInput,
+  CampaignOptOut,
+} from "@/services/crmCampaignsService";
+import { CAMPAIGN_STATUS_STYLES, getCampaignFunnel } from "@/lib/campaignStats";
+
+const POLL_INTERVAL_MS = 10000;
+
+export const CampaignManagement = () => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [detailCampaignId, setDetailCampaignId] = useState<string | null>(null);
+  const [campaignToDelete, setCampaignToDelete] = useState<Campaign | null>(
+    null,
+  );
+  const [campaignToCancel, setCampaignToCancel] = useState<Campaign | null>(
+    null,
+  );
+  const [optOuts, setOptOuts] = useState<CampaignOptOut[]>([]);
+  const [isLoadingOptOuts, setIsLoadingOptOuts] = useState(false);
+
+  const fetchCampaigns = async () => {
+    try {
+      setCampaigns(await crmCampaignsService.getCampaigns());
+    } catch (error) {
+      console.error("Failed to fetch campaigns:", error);
+      toast.error("Gagal memuat campaign");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchOptOuts = async () => {
+    setIsLoadingOptOuts(true);
+    try {
+      setOptOuts(await crmCampaignsService.getOptOuts());
+    } catch (error) {
+      console.error("Failed to fetch opt-outs:", error);
+    } finally {
+      setIsLoadingOptOuts(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, []);
+
+  // Keep stats fresh while something is sending or about to start
+  const hasActiveCampaign = campaigns.some((c) =>
+    ["running", "scheduled"].includes(c.status),
+  );
+  useEffect(() => {
+    if (!hasActiveCampaign) return;
+    const interval = setInterval(fetchCampaigns, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveCampaign]);
+
+  const detailCampaign = campaigns.find((c) => c.id === detailCampaignId);
+
+  const replaceCampaign = (updated: Campaign) =>
+    setCampaigns((prev) =>
+      prev.map((c) => (c.id === updated.id ? updated : c)),
+    );
+
+  const handleSaveCampaign = async (input: CampaignInput, launch: boolean) => {
+    try {
+      let saved = editingCampaign
+        ? await crmCampaignsService.updateCampaign(editingCampaign.id, input)
+        : await crmCampaignsService.createCampaign(input);
+      if (launch) saved = await crmCampaignsService.launchCampaign(saved.id);
+
+      setCampaigns((prev) =>
+        editingCampaign
+          ? prev.map((c) => (c.id === saved.id ? saved : c))
+          : [saved, ...prev],
+      );
+      toast.success(
+        !launch
+          ? "Draft campaign disimpan"
+          : saved.status === "scheduled"
+            ? "Campaign dijadwalkan"
+            : "Campaign mulai dikirim",
+      );
+    } catch (error) {
+      toast.error(error.message || "Gagal menyimpan campaign");
+      throw error;
+    }
+  };
+
+  const runAction = async (
+    action: (campaignId: string) => Promise<Campaign>,
+    campaign: Campaign,
+    successMessage: string,
+  ) => {
+    try {
+      replaceCampaign(await action(campaign.id));
+      toast.success(successMessage);
+    } catch (error) {
+      console.error("Campaign action failed:", error);
+      toast.error(error.message || "Aksi campaign gagal");
+    }
+  };
+
+  const handlePause = (campaign: Campaign) =>
+    runAction(crmCampaignsService.pauseCampaign, campaign, "Campaign dijeda");
+  const handleResume = (campaign: Campaign) =>
+    runAction(
+      crmCampaignsService.resumeCampaign,
+      campaign,
+      "Campaign dilanjutkan",
+    );
+  const handleLaunch = (campaign: Campaign) =>
+    runAction(
+      crmCampaignsService.launchCampaign,
+      campaign,
+      campaign.scheduled_at ? "Campaign dijadwalkan" : "Campaign mulai dikirim",
+    );
+
+  const handleConfirmCancel = async () => {
+    if (!campaignToCancel) return;
+    const campaign = campaignToCancel;
+    setCampaignToCancel(null);
+    await runAction(
+      crmCampaignsService.cancelCampaign,
+      campaign,
+      "Campaign dibatalkan",
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!campaignToDelete) return;
+    const campaign = campaignToDelete;
+    setCampaignToDelete(null);
+
+    try {
+      await crmCampaignsService.deleteCampaign(campaign.id);
+      setCampaigns((prev) => prev.filter((c) => c.id !== campaign.id));
+      toast.success("Campaign dihapus");
+    } catch (error) {
+      console.error("Failed to delete campaign:", error);
+      toast.error(error.message || "Gagal menghapus campaign");
+    }
+  };
+
+  const handleResubscribe = async (optOut: CampaignOptOut) => {
+    try {
+      await crmCampaignsService.deleteOptOut(optOut.id);
+      setOptOuts((prev) => prev.filter((o) => o.id !== optOut.id));
+      toast.success(`${optOut.customer_name || "Customer"} berlangganan lagi`);
+    } catch (error) {
+      console.error("Failed to remove opt-out:", error);
+      toast.error(error.message || "Gagal menghapus opt-out");
+    }
+  };
+
+  // Summary across all campaigns
+  const totals = campaigns.reduce(
+    (acc, c) => {
+      const funnel = getCampaignFunnel(c.stats);
+      return {
+        sent: acc.sent + funnel.sent.count,
+        read: acc.read + funnel.read.count,
+        replied: acc.replied + funnel.replied.count,
+      };
+    },
+    { sent: 0, read: 0, replied: 0 },
+  );
+  const percentOf = (value: number) =>
+    totals.sent > 0 ? ((value / totals.sent) * 100).toFixed(1) : "0";
+
+  const summaryCards = [
+    {
+      title: "Campaign",
+      value: campaigns.length,
+      note: `${campaigns.filter((c) => c.status === "running").length} sedang dikirim`,
+      icon: Megaphone,
+    },
+    {
+      title: "Pesan Terkirim",
+      value: totals.sent,
+      note: "Semua campaign",
+      icon: Send,
+    },
+    {
+      title: "Read Rate",
+      value: `${percentOf(totals.read)}%`,
+      note: `${totals.read} dibaca`,
+      icon: CheckCheck,
+    },
+    {
+      title: "Reply Rate",
+      value: `${percentOf(totals.replied)}%`,
+      note: `${totals.replied} dibalas`,
+      icon: MessageSquareReply,
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {/* Summary Cards */}
+      <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map((card) => (
+          <Card key={card.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1.5 pt-3 px-3">
+              <CardTitle className="text-xs font-medium">
+                {card.title}
+              </CardTitle>
+              <card.icon className="h-3.5 w-3.5 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="px-3 pb-3">
+              <div className="text-xl font-bold">{card.value}</div>
+              <p className="text-[10px] text-muted-foreground">{card.note}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs
+        defaultValue="campaigns"
+        onValueChange={(tab) => tab === "opt-outs" && fetchOptOuts()}
+      >
+        <div className="flex items-center justify-between">
+          <TabsList>
+            <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+            <TabsTrigger value="opt-outs">Opt-out</TabsTrigger>
+          </TabsList>
+          <Button
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => {
+              setEditingCampaign(null);
+              setFormOpen(true);
+            }}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1.5" />
+            Campaign Baru
+          </Button>
+        </div>
+
+        <TabsContent value="campaigns" className="mt-3">
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Segment</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-48">Progress</TableHead>
+                  <TableHead className="text-right">Read</TableHead>
+                  <TableHead className="text-right">Reply</TableHead>
+                  <TableHead>Jadwal</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="h-24 text-center">
+                      <div className="flex items-center justify-center gap-2 text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Loading data...
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : campaigns.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={9}
+                      className="text-center py-8 text-muted-foreground"
+                    >
+                      Belum ada campaign
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  campaigns.map((campaign) => {
+                    const funnel = getCampaignFunnel(campaign.stats);
+                    const processed =
+                      campaign.stats.total - campaign.stats.pending;
+                    const isEditable = ["draft", "scheduled"].includes(
+                      campaign.status,
+                    );
+
+                    return (
+                      <TableRow
+                        key={campaign.id}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setDetailCampaignId(campaign.id)}
+                      >
+                        <TableCell className="font-medium">
+                          {campaign.name}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {
+                            crmCampaignsService.CAMPAIGN_CHANNELS.find(
+                              (c) => c.value === campaign.channel,
+                            )?.label
+                          }
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {campaign.segment_name || "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            className={
+                              CAMPAIGN_STATUS_STYLES[campaign.status].className
+                            }
+                          >
+                            {CAMPAIGN_STATUS_STYLES[campaign.status].label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="space-y-1">
+                            <Progress
+                              value={
+                                campaign.stats.total
+                                  ? (processed / campaign.stats.total) * 100
+                                  : 0
+                              }
+                              className="h-1.5"
+                            />
+                            <p className="text-[10px] text-muted-foreground">
+                              {processed} / {campaign.stats.total}
+                            </p>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {funnel.read.rate.toFixed(0)}%
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {funnel.replied.rate.toFixed(0)}%
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {campaign.scheduled_at
+                            ? format(
+                                new Date(campaign.scheduled_at),
+                                "dd MMM yyyy HH:mm",
+                              )
+                            : "-"}
+                        </TableCell>
+                        <TableCell
+                          className="text-right"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() => setDetailCampaignId(campaign.id)}
+                              >
+                                <Eye className="h-4 w-4 mr-2" />
+                                Detail
+                              </DropdownMenuItem>
+                              {isEditable && (
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    setEditingCampaign(campaign);
+                                    setFormOpen(true);
+                                  }}
+                                >
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit
+                                </DropdownMenuItem>
+                              )}
+                              {campaign.status === "draft" && (
+                                <DropdownMenuItem
+                                  onClick={() => handleLaunch(campaign)}
+                                >
+                                  <Send className="h-4 w-4 mr-2" />
+                                  {campaign.scheduled_at
+                                    ? "Jadwalkan"
+                                    : "Kirim Sekarang"}
+                                </DropdownMenuItem>
+                              )}
+                              {campaign.status === "running" && (
+                                <DropdownMenuItem
+                                  onClick={() => handlePause(campaign)}
+                                >
+                                  <Pause className="h-4 w-4 mr-2" />
+                                  Pause
+                                </DropdownMenuItem>
+                              )}
+                              {campaign.status === "paused" && (
+                                <DropdownMenuItem
+                                  onClick={() => handleResume(campaign)}
+                                >
+                                  <Play className="h-4 w-4 mr-2" />
+                                  Resume
+                                </DropdownMenuItem>
+                              )}
+                              {["scheduled", "running", "paused"].includes(
+                                campaign.status,
+                              ) && (
+                                <DropdownMenuItem
+                                  onClick={() => setCampaignToCancel(campaign)}
+                                >
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Batalkan
+                                </DropdownMenuItem>
+                              )}
+                              {campaign.status === "draft" && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onClick={() =>
+                                      setCampaignToDelete(campaign)
+                                    }
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Hapus
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="opt-outs" className="mt-3">
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Alasan</TableHead>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingOptOuts ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      <Loader2 className="h-4 w-4 animate-spin inline" />
+                    </TableCell>
+                  </TableRow>
+                ) : optOuts.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center py-8 text-muted-foreground"
+                    >
+                      Belum ada customer yang berhenti berlangganan
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  optOuts.map((optOut) => (
+                    <TableRow key={optOut.id}>
+                      <TableCell className="font-medium">
+                        {optOut.customer_name || "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {
+                          crmCampaignsService.CAMPAIGN_CHANNELS.find(
+                            (c) => c.value === optOut.channel,
+                          )?.label
+                        }
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {optOut.reason || "-"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {format(new Date(optOut.created_at), "dd MMM yyyy")}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => handleResubscribe(optOut)}
+                        >
+                          <BellOff className="h-3.5 w-3.5 mr-1.5" />
+                          Hapus opt-out
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <CampaignFormDialog
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSubmit={handleSaveCampaign}
+        campaign={editingCampaign}
+      />
+
+      <CampaignDetailDialog
+        open={Boolean(detailCampaign)}
+        onClose={() => setDetailCampaignId(null)}
+        campaign={detailCampaign || null}
+        onPause={handlePause}
+        onResume={handleResume}
+        onCancel={setCampaignToCancel}
+      />
+
+      <AlertDialog
+        open={Boolean(campaignToCancel)}
+        onOpenChange={(open) => !open && setCampaignToCancel(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Batalkan campaign "{campaignToCancel?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Pesan yang belum terkirim tidak akan dikirim. Campaign yang
+              dibatalkan tidak dapat dilanjutkan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Kembali</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmCancel}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Batalkan Campaign
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={Boolean(campaignToDelete)}
+        onOpenChange={(open) => !open && setCampaignToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus campaign "{campaignToDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Draft campaign akan dihapus permanen.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, MessageSquareText, Star } from "lucide-react";
+import { toast } from "sonner";
+import * as crmCannedResponsesService from "@/services/crmCannedResponsesService";
+import type { CannedResponse } from "@/services/crmCannedResponsesService";
+
+interface CannedResponsePickerProps {
+  open: boolean;
+  query: string; // Text typed after the slash
+  onSelect: (response: CannedResponse) => void;
+  onClose: () => void;
+}
+
+export interface CannedResponsePickerHandle {
+  /** Returns true when the key was consumed by the picker */
+  handleKeyDown: (e: React.KeyboardEvent) => boolean;
+}
+
+const FAVORITES = "__favorites__";
+
+/**
+ * Slash-command picker shown above the chat input.
+ * Keyboard navigation is driven by the input through the imperative handle.
+ */
+export const CannedResponsePicker = forwardRef<
+  CannedResponsePickerHandle,
+  CannedResponsePickerProps
+>(({ open, query, onSelect, onClose }, ref) => {
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [category, setCategory] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Load once, on first open
+  useEffect(() => {
+    if (!open || hasLoaded) return;
+
+    const fetchResponses = async () => {
+      setIsLoading(true);
+      try {
+        setResponses(await crmCannedResponsesService.getCannedResponses());
+        setHasLoaded(true);
+      } catch (error) {
+        console.error("Failed to fetch canned responses:", error);
+        toast.error("Gagal memuat canned response");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchResponses();
+  }, [open, hasLoaded]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query, category, open]);
+
+  const categories = Array.from(
+    new Set(responses.map((r) => r.category).filter(Boolean) as string[]),
+  ).sort();
+
+  const search = query.trim().toLowerCase();
+  const filtered = responses
+    .filter((r) =>
+      category === FAVORITES
+        ? r.is_favorite
+        : !category || r.category === category,
+    )
+    .filter(
+      (r) =>
+        !search ||
+        r.shortcut.startsWith(search) ||
+        r.title.toLowerCase().includes(search),
+    );
+
+  // Keep the highlighted row visible
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  useImperativeHandle(ref, () => ({
+    handleKeyDown: (e: React.KeyboardEvent) => {
+      if (!open) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          setActiveIndex((i) =>
+            filtered.length ? (i + 1) % filtered.length : 0,
+          );
+          break;
+        case "ArrowUp":
+          setActiveIndex((i) =>
+            filtered.length ? (i - 1 + filtered.length) % filtered.length : 0,
+          );
+          break;
+        case "Enter":
+        case "Tab":
+          if (!filtered[activeIndex]) return false;
+          onSelect(filtered[activeIndex]);
+          break;
+        case "Escape":
+          onClose();
+          break;
+        default:
+          return false;
+      }
+
+      e.preventDefault();
+      return true;
+    },
+  }));
+
+  const handleToggleFavorite = async (response: CannedResponse) => {
+    const isFavorite = !response.is_favorite;
+    const applyFavorite = (value: boolean) =>
+      setResponses((prev) =>
+        prev.map((r) =>
+          r.id === response.id ? { ...r, is_favorite: value } : r,
+        ),
+      );
+
+    applyFavorite(isFavorite);
+    try {
+      await crmCannedResponsesService.setCannedResponseFavorite(
+        response.id,
+        isFavorite,
+      );
+    } catch (error) {
+      console.error("Failed to update favourite:", error);
+      toast.error("Gagal memperbarui favorit");
+      applyFavorite(!isFavorite);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-lg border bg-popover shadow-lg">
+      <div className="flex items-center gap-1 border-b p-2 overflow-x-auto">
+        <MessageSquareText className="w-4 h-4 text-muted-foreground flex-shrink-0 mr-1" />
+        {[
+          { value: null, label: "Semua" },
+          { value: FAVORITES, label: "Favorit" },
+          ...categories.map((c) => ({ value: c, label: c })),
+        ].map((option) => (
+          <Badge
+            key={option.value ?? "all"}
+            variant={category === option.value ? "default" : "outline"}
+            className="cursor-pointer whitespace-nowrap text-[10px]"
+            // Keep focus in the message input
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => setCategory(option.value)}
+          >
+            {option.label}
+          </Badge>
+        ))}
+      </div>
+
+      <div ref={listRef} className="max-h-64 overflow-y-auto p-1">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-6">
+            {responses.length === 0
+              ? "Belum ada canned response. Tambahkan di Organization Settings."
+              : "Tidak ada canned response yang cocok"}
+          </p>
+        ) : (
+          filtered.map((response, index) => (
+            <div
+              key={response.id}
+              data-index={index}
+              className={`flex items-start gap-2 rounded-md px-2 py-1.5 cursor-pointer ${
+                index === activeIndex ? "bg-accent" : "hover:bg-muted"
+              }`}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onSelect(response)}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">
+                    {response.title}
+                  </span>
+                  <span className="text-[10px] font-mono text-muted-foreground">
+                    /{response.shortcut}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {response.content}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 flex-shrink-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleToggleFavorite(response);
+                }}
+              >
+                <Star
+                  className={`w-3.5 h-3.5 ${
+                    response.is_favorite
+                      ? "fill-amber-400 text-amber-400"
+                      : "text-muted-foreground"
+                  }`}
+                />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="border-t px-2 py-1 text-[10px] text-muted-foreground">
+        ↑↓ pilih · Enter/Tab sisipkan · Esc tutup
+      </div>
+    </div>
+  );
+});
+
+CannedResponsePicker.displayName = "CannedResponsePicker";
@@ -0,0 +1,465 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Edit,
+  Loader2,
+  MessageSquareText,
+  Plus,
+  Search,
+  Star,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import * as crmCannedResponsesService from "@/services/crmCannedResponsesService";
+import type {
+  CannedResponse,
+  CannedResponseInput,
+} from "@/services/crmCannedResponsesService";
+import { CHAT_TEMPLATE_VARIABLES } from "@/lib/messageTemplate";
+
+interface CannedResponseSettingsProps {
+  canEdit: boolean;
+}
+
+const SHORTCUT_REGEX = /^[a-z0-9_-]+$/;
+
+const emptyResponse = (): CannedResponseInput => ({
+  title: "",
+  shortcut: "",
+  content: "",
+  category: "",
+});
+
+export const CannedResponseSettings = ({
+  canEdit,
+}: CannedResponseSettingsProps) => {
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  // Editor dialog state. `editingId` is null when creating a new response.
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CannedResponseInput>(emptyResponse());
+  const [isSaving, setIsSaving] = useState(false);
+  const [responseToDelete, setResponseToDelete] =
+    useState<CannedResponse | null>(null);
+
+  const fetchResponses = async () => {
+    setIsLoading(true);
+    try {
+      setResponses(await crmCannedResponsesService.getCannedResponses());
+    } catch (error) {
+      console.error("Failed to fetch canned responses:", error);
+      toast.error("Gagal memuat canned response");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchResponses();
+  }, []);
+
+  const categories = Array.from(
+    new Set(responses.map((r) => r.category).filter(Boolean) as string[]),
+  ).sort();
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredResponses = responses.filter(
+    (r) =>
+      !query ||
+      r.title.toLowerCase().includes(query) ||
+      r.shortcut.includes(query) ||
+      r.content.toLowerCase().includes(query),
+  );
+
+  // Group by category, uncategorized last
+  const grouped = [...categories, ""]
+    .map((category) => ({
+      category,
+      items: filteredResponses.filter((r) => (r.category || "") === category),
+    }))
+    .filter((group) => group.items.length > 0);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(emptyResponse());
+    setEditorOpen(true);
+  };
+
+  const openEdit = (response: CannedResponse) => {
+    setEditingId(response.id);
+    setDraft({
+      title: response.title,
+      shortcut: response.shortcut,
+      content: response.content,
+      category: response.category || "",
+    });
+    setEditorOpen(true);
+  };
+
+  const handleSave = async () => {
+    const title = draft.title.trim();
+    const shortcut = draft.shortcut.trim().replace(/^\//, "").toLowerCase();
+    const content = draft.content.trim();
+
+    if (!title) {
+      toast.error("Judul harus diisi");
+      return;
+    }
+    if (!SHORTCUT_REGEX.test(shortcut)) {
+      toast.error("Shortcut hanya boleh berisi huruf kecil, angka, - dan _");
+      return;
+    }
+    if (responses.some((r) => r.shortcut === shortcut && r.id !== editingId)) {
+      toast.error(`Shortcut "/${shortcut}" sudah digunakan`);
+      return;
+    }
+    if (!content) {
+      toast.error("Isi pesan harus diisi");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        title,
+        shortcut,
+        content,
+        category: draft.category?.trim() || null,
+      };
+      if (editingId) {
+        await crmCannedResponsesService.updateCannedResponse(
+          editingId,
+          payload,
+        );
+      } else {
+        await crmCannedResponsesService.createCannedResponse(payload);
+      }
+      toast.success("Canned response berhasil disimpan");
+      setEditorOpen(false);
+      await fetchResponses();
+    } catch (error) {
+      console.error("Failed to save canned response:", error);
+      toast.error(error.message || "Gagal menyimpan canned response");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!responseToDelete) return;
+    const response = responseToDelete;
+    setResponseToDelete(null);
+
+    try {
+      await crmCannedResponsesService.deleteCannedResponse(response.id);
+      toast.success("Canned response berhasil dihapus");
+      setResponses((prev) => prev.filter((r) => r.id !== response.id));
+    } catch (error) {
+      console.error("Failed to delete canned response:", error);
+      toast.error(error.message || "Gagal menghapus canned response");
+    }
+  };
+
+  const handleToggleFavorite = async (response: CannedResponse) => {
+    const isFavorite = !response.is_favorite;
+    setResponses((prev) =>
+      prev.map((r) =>
+        r.id === response.id ? { ...r, is_favorite: isFavorite } : r,
+      ),
+    );
+    try {
+      await crmCannedResponsesService.setCannedResponseFavorite(
+        response.id,
+        isFavorite,
+      );
+    } catch (error) {
+      console.error("Failed to update favourite:", error);
+      toast.error("Gagal memperbarui favorit");
+      setResponses((prev) =>
+        prev.map((r) =>
+          r.id === response.id ? { ...r, is_favorite: !isFavorite } : r,
+        ),
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareText className="w-5 h-5" />
+              Canned Responses
+            </CardTitle>
+            <CardDescription>
+              Balasan siap pakai untuk agent. Ketik <code>/shortcut</code> di
+              kolom pesan untuk menyisipkan.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Response
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Cari judul, shortcut atau isi..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        {isLoading && responses.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : grouped.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Belum ada canned response
+          </p>
+        ) : (
+          grouped.map((group) => (
+            <div key={group.category || "uncategorized"} className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground uppercase">
+                {group.category || "Tanpa kategori"}
+              </p>
+              {group.items.map((response) => (
+                <div
+                  key={response.id}
+                  className="flex items-start gap-3 p-2 rounded-md border"
+                >
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 flex-shrink-0"
+                    onClick={() => handleToggleFavorite(response)}
+                  >
+                    <Star
+                      className={`w-3.5 h-3.5 ${
+                        response.is_favorite
+                          ? "fill-amber-400 text-amber-400"
+                          : "text-muted-foreground"
+                      }`}
+                    />
+                  </Button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">
+                        {response.title}
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className="text-[10px] font-mono"
+                      >
+                        /{response.shortcut}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-wrap">
+                      {response.content}
+                    </p>
+                  </div>
+                  <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                    {response.usage_count}x dipakai
+                  </span>
+                  {canEdit && (
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => openEdit(response)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setResponseToDelete(response)}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? "Edit Canned Response" : "Canned Response Baru"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="canned-title">Judul</Label>
+                <Input
+                  id="canned-title"
+                  placeholder="e.g. Salam pembuka"
+                  value={draft.title}
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, title: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="canned-shortcut">Shortcut</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                    /
+                  </span>
+                  <Input
+                    id="canned-shortcut"
+                    placeholder="salam"
+                    value={draft.shortcut}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        shortcut: e.target.value,
+                      }))
+                    }
+                    className="pl-6 font-mono"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="canned-category">Kategori</Label>
+              <Input
+                id="canned-category"
+                list="canned-categories"
+                placeholder="e.g. Pembayaran"
+                value={draft.category || ""}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, category: e.target.value }))
+                }
+              />
+              <datalist id="canned-categories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="canned-content">Isi Pesan</Label>
+              <Textarea
+                id="canned-content"
+                rows={6}
+                value={draft.content}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, content: e.target.value }))
+                }
+                className="resize-none"
+              />
+              <div className="flex flex-wrap gap-1">
+                {CHAT_TEMPLATE_VARIABLES.map((variable) => (
+                  <Badge
+                    key={variable.key}
+                    variant="outline"
+                    className="cursor-pointer text-[10px] hover:bg-muted"
+                    onClick={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        content: `${prev.content}{{${variable.key}}}`,
+                      }))
+                    }
+                  >
+                    {variable.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditorOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={Boolean(responseToDelete)}
+        onOpenChange={(open) => !open && setResponseToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus canned response "{responseToDelete?.title}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Shortcut /{responseToDelete?.shortcut} tidak bisa dipakai lagi
+              oleh agent.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,407 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { BellRing, Clock, Loader2, Trash2 } from "lucide-react";
+import * as crmRemindersService from "@/services/crmRemindersService";
+import type { FollowUpReminder } from "@/services/crmRemindersService";
+import type {
+  ChatSnoozeMode,
+  SnoozeChatRequest,
+} from "@/services/crmChatsService";
+import { getSnoozePresets, toDateTimeLocalValue } from "@/lib/chatSnooze";
+
+const NO_TICKET = "none";
+
+/**
+ * Preset buttons plus a datetime input, shared by both dialogs
+ */
+const DateTimePicker = ({
+  value,
+  onChange,
+  error,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+}) => (
+  <div className="space-y-2">
+    <div className="grid grid-cols-2 gap-2">
+      {getSnoozePresets().map((preset) => {
+        const presetValue = toDateTimeLocalValue(preset.until);
+        return (
+          <Button
+            key={preset.label}
+            type="button"
+            variant={value === presetValue ? "secondary" : "outline"}
+            size="sm"
+            className="h-8 justify-start text-xs font-normal"
+            onClick={() => onChange(presetValue)}
+          >
+            {preset.label}
+          </Button>
+        );
+      })}
+    </div>
+    <Input
+      type="datetime-local"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={error ? "border-red-500" : ""}
+    />
+    {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+  </div>
+);
+
+// Returns an error message, or null when the value is a future date
+const validateFutureDate = (value: string): string | null => {
+  if (!value) return "Pilih waktu";
+  if (new Date(value) <= new Date()) return "Waktu harus di masa depan";
+  return null;
+};
+
+interface SnoozeChatDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (data: SnoozeChatRequest) => Promise<void> | void;
+}
+
+/**
+ * Hide a chat from the active list until a date or the customer's reply
+ */
+export const SnoozeChatDialog = ({
+  open,
+  onClose,
+  onConfirm,
+}: SnoozeChatDialogProps) => {
+  const [mode, setMode] = useState<ChatSnoozeMode>("until_date");
+  const [until, setUntil] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setMode("until_date");
+      setUntil(toDateTimeLocalValue(getSnoozePresets()[1].until));
+      setError("");
+    }
+  }, [open]);
+
+  const handleConfirm = async () => {
+    if (mode === "until_date") {
+      const dateError = validateFutureDate(until);
+      if (dateError) {
+        setError(dateError);
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm({
+        mode,
+        until:
+          mode === "until_date" ? new Date(until).toISOString() : undefined,
+      });
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Tunda Chat
+          </DialogTitle>
+          <DialogDescription>
+            Chat disembunyikan dari daftar aktif dan muncul lagi di paling atas
+            saat waktunya tiba.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={mode}
+          onValueChange={(v) => {
+            setMode(v as ChatSnoozeMode);
+            setError("");
+          }}
+          className="space-y-2"
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem id="snooze-until-date" value="until_date" />
+            <Label htmlFor="snooze-until-date" className="font-normal">
+              Sampai waktu tertentu
+            </Label>
+          </div>
+          {mode === "until_date" && (
+            <div className="pl-6">
+              <DateTimePicker
+                value={until}
+                onChange={(value) => {
+                  setUntil(value);
+                  setError("");
+                }}
+                error={error}
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <RadioGroupItem id="snooze-until-reply" value="until_reply" />
+            <Label htmlFor="snooze-until-reply" className="font-normal">
+              Sampai customer membalas
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Tunda
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface FollowUpReminderDialogProps {
+  open: boolean;
+  onClose: () => void;
+  chatId: string;
+  tickets: { id: string; ticketNumber: string; title: string }[];
+}
+
+/**
+ * Schedule follow-up reminders on a chat or one of its tickets
+ */
+export const FollowUpReminderDialog = ({
+  open,
+  onClose,
+  chatId,
+  tickets,
+}: FollowUpReminderDialogProps) => {
+  const [reminders, setReminders] = useState<FollowUpReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [ticketId, setTicketId] = useState(NO_TICKET);
+  const [remindAt, setRemindAt] = useState("");
+  const [note, setNote] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open || !chatId) return;
+    let cancelled = false;
+
+    setTicketId(NO_TICKET);
+    setRemindAt(toDateTimeLocalValue(getSnoozePresets()[1].until));
+    setNote("");
+    setErrors({});
+    setIsLoading(true);
+    crmRemindersService
+      .getReminders({ chat_id: chatId, status: "scheduled" })
+      .then((data) => {
+        if (!cancelled) setReminders(data);
+      })
+      .catch((error) => {
+        console.error("Failed to fetch reminders:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, chatId]);
+
+  const handleCreate = async () => {
+    const newErrors: Record<string, string> = {};
+    const dateError = validateFutureDate(remindAt);
+    if (dateError) newErrors.remindAt = dateError;
+    if (!note.trim()) newErrors.note = "Catatan pengingat harus diisi";
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const reminder = await crmRemindersService.createReminder({
+        chat_id: chatId,
+        ticket_id: ticketId === NO_TICKET ? null : ticketId,
+        remind_at: new Date(remindAt).toISOString(),
+        note: note.trim(),
+      });
+      setReminders((prev) =>
+        [...prev, reminder].sort((a, b) =>
+          a.remind_at.localeCompare(b.remind_at),
+        ),
+      );
+      setNote("");
+      toast.success("Pengingat follow-up dijadwalkan");
+    } catch (error) {
+      console.error("Failed to create reminder:", error);
+      toast.error(error.message || "Gagal membuat pengingat");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (reminderId: string) => {
+    try {
+      await crmRemindersService.deleteReminder(reminderId);
+      setReminders((prev) => prev.filter((r) => r.id !== reminderId));
+    } catch (error) {
+      console.error("Failed to delete reminder:", error);
+      toast.error(error.message || "Gagal menghapus pengingat");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="w-5 h-5" />
+            Pengingat Follow-up
+          </DialogTitle>
+          <DialogDescription>
+            Anda akan diberi notifikasi dan chat dimunculkan lagi di paling atas
+            pada waktunya.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {tickets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Terkait</Label>
+              <Select value={ticketId} onValueChange={setTicketId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TICKET}>Chat ini</SelectItem>
+                  {tickets.map((ticket) => (
+                    <SelectItem key={ticket.id} value={ticket.id}>
+                      {ticket.ticketNumber} · {ticket.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Waktu</Label>
+            <DateTimePicker
+              value={remindAt}
+              onChange={(value) => {
+                setRemindAt(value);
+                setErrors((prev) => ({ ...prev, remindAt: "" }));
+              }}
+              error={errors.remindAt}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Catatan</Label>
+            <Textarea
+              rows={2}
+              placeholder="Contoh: kabari customer soal status pengiriman"
+              value={note}
+              onChange={(e) => {
+                setNote(e.target.value);
+                setErrors((prev) => ({ ...prev, note: "" }));
+              }}
+              className={errors.note ? "border-red-500" : ""}
+            />
+            {errors.note && (
+              <p className="text-xs text-red-500 font-medium">{errors.note}</p>
+            )}
+          </div>
+
+          <Button className="w-full" onClick={handleCreate} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Jadwalkan Pengingat
+          </Button>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">
+              Pengingat terjadwal
+            </Label>
+            {isLoading ? (
+              <div className="flex justify-center py-3">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : reminders.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Belum ada pengingat untuk chat ini
+              </p>
+            ) : (
+              reminders.map((reminder) => (
+                <div
+                  key={reminder.id}
+                  className="flex items-start justify-between gap-2 rounded-md border p-2 text-xs"
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="font-medium">
+                      {new Date(reminder.remind_at).toLocaleString()}
+                      {reminder.ticket_number && (
+                        <span className="ml-1 text-muted-foreground font-normal">
+                          · {reminder.ticket_number}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-muted-foreground break-words">
+                      {reminder.note}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={() => handleDelete(reminder.id)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Tutup
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, Phone, SearchX, User } from "lucide-react";
+import * as crmChatsService from "@/services/crmChatsService";
+import type {
+  CommunicationChannel,
+  MessageSearchResult,
+} from "@/services/crmChatsService";
+
+interface ChatMessageSearchProps {
+  query: string;
+  channel?: CommunicationChannel;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+const PAGE_SIZE = 20;
+const DEBOUNCE_MS = 350;
+const MIN_QUERY_LENGTH = 2;
+
+const SENDER_LABELS: Record<string, string> = {
+  customer: "Customer",
+  agent: "Agent",
+  ai: "AI",
+  note: "Catatan",
+};
+
+// Split the snippet into plain and highlighted parts
+const splitHighlights = (text: string, ranges: [number, number][]) => {
+  const parts: { text: string; isMatch: boolean }[] = [];
+  let cursor = 0;
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      if (start < cursor) return;
+      if (start > cursor)
+        parts.push({ text: text.slice(cursor, start), isMatch: false });
+      parts.push({ text: text.slice(start, end), isMatch: true });
+      cursor = end;
+    });
+  if (cursor < text.length)
+    parts.push({ text: text.slice(cursor), isMatch: false });
+  return parts;
+};
+
+/**
+ * Server-side search results for the chat sidebar
+ */
+export const ChatMessageSearch = ({
+  query,
+  channel,
+  onSelect,
+}: ChatMessageSearchProps) => {
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await crmChatsService.searchMessages({
+          q: trimmedQuery,
+          channel,
+          limit: PAGE_SIZE,
+        });
+        if (cancelled) return;
+        setResults(response.results || []);
+        setTotal(response.total || 0);
+      } catch (error) {
+        console.error("Failed to search messages:", error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trimmedQuery, channel]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const response = await crmChatsService.searchMessages({
+        q: trimmedQuery,
+        channel,
+        skip: results.length,
+        limit: PAGE_SIZE,
+      });
+      setResults((prev) => [...prev, ...(response.results || [])]);
+      setTotal(response.total || 0);
+    } catch (error) {
+      console.error("Failed to load more search results:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+    return (
+      <p className="p-6 text-center text-xs text-muted-foreground">
+        Ketik minimal {MIN_QUERY_LENGTH} karakter untuk mencari di isi pesan,
+        nama, dan nomor customer
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 p-8 text-center text-muted-foreground">
+        <SearchX className="h-6 w-6" />
+        <p className="text-xs">Tidak ada hasil untuk "{trimmedQuery}"</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      <p className="px-3 py-2 text-[11px] text-muted-foreground">
+        {total} hasil
+      </p>
+      {results.map((result) => (
+        <button
+          key={`${result.chat_id}-${result.message_id || result.matched_field}`}
+          type="button"
+          onClick={() => onSelect(result)}
+          className="w-full px-3 py-2.5 text-left hover:bg-muted/50 transition-colors"
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm font-medium truncate">
+              {result.customer_name}
+            </span>
+            <Badge
+              variant="outline"
+              className="text-[9px] h-4 px-1 capitalize shrink-0"
+            >
+              {result.channel}
+            </Badge>
+            <span className="ml-auto text-[10px] text-muted-foreground shrink-0">
+              {new Date(result.created_at).toLocaleDateString()}
+            </span>
+          </div>
+          <div className="flex items-start gap-1.5 text-xs text-muted-foreground">
+            {result.matched_field === "customer_phone" ? (
+              <Phone className="h-3 w-3 mt-0.5 shrink-0" />
+            ) : result.matched_field === "customer_name" ? (
+              <User className="h-3 w-3 mt-0.5 shrink-0" />
+            ) : (
+              result.sender_type && (
+                <span className="font-medium shrink-0">
+                  {SENDER_LABELS[result.sender_type] || result.sender_type}:
+                </span>
+              )
+            )}
+            <p className="line-clamp-2 break-words">
+              {splitHighlights(result.snippet, result.highlights || []).map(
+                (part, index) =>
+                  part.isMatch ? (
+                    <mark
+                      key={index}
+                      className="bg-yellow-200 dark:bg-yellow-500/40 text-foreground rounded-sm px-0.5"
+                    >
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  ),
+              )}
+            </p>
+          </div>
+        </button>
+      ))}
+      {results.length < total && (
+        <div className="p-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-xs"
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore && <Loader2 className="w-3 h-3 mr-2 animate-spin" />}
+            Muat hasil lainnya
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { CheckCircle2, Download, FileText, Loader2, Mail } from "lucide-react";
+import * as crmChatsService from "@/services/crmChatsService";
+import type { TranscriptFormat } from "@/services/crmChatsService";
+
+const FORMAT_OPTIONS: {
+  value: TranscriptFormat;
+  label: string;
+  description: string;
+}[] = [
+  { value: "pdf", label: "PDF", description: "Untuk arsip dan sengketa" },
+  { value: "html", label: "HTML", description: "Dibuka di browser" },
+  { value: "json", label: "JSON", description: "Untuk audit & integrasi" },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Customer email of the chat, loaded when a dialog opens
+ */
+const useCustomerEmail = (chatId: string, open: boolean) => {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !chatId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    crmChatsService
+      .getChat(chatId)
+      .then((chat) => {
+        if (!cancelled) setEmail(chat.customer?.email || "");
+      })
+      .catch((error) => {
+        console.error("Failed to load chat customer:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, open]);
+
+  return { email, setEmail, isLoading };
+};
+
+const triggerBrowserDownload = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+interface ChatTranscriptDialogProps {
+  open: boolean;
+  onClose: () => void;
+  chatId: string;
+  customerName: string;
+}
+
+/**
+ * Download the chat transcript or email it to the customer
+ */
+export const ChatTranscriptDialog = ({
+  open,
+  onClose,
+  chatId,
+  customerName,
+}: ChatTranscriptDialogProps) => {
+  const [format, setFormat] = useState<TranscriptFormat>("pdf");
+  const [includeNotes, setIncludeNotes] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [emailError, setEmailError] = useState("");
+  const {
+    email,
+    setEmail,
+    isLoading: isLoadingEmail,
+  } = useCustomerEmail(chatId, open);
+
+  useEffect(() => {
+    if (open) setEmailError("");
+  }, [open]);
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await crmChatsService.exportChatTranscript(chatId, format, {
+        include_notes: includeNotes,
+      });
+      const safeName = customerName.replace(/[^a-z0-9]+/gi, "-").toLowerCase();
+      const date = new Date().toISOString().slice(0, 10);
+      triggerBrowserDownload(blob, `transcript-${safeName}-${date}.${format}`);
+      toast.success("Transkrip berhasil diunduh");
+    } catch (error) {
+      console.error("Failed to export transcript:", error);
+      toast.error(error.message || "Gagal mengekspor transkrip");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSendEmail = async () => {
+    if (!EMAIL_PATTERN.test(email.trim())) {
+      setEmailError("Masukkan email yang valid");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const { sent_to } = await crmChatsService.emailChatTranscript(chatId, {
+        email: email.trim(),
+      });
+      toast.success(`Transkrip dikirim ke ${sent_to}`);
+    } catch (error) {
+      console.error("Failed to email transcript:", error);
+      toast.error(error.message || "Gagal mengirim transkrip");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Transkrip Percakapan
+          </DialogTitle>
+          <DialogDescription>
+            Seluruh pesan dengan pengirim (customer, AI, agent), lampiran, dan
+            riwayat escalation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(v) => setFormat(v as TranscriptFormat)}
+              className="grid grid-cols-3 gap-2"
+            >
+              {FORMAT_OPTIONS.map((option) => (
+                <Label
+                  key={option.value}
+                  htmlFor={`transcript-${option.value}`}
+                  className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer has-[:checked]:border-primary"
+                >
+                  <RadioGroupItem
+                    id={`transcript-${option.value}`}
+                    value={option.value}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <p className="text-sm font-medium">{option.label}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {option.description}
+                    </p>
+                  </div>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="transcript-include-notes"
+              checked={includeNotes}
+              onCheckedChange={(checked) => setIncludeNotes(checked === true)}
+            />
+            <Label
+              htmlFor="transcript-include-notes"
+              className="font-normal text-sm"
+            >
+              Sertakan catatan internal
+            </Label>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleDownload}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Unduh {format.toUpperCase()}
+          </Button>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="transcript-email">Kirim ke customer</Label>
+            <div className="flex gap-2">
+              <Input
+                id="transcript-email"
+                type="email"
+                placeholder={
+                  isLoadingEmail ? "Memuat..." : "email@customer.com"
+                }
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setEmailError("");
+                }}
+                className={emailError ? "border-red-500" : ""}
+              />
+              <Button
+                variant="outline"
+                onClick={handleSendEmail}
+                disabled={isSending || isLoadingEmail}
+              >
+                {isSending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Mail className="w-4 h-4 mr-2" />
+                )}
+                Kirim
+              </Button>
+            </div>
+            {emailError && (
+              <p className="text-xs text-red-500 font-medium">{emailError}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Dikirim sebagai PDF tanpa catatan internal.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Tutup
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ResolveChatDialogProps {
+  open: boolean;
+  onClose: () => void;
+  chatId: string;
+  onConfirm: (options: {
+    sendTranscript: boolean;
+    transcriptEmail?: string;
+  }) => void;
+}
+
+/**
+ * Confirm resolving a chat, with the option to email the transcript
+ */
+export const ResolveChatDialog = ({
+  open,
+  onClose,
+  chatId,
+  onConfirm,
+}: ResolveChatDialogProps) => {
+  const [sendTranscript, setSendTranscript] = useState(false);
+  const [emailError, setEmailError] = useState("");
+  const { email, setEmail, isLoading } = useCustomerEmail(chatId, open);
+
+  useEffect(() => {
+    if (open) {
+      setSendTranscript(false);
+      setEmailError("");
+    }
+  }, [open]);
+
+  const handleConfirm = () => {
+    if (sendTranscript && !EMAIL_PATTERN.test(email.trim())) {
+      setEmailError("Masukkan email yang valid");
+      return;
+    }
+
+    onConfirm({
+      sendTranscript,
+      transcriptEmail: sendTranscript ? email.trim() : undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle2 className="w-5 h-5" />
+            Resolve Chat
+          </DialogTitle>
+          <DialogDescription>
+            Chat akan ditandai selesai dan dipindahkan dari daftar aktif.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="resolve-send-transcript"
+              checked={sendTranscript}
+              onCheckedChange={(checked) => setSendTranscript(checked === true)}
+            />
+            <Label
+              htmlFor="resolve-send-transcript"
+              className="font-normal text-sm"
+            >
+              Kirim transkrip ke email customer
+            </Label>
+          </div>
+          {sendTranscript && (
+            <div className="space-y-1">
+              <Input
+                type="email"
+                placeholder={isLoading ? "Memuat..." : "email@customer.com"}
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setEmailError("");
+                }}
+                className={emailError ? "border-red-500" : ""}
+              />
+              {emailError && (
+                <p className="text-xs text-red-500 font-medium">{emailError}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={sendTranscript && isLoading}
+          >
+            Mark as Resolved
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
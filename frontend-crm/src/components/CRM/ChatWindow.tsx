@@ -1,6 +1,5 @@
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
@@ -22,6 +21,20 @@ import {
   File as FileIcon,
   X,
   Download,
+  Briefcase,
+  MessageSquareText,
+  Lock,
+  Route,
+  FileText,
+  Eye,
+  Check,
+  CheckCheck,
+  Clock,
+  AlertCircle,
+  AlarmClock,
+  BellRing,
+  Tag,
+  BookOpen,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -47,13 +60,52 @@ import {
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { TicketPanel } from "./TicketPanel";
+import { CreateDealFromChatDialog } from "./CreateDealFromChatDialog";
+import { RoutingHistoryDialog } from "./RoutingHistoryDialog";
+import {
+  ChatTranscriptDialog,
+  ResolveChatDialog,
+} from "./ChatTranscriptDialog";
+import {
+  CannedResponsePicker,
+  type CannedResponsePickerHandle,
+} from "./CannedResponsePicker";
+import type { CannedResponse } from "@/services/crmCannedResponsesService";
+import { renderMessageTemplate } from "@/lib/messageTemplate";
+import { MentionPicker, type MentionPickerHandle } from "./MentionPicker";
+import {
+  extractMentionedUserIds,
+  getMentionQuery,
+  insertMention,
+  splitMentions,
+  type MentionCandidate,
+} from "@/lib/mentions";
+import { useChatCollaboration } from "@/hooks/useChatCollaboration";
+import { getDraft, saveDraft } from "@/lib/messageOutbox";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  FollowUpReminderDialog,
+  SnoozeChatDialog,
+} from "./ChatFollowUpDialogs";
+import { formatSnoozeLabel, isChatSnoozed } from "@/lib/chatSnooze";
+import { LabelBadge } from "./LabelBadge";
+import { LabelPicker } from "./LabelPicker";
+import type { LabelSummary } from "@/services/crmLabelsService";
+import { HandoffSummaryCard } from "./HandoffSummaryCard";
+import { KnowledgeSuggestionsPanel } from "./KnowledgeSuggestionsPanel";
+import { SentimentSparkline } from "./SentimentSparkline";
+import type {
+  ChatSnoozeMode,
+  HandoffSummary,
+  SnoozeChatRequest,
+} from "@/services/crmChatsService";
 
 /**
  * Message interface (mapped from API response)
  */
 interface Message {
   id: string;
-  sender: "customer" | "agent" | "ai";
+  sender: "customer" | "agent" | "ai" | "note";
   senderName: string;
   content: string;
   timestamp: string;
@@ -65,6 +117,11 @@ interface Message {
     url: string;
     type: string;
   };
+  // Customer receipt, only set on channels that report it
+  deliveryStatus?: "sent" | "delivered" | "read";
+  // Reply still in the outbox
+  sendStatus?: "pending" | "failed";
+  sendError?: string;
 }
 
 /**
@@ -109,12 +166,14 @@ interface ChatWindowProps {
   status: "open" | "pending" | "assigned" | "resolved" | "closed";
   isAssigned: boolean;
   assignedTo?: string;
+  assignedUserId?: string | null;
   isOwnChat: boolean;
 
   // FIX: Add aiAgentId to the interface
   aiAgentId?: string;
   aiAgentName?: string;
   humanAgentName?: string;
+  currentAgentName?: string; // Used for {{agent.name}} in canned responses
 
   handledBy: "ai" | "human" | "unassigned";
   escalatedAt?: string;
@@ -125,9 +184,18 @@ interface ChatWindowProps {
   messages: Message[];
   tickets?: Ticket[];
   isLoading?: boolean;
-  onSendMessage: (message: string, file?: File) => void;
+  onSendMessage: (
+    message: string,
+    file?: File,
+    cannedResponseId?: string,
+  ) => void;
+  // Internal note, visible to agents only
+  onSendNote?: (content: string, mentionedUserIds: string[]) => void;
   onAssignToAgent: () => void;
-  onMarkResolved: () => void;
+  onMarkResolved: (options?: {
+    sendTranscript: boolean;
+    transcriptEmail?: string;
+  }) => void;
   onCreateTicket?: (
     ticket: Omit<
       Ticket,
@@ -138,6 +206,23 @@ interface ChatWindowProps {
   // NEW PROPS
   onLoadMoreMessages?: () => void;
   hasMoreMessages?: boolean;
+  // Message to scroll to and flash, e.g. a search result
+  highlightMessageId?: string | null;
+  // Outbox actions for replies that failed to send
+  onResendMessage?: (messageId: string) => void;
+  onDiscardMessage?: (messageId: string) => void;
+  // Snooze state and actions
+  snoozeMode?: ChatSnoozeMode | null;
+  snoozedUntil?: string | null;
+  onSnooze?: (data: SnoozeChatRequest) => Promise<void> | void;
+  onUnsnooze?: () => void;
+  // Labels of this chat and the organization's label set
+  labels?: LabelSummary[];
+  availableLabels?: LabelSummary[];
+  onLabelsChange?: (addLabelIds: string[], removeLabelIds: string[]) => void;
+  // AI summary attached when the chat was escalated
+  handoffSummary?: HandoffSummary | null;
+  onRegenerateHandoffSummary?: () => void;
 }
 
 /**
@@ -151,11 +236,13 @@ export const ChatWindow = ({
   status,
   isAssigned,
   assignedTo,
+  assignedUserId,
   isOwnChat,
   // FIX: Destructure aiAgentId
   aiAgentId,
   aiAgentName,
   humanAgentName,
+  currentAgentName,
   handledBy,
   escalatedAt,
   agents,
@@ -164,38 +251,128 @@ export const ChatWindow = ({
   tickets = [],
   isLoading = false,
   onSendMessage,
+  onSendNote,
   onAssignToAgent,
   onMarkResolved,
   onCreateTicket,
   onUpdateTicket,
   onLoadMoreMessages,
   hasMoreMessages = false,
+  highlightMessageId = null,
+  onResendMessage,
+  onDiscardMessage,
+  snoozeMode = null,
+  snoozedUntil = null,
+  onSnooze,
+  onUnsnooze,
+  labels = [],
+  availableLabels = [],
+  onLabelsChange,
+  handoffSummary = null,
+  onRegenerateHandoffSummary,
 }: ChatWindowProps) => {
   // ==========================================================================
   // STATE & REFS
   // ==========================================================================
 
-  const [messageInput, setMessageInput] = useState("");
+  // Reply drafts are stored per signed-in agent
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  // Reply and note text are kept apart so a note never ends up in a reply
+  const [replyInput, setReplyInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
   const [showTicketPanel, setShowTicketPanel] = useState(false);
+  const [showKnowledgePanel, setShowKnowledgePanel] = useState(false);
   const [showEscalateDialog, setShowEscalateDialog] = useState(false);
   const [selectedAgentId, setSelectedAgentId] = useState("");
   const [escalationReason, setEscalationReason] = useState("");
   const [isEscalating, setIsEscalating] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [showCreateDealDialog, setShowCreateDealDialog] = useState(false);
+  const [showRoutingHistory, setShowRoutingHistory] = useState(false);
+  const [showTranscriptDialog, setShowTranscriptDialog] = useState(false);
+  const [showResolveDialog, setShowResolveDialog] = useState(false);
+  const [showSnoozeDialog, setShowSnoozeDialog] = useState(false);
+  const [showReminderDialog, setShowReminderDialog] = useState(false);
+  // Canned response the current input was built from (for usage stats)
+  const [cannedResponseId, setCannedResponseId] = useState<string | null>(null);
+  const [isPickerDismissed, setIsPickerDismissed] = useState(false);
+  const [composerMode, setComposerMode] = useState<"reply" | "note">("reply");
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
 
   // Ref for the hidden file input
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const lastMessageIdRef = useRef<string | null>(null);
+  const messageInputRef = useRef<HTMLTextAreaElement>(null);
+  const pickerRef = useRef<CannedResponsePickerHandle>(null);
+  const mentionPickerRef = useRef<MentionPickerHandle>(null);
+  // Chat whose draft is loaded into the input; saving waits for it
+  const draftChatIdRef = useRef<string | null>(null);
+
+  const { viewers, replyingAgent, notifyTyping, stopTyping } =
+    useChatCollaboration(chatId, assignedUserId);
+  const isSnoozed = isChatSnoozed({ snoozeMode, snoozedUntil });
+  const isChatActive = status !== "resolved" && status !== "closed";
+  // Query for the knowledge base suggestions
+  const lastCustomerMessage =
+    [...messages].reverse().find((m) => m.sender === "customer")?.content || "";
+
+  const isNoteMode = composerMode === "note";
+  const messageInput = isNoteMode ? noteInput : replyInput;
+  // Any agent may leave a note; only the assigned agent may reply
+  const canCompose = isNoteMode ? Boolean(onSendNote) : isOwnChat;
+
+  // Slash command: "/shortcut" as the whole input opens the picker
+  const slashMatch = messageInput.match(/^\/(\S*)$/);
+  const isPickerOpen =
+    !isNoteMode && isOwnChat && Boolean(slashMatch) && !isPickerDismissed;
+
+  // "@name" in a note opens the teammate picker
+  const mentionCandidates: MentionCandidate[] = agents
+    .filter((agent) => agent.userId)
+    .map((agent) => ({ userId: agent.userId, name: agent.name }));
+  const mentionQuery = isNoteMode ? getMentionQuery(messageInput) : null;
+  const isMentionPickerOpen = mentionQuery !== null && !isPickerDismissed;
 
   // 🚀 THE FIX: Auto-clear inputs when switching chats or when status changes
   useEffect(() => {
-    setMessageInput("");
+    setReplyInput("");
+    setNoteInput("");
     setSelectedFile(null);
+    setCannedResponseId(null);
+    setComposerMode("reply");
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
-  }, [chatId, status, isOwnChat]);
+
+    // Restore the reply draft of this chat
+    draftChatIdRef.current = null;
+    if (!chatId || !isOwnChat || !userId) return;
+    let cancelled = false;
+    getDraft(userId, chatId)
+      .then((draft) => {
+        if (cancelled) return;
+        setReplyInput(draft);
+        draftChatIdRef.current = chatId;
+      })
+      .catch((error) => {
+        console.error("Failed to load draft:", error);
+        if (!cancelled) draftChatIdRef.current = chatId;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, status, isOwnChat, userId]);
+
+  // Persist the reply draft on every change; notes are never stored
+  useEffect(() => {
+    if (!chatId || !userId || draftChatIdRef.current !== chatId) return;
+    saveDraft(userId, chatId, replyInput).catch((error) =>
+      console.error("Failed to save draft:", error),
+    );
+  }, [chatId, replyInput, userId]);
 
   // ==========================================================================
   // SMART AUTO-SCROLL EFFECT
@@ -216,15 +393,46 @@ export const ChatWindow = ({
     // SCENARIO 2: History Loaded
   }, [messages, isLoading]);
 
+  // Jump to a highlighted message once it is loaded
+  useEffect(() => {
+    if (!highlightMessageId) return;
+    if (!messages.some((m) => m.id === highlightMessageId)) return;
+
+    document
+      .querySelector(`[data-message-id="${highlightMessageId}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setFlashMessageId(highlightMessageId);
+    const timeout = setTimeout(() => setFlashMessageId(null), 3000);
+    return () => clearTimeout(timeout);
+    // Only when the target changes, not on every new message
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlightMessageId]);
+
   // ==========================================================================
   // EVENT HANDLERS
   // ==========================================================================
 
   const handleSend = () => {
-    if (messageInput.trim() || selectedFile) {
-      onSendMessage(messageInput, selectedFile || undefined);
-      setMessageInput("");
+    stopTyping();
+    if (isNoteMode) {
+      if (!noteInput.trim() || !onSendNote) return;
+      onSendNote(
+        noteInput.trim(),
+        extractMentionedUserIds(noteInput, mentionCandidates),
+      );
+      setNoteInput("");
+      return;
+    }
+
+    if (replyInput.trim() || selectedFile) {
+      onSendMessage(
+        replyInput,
+        selectedFile || undefined,
+        cannedResponseId || undefined,
+      );
+      setReplyInput("");
       setSelectedFile(null);
+      setCannedResponseId(null);
       if (fileInputRef.current) fileInputRef.current.value = "";
     }
   };
@@ -245,7 +453,70 @@ export const ChatWindow = ({
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
+  // `mode` is passed when the caller switches modes in the same event
+  const handleMessageChange = (
+    value: string,
+    mode: "reply" | "note" = composerMode,
+  ) => {
+    if (mode === "note") {
+      setNoteInput(value);
+    } else {
+      setReplyInput(value);
+    }
+    setIsPickerDismissed(false);
+    if (!value.trim()) {
+      setCannedResponseId(null);
+      stopTyping();
+    } else {
+      notifyTyping(mode);
+    }
+  };
+
+  const handleSelectCannedResponse = (response: CannedResponse) => {
+    // Prefer the ticket being worked on, fall back to the latest one
+    const isActive = (ticket: Ticket) =>
+      ticket.status === "open" || ticket.status === "in_progress";
+    const latestTicket = [...tickets].sort(
+      (a, b) =>
+        Number(isActive(b)) - Number(isActive(a)) ||
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+    )[0];
+
+    setReplyInput(
+      renderMessageTemplate(response.content, {
+        customer: { name: customerName },
+        ticket: latestTicket
+          ? { number: latestTicket.ticketNumber, title: latestTicket.title }
+          : null,
+        agent: { name: currentAgentName || humanAgentName },
+      }),
+    );
+    setCannedResponseId(response.id);
+    messageInputRef.current?.focus();
+  };
+
+  const handleUseKnowledgeDraft = (draft: string) => {
+    setComposerMode("reply");
+    setCannedResponseId(null);
+    handleMessageChange(draft, "reply");
+    messageInputRef.current?.focus();
+  };
+
+  const handleOpenPicker = () => {
+    setIsPickerDismissed(false);
+    if (!replyInput.startsWith("/")) setReplyInput("/");
+    messageInputRef.current?.focus();
+  };
+
+  const handleSelectMention = (candidate: MentionCandidate) => {
+    setNoteInput((prev) => insertMention(prev, candidate.name));
+    messageInputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (pickerRef.current?.handleKeyDown(e)) return;
+    if (mentionPickerRef.current?.handleKeyDown(e)) return;
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -304,12 +575,14 @@ export const ChatWindow = ({
     // LOGIC:
     // 1. Is the MIME type explicitly an image? (e.g. "image/png")
     // 2. OR is the MIME type generic ("file") but the name looks like an image?
+    // Queued attachments have no URL yet
     const isImage =
-      (attachment.type && attachment.type.startsWith("image")) ||
-      (attachment.type && attachment.type.startsWith("image/")) ||
-      (attachment.type === "file" &&
-        /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(attachment.name)) ||
-      /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(attachment.url); // Last resort: check URL
+      Boolean(attachment.url) &&
+      ((attachment.type && attachment.type.startsWith("image")) ||
+        (attachment.type && attachment.type.startsWith("image/")) ||
+        (attachment.type === "file" &&
+          /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(attachment.name)) ||
+        /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(attachment.url)); // Last resort: check URL
 
     if (isImage) {
       return (
@@ -416,6 +689,52 @@ export const ChatWindow = ({
                     Closed
                   </Badge>
                 )}
+                {isSnoozed && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs flex items-center gap-1 bg-sky-50 dark:bg-sky-500/10 text-sky-700 dark:text-sky-400 border-sky-300"
+                  >
+                    <AlarmClock className="w-3 h-3" />
+                    Ditunda {formatSnoozeLabel({ snoozeMode, snoozedUntil })}
+                    {onUnsnooze && (
+                      <button
+                        type="button"
+                        className="ml-0.5 hover:text-sky-900 dark:hover:text-sky-200"
+                        onClick={onUnsnooze}
+                        title="Batalkan tunda"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </Badge>
+                )}
+                {labels.map((label) => (
+                  <LabelBadge
+                    key={label.id}
+                    label={label}
+                    onRemove={
+                      onLabelsChange
+                        ? () => onLabelsChange([], [label.id])
+                        : undefined
+                    }
+                  />
+                ))}
+                {onLabelsChange && chatId && (
+                  <LabelPicker
+                    labels={availableLabels}
+                    targetLabelIds={[labels.map((label) => label.id)]}
+                    onChange={onLabelsChange}
+                  >
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1.5 text-xs text-muted-foreground"
+                    >
+                      <Tag className="w-3 h-3 mr-1" />
+                      {labels.length === 0 && "Label"}
+                    </Button>
+                  </LabelPicker>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 {handledBy === "human" ? (
@@ -457,11 +776,34 @@ export const ChatWindow = ({
                     Unassigned
                   </Badge>
                 )}
+                {replyingAgent ? (
+                  <Badge
+                    variant="outline"
+                    className="text-xs flex items-center gap-1 bg-amber-50 dark:bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-300 animate-pulse"
+                  >
+                    <Lock className="w-3 h-3" />
+                    {replyingAgent.name} sedang membalas
+                  </Badge>
+                ) : (
+                  viewers.length > 0 && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs flex items-center gap-1 text-muted-foreground"
+                      title={viewers.map((v) => v.name).join(", ")}
+                    >
+                      <Eye className="w-3 h-3" />
+                      {viewers.length === 1
+                        ? `${viewers[0].name} juga membuka chat ini`
+                        : `${viewers.length} agent lain membuka chat ini`}
+                    </Badge>
+                  )
+                )}
               </div>
             </div>
           </div>
 
           <div className="flex items-center gap-2">
+            <SentimentSparkline messages={messages} className="mr-1" />
             <Button
               variant="ghost"
               size="icon"
@@ -490,10 +832,25 @@ export const ChatWindow = ({
               <Info className="w-4 h-4" />
             </Button>
 
+            <Button
+              variant={showKnowledgePanel ? "default" : "ghost"}
+              size="icon"
+              title="Saran balasan dari knowledge base"
+              onClick={() => {
+                setShowKnowledgePanel(!showKnowledgePanel);
+                setShowTicketPanel(false);
+              }}
+            >
+              <BookOpen className="w-4 h-4" />
+            </Button>
+
             <Button
               variant={showTicketPanel ? "default" : "ghost"}
               size="icon"
-              onClick={() => setShowTicketPanel(!showTicketPanel)}
+              onClick={() => {
+                setShowTicketPanel(!showTicketPanel);
+                setShowKnowledgePanel(false);
+              }}
               className="relative"
             >
               <TicketIcon className="w-4 h-4" />
@@ -523,8 +880,32 @@ export const ChatWindow = ({
                     Assign to Me
                   </DropdownMenuItem>
                 )}
-                {status !== "resolved" && status !== "closed" && (
-                  <DropdownMenuItem onClick={onMarkResolved}>
+                <DropdownMenuItem onClick={() => setShowCreateDealDialog(true)}>
+                  <Briefcase className="w-4 h-4 mr-2" />
+                  Create Deal from Chat
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowRoutingHistory(true)}>
+                  <Route className="w-4 h-4 mr-2" />
+                  Riwayat Routing
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowTranscriptDialog(true)}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Export Transkrip
+                </DropdownMenuItem>
+                {onSnooze && isChatActive && !isSnoozed && (
+                  <DropdownMenuItem onClick={() => setShowSnoozeDialog(true)}>
+                    <AlarmClock className="w-4 h-4 mr-2" />
+                    Tunda Chat
+                  </DropdownMenuItem>
+                )}
+                {chatId && (
+                  <DropdownMenuItem onClick={() => setShowReminderDialog(true)}>
+                    <BellRing className="w-4 h-4 mr-2" />
+                    Pengingat Follow-up
+                  </DropdownMenuItem>
+                )}
+                {isChatActive && (
+                  <DropdownMenuItem onClick={() => setShowResolveDialog(true)}>
                     Mark as Resolved
                   </DropdownMenuItem>
                 )}
@@ -534,6 +915,14 @@ export const ChatWindow = ({
           </div>
         </div>
 
+        {/* Pinned Handoff Summary */}
+        {handoffSummary && (
+          <HandoffSummaryCard
+            summary={handoffSummary}
+            onRegenerate={onRegenerateHandoffSummary}
+          />
+        )}
+
         {/* Message List */}
         <ScrollArea className="flex-1 p-6">
           <div className="space-y-4 max-w-4xl mx-auto">
@@ -586,6 +975,48 @@ export const ChatWindow = ({
             ) : (
               <>
                 {messages.map((message) => {
+                  if (message.sender === "note") {
+                    return (
+                      <div
+                        key={message.id}
+                        data-message-id={message.id}
+                        className={`flex justify-center rounded-lg transition-shadow ${
+                          flashMessageId === message.id
+                            ? "ring-2 ring-yellow-400 ring-offset-2"
+                            : ""
+                        }`}
+                      >
+                        <div className="w-full max-w-[80%] rounded-lg border border-dashed border-amber-400/60 bg-amber-50 dark:bg-amber-500/10 px-4 py-2">
+                          <div className="flex items-center gap-2 mb-1 text-xs text-amber-700 dark:text-amber-400">
+                            <Lock className="w-3 h-3" />
+                            <span className="font-medium">
+                              {message.senderName}
+                            </span>
+                            <span>· Catatan internal</span>
+                            <span className="ml-auto">{message.timestamp}</span>
+                          </div>
+                          <p className="text-sm whitespace-pre-wrap">
+                            {splitMentions(
+                              message.content,
+                              mentionCandidates.map((c) => c.name),
+                            ).map((segment, index) =>
+                              segment.isMention ? (
+                                <span
+                                  key={index}
+                                  className="font-semibold text-amber-700 dark:text-amber-400"
+                                >
+                                  {segment.text}
+                                </span>
+                              ) : (
+                                segment.text
+                              ),
+                            )}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  }
+
                   const isCustomer = message.sender === "customer";
                   const isAI = message.sender === "ai";
 
@@ -614,8 +1045,13 @@ export const ChatWindow = ({
                   return (
                     <div
                       key={message.id}
-                      className={`flex gap-3 ${
+                      data-message-id={message.id}
+                      className={`flex gap-3 rounded-lg transition-shadow ${
                         isCustomer ? "" : "flex-row-reverse"
+                      } ${
+                        flashMessageId === message.id
+                          ? "ring-2 ring-yellow-400 ring-offset-2"
+                          : ""
                       }`}
                     >
                       <Avatar className="w-8 h-8 flex-shrink-0">
@@ -656,6 +1092,29 @@ export const ChatWindow = ({
                           <span className="text-xs text-muted-foreground">
                             {message.timestamp}
                           </span>
+                          {!isCustomer && message.deliveryStatus && (
+                            <span
+                              title={
+                                message.deliveryStatus === "read"
+                                  ? "Dibaca"
+                                  : message.deliveryStatus === "delivered"
+                                    ? "Terkirim"
+                                    : "Dikirim"
+                              }
+                            >
+                              {message.deliveryStatus === "sent" ? (
+                                <Check className="w-3 h-3 text-muted-foreground" />
+                              ) : (
+                                <CheckCheck
+                                  className={`w-3 h-3 ${
+                                    message.deliveryStatus === "read"
+                                      ? "text-blue-500"
+                                      : "text-muted-foreground"
+                                  }`}
+                                />
+                              )}
+                            </span>
+                          )}
                         </div>
 
                         <div
@@ -676,6 +1135,42 @@ export const ChatWindow = ({
                             </p>
                           )}
                         </div>
+
+                        {message.sendStatus === "pending" && (
+                          <span className="mt-1 flex items-center gap-1 text-[11px] text-muted-foreground">
+                            <Clock className="w-3 h-3" />
+                            Mengirim...
+                          </span>
+                        )}
+                        {message.sendStatus === "failed" && (
+                          <div className="mt-1 flex items-center gap-2 text-[11px] text-red-500">
+                            <span
+                              className="flex items-center gap-1"
+                              title={message.sendError}
+                            >
+                              <AlertCircle className="w-3 h-3" />
+                              Gagal terkirim
+                            </span>
+                            {onResendMessage && (
+                              <button
+                                type="button"
+                                className="font-medium underline-offset-2 hover:underline"
+                                onClick={() => onResendMessage(message.id)}
+                              >
+                                Kirim ulang
+                              </button>
+                            )}
+                            {onDiscardMessage && (
+                              <button
+                                type="button"
+                                className="text-muted-foreground underline-offset-2 hover:underline"
+                                onClick={() => onDiscardMessage(message.id)}
+                              >
+                                Hapus
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -714,38 +1209,109 @@ export const ChatWindow = ({
               </div>
             )}
 
+            {onSendNote && (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant={isNoteMode ? "ghost" : "secondary"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => {
+                    stopTyping();
+                    setComposerMode("reply");
+                  }}
+                >
+                  <Send className="w-3 h-3 mr-1.5" />
+                  Balas
+                </Button>
+                <Button
+                  variant={isNoteMode ? "secondary" : "ghost"}
+                  size="sm"
+                  className={`h-7 text-xs ${isNoteMode ? "text-amber-700 dark:text-amber-400" : ""}`}
+                  onClick={() => {
+                    stopTyping();
+                    setComposerMode("note");
+                    setSelectedFile(null);
+                    if (fileInputRef.current) fileInputRef.current.value = "";
+                  }}
+                >
+                  <Lock className="w-3 h-3 mr-1.5" />
+                  Catatan Internal
+                </Button>
+              </div>
+            )}
+
             <div className="flex items-end gap-2">
               <Button
                 variant="ghost"
                 size="icon"
                 className="flex-shrink-0"
                 onClick={handlePaperclipClick}
-                disabled={!isOwnChat}
+                disabled={!isOwnChat || isNoteMode}
               >
                 <Paperclip className="w-5 h-5" />
               </Button>
-              <div className="flex-1">
-                <Input
-                  type="text"
+              <Button
+                variant="ghost"
+                size="icon"
+                className="flex-shrink-0"
+                onClick={handleOpenPicker}
+                disabled={!isOwnChat || isNoteMode}
+                title="Canned responses (/)"
+              >
+                <MessageSquareText className="w-5 h-5" />
+              </Button>
+              <div className="flex-1 relative">
+                <CannedResponsePicker
+                  ref={pickerRef}
+                  open={isPickerOpen}
+                  query={slashMatch?.[1] || ""}
+                  onSelect={handleSelectCannedResponse}
+                  onClose={() => setIsPickerDismissed(true)}
+                />
+                <MentionPicker
+                  ref={mentionPickerRef}
+                  open={isMentionPickerOpen}
+                  query={mentionQuery || ""}
+                  candidates={mentionCandidates}
+                  onSelect={handleSelectMention}
+                  onClose={() => setIsPickerDismissed(true)}
+                />
+                {/* Textarea so multi-line canned responses keep their line breaks */}
+                <Textarea
+                  ref={messageInputRef}
+                  rows={1}
                   placeholder={
-                    !isOwnChat
-                      ? "Only the assigned agent can reply"
-                      : "Type your message..."
+                    isNoteMode
+                      ? "Tulis catatan internal... (@ untuk mention rekan)"
+                      : !isOwnChat
+                        ? "Only the assigned agent can reply"
+                        : "Type your message... (/ for canned responses)"
                   }
                   value={messageInput}
-                  onChange={(e) => setMessageInput(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  disabled={!isOwnChat}
-                  className={`min-h-[40px] ${!isOwnChat ? "opacity-60" : ""}`}
+                  onChange={(e) => handleMessageChange(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  disabled={!canCompose}
+                  className={`min-h-[40px] max-h-32 resize-none ${!canCompose ? "opacity-60" : ""} ${
+                    isNoteMode
+                      ? "bg-amber-50 dark:bg-amber-500/10 border-amber-400/60"
+                      : ""
+                  }`}
                 />
               </div>
               <Button
                 onClick={handleSend}
-                disabled={(!messageInput.trim() && !selectedFile) || !isOwnChat}
-                className="flex-shrink-0"
+                disabled={
+                  (!messageInput.trim() && (isNoteMode || !selectedFile)) ||
+                  !canCompose
+                }
+                className={`flex-shrink-0 ${isNoteMode ? "bg-amber-500 hover:bg-amber-600 text-white" : ""}`}
               >
-                <Send className="w-4 h-4 mr-2" />
-                Send
+                {isNoteMode ? (
+                  <Lock className="w-4 h-4 mr-2" />
+                ) : (
+                  <Send className="w-4 h-4 mr-2" />
+                )}
+                {isNoteMode ? "Add Note" : "Send"}
               </Button>
             </div>
           </div>
@@ -763,6 +1329,67 @@ export const ChatWindow = ({
         </div>
       )}
 
+      {/* Knowledge Base Suggestions */}
+      {showKnowledgePanel && (
+        <KnowledgeSuggestionsPanel
+          aiAgentId={aiAgentId}
+          aiAgentName={aiAgentName}
+          customerName={customerName}
+          lastCustomerMessage={lastCustomerMessage}
+          onUseDraft={handleUseKnowledgeDraft}
+          onClose={() => setShowKnowledgePanel(false)}
+        />
+      )}
+
+      {/* Create Deal Dialog */}
+      <CreateDealFromChatDialog
+        open={showCreateDealDialog}
+        onClose={() => setShowCreateDealDialog(false)}
+        chatId={chatId}
+        messages={messages}
+      />
+
+      {/* Transcript Dialog */}
+      <ChatTranscriptDialog
+        open={showTranscriptDialog}
+        onClose={() => setShowTranscriptDialog(false)}
+        chatId={chatId}
+        customerName={customerName}
+      />
+
+      {/* Resolve Dialog */}
+      <ResolveChatDialog
+        open={showResolveDialog}
+        onClose={() => setShowResolveDialog(false)}
+        chatId={chatId}
+        onConfirm={onMarkResolved}
+      />
+
+      {/* Snooze Dialog */}
+      {onSnooze && (
+        <SnoozeChatDialog
+          open={showSnoozeDialog}
+          onClose={() => setShowSnoozeDialog(false)}
+          onConfirm={onSnooze}
+        />
+      )}
+
+      {/* Follow-up Reminder Dialog */}
+      <FollowUpReminderDialog
+        open={showReminderDialog}
+        onClose={() => setShowReminderDialog(false)}
+        chatId={chatId}
+        tickets={tickets}
+      />
+
+      {/* Routing History Dialog */}
+      <RoutingHistoryDialog
+        open={showRoutingHistory}
+        onClose={() => setShowRoutingHistory(false)}
+        chatId={chatId}
+        canReroute={status !== "resolved" && status !== "closed"}
+      />
+
       {/* Escalate Dialog */}
       <Dialog open={showEscalateDialog} onOpenChange={setShowEscalateDialog}>
         <DialogContent className="sm:max-w-[500px]">
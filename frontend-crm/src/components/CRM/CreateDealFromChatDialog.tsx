@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { DealFormDialog } from "./DealFormDialog";
+import * as crmChatsService from "@/services/crmChatsService";
+import * as crmDealsService from "@/services/crmDealsService";
+import * as crmPipelinesService from "@/services/crmPipelinesService";
+import type { ChatWithDetails, Customer } from "@/services/crmChatsService";
+import type { DealInput } from "@/services/crmDealsService";
+import type { Pipeline } from "@/services/crmPipelinesService";
+
+/**
+ * Minimal message shape needed to summarize the conversation
+ */
+interface ChatMessageSummary {
+  sender: "customer" | "agent" | "ai" | "note";
+  senderName: string;
+  content: string;
+}
+
+interface CreateDealFromChatDialogProps {
+  open: boolean;
+  onClose: () => void;
+  chatId: string;
+  messages: ChatMessageSummary[];
+}
+
+// Number of recent messages copied into the deal notes
+const NOTE_MESSAGE_COUNT = 5;
+const NOTE_MESSAGE_MAX_LENGTH = 200;
+
+/**
+ * Build deal form values from the chat customer and its latest messages
+ */
+const buildDealFromChat = (
+  chat: ChatWithDetails,
+  messages: ChatMessageSummary[],
+): Partial<DealInput> => {
+  const customer = chat.customer;
+  const customerName = customer?.name || "Customer";
+
+  const excerpt = messages
+    .filter((message) => message.sender !== "note" && message.content?.trim())
+    .slice(-NOTE_MESSAGE_COUNT)
+    .map((message) => {
+      const name =
+        message.senderName ||
+        (message.sender === "customer" ? customerName : "Agent");
+      const content =
+        message.content.length > NOTE_MESSAGE_MAX_LENGTH
+          ? `${message.content.slice(0, NOTE_MESSAGE_MAX_LENGTH)}…`
+          : message.content;
+      return `${name}: ${content}`;
+    })
+    .join("\n");
+
+  return {
+    chatId: chat.id,
+    customerId: customer?.id || chat.customer_id || null,
+    name: `Deal ${customerName}`,
+    company: customer?.metadata?.company || customerName,
+    decisionMaker: customerName,
+    contactPhone: customer?.phone || "",
+    contactEmail: customer?.email || "",
+    tags: [chat.channel].filter(Boolean),
+    notes: excerpt ? `Percakapan terakhir (${chat.channel}):\n${excerpt}` : "",
+  };
+};
+
+export const CreateDealFromChatDialog = ({
+  open,
+  onClose,
+  chatId,
+  messages,
+}: CreateDealFromChatDialogProps) => {
+  const [pipeline, setPipeline] = useState<Pipeline | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [initialValues, setInitialValues] = useState<Partial<DealInput>>();
+  const [isPreparing, setIsPreparing] = useState(false);
+
+  // Load the chat header (with customer) and the default pipeline on open
+  useEffect(() => {
+    if (!open) {
+      setInitialValues(undefined);
+      return;
+    }
+
+    const prepare = async () => {
+      setIsPreparing(true);
+      try {
+        const [chat, pipelines] = await Promise.all([
+          crmChatsService.getChat(chatId),
+          crmPipelinesService.getPipelines().catch((error) => {
+            // Fall back to the default stages when pipelines are not configured
+            console.error("Failed to fetch pipelines:", error);
+            return [] as Pipeline[];
+          }),
+        ]);
+
+        setPipeline(
+          pipelines.find((p) => p.is_default) || pipelines[0] || null,
+        );
+        setCustomer(chat.customer || null);
+        setInitialValues(buildDealFromChat(chat, messages));
+      } catch (error) {
+        console.error("Failed to prepare deal from chat:", error);
+        toast.error(error.message || "Gagal memuat data chat");
+        onClose();
+      } finally {
+        setIsPreparing(false);
+      }
+    };
+
+    prepare();
+    // Messages are only read once when the dialog opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, chatId]);
+
+  const handleSubmit = async (dealData: DealInput) => {
+    try {
+      await crmDealsService.createDeal({ ...dealData, chatId });
+      toast.success("Deal berhasil dibuat dari chat");
+    } catch (error) {
+      toast.error(error.message || "Gagal membuat deal");
+      throw error;
+    }
+  };
+
+  if (!open) return null;
+
+  if (isPreparing || !initialValues) {
+    return (
+      <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+        <DialogContent className="max-w-sm">
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Menyiapkan deal dari chat...
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <DealFormDialog
+      open
+      onClose={onClose}
+      onSubmit={handleSubmit}
+      stages={
+        pipeline?.stages.length
+          ? pipeline.stages
+          : crmPipelinesService.DEFAULT_PIPELINE_STAGES
+      }
+      pipelineId={pipeline?.id || null}
+      initialValues={initialValues}
+      linkedCustomer={customer}
+    />
+  );
+};
@@ -0,0 +1,451 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  ArrowDown,
+  ArrowUp,
+  Edit,
+  ListPlus,
+  Loader2,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import * as crmChatsService from "@/services/crmChatsService";
+import type {
+  CustomFieldType,
+  CustomerCustomField,
+  CustomerCustomFieldInput,
+} from "@/services/crmChatsService";
+import { toCustomFieldKey } from "@/lib/customerFields";
+
+interface CustomFieldSettingsProps {
+  canEdit: boolean;
+}
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Select",
+};
+
+const emptyField = (position: number): CustomerCustomFieldInput => ({
+  key: "",
+  label: "",
+  type: "text",
+  options: [],
+  required: false,
+  position,
+});
+
+export const CustomFieldSettings = ({ canEdit }: CustomFieldSettingsProps) => {
+  const [fields, setFields] = useState<CustomerCustomField[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Editor dialog state. `editingId` is null when creating a new field.
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CustomerCustomFieldInput>(emptyField(0));
+  const [optionsText, setOptionsText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [fieldToDelete, setFieldToDelete] =
+    useState<CustomerCustomField | null>(null);
+
+  const fetchFields = async () => {
+    setIsLoading(true);
+    try {
+      setFields(await crmChatsService.getCustomerCustomFields());
+    } catch (error) {
+      console.error("Failed to fetch custom fields:", error);
+      toast.error("Gagal memuat custom field");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFields();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(emptyField(fields.length));
+    setOptionsText("");
+    setEditorOpen(true);
+  };
+
+  const openEdit = (field: CustomerCustomField) => {
+    setEditingId(field.id);
+    setDraft({
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      options: field.options || [],
+      required: field.required,
+      position: field.position,
+    });
+    setOptionsText((field.options || []).join(", "));
+    setEditorOpen(true);
+  };
+
+  const handleSave = async () => {
+    const label = draft.label.trim();
+    // The key is derived once on creation so stored values keep working after a rename
+    const key = editingId ? draft.key : toCustomFieldKey(draft.key || label);
+    const options =
+      draft.type === "select"
+        ? optionsText
+            .split(",")
+            .map((option) => option.trim())
+            .filter(Boolean)
+        : [];
+
+    if (!label) {
+      toast.error("Label harus diisi");
+      return;
+    }
+    if (!key) {
+      toast.error("Key tidak valid");
+      return;
+    }
+    if (!editingId && fields.some((field) => field.key === key)) {
+      toast.error(`Key "${key}" sudah digunakan`);
+      return;
+    }
+    if (draft.type === "select" && options.length === 0) {
+      toast.error("Field select membutuhkan minimal 1 opsi");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = { ...draft, key, label, options };
+      if (editingId) {
+        await crmChatsService.updateCustomerCustomField(editingId, payload);
+      } else {
+        await crmChatsService.createCustomerCustomField(payload);
+      }
+      toast.success("Custom field berhasil disimpan");
+      setEditorOpen(false);
+      await fetchFields();
+    } catch (error) {
+      console.error("Failed to save custom field:", error);
+      toast.error(error.message || "Gagal menyimpan custom field");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= fields.length) return;
+
+    const reordered = [...fields];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    const previous = fields;
+    setFields(reordered.map((field, i) => ({ ...field, position: i })));
+
+    try {
+      await Promise.all([
+        crmChatsService.updateCustomerCustomField(reordered[index].id, {
+          position: index,
+        }),
+        crmChatsService.updateCustomerCustomField(reordered[target].id, {
+          position: target,
+        }),
+      ]);
+    } catch (error) {
+      console.error("Failed to reorder custom fields:", error);
+      toast.error("Gagal mengubah urutan field");
+      setFields(previous);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!fieldToDelete) return;
+    const field = fieldToDelete;
+    setFieldToDelete(null);
+
+    try {
+      await crmChatsService.deleteCustomerCustomField(field.id);
+      toast.success("Custom field berhasil dihapus");
+      setFields((prev) => prev.filter((f) => f.id !== field.id));
+    } catch (error) {
+      console.error("Failed to delete custom field:", error);
+      toast.error(error.message || "Gagal menghapus custom field");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListPlus className="w-5 h-5" />
+              Customer Custom Fields
+            </CardTitle>
+            <CardDescription>
+              Field tambahan yang ditampilkan di detail kontak pelanggan
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Field
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && fields.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Belum ada custom field
+          </p>
+        ) : (
+          fields.map((field, index) => (
+            <div
+              key={field.id}
+              className="flex items-center gap-3 p-2 rounded-md border"
+            >
+              {canEdit && (
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === fields.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{field.label}</span>
+                  {field.required && (
+                    <span className="text-xs text-red-500">*</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground font-mono">
+                  {field.key}
+                </p>
+              </div>
+              <Badge variant="outline" className="text-xs">
+                {FIELD_TYPE_LABELS[field.type]}
+              </Badge>
+              {field.type === "select" && (
+                <span className="text-xs text-muted-foreground">
+                  {field.options.length} opsi
+                </span>
+              )}
+              {canEdit && (
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => openEdit(field)}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setFieldToDelete(field)}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? "Edit Custom Field" : "Custom Field Baru"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="field-label">
+                Label <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="field-label"
+                placeholder="e.g. Nomor NPWP"
+                value={draft.label}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, label: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="field-key">Key</Label>
+              <Input
+                id="field-key"
+                className="font-mono"
+                placeholder={toCustomFieldKey(draft.label) || "nomor_npwp"}
+                value={draft.key}
+                disabled={Boolean(editingId)}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, key: e.target.value }))
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Dipakai untuk import/export. Tidak bisa diubah setelah dibuat.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tipe</Label>
+              <Select
+                value={draft.type}
+                // Changing the type of an existing field would invalidate stored values
+                disabled={Boolean(editingId)}
+                onValueChange={(value: CustomFieldType) =>
+                  setDraft((prev) => ({ ...prev, type: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FIELD_TYPE_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.type === "select" && (
+              <div className="space-y-2">
+                <Label htmlFor="field-options">Opsi</Label>
+                <Input
+                  id="field-options"
+                  placeholder="Pisahkan dengan koma, e.g. Retail, Corporate"
+                  value={optionsText}
+                  onChange={(e) => setOptionsText(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <Switch
+                id="field-required"
+                checked={draft.required}
+                onCheckedChange={(checked) =>
+                  setDraft((prev) => ({ ...prev, required: checked }))
+                }
+              />
+              <Label htmlFor="field-required">Wajib diisi</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditorOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={Boolean(fieldToDelete)}
+        onOpenChange={(open) => !open && setFieldToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus field "{fieldToDelete?.label}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Field tidak akan ditampilkan lagi. Nilai yang sudah tersimpan di
+              data pelanggan tidak dihapus.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
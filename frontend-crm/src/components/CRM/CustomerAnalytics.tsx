@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Activity, SmilePlus, Tag } from "lucide-react";
+import { SurveyAnalytics } from "./SurveyAnalytics";
+import { LabelAnalytics } from "./LabelAnalytics";
+import { SentimentAnalytics } from "./SentimentAnalytics";
+
+/**
+ * CustomerAnalytics Component
+ *
+ * Customer experience reports of the organization, one tab per report
+ */
+export const CustomerAnalytics = () => {
+  const [activeTab, setActiveTab] = useState("satisfaction");
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold">Analytics</h1>
+        <p className="text-sm text-muted-foreground">
+          Ringkasan pengalaman customer dari seluruh channel
+        </p>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="satisfaction" className="gap-2">
+            <SmilePlus className="w-4 h-4" />
+            Kepuasan Pelanggan
+          </TabsTrigger>
+          <TabsTrigger value="labels" className="gap-2">
+            <Tag className="w-4 h-4" />
+            Label
+          </TabsTrigger>
+          <TabsTrigger value="sentiment" className="gap-2">
+            <Activity className="w-4 h-4" />
+            Sentimen
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="satisfaction" className="mt-4">
+          <SurveyAnalytics />
+        </TabsContent>
+
+        <TabsContent value="labels" className="mt-4">
+          <LabelAnalytics />
+        </TabsContent>
+
+        <TabsContent value="sentiment" className="mt-4">
+          <SentimentAnalytics />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -16,8 +17,21 @@ import {
   Send, // Telegram Icon
   MessageCircle, // WhatsApp Icon
   Calendar,
+  Briefcase,
+  Loader2,
+  Trash2,
+  ListPlus,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import * as crmDealsService from "@/services/crmDealsService";
+import * as crmPipelinesService from "@/services/crmPipelinesService";
+import type { Deal } from "@/services/crmDealsService";
+import type { PipelineStage } from "@/services/crmPipelinesService";
+import type { CustomerCustomField } from "@/services/crmChatsService";
+import {
+  formatCustomFieldValue,
+  getCustomFieldValues,
+} from "@/lib/customerFields";
 
 // Ensure the type handles nulls safely
 interface Customer {
@@ -50,12 +64,58 @@ interface Customer {
 interface CustomerDetailPanelProps {
   customer: Customer | null;
   onClose: () => void;
+  customFields?: CustomerCustomField[];
+  onEdit?: () => void;
+  onDelete?: () => void;
 }
 
 export const CustomerDetailPanel = ({
   customer,
   onClose,
+  customFields = [],
+  onEdit,
+  onDelete,
 }: CustomerDetailPanelProps) => {
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [isLoadingDeals, setIsLoadingDeals] = useState(false);
+
+  // Load the deals linked to this customer (incl. deals created from chats)
+  useEffect(() => {
+    setDeals([]);
+    if (!customer?.id) return;
+
+    // Ignore a late response after switching to another customer
+    let cancelled = false;
+
+    const fetchDeals = async () => {
+      setIsLoadingDeals(true);
+      try {
+        const [dealsResponse, pipelines] = await Promise.all([
+          crmDealsService.getDeals({ customer_id: customer.id }),
+          crmPipelinesService.getPipelines().catch(() => []),
+        ]);
+        if (cancelled) return;
+        setDeals(dealsResponse.deals);
+        setStages([
+          ...pipelines.flatMap((pipeline) => pipeline.stages),
+          ...crmPipelinesService.DEFAULT_PIPELINE_STAGES,
+        ]);
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Failed to fetch customer deals:", error);
+        setDeals([]);
+      } finally {
+        if (!cancelled) setIsLoadingDeals(false);
+      }
+    };
+
+    fetchDeals();
+    return () => {
+      cancelled = true;
+    };
+  }, [customer?.id]);
+
   if (!customer) return null;
 
   const formatCurrency = (amount: number) => {
@@ -78,6 +138,10 @@ export const CustomerDetailPanel = ({
   const displayCompany = customer.metadata?.company || customer.company || "-";
   const displayLocation =
     customer.metadata?.location || customer.location || "-";
+  const displayIndustry = customer.metadata?.industry || customer.industry;
+  const displayPosition = customer.metadata?.position || customer.position;
+  const displayNotes = customer.metadata?.notes || customer.notes;
+  const customValues = getCustomFieldValues(customer);
 
   // Safe Math
   const totalOrders =
@@ -107,7 +171,7 @@ export const CustomerDetailPanel = ({
             <div>
               <h4 className="font-bold text-xl">{displayName}</h4>
               <p className="text-sm text-muted-foreground">
-                {customer.position || "Customer"}
+                {displayPosition || "Customer"}
               </p>
             </div>
             <Badge
@@ -180,12 +244,12 @@ export const CustomerDetailPanel = ({
                   <p className="text-sm font-medium">{displayCompany}</p>
                 </div>
               </div>
-              {customer.industry && (
+              {displayIndustry && (
                 <div className="flex items-start gap-3">
                   <Tag className="h-4 w-4 text-muted-foreground mt-0.5" />
                   <div className="flex-1">
                     <p className="text-xs text-muted-foreground">Industry</p>
-                    <p className="text-sm font-medium">{customer.industry}</p>
+                    <p className="text-sm font-medium">{displayIndustry}</p>
                   </div>
                 </div>
               )}
@@ -232,15 +296,89 @@ export const CustomerDetailPanel = ({
             </CardContent>
           </Card>
 
+          {/* Custom Fields */}
+          {customFields.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Additional Fields</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {customFields.map((field) => (
+                  <div key={field.id} className="flex items-start gap-3">
+                    <ListPlus className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-muted-foreground">
+                        {field.label}
+                      </p>
+                      <p className="text-sm font-medium break-words">
+                        {formatCustomFieldValue(field, customValues[field.key])}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Linked Deals */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Deals</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoadingDeals ? (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : deals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Belum ada deal untuk customer ini
+                </p>
+              ) : (
+                deals.map((deal) => {
+                  const stage = stages.find((s) => s.id === deal.stage);
+                  return (
+                    <div
+                      key={deal.id}
+                      className="flex items-start gap-3 p-2 rounded-lg border"
+                    >
+                      <Briefcase className="h-4 w-4 text-muted-foreground mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {deal.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(deal.value)}
+                          {deal.chatId && " · dari chat"}
+                        </p>
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className="text-xs"
+                        style={
+                          stage
+                            ? { borderColor: stage.color, color: stage.color }
+                            : undefined
+                        }
+                      >
+                        {stage?.name || deal.stage}
+                      </Badge>
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+
           {/* Notes */}
-          {customer.notes && (
+          {displayNotes && (
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="text-base">Notes</CardTitle>
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                  {customer.notes}
+                  {displayNotes}
                 </p>
               </CardContent>
             </Card>
@@ -250,10 +388,22 @@ export const CustomerDetailPanel = ({
 
       {/* Footer Actions */}
       <div className="p-4 border-t space-y-2 bg-background">
-        <Button className="w-full" size="sm">
-          <Edit className="h-4 w-4 mr-2" />
-          Edit Customer
-        </Button>
+        <div className="flex gap-2">
+          <Button className="flex-1" size="sm" onClick={onEdit}>
+            <Edit className="h-4 w-4 mr-2" />
+            Edit Customer
+          </Button>
+          {onDelete && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDelete}
+              title="Delete Customer"
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
+        </div>
 
         <div className="grid grid-cols-2 gap-2">
           {/* WhatsApp Button - Only enabled if phone exists */}
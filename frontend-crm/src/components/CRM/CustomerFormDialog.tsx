@@ -0,0 +1,374 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Loader2 } from "lucide-react";
+import type {
+  Customer,
+  CustomerCustomField,
+  CustomerInput,
+} from "@/services/crmChatsService";
+import {
+  getCustomFieldValues,
+  validateCustomFieldValue,
+  type CustomFieldValue,
+} from "@/lib/customerFields";
+
+interface CustomerFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (customer: CustomerInput) => Promise<void> | void;
+  customFields: CustomerCustomField[];
+  customer?: Customer | null; // When provided the dialog works in edit mode
+}
+
+// Standard attributes kept in customer.metadata
+interface CustomerFormData {
+  name: string;
+  email: string;
+  phone: string;
+  company: string;
+  location: string;
+  industry: string;
+  position: string;
+  notes: string;
+}
+
+const NO_VALUE = "__none__";
+
+const toFormData = (customer?: Customer | null): CustomerFormData => ({
+  name: customer?.name || "",
+  email: customer?.email || "",
+  phone: customer?.phone || "",
+  company: customer?.metadata?.company || "",
+  location: customer?.metadata?.location || "",
+  industry: customer?.metadata?.industry || "",
+  position: customer?.metadata?.position || "",
+  notes: customer?.metadata?.notes || "",
+});
+
+export const CustomerFormDialog = ({
+  open,
+  onClose,
+  onSubmit,
+  customFields,
+  customer,
+}: CustomerFormDialogProps) => {
+  const isEdit = Boolean(customer);
+  const [formData, setFormData] = useState<CustomerFormData>(toFormData());
+  const [customValues, setCustomValues] = useState<
+    Record<string, CustomFieldValue>
+  >({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setFormData(toFormData(customer));
+    setCustomValues({ ...getCustomFieldValues(customer) });
+    setErrors({});
+  }, [open, customer]);
+
+  const clearError = (key: string) => {
+    if (!errors[key]) return;
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors[key];
+      return newErrors;
+    });
+  };
+
+  const handleChange = (field: keyof CustomerFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    clearError(field);
+  };
+
+  const handleCustomChange = (
+    field: CustomerCustomField,
+    value: CustomFieldValue,
+  ) => {
+    setCustomValues((prev) => ({ ...prev, [field.key]: value }));
+    clearError(`custom.${field.key}`);
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = "Nama harus diisi";
+    }
+    if (
+      formData.email.trim() &&
+      !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())
+    ) {
+      newErrors.email = "Format email tidak valid";
+    }
+    if (formData.phone.trim() && !/^\+?[\d\s-]{6,20}$/.test(formData.phone)) {
+      newErrors.phone = "Format nomor telepon tidak valid";
+    }
+    customFields.forEach((field) => {
+      const error = validateCustomFieldValue(field, customValues[field.key]);
+      if (error) newErrors[`custom.${field.key}`] = error;
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    // Numbers are stored as numbers, empty values are dropped
+    const custom_fields: Record<string, CustomFieldValue> = {};
+    Object.entries(customValues).forEach(([key, value]) => {
+      if (value === null || value === undefined || value === "") return;
+      const field = customFields.find((f) => f.key === key);
+      custom_fields[key] = field?.type === "number" ? Number(value) : value;
+    });
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        name: formData.name.trim(),
+        email: formData.email.trim() || null,
+        phone: formData.phone.trim() || null,
+        metadata: {
+          // Keep channel identifiers (telegram_id, ...) and other stored keys
+          ...(customer?.metadata || {}),
+          company: formData.company.trim() || undefined,
+          location: formData.location.trim() || undefined,
+          industry: formData.industry.trim() || undefined,
+          position: formData.position.trim() || undefined,
+          notes: formData.notes.trim() || undefined,
+          custom_fields,
+        },
+      });
+      onClose();
+    } catch (error) {
+      // Parent is responsible for surfacing the error toast
+      console.error("Failed to save customer:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderCustomField = (field: CustomerCustomField) => {
+    const value = customValues[field.key];
+    const error = errors[`custom.${field.key}`];
+    const errorClass = error ? "border-red-500 focus-visible:ring-red-500" : "";
+
+    let control: React.ReactNode;
+    if (field.type === "select") {
+      control = (
+        <Select
+          value={value ? String(value) : NO_VALUE}
+          onValueChange={(selected) =>
+            handleCustomChange(field, selected === NO_VALUE ? null : selected)
+          }
+        >
+          <SelectTrigger className={errorClass}>
+            <SelectValue placeholder="Pilih..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>-</SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    } else {
+      control = (
+        <Input
+          id={`custom-${field.key}`}
+          type={field.type}
+          value={value ?? ""}
+          onChange={(e) => handleCustomChange(field, e.target.value)}
+          className={errorClass}
+        />
+      );
+    }
+
+    return (
+      <div key={field.id} className="space-y-2">
+        <Label htmlFor={`custom-${field.key}`}>
+          {field.label}
+          {field.required && <span className="text-red-500"> *</span>}
+        </Label>
+        {control}
+        {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEdit ? "Edit Customer" : "Tambah Customer"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="customer-name">
+              Nama <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="customer-name"
+              value={formData.name}
+              maxLength={150}
+              onChange={(e) => handleChange("name", e.target.value)}
+              className={
+                errors.name ? "border-red-500 focus-visible:ring-red-500" : ""
+              }
+            />
+            {errors.name && (
+              <p className="text-xs text-red-500 font-medium">{errors.name}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="customer-email">Email</Label>
+              <Input
+                id="customer-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => handleChange("email", e.target.value)}
+                className={
+                  errors.email
+                    ? "border-red-500 focus-visible:ring-red-500"
+                    : ""
+                }
+              />
+              {errors.email && (
+                <p className="text-xs text-red-500 font-medium">
+                  {errors.email}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customer-phone">Phone (WhatsApp)</Label>
+              <Input
+                id="customer-phone"
+                placeholder="e.g. 628123456789"
+                value={formData.phone}
+                onChange={(e) => handleChange("phone", e.target.value)}
+                className={
+                  errors.phone
+                    ? "border-red-500 focus-visible:ring-red-500"
+                    : ""
+                }
+              />
+              {errors.phone && (
+                <p className="text-xs text-red-500 font-medium">
+                  {errors.phone}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customer-company">Company</Label>
+              <Input
+                id="customer-company"
+                placeholder="e.g. PT. Maju Jaya"
+                value={formData.company}
+                onChange={(e) => handleChange("company", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customer-location">Location</Label>
+              <Input
+                id="customer-location"
+                placeholder="e.g. Jakarta"
+                value={formData.location}
+                onChange={(e) => handleChange("location", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customer-industry">Industry</Label>
+              <Input
+                id="customer-industry"
+                value={formData.industry}
+                onChange={(e) => handleChange("industry", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customer-position">Jabatan</Label>
+              <Input
+                id="customer-position"
+                value={formData.position}
+                onChange={(e) => handleChange("position", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-notes">Notes</Label>
+            <Textarea
+              id="customer-notes"
+              rows={3}
+              value={formData.notes}
+              onChange={(e) => handleChange("notes", e.target.value)}
+              className="resize-none"
+            />
+          </div>
+
+          {/* Custom Fields */}
+          {customFields.length > 0 && (
+            <>
+              <Separator />
+              <div className="grid grid-cols-2 gap-4">
+                {customFields.map(renderCustomField)}
+              </div>
+            </>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              {isEdit ? "Simpan" : "Tambah Customer"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,563 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+import * as crmChatsService from "@/services/crmChatsService";
+import type {
+  CustomerCustomField,
+  CustomerDuplicateStrategy,
+  CustomerImportResult,
+} from "@/services/crmChatsService";
+import {
+  buildImportRows,
+  getImportTargets,
+  guessImportMapping,
+  markExistingDuplicates,
+  parseCustomerFile,
+  type ImportPreviewRow,
+  type ImportTarget,
+  type ParsedSheet,
+} from "@/lib/customerImportExport";
+
+interface CustomerImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+  customFields: CustomerCustomField[];
+  onImported: () => void;
+}
+
+type WizardStep = "upload" | "mapping" | "preview" | "result";
+
+// Rows sent per request, keeps payloads small for large phone books
+const IMPORT_BATCH_SIZE = 500;
+const PREVIEW_ROW_LIMIT = 200;
+
+const ACCEPTED_FILES = ".csv,.xlsx,.xls,.vcf,.vcard";
+
+export const CustomerImportWizard = ({
+  open,
+  onClose,
+  customFields,
+  onImported,
+}: CustomerImportWizardProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ImportTarget[]>([]);
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const [duplicateStrategy, setDuplicateStrategy] =
+    useState<CustomerDuplicateStrategy>("skip");
+  const [isParsing, setIsParsing] = useState(false);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState(0);
+  const [result, setResult] = useState<CustomerImportResult | null>(null);
+
+  // Start from scratch every time the wizard opens
+  useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setFileName("");
+    setSheet(null);
+    setMapping([]);
+    setPreviewRows([]);
+    setDuplicateStrategy("skip");
+    setImportProgress(0);
+    setResult(null);
+  }, [open]);
+
+  const targets = useMemo(() => getImportTargets(customFields), [customFields]);
+
+  const validRows = previewRows.filter((row) => row.errors.length === 0);
+  const errorRows = previewRows.filter((row) => row.errors.length > 0);
+  const fileDuplicates = validRows.filter(
+    (row) => row.duplicate?.source === "file",
+  );
+  const existingDuplicates = validRows.filter(
+    (row) => row.duplicate?.source === "existing",
+  );
+  // Rows repeated inside the file are never sent, only the first occurrence is
+  const rowsToImport = validRows.filter(
+    (row) => row.duplicate?.source !== "file",
+  );
+
+  // ============= Step Handlers =============
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsParsing(true);
+    try {
+      const parsed = await parseCustomerFile(file);
+      if (parsed.rows.length === 0) {
+        toast.error("File tidak berisi data kontak");
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessImportMapping(parsed.headers, customFields));
+      setStep("mapping");
+    } catch (error) {
+      console.error("Failed to parse import file:", error);
+      toast.error("Gagal membaca file. Pastikan format CSV, XLSX, atau vCard.");
+    } finally {
+      setIsParsing(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleMappingNext = async () => {
+    if (!sheet) return;
+    if (
+      !mapping.some((target) => ["name", "phone", "email"].includes(target))
+    ) {
+      toast.error("Petakan minimal kolom Name, Phone, atau Email");
+      return;
+    }
+
+    const rows = buildImportRows(sheet, mapping, customFields);
+    setPreviewRows(rows);
+    setStep("preview");
+
+    // Look up existing customers with the same phone/email
+    const candidates = rows.filter((row) => row.errors.length === 0);
+    const phones = candidates.map((row) => row.input.phone).filter(Boolean);
+    const emails = candidates.map((row) => row.input.email).filter(Boolean);
+    if (phones.length === 0 && emails.length === 0) return;
+
+    setIsCheckingDuplicates(true);
+    try {
+      const existing = await crmChatsService.findDuplicateCustomers({
+        phones,
+        emails,
+      });
+      setPreviewRows(markExistingDuplicates(rows, existing));
+    } catch (error) {
+      console.error("Failed to check duplicates:", error);
+      toast.error("Gagal memeriksa duplikat, backend akan tetap memeriksa");
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (rowsToImport.length === 0) return;
+
+    setIsImporting(true);
+    setImportProgress(0);
+    const total: CustomerImportResult = {
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      errors: [],
+    };
+
+    try {
+      for (let i = 0; i < rowsToImport.length; i += IMPORT_BATCH_SIZE) {
+        const batch = rowsToImport
+          .slice(i, i + IMPORT_BATCH_SIZE)
+          .map((row) => ({ ...row.input, row: row.row }));
+
+        try {
+          const batchResult = await crmChatsService.importCustomers(
+            batch,
+            duplicateStrategy,
+          );
+          total.created += batchResult.created;
+          total.updated += batchResult.updated;
+          total.skipped += batchResult.skipped;
+          total.errors.push(...(batchResult.errors || []));
+        } catch (error) {
+          // Keep going with the next batch, report the failed rows
+          batch.forEach((row) =>
+            total.errors.push({
+              row: row.row,
+              message: error.message || "Gagal mengimpor baris",
+            }),
+          );
+        }
+
+        setImportProgress(
+          Math.round(
+            (Math.min(i + IMPORT_BATCH_SIZE, rowsToImport.length) /
+              rowsToImport.length) *
+              100,
+          ),
+        );
+      }
+
+      // Rows rejected by validation are reported alongside backend errors
+      errorRows.forEach((row) =>
+        total.errors.push({ row: row.row, message: row.errors.join("; ") }),
+      );
+      total.errors.sort((a, b) => a.row - b.row);
+      total.skipped += fileDuplicates.length;
+
+      setResult(total);
+      setStep("result");
+      if (total.created + total.updated > 0) {
+        toast.success(
+          `${total.created} customer ditambahkan, ${total.updated} diperbarui`,
+        );
+        onImported();
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // ============= Render Helpers =============
+
+  const renderDuplicateBadge = (row: ImportPreviewRow) => {
+    if (!row.duplicate) return null;
+    return (
+      <Badge
+        variant="outline"
+        className="text-[10px] border-amber-300 text-amber-700"
+      >
+        <Copy className="w-3 h-3 mr-1" />
+        {row.duplicate.source === "file"
+          ? `Duplikat baris ${row.duplicate.row}`
+          : `Sudah ada: ${row.duplicate.customer.name}`}
+      </Badge>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Import Customers
+          </DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload file CSV, XLSX, atau vCard (.vcf)"}
+            {step === "mapping" &&
+              `${fileName} · ${sheet?.rows.length} baris — petakan kolom ke field customer`}
+            {step === "preview" && "Periksa data sebelum diimpor"}
+            {step === "result" && "Hasil import"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept={ACCEPTED_FILES}
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+
+        {/* Step 1: Upload */}
+        {step === "upload" && (
+          <div
+            className="flex flex-col items-center justify-center gap-3 py-12 border-2 border-dashed rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isParsing ? (
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="w-8 h-8 text-muted-foreground" />
+            )}
+            <p className="text-sm font-medium">Klik untuk memilih file</p>
+            <p className="text-xs text-muted-foreground">
+              Baris pertama CSV/XLSX dianggap sebagai header
+            </p>
+          </div>
+        )}
+
+        {/* Step 2: Column Mapping */}
+        {step === "mapping" && sheet && (
+          <ScrollArea className="flex-1 min-h-0 max-h-[55vh] pr-3">
+            <div className="space-y-2">
+              {sheet.headers.map((header, column) => (
+                <div
+                  key={`${header}-${column}`}
+                  className="grid grid-cols-[1fr_1fr_220px] items-center gap-3 p-2 rounded-md border"
+                >
+                  <span className="text-sm font-medium truncate">
+                    {header || `Kolom ${column + 1}`}
+                  </span>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {sheet.rows
+                      .slice(0, 3)
+                      .map((row) => row[column])
+                      .filter(Boolean)
+                      .join(", ") || "-"}
+                  </span>
+                  <Select
+                    value={mapping[column] || "ignore"}
+                    onValueChange={(value: ImportTarget) =>
+                      setMapping((prev) =>
+                        prev.map((target, i) => {
+                          if (i === column) return value;
+                          // A field can only be mapped from one column
+                          return value !== "ignore" && target === value
+                            ? "ignore"
+                            : target;
+                        }),
+                      )
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targets.map((target) => (
+                        <SelectItem
+                          key={target.value}
+                          value={target.value}
+                          className="text-xs"
+                        >
+                          {target.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === "preview" && (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant="secondary">{previewRows.length} baris</Badge>
+              <Badge className="bg-green-500">{rowsToImport.length} siap</Badge>
+              {errorRows.length > 0 && (
+                <Badge variant="destructive">{errorRows.length} error</Badge>
+              )}
+              {fileDuplicates.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="border-amber-300 text-amber-700"
+                >
+                  {fileDuplicates.length} duplikat dalam file
+                </Badge>
+              )}
+              {isCheckingDuplicates ? (
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Memeriksa customer yang sudah ada...
+                </span>
+              ) : (
+                existingDuplicates.length > 0 && (
+                  <Badge
+                    variant="outline"
+                    className="border-amber-300 text-amber-700"
+                  >
+                    {existingDuplicates.length} sudah ada
+                  </Badge>
+                )
+              )}
+            </div>
+
+            {existingDuplicates.length > 0 && (
+              <div className="flex items-center gap-3">
+                <Label className="text-xs">Customer yang sudah ada:</Label>
+                <Select
+                  value={duplicateStrategy}
+                  onValueChange={(value: CustomerDuplicateStrategy) =>
+                    setDuplicateStrategy(value)
+                  }
+                >
+                  <SelectTrigger className="w-56 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip" className="text-xs">
+                      Lewati
+                    </SelectItem>
+                    <SelectItem value="update" className="text-xs">
+                      Perbarui data yang ada
+                    </SelectItem>
+                    <SelectItem value="create" className="text-xs">
+                      Tetap buat customer baru
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <ScrollArea className="flex-1 min-h-0 max-h-[45vh] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Baris</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                    <TableRow
+                      key={row.row}
+                      className={row.errors.length > 0 ? "bg-red-50" : ""}
+                    >
+                      <TableCell className="text-xs text-muted-foreground">
+                        {row.row}
+                      </TableCell>
+                      <TableCell className="text-xs font-medium">
+                        {row.input.name || "-"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.input.phone || "-"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.input.email || "-"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600">
+                            {row.errors.join("; ")}
+                          </span>
+                        ) : (
+                          renderDuplicateBadge(row) || (
+                            <CheckCircle2 className="w-4 h-4 text-green-600" />
+                          )
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {previewRows.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-xs text-muted-foreground text-center py-2">
+                  Menampilkan {PREVIEW_ROW_LIMIT} dari {previewRows.length}{" "}
+                  baris
+                </p>
+              )}
+            </ScrollArea>
+
+            {isImporting && <Progress value={importProgress} className="h-2" />}
+          </div>
+        )}
+
+        {/* Step 4: Result */}
+        {step === "result" && result && (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="p-3 rounded-lg border text-center">
+                <p className="text-xl font-bold text-green-600">
+                  {result.created}
+                </p>
+                <p className="text-xs text-muted-foreground">Ditambahkan</p>
+              </div>
+              <div className="p-3 rounded-lg border text-center">
+                <p className="text-xl font-bold text-blue-600">
+                  {result.updated}
+                </p>
+                <p className="text-xs text-muted-foreground">Diperbarui</p>
+              </div>
+              <div className="p-3 rounded-lg border text-center">
+                <p className="text-xl font-bold text-muted-foreground">
+                  {result.skipped}
+                </p>
+                <p className="text-xs text-muted-foreground">Dilewati</p>
+              </div>
+            </div>
+
+            {result.errors.length > 0 && (
+              <ScrollArea className="flex-1 min-h-0 max-h-[40vh] border rounded-md">
+                <div className="p-3 space-y-1.5">
+                  <p className="text-xs font-semibold flex items-center gap-1.5 text-red-600">
+                    <AlertCircle className="w-3.5 h-3.5" />
+                    {result.errors.length} baris gagal
+                  </p>
+                  {result.errors.map((error, index) => (
+                    <p key={`${error.row}-${index}`} className="text-xs">
+                      <span className="font-medium">Baris {error.row}:</span>{" "}
+                      <span className="text-muted-foreground">
+                        {error.message}
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Kembali
+              </Button>
+              <Button onClick={handleMappingNext}>Lanjut</Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setStep("mapping")}
+                disabled={isImporting}
+              >
+                Kembali
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={
+                  rowsToImport.length === 0 ||
+                  isImporting ||
+                  isCheckingDuplicates
+                }
+              >
+                {isImporting && (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                )}
+                Import {rowsToImport.length} Customer
+              </Button>
+            </>
+          )}
+          {(step === "upload" || step === "result") && (
+            <Button variant="outline" onClick={onClose}>
+              Tutup
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -60,6 +60,11 @@ import type {
 } from "@/contexts/WebSocketContext";
 import * as crmAgentsService from "@/services/crmAgentsService";
 import * as crmChatsService from "@/services/crmChatsService";
+import * as crmRoutingService from "@/services/crmRoutingService";
+import * as crmLabelsService from "@/services/crmLabelsService";
+import type { LabelSummary } from "@/services/crmLabelsService";
+import { useMessageOutbox } from "@/hooks/useMessageOutbox";
+import type { OutboxEntry } from "@/lib/messageOutbox";
 import {
   playNotificationSound,
   enableAudioNotifications,
@@ -67,7 +72,11 @@ import {
 import { env } from "@/config/env";
 
 // Types
-import type { AgentFrontend, AgentStatus } from "@/services/crmAgentsService";
+import type {
+  AgentFrontend,
+  AgentStatus,
+  AgentStatusSource,
+} from "@/services/crmAgentsService";
 import type {
   Chat as APIChat,
   Message as APIMessage,
@@ -75,6 +84,7 @@ import type {
   Customer,
   CommunicationChannel,
   ChatObject,
+  MessageSearchResult,
 } from "@/services/crmChatsService";
 
 // ============================================================================
@@ -86,7 +96,7 @@ import type {
  */
 interface Message {
   id: string;
-  sender: "customer" | "agent" | "ai";
+  sender: "customer" | "agent" | "ai" | "note";
   senderName: string;
   content: string;
   timestamp: string;
@@ -97,6 +107,10 @@ interface Message {
     url: string;
     type: string;
   };
+  deliveryStatus?: "sent" | "delivered" | "read";
+  // Outbox state of a reply that has not reached the backend yet
+  sendStatus?: "pending" | "failed";
+  sendError?: string;
 }
 /**
  * Ticket interface for customer support tickets
@@ -120,6 +134,7 @@ interface Ticket {
   customerName?: string;
   chatId?: string;
   channel?: "whatsapp" | "telegram" | "email" | "web";
+  sla?: crmChatsService.TicketSla | null;
 }
 
 /**
@@ -145,11 +160,16 @@ interface Chat {
   channel: "whatsapp" | "telegram" | "email" | "web" | "mcp" | string;
   status: "open" | "pending" | "assigned" | "resolved" | "closed";
   messages: Message[];
-  labels?: string[];
+  labels?: LabelSummary[];
   createdDate: string;
   solvedBy?: string;
   tickets?: Ticket[];
   isGroup?: boolean;
+  snoozeMode?: crmChatsService.ChatSnoozeMode | null;
+  snoozedUntil?: string | null;
+  // undefined = not loaded yet, null = chat has no summary
+  handoffSummary?: crmChatsService.HandoffSummary | null;
+  sentiment?: crmChatsService.Sentiment | null;
 }
 
 /**
@@ -162,7 +182,9 @@ interface Agent {
   email: string;
   phone: string;
   status: "active" | "inactive" | "busy";
+  statusSource?: AgentStatusSource;
   assignedChats: number;
+  maxConcurrentChats?: number | null;
   resolvedToday: number;
   avgResponseTime: string;
   lastActive: string;
@@ -217,6 +239,7 @@ export const CustomerService = ({
     status: "all",
     channel: "all",
     dateRange: undefined, // Initialize
+    labelIds: [],
   });
 
   const [agentModalOpen, setAgentModalOpen] = useState(false);
@@ -226,6 +249,10 @@ export const CustomerService = ({
   // Agent State
   const [agents, setAgents] = useState<Agent[]>([]);
   const [agentsLoading, setAgentsLoading] = useState(true);
+  // Chats waiting for an agent with free capacity
+  const [queuedChatsCount, setQueuedChatsCount] = useState(0);
+  // Organization labels available to apply
+  const [labels, setLabels] = useState<LabelSummary[]>([]);
 
   const agentsRef = useRef<Agent[]>([]);
 
@@ -268,6 +295,16 @@ export const CustomerService = ({
   );
   const [currentChatMessages, setCurrentChatMessages] = useState<Message[]>([]);
   const [messagesLoading, setMessagesLoading] = useState(false);
+  // Search result to page back to, then highlight in ChatWindow
+  const [jumpTarget, setJumpTarget] = useState<{
+    chatId: string;
+    messageId: string;
+    rank: number;
+  } | null>(null);
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(
+    null,
+  );
+  const isJumpingRef = useRef(false);
 
   const fetchAndAddTicket = useCallback(
     async (ticketId: string, chatId: string) => {
@@ -312,6 +349,7 @@ export const CustomerService = ({
           assignedTo: agentName,
           tags: apiTicket.tags,
           relatedMessages: [],
+          sla: apiTicket.sla || null,
           chatId: chatId,
           customerName: currentChat?.customerName || "Unknown",
         };
@@ -373,6 +411,7 @@ export const CustomerService = ({
             filters.channel !== "all" ? (filters.channel as any) : undefined,
           created_after: createdAfter,
           created_before: createdBefore,
+          label_ids: filters.labelIds?.length ? filters.labelIds : undefined,
           skip: skip,
           limit: limit,
         });
@@ -406,10 +445,14 @@ export const CustomerService = ({
               handledBy: apiChat.handled_by,
               escalatedAt: apiChat.escalated_at || undefined,
               escalationReason: apiChat.escalation_reason || undefined,
+              handoffSummary: apiChat.handoff_summary,
+              sentiment: apiChat.sentiment || null,
+              snoozeMode: apiChat.snooze_mode || null,
+              snoozedUntil: apiChat.snoozed_until || null,
               channel: apiChat.channel || "-",
               status: apiChat.status as any,
               messages: [],
-              labels: [],
+              labels: apiChat.labels || [],
               createdDate: new Date(apiChat.created_at).toLocaleDateString(),
               solvedBy: apiChat.resolved_by_agent_id
                 ? assignedAgent?.name
@@ -451,10 +494,12 @@ export const CustomerService = ({
   const processMessages = useCallback((messages: any[]): Message[] => {
     return messages.map((apiMsg) => {
       // 1. Determine Sender Role
-      let senderRole: "customer" | "agent" | "ai" = "customer";
+      let senderRole: Message["sender"] = "customer";
       const type = String(apiMsg.sender_type || "").toLowerCase();
 
-      if (type === "agent" || type === "human" || type === "admin") {
+      if (type === "note") {
+        senderRole = "note";
+      } else if (type === "agent" || type === "human" || type === "admin") {
         senderRole = "agent";
       } else if (type === "ai" || type === "bot" || type === "system") {
         senderRole = "ai";
@@ -500,6 +545,7 @@ export const CustomerService = ({
         ticketId: apiMsg.ticket_id || undefined,
         attachment: attachment,
         metadata: apiMsg.metadata,
+        deliveryStatus: apiMsg.delivery_status,
       };
     });
   }, []);
@@ -604,6 +650,7 @@ export const CustomerService = ({
             assignedTo: agentName,
             tags: apiTicket.tags,
             relatedMessages: [],
+            sla: apiTicket.sla || null,
             customerName: apiTicket.customer_name || "Unknown Customer",
             chatId: apiTicket.chat_id,
 
@@ -701,6 +748,7 @@ export const CustomerService = ({
               assignedTo: agentName,
               tags: apiTicket.tags,
               relatedMessages: [],
+              sla: apiTicket.sla || null,
             };
           },
         );
@@ -794,12 +842,99 @@ export const CustomerService = ({
     }
   };
 
+  /**
+   * Open a chat from the full-text search and scroll to the matching message
+   */
+  const handleSearchResultSelect = async (result: MessageSearchResult) => {
+    setHighlightMessageId(null);
+    setJumpTarget(
+      result.message_id
+        ? {
+            chatId: result.chat_id,
+            messageId: result.message_id,
+            rank: result.message_rank ?? 0,
+          }
+        : null,
+    );
+
+    if (!chatsRef.current.some((c) => c.id === result.chat_id)) {
+      await fetchAndPrependChat(
+        result.chat_id,
+        undefined,
+        result.customer_name,
+        undefined,
+        true,
+      );
+    }
+
+    if (result.chat_id !== activeChatRef.current) {
+      // Keeps the jump effect from paging the previous chat's messages
+      setMessagesLoading(true);
+      setActiveChat(result.chat_id);
+    }
+  };
+
+  /**
+   * Page back through the history until the search match is loaded
+   */
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.chatId !== activeChat || messagesLoading)
+      return;
+    if (isJumpingRef.current) return;
+
+    if (currentChatMessages.some((m) => m.id === jumpTarget.messageId)) {
+      setHighlightMessageId(jumpTarget.messageId);
+      setJumpTarget(null);
+      return;
+    }
+
+    if (!hasMoreMessages) {
+      setJumpTarget(null);
+      toast.info("Pesan tidak ditemukan di riwayat chat");
+      return;
+    }
+
+    const loadUntilTarget = async () => {
+      isJumpingRef.current = true;
+      try {
+        const skip = currentChatMessages.length;
+        // The rank tells how many newer messages there are; load them all
+        // plus some context before the match in one request
+        const limit = Math.max(20, jumpTarget.rank - skip + 10);
+        const response = await crmChatsService.getChatMessages(
+          jumpTarget.chatId,
+          { skip, limit, sort_order: "desc" },
+        );
+        if (activeChatRef.current !== jumpTarget.chatId) return;
+
+        const olderMessages = processMessages(response.messages).reverse();
+        setCurrentChatMessages((prev) => [...olderMessages, ...prev]);
+        setHasMoreMessages(response.messages.length === limit);
+      } catch (error) {
+        console.error("Error loading messages around search match:", error);
+        setJumpTarget(null);
+      } finally {
+        isJumpingRef.current = false;
+      }
+    };
+
+    loadUntilTarget();
+  }, [
+    jumpTarget,
+    activeChat,
+    messagesLoading,
+    currentChatMessages,
+    hasMoreMessages,
+    processMessages,
+  ]);
+
   const fetchAndPrependChat = useCallback(
     async (
       chatId: string,
       initialContent?: string,
       customerName?: string,
       wsData?: any,
+      silent = false,
     ) => {
       // Prevent duplicate processing
       if (chatsRef.current.some((c) => c.id === chatId)) return;
@@ -856,13 +991,17 @@ export const CustomerService = ({
 
           escalatedAt: chatData.escalated_at,
           escalationReason: chatData.escalation_reason,
+          handoffSummary: chatData.handoff_summary,
+          sentiment: chatData.sentiment || null,
+          snoozeMode: chatData.snooze_mode || null,
+          snoozedUntil: chatData.snoozed_until || null,
           channel: chatData.channel || "web",
 
           // 🚀 Instantly apply the correct status
           status: (chatData.status || "open") as any,
 
           messages: [],
-          labels: [],
+          labels: chatData.labels || [],
           createdDate: new Date(
             chatData.created_at || Date.now(),
           ).toLocaleDateString(),
@@ -874,6 +1013,7 @@ export const CustomerService = ({
           return [newChat, ...prev];
         });
 
+        if (silent) return;
         playNotificationSound("message", 0.5);
         toast.info(`New chat started: ${newChat.customerName}`, {
           action: { label: "View", onClick: () => setActiveChat(newChat.id) },
@@ -906,6 +1046,20 @@ export const CustomerService = ({
     fetchAgents();
   }, []);
 
+  useEffect(() => {
+    crmRoutingService
+      .getChatQueue()
+      .then((queue) => setQueuedChatsCount(queue.total))
+      .catch((error) => console.error("Error fetching chat queue:", error));
+  }, []);
+
+  useEffect(() => {
+    crmLabelsService
+      .getLabels()
+      .then(setLabels)
+      .catch((error) => console.error("Error fetching labels:", error));
+  }, []);
+
   // ==========================================================================
   // WEBSOCKET HANDLERS
   // ==========================================================================
@@ -922,6 +1076,7 @@ export const CustomerService = ({
         sender_type,
         attachment: wsAttachment, // Rename incoming attachment to avoid confusion
         metadata, // Destructure metadata to access high-res URL
+        delivery_status,
       } = data;
 
       // === DEBUG LOGS ===
@@ -1000,9 +1155,15 @@ export const CustomerService = ({
       }
 
       // === 2. SENDER LOGIC ===
-      let finalSender: "customer" | "agent" | "ai" = "customer";
+      let finalSender: Message["sender"] = "customer";
       const rawType = String(sender_type || "").toLowerCase();
-      if (rawType === "agent" || rawType === "human" || rawType === "admin") {
+      if (rawType === "note") {
+        finalSender = "note";
+      } else if (
+        rawType === "agent" ||
+        rawType === "human" ||
+        rawType === "admin"
+      ) {
         finalSender = "agent";
       } else if (
         rawType === "ai" ||
@@ -1038,7 +1199,10 @@ export const CustomerService = ({
       }
 
       // === 5. UPDATE CHAT LIST ===
+      // Internal notes don't change the conversation preview or unread count
       setChats((prevChats) => {
+        if (finalSender === "note") return prevChats;
+
         const chatIndex = prevChats.findIndex((chat) => chat.id === chat_id);
         if (chatIndex === -1) return prevChats;
 
@@ -1091,6 +1255,14 @@ export const CustomerService = ({
           humanAgentId: data.human_agent_id || chat.humanAgentId,
           isAssigned: updatedHandledBy === "human",
           assignedTo: newAssignedTo,
+
+          // A customer reply ends "until_reply" snoozes
+          ...(finalSender === "customer" && chat.snoozeMode === "until_reply"
+            ? { snoozeMode: null, snoozedUntil: null }
+            : {}),
+          ...(finalSender === "customer" && metadata?.sentiment
+            ? { sentiment: metadata.sentiment.label }
+            : {}),
         };
 
         const [updatedChat] = updatedChats.splice(chatIndex, 1);
@@ -1112,13 +1284,14 @@ export const CustomerService = ({
           ticketId: ticket_id || undefined,
           attachment: finalAttachment,
           metadata: metadata,
+          deliveryStatus: delivery_status,
         };
 
         setCurrentChatMessages((prev) => {
           if (prev.some((msg) => msg.id === message_id)) return prev;
           return [...prev, transformedMessage];
         });
-      } else {
+      } else if (finalSender !== "note") {
         playNotificationSound("message", 0.5);
       }
     },
@@ -1149,6 +1322,47 @@ export const CustomerService = ({
       }
       // =========================================
 
+      // SLA breach: stamp the ticket so badges switch without a refetch
+      if (update_type === "sla_breached" && data.ticket_id) {
+        const breachField =
+          data.sla_type === "first_response"
+            ? "first_response_breached_at"
+            : "resolution_breached_at";
+        const markBreached = (ticket: Ticket): Ticket =>
+          ticket.id === data.ticket_id && ticket.sla
+            ? {
+                ...ticket,
+                sla: {
+                  ...ticket.sla,
+                  [breachField]: data.breached_at || new Date().toISOString(),
+                },
+              }
+            : ticket;
+
+        setKanbanTickets((prev) => prev.map(markBreached));
+        setChats((prevChats) =>
+          prevChats.map((chat) =>
+            chat.id === chat_id && chat.tickets
+              ? { ...chat, tickets: chat.tickets.map(markBreached) }
+              : chat,
+          ),
+        );
+
+        const chat = chatsRef.current.find((c) => c.id === chat_id);
+        if (
+          chat_id === activeChatRef.current ||
+          (chat?.humanId && chat.humanId === user?.id)
+        ) {
+          toast.warning(
+            `SLA ${
+              data.sla_type === "first_response"
+                ? "respon pertama"
+                : "penyelesaian"
+            } terlewati: ${data.ticket_number || "Ticket"}`,
+          );
+        }
+      }
+
       setChats((prevChats) =>
         prevChats.map((chat) => {
           if (chat.id !== chat_id) return chat;
@@ -1166,11 +1380,39 @@ export const CustomerService = ({
             updatedChat.handledBy = "human";
             updatedChat.escalatedAt = new Date().toISOString();
             updatedChat.escalationReason = data.reason;
+            if (data.handoff_summary) {
+              updatedChat.handoffSummary = data.handoff_summary;
+            }
             toast.info(
               `Chat escalated: ${data.reason || "No reason provided"}`,
             );
           }
 
+          if (update_type === "snoozed") {
+            updatedChat.snoozeMode = data.snooze_mode || null;
+            updatedChat.snoozedUntil = data.snoozed_until || null;
+          }
+
+          if (update_type === "unsnoozed") {
+            updatedChat.snoozeMode = null;
+            updatedChat.snoozedUntil = null;
+          }
+
+          if (update_type === "labels_updated" && data.labels) {
+            updatedChat.labels = data.labels;
+          }
+
+          if (
+            update_type === "handoff_summary_ready" &&
+            data.handoff_summary
+          ) {
+            updatedChat.handoffSummary = data.handoff_summary;
+          }
+
+          if (update_type === "sentiment_updated") {
+            updatedChat.sentiment = data.sentiment ?? updatedChat.sentiment;
+          }
+
           if (update_type === "status_changed" && data.status) {
             updatedChat.status = data.status;
             if (data.status === "resolved") {
@@ -1182,13 +1424,50 @@ export const CustomerService = ({
         }),
       );
 
+      // A woken chat resurfaces at the top of the list
+      if (update_type === "unsnoozed") {
+        setChats((prevChats) => {
+          const index = prevChats.findIndex((chat) => chat.id === chat_id);
+          if (index <= 0) return prevChats;
+          const updatedChats = [...prevChats];
+          const [wokenChat] = updatedChats.splice(index, 1);
+          return [wokenChat, ...updatedChats];
+        });
+      }
+
+      // Scoring runs after delivery, patch the message shown in the window
+      if (
+        update_type === "sentiment_updated" &&
+        chat_id === activeChatRef.current &&
+        data.message_id &&
+        data.message_sentiment
+      ) {
+        setCurrentChatMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === data.message_id
+              ? {
+                  ...msg,
+                  metadata: {
+                    ...msg.metadata,
+                    sentiment: data.message_sentiment,
+                  },
+                }
+              : msg,
+          ),
+        );
+      }
+
       if (chat_id === activeChatRef.current) {
         if (update_type === "assigned") {
-          toast.info("Chat assignment updated");
+          toast.info(
+            data.routing_decision_id
+              ? "Chat di-assign otomatis oleh routing"
+              : "Chat assignment updated",
+          );
         }
       }
     },
-    [fetchAndAddTicket], // Ensure this dependency is present!
+    [fetchAndAddTicket, user?.id], // Ensure this dependency is present!
   );
 
   const handleWebSocketMessage = useCallback(
@@ -1206,6 +1485,73 @@ export const CustomerService = ({
         case "chat_update":
           handleChatUpdateNotification(notification);
           break;
+        case "mention":
+          // GlobalChatNotifications alerts the mentioned agent
+          break;
+        case "agent_presence": {
+          const { data } = notification;
+          setAgents((prev) =>
+            prev.map((agent) =>
+              agent.id === data.agent_id
+                ? {
+                    ...agent,
+                    status: data.status,
+                    statusSource: data.status_source,
+                    assignedChats: data.assigned_chats_count,
+                    maxConcurrentChats: data.max_concurrent_chats,
+                  }
+                : agent,
+            ),
+          );
+          break;
+        }
+        case "queue_update":
+          setQueuedChatsCount(notification.data.queued_count);
+          break;
+        case "read_receipt": {
+          const { data } = notification;
+          if (data.chat_id !== activeChatRef.current) break;
+          setCurrentChatMessages((prev) =>
+            prev.map((msg) =>
+              data.message_ids.includes(msg.id) &&
+              // Receipts may arrive out of order, never downgrade "read"
+              msg.deliveryStatus !== "read"
+                ? { ...msg, deliveryStatus: data.status }
+                : msg,
+            ),
+          );
+          break;
+        }
+        case "agent_viewing":
+        case "agent_typing":
+          // ChatWindow tracks collaborators through useChatCollaboration
+          break;
+        case "follow_up_reminder": {
+          // GlobalChatNotifications alerts the agent; resurface the chat here
+          const { data } = notification;
+          if (data.created_by !== user?.id) break;
+          if (!chatsRef.current.some((c) => c.id === data.chat_id)) {
+            fetchAndPrependChat(
+              data.chat_id,
+              undefined,
+              data.customer_name || undefined,
+              undefined,
+              true,
+            );
+            break;
+          }
+          setChats((prevChats) => {
+            const index = prevChats.findIndex((c) => c.id === data.chat_id);
+            if (index === -1) return prevChats;
+            const updatedChats = [...prevChats];
+            const [dueChat] = updatedChats.splice(index, 1);
+            return [
+              { ...dueChat, snoozeMode: null, snoozedUntil: null },
+              ...updatedChats,
+            ];
+          });
+          break;
+        }
 
         // ✅ ADD THESE TWO CASES:
         case "document_upload_completed":
@@ -1216,7 +1562,12 @@ export const CustomerService = ({
           console.log("📩 Unknown notification type:", notification);
       }
     },
-    [handleNewMessageNotification, handleChatUpdateNotification],
+    [
+      handleNewMessageNotification,
+      handleChatUpdateNotification,
+      fetchAndPrependChat,
+      user?.id,
+    ],
   );
 
   useEffect(() => {
@@ -1253,118 +1604,228 @@ export const CustomerService = ({
 
   const selectedChat = chats.find((chat) => chat.id === activeChat);
 
-  // ==========================================================================
-  // MESSAGE HANDLER (FIXED)
-  // ==========================================================================
-  const handleSendMessage = async (message: string, file?: File) => {
-    if (!activeChat) return;
+  // The chat list may omit the handoff summary, load it when an escalated
+  // chat is opened
+  const needsHandoffSummary =
+    Boolean(selectedChat?.escalatedAt) &&
+    selectedChat?.handoffSummary === undefined;
 
-    try {
-      const selectedChat = chats.find((c) => c.id === activeChat);
-      if (!selectedChat) return;
-
-      if (!user?.id) {
-        toast.error("Anda harus login untuk mengirim pesan");
-        return;
-      }
+  useEffect(() => {
+    if (!activeChat || !needsHandoffSummary) return;
 
-      if (selectedChat.humanId && selectedChat.humanId !== user.id) {
-        toast.error(
-          "Hanya agent yang ditugaskan yang dapat mengirim pesan ke chat ini",
+    crmChatsService
+      .getHandoffSummary(activeChat)
+      .catch(() => null)
+      .then((summary) => {
+        setChats((prevChats) =>
+          prevChats.map((chat) =>
+            chat.id === activeChat && chat.handoffSummary === undefined
+              ? { ...chat, handoffSummary: summary }
+              : chat,
+          ),
         );
-        return;
-      }
-
-      const fallbackName = user.email ? user.email.split("@")[0] : "Agent";
-      const agentName = user.user_metadata?.name || fallbackName;
-
-      // 1. Prepare Metadata
-      const metadata = {
-        agent_name: agentName,
-        agent_email: user.email,
-        handled_by: selectedChat.handledBy,
-        chat_status: selectedChat.status,
-        sent_at: new Date().toISOString(),
-        source: "web_ui",
-        user_agent: navigator.userAgent,
-      };
-
-      // 2. Send Message to Backend (Pass the file!)
-      const sentMessage = await crmChatsService.sendMessage({
-        chatId: activeChat,
-        content: message,
-        senderType: "agent",
-        senderId: user.id,
-        file: file,
-        metadata: metadata,
       });
+  }, [activeChat, needsHandoffSummary]);
 
+  // ==========================================================================
+  // MESSAGE HANDLER (FIXED)
+  // ==========================================================================
+  /**
+   * A queued reply was accepted by the backend: swap in the real message
+   */
+  const handleQueuedMessageSent = useCallback(
+    (entry: OutboxEntry, sentMessage: APIMessage) => {
       if (sentMessage.ticket_id) {
-        fetchAndAddTicket(sentMessage.ticket_id, activeChat);
+        fetchAndAddTicket(sentMessage.ticket_id, entry.chat_id);
       }
 
-      // 3. Create Optimistic Attachment Object (INSTANT PREVIEW FIX)
-      // We use URL.createObjectURL to show the local file immediately
-      const attachmentData = file
+      // Local file for an instant preview, the backend URL arrives on reload
+      const attachmentData = entry.file
         ? {
-            name: file.name,
-            url: URL.createObjectURL(file),
-            type: file.type,
+            name: entry.file_name || "Attachment",
+            url: URL.createObjectURL(entry.file),
+            type: entry.file_type || entry.file.type,
           }
         : undefined;
 
-      // 4. Create Message Object for UI
       const transformedMessage: Message = {
         id: sentMessage.id,
         sender: "agent",
-        senderName: agentName,
+        senderName: entry.metadata.agent_name || "Agent",
         content: sentMessage.content,
         timestamp: new Date(sentMessage.created_at).toLocaleTimeString([], {
           hour: "2-digit",
           minute: "2-digit",
         }),
         ticketId: sentMessage.ticket_id || undefined,
-        attachment: attachmentData, // <--- Add attachment to state
+        attachment: attachmentData,
+        deliveryStatus: sentMessage.delivery_status,
       };
 
-      // 5. Update Chat List State
       setChats((prevChats) =>
         prevChats.map((chat) => {
-          if (chat.id !== activeChat) return chat;
+          if (chat.id !== entry.chat_id) return chat;
 
-          // Update logic (append or replace if exists)
           const existingMsgIndex = chat.messages.findIndex(
             (m) => m.id === transformedMessage.id,
           );
-          let newMessages;
-
+          const newMessages = [...chat.messages];
           if (existingMsgIndex !== -1) {
-            newMessages = [...chat.messages];
             newMessages[existingMsgIndex] = transformedMessage;
           } else {
-            newMessages = [...chat.messages, transformedMessage];
+            newMessages.push(transformedMessage);
           }
-
-          return {
-            ...chat,
-            messages: newMessages,
-            lastMessage: file ? `[File] ${message}` : message,
-            timestamp: new Date().toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            }),
-          };
+          return { ...chat, messages: newMessages };
         }),
       );
 
-      // 6. Update Active Window Messages
+      if (entry.chat_id === activeChatRef.current) {
+        setCurrentChatMessages((prev) => {
+          if (prev.some((m) => m.id === transformedMessage.id)) return prev;
+          return [...prev, transformedMessage];
+        });
+      }
+    },
+    [fetchAndAddTicket],
+  );
+
+  const messageOutbox = useMessageOutbox({
+    userId: user?.id,
+    onSent: handleQueuedMessageSent,
+  });
+
+  // Queued replies of the open chat, shown after the delivered ones
+  const outboxMessages: Message[] = messageOutbox.entries
+    .filter((entry) => entry.chat_id === activeChat && entry.status !== "sent")
+    .map((entry) => ({
+      id: entry.id,
+      sender: "agent",
+      senderName: entry.metadata.agent_name || "Agent",
+      content: entry.content,
+      timestamp: new Date(entry.created_at).toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
+      attachment: entry.file
+        ? {
+            name: entry.file_name || "Attachment",
+            url: "",
+            type: entry.file_type || "file",
+          }
+        : undefined,
+      sendStatus: entry.status === "failed" ? "failed" : "pending",
+      sendError: entry.last_error || undefined,
+    }));
+
+  const handleSendMessage = async (
+    message: string,
+    file?: File,
+    cannedResponseId?: string,
+  ) => {
+    if (!activeChat) return;
+
+    const selectedChat = chats.find((c) => c.id === activeChat);
+    if (!selectedChat) return;
+
+    if (!user?.id) {
+      toast.error("Anda harus login untuk mengirim pesan");
+      return;
+    }
+
+    if (selectedChat.humanId && selectedChat.humanId !== user.id) {
+      toast.error(
+        "Hanya agent yang ditugaskan yang dapat mengirim pesan ke chat ini",
+      );
+      return;
+    }
+
+    const fallbackName = user.email ? user.email.split("@")[0] : "Agent";
+    const agentName = user.user_metadata?.name || fallbackName;
+
+    // 1. Prepare Metadata
+    const metadata = {
+      agent_name: agentName,
+      agent_email: user.email,
+      handled_by: selectedChat.handledBy,
+      chat_status: selectedChat.status,
+      sent_at: new Date().toISOString(),
+      source: "web_ui",
+      user_agent: navigator.userAgent,
+    };
+
+    // 2. Queue it; the outbox delivers, retries and persists across reloads
+    const entry = await messageOutbox.enqueue({
+      chatId: activeChat,
+      content: message,
+      file,
+      cannedResponseId,
+      metadata,
+    });
+    if (!entry) {
+      toast.error("Gagal mengirim pesan");
+      return;
+    }
+
+    // 3. Update Chat List preview
+    setChats((prevChats) =>
+      prevChats.map((chat) =>
+        chat.id === activeChat
+          ? {
+              ...chat,
+              lastMessage: file ? `[File] ${message}` : message,
+              timestamp: new Date().toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              }),
+            }
+          : chat,
+      ),
+    );
+  };
+
+  /**
+   * Internal note: stays inside the CRM, never sent to the customer
+   */
+  const handleSendNote = async (
+    content: string,
+    mentionedUserIds: string[],
+  ) => {
+    if (!activeChat || !user?.id) return;
+
+    try {
+      const note = await crmChatsService.sendInternalNote({
+        chatId: activeChat,
+        content,
+        mentionedUserIds,
+      });
+
+      const fallbackName = user.email ? user.email.split("@")[0] : "Agent";
+      const transformedNote: Message = {
+        id: note.id,
+        sender: "note",
+        senderName:
+          note.sender_name || user.user_metadata?.name || fallbackName,
+        content: note.content,
+        timestamp: new Date(note.created_at || Date.now()).toLocaleTimeString(
+          [],
+          { hour: "2-digit", minute: "2-digit" },
+        ),
+        metadata: note.metadata,
+      };
+
       setCurrentChatMessages((prev) => {
-        if (prev.some((m) => m.id === transformedMessage.id)) return prev;
-        return [...prev, transformedMessage];
+        if (prev.some((m) => m.id === transformedNote.id)) return prev;
+        return [...prev, transformedNote];
       });
+
+      if (mentionedUserIds.length > 0) {
+        toast.success(
+          `Catatan disimpan, ${mentionedUserIds.length} rekan di-mention`,
+        );
+      }
     } catch (error) {
-      console.error("Error sending message:", error);
-      toast.error("Gagal mengirim pesan");
+      console.error("Error adding internal note:", error);
+      toast.error("Gagal menyimpan catatan internal");
     }
   };
 
@@ -1411,11 +1872,17 @@ export const CustomerService = ({
     }
   };
 
-  const handleMarkResolved = async () => {
+  const handleMarkResolved = async (options?: {
+    sendTranscript: boolean;
+    transcriptEmail?: string;
+  }) => {
     if (!activeChat) return;
 
     try {
-      await crmChatsService.resolveChat(activeChat);
+      await crmChatsService.resolveChat(activeChat, {
+        send_transcript: options?.sendTranscript || false,
+        transcript_email: options?.transcriptEmail,
+      });
 
       setChats((prevChats) =>
         prevChats.map((chat) =>
@@ -1428,7 +1895,11 @@ export const CustomerService = ({
         ),
       );
 
-      toast.success("Chat berhasil diresolve");
+      toast.success(
+        options?.sendTranscript
+          ? "Chat berhasil diresolve, transkrip dikirim ke customer"
+          : "Chat berhasil diresolve",
+      );
 
       // 🚀 ADDED: Close the current chat window and switch to Unassigned tab
       setActiveChat(null);
@@ -1439,6 +1910,125 @@ export const CustomerService = ({
     }
   };
 
+  /**
+   * Apply/remove labels on one or many chats, optimistically
+   */
+  const handleChatLabelsChange = async (
+    chatIds: string[],
+    addLabelIds: string[],
+    removeLabelIds: string[],
+  ) => {
+    if (chatIds.length === 0) return;
+    const previousChats = chatsRef.current;
+    const added = labels.filter((l) => addLabelIds.includes(l.id));
+
+    setChats((prevChats) =>
+      prevChats.map((chat) => {
+        if (!chatIds.includes(chat.id)) return chat;
+        const kept = (chat.labels || []).filter(
+          (l) => !removeLabelIds.includes(l.id),
+        );
+        return {
+          ...chat,
+          labels: [
+            ...kept,
+            ...added.filter((l) => !kept.some((k) => k.id === l.id)),
+          ],
+        };
+      }),
+    );
+
+    try {
+      await crmLabelsService.bulkUpdateChatLabels(chatIds, {
+        add_label_ids: addLabelIds,
+        remove_label_ids: removeLabelIds,
+      });
+      if (chatIds.length > 1) {
+        toast.success(`Label diperbarui di ${chatIds.length} chat`);
+      }
+    } catch (error) {
+      console.error("Error updating chat labels:", error);
+      toast.error(error.message || "Gagal memperbarui label");
+      setChats((prevChats) =>
+        prevChats.map((chat) =>
+          chatIds.includes(chat.id)
+            ? {
+                ...chat,
+                labels: previousChats.find((c) => c.id === chat.id)?.labels,
+              }
+            : chat,
+        ),
+      );
+    }
+  };
+
+  const handleSnoozeChat = async (data: crmChatsService.SnoozeChatRequest) => {
+    if (!activeChat) return;
+
+    try {
+      const updatedChat = await crmChatsService.snoozeChat(activeChat, data);
+
+      setChats((prevChats) =>
+        prevChats.map((chat) =>
+          chat.id === activeChat
+            ? {
+                ...chat,
+                snoozeMode: updatedChat.snooze_mode || data.mode,
+                snoozedUntil: updatedChat.snoozed_until || data.until || null,
+              }
+            : chat,
+        ),
+      );
+
+      toast.success(
+        data.mode === "until_reply"
+          ? "Chat ditunda sampai customer membalas"
+          : "Chat berhasil ditunda",
+      );
+
+      // The chat leaves the active list
+      setActiveChat(null);
+    } catch (error) {
+      console.error("Error snoozing chat:", error);
+      toast.error(error.message || "Gagal menunda chat");
+    }
+  };
+
+  const handleUnsnoozeChat = async () => {
+    if (!activeChat) return;
+
+    try {
+      await crmChatsService.unsnoozeChat(activeChat);
+      setChats((prevChats) =>
+        prevChats.map((chat) =>
+          chat.id === activeChat
+            ? { ...chat, snoozeMode: null, snoozedUntil: null }
+            : chat,
+        ),
+      );
+      toast.success("Chat kembali ke daftar aktif");
+    } catch (error) {
+      console.error("Error unsnoozing chat:", error);
+      toast.error(error.message || "Gagal membatalkan tunda");
+    }
+  };
+
+  const handleRegenerateHandoffSummary = async () => {
+    if (!activeChat) return;
+
+    try {
+      const summary = await crmChatsService.regenerateHandoffSummary(activeChat);
+      setChats((prevChats) =>
+        prevChats.map((chat) =>
+          chat.id === activeChat ? { ...chat, handoffSummary: summary } : chat,
+        ),
+      );
+    } catch (error) {
+      console.error("Error regenerating handoff summary:", error);
+      toast.error(error.message || "Gagal membuat ulang ringkasan");
+    }
+  };
+
   const handleEscalateChat = async (humanAgentId: string, reason?: string) => {
     if (!activeChat) return;
 
@@ -1458,6 +2048,7 @@ export const CustomerService = ({
                 handledBy: updatedChat.handled_by,
                 escalatedAt: updatedChat.escalated_at || undefined,
                 escalationReason: updatedChat.escalation_reason || undefined,
+                handoffSummary: updatedChat.handoff_summary,
                 isAssigned: true,
                 assignedTo: updatedChat.human_agent_name || undefined,
                 status: "assigned",
@@ -1519,6 +2110,25 @@ export const CustomerService = ({
     }
   };
 
+  const handleUpdateAgentCapacity = async (
+    agentId: string,
+    maxConcurrentChats: number | null,
+  ) => {
+    try {
+      const updatedAgent = await crmAgentsService.updateAgentCapacity(
+        agentId,
+        maxConcurrentChats,
+      );
+      setAgents((prev) =>
+        prev.map((agent) => (agent.id === agentId ? updatedAgent : agent)),
+      );
+      toast.success("Kapasitas agent berhasil diupdate");
+    } catch (error) {
+      console.error("Error updating agent capacity:", error);
+      toast.error("Gagal mengupdate kapasitas agent. Silakan coba lagi.");
+    }
+  };
+
   const handleSaveAgentSettings = async (agentId: string, settings: any) => {
     try {
       await crmAgentsService.updateAgentSettings(agentId, settings);
@@ -1588,6 +2198,7 @@ export const CustomerService = ({
         assignedTo: ticket.assignedTo || undefined,
         tags: createdTicket.tags,
         relatedMessages: [],
+        sla: createdTicket.sla || null,
       };
 
       setChats((prevChats) =>
@@ -1937,6 +2548,13 @@ export const CustomerService = ({
                   onLoadMore={() => loadChats(true)}
                   hasMore={hasMoreChats}
                   isLoadingMore={isLoadingMoreChats}
+                  currentAgent={agents.find(
+                    (agent) => user?.id && agent.userId === user.id,
+                  )}
+                  queuedChatsCount={queuedChatsCount}
+                  onSearchResultSelect={handleSearchResultSelect}
+                  labels={labels}
+                  onLabelsChange={handleChatLabelsChange}
                 />
               </div>
 
@@ -1960,27 +2578,50 @@ export const CustomerService = ({
               status={selectedChat?.status || "open"}
               isAssigned={selectedChat?.isAssigned || false}
               assignedTo={selectedChat?.assignedTo}
+              assignedUserId={selectedChat?.humanId}
               isOwnChat={selectedChat?.humanId === user?.id}
               // FIX: Pass the AI Agent ID here
               aiAgentId={selectedChat?.aiAgentId}
               aiAgentName={selectedChat?.aiAgentName}
               humanAgentName={selectedChat?.humanAgentName}
+              currentAgentName={
+                user?.user_metadata?.name || user?.email?.split("@")[0]
+              }
               handledBy={selectedChat?.handledBy || "unassigned"}
               escalatedAt={selectedChat?.escalatedAt}
               escalationReason={selectedChat?.escalationReason}
+              handoffSummary={selectedChat?.handoffSummary}
+              onRegenerateHandoffSummary={handleRegenerateHandoffSummary}
               tickets={selectedChat?.tickets || []}
               isLoading={messagesLoading}
               agents={agents}
               onSendMessage={handleSendMessage}
+              onSendNote={handleSendNote}
               onAssignToAgent={handleAssignToAgent}
               onMarkResolved={handleMarkResolved}
               onEscalateToHuman={handleEscalateChat}
               onCreateTicket={handleCreateTicket}
               onUpdateTicket={handleUpdateTicket}
-              messages={currentChatMessages}
+              messages={[...currentChatMessages, ...outboxMessages]}
+              onResendMessage={messageOutbox.resend}
+              onDiscardMessage={messageOutbox.discard}
+              snoozeMode={selectedChat?.snoozeMode}
+              snoozedUntil={selectedChat?.snoozedUntil}
+              onSnooze={handleSnoozeChat}
+              onUnsnooze={handleUnsnoozeChat}
+              labels={selectedChat?.labels || []}
+              availableLabels={labels}
+              onLabelsChange={(addLabelIds, removeLabelIds) =>
+                handleChatLabelsChange(
+                  activeChat ? [activeChat] : [],
+                  addLabelIds,
+                  removeLabelIds,
+                )
+              }
               // NEW PROPS
               onLoadMoreMessages={handleLoadMoreMessages}
               hasMoreMessages={hasMoreMessages}
+              highlightMessageId={highlightMessageId}
             />
           </>
         ) : (
@@ -1999,6 +2640,7 @@ export const CustomerService = ({
         agents={agents}
         onAddAgent={handleAddAgent}
         onUpdateAgentStatus={handleUpdateAgentStatus}
+        onUpdateAgentCapacity={handleUpdateAgentCapacity}
         onSaveAgentSettings={handleSaveAgentSettings}
         onDeleteAgent={handleDeleteAgent}
       />
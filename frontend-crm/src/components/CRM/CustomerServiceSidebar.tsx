@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { format, subDays, startOfDay, endOfDay } from "date-fns";
-import { AlertTriangle, Calendar as CalendarIcon } from "lucide-react";
+import { AlertTriangle, Calendar as CalendarIcon, Frown } from "lucide-react";
 import { DateRange } from "react-day-picker";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -18,6 +18,18 @@ import {
   DialogClose,
 } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import { AgentLoadIndicator } from "./AgentLoadIndicator";
+import { ChatMessageSearch } from "./ChatMessageSearch";
+import { LabelBadge } from "./LabelBadge";
+import { LabelPicker } from "./LabelPicker";
+import type { LabelSummary } from "@/services/crmLabelsService";
+import type {
+  ChatSnoozeMode,
+  CommunicationChannel,
+  MessageSearchResult,
+  Sentiment,
+} from "@/services/crmChatsService";
+import { formatSnoozeLabel, isChatSnoozed } from "@/lib/chatSnooze";
 
 // UI Components
 import { Input } from "@/components/ui/input";
@@ -26,6 +38,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -44,6 +57,10 @@ import {
   Loader2,
   CheckCircle2,
   SlidersHorizontal,
+  Inbox,
+  AlarmClock,
+  ListChecks,
+  Tag,
 } from "lucide-react";
 
 // ============================================================================
@@ -62,6 +79,10 @@ interface Chat {
   channel: string;
   handledBy: "ai" | "human" | "unassigned";
   isGroup?: boolean;
+  snoozeMode?: ChatSnoozeMode | null;
+  snoozedUntil?: string | null;
+  labels?: LabelSummary[];
+  sentiment?: Sentiment | null;
 }
 
 // FIX: Ensure 'readStatus' is defined here
@@ -71,6 +92,7 @@ export interface ChatFilters {
   status: "all" | "open" | "pending" | "assigned" | "resolved" | "closed";
   channel: "all" | "whatsapp" | "telegram" | "email" | "web" | "mcp" | string;
   dateRange?: DateRange;
+  labelIds?: string[]; // Chats carrying any of these labels
 }
 
 interface CustomerServiceSidebarProps {
@@ -86,8 +108,40 @@ interface CustomerServiceSidebarProps {
   onLoadMore?: () => void;
   hasMore?: boolean;
   isLoadingMore?: boolean;
+
+  // Live load of the signed-in agent and the overflow queue
+  currentAgent?: {
+    status: "active" | "inactive" | "busy";
+    statusSource?: string;
+    assignedChats: number;
+    maxConcurrentChats?: number | null;
+  };
+  queuedChatsCount?: number;
+
+  // Opens a server-side search result (chat + matching message)
+  onSearchResultSelect?: (result: MessageSearchResult) => void;
+
+  // Organization labels and bulk apply/remove on the selected chats
+  labels?: LabelSummary[];
+  onLabelsChange?: (
+    chatIds: string[],
+    addLabelIds: string[],
+    removeLabelIds: string[],
+  ) => void;
 }
 
+const AGENT_STATUS_DOT: Record<string, string> = {
+  active: "bg-green-500",
+  busy: "bg-yellow-500",
+  inactive: "bg-gray-400",
+};
+
+const AUTO_STATUS_LABELS: Record<string, string> = {
+  capacity: "kapasitas penuh",
+  idle: "tidak aktif",
+  logout: "logout",
+};
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -135,9 +189,24 @@ export const CustomerServiceSidebar = ({
   onLoadMore,
   hasMore = false,
   isLoadingMore = false,
+  currentAgent,
+  queuedChatsCount = 0,
+  onSearchResultSelect,
+  labels = [],
+  onLabelsChange,
 }: CustomerServiceSidebarProps) => {
   const [searchQuery, setSearchQuery] = useState("");
+  // "loaded" filters the chat list below; "all" searches every message
+  const [searchScope, setSearchScope] = useState<"loaded" | "all">("loaded");
+  const isSearchingAll = searchScope === "all" && Boolean(onSearchResultSelect);
   const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
+  // Snoozed chats are hidden from the active list unless toggled on
+  const [showSnoozed, setShowSnoozed] = useState(false);
+  // Bulk selection for applying labels
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedChatIds, setSelectedChatIds] = useState<Set<string>>(
+    new Set(),
+  );
 
   // Get unique lists for dropdowns
   const agents = Array.from(
@@ -150,13 +219,22 @@ export const CustomerServiceSidebar = ({
 
   const channels = ["whatsapp", "telegram", "email"];
 
+  const isInTab = (chat: Chat) =>
+    filterType === "assigned" ? chat.isAssigned : !chat.isAssigned;
+  const snoozedCount = chats.filter(
+    (chat) => isInTab(chat) && isChatSnoozed(chat),
+  ).length;
+
   // Filter Logic
   const filteredChats = chats.filter((chat) => {
     // 1. Filter by Assigned/Unassigned (Base Filter)
-    if (filterType === "assigned" ? !chat.isAssigned : chat.isAssigned) {
+    if (!isInTab(chat)) {
       return false;
     }
 
+    // Snoozed chats only show in the "Ditunda" view, and only there
+    if (isChatSnoozed(chat) !== showSnoozed) return false;
+
     // 2. Filter by Search Query
     if (
       searchQuery &&
@@ -181,13 +259,52 @@ export const CustomerServiceSidebar = ({
     if (filters.channel !== "all" && chat.channel !== filters.channel)
       return false;
 
+    // 7. Filter by Label (also applied server-side)
+    if (
+      filters.labelIds?.length &&
+      !chat.labels?.some((label) => filters.labelIds.includes(label.id))
+    )
+      return false;
+
     return true;
   });
 
   const activeFiltersCount = Object.values(filters).filter(
-    (v) => v !== "all" && v !== undefined,
+    (v) =>
+      v !== "all" && v !== undefined && !(Array.isArray(v) && v.length === 0),
   ).length;
 
+  const selectedChats = filteredChats.filter((chat) =>
+    selectedChatIds.has(chat.id),
+  );
+
+  const toggleChatSelection = (chatId: string) => {
+    setSelectedChatIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(chatId)) {
+        next.delete(chatId);
+      } else {
+        next.add(chatId);
+      }
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedChatIds(new Set());
+  };
+
+  const toggleLabelFilter = (labelId: string) => {
+    const current = filters.labelIds || [];
+    onFiltersChange({
+      ...filters,
+      labelIds: current.includes(labelId)
+        ? current.filter((id) => id !== labelId)
+        : [...current, labelId],
+    });
+  };
+
   const getStatusColor = (status: string): string => {
     switch (status) {
       case "open":
@@ -212,6 +329,7 @@ export const CustomerServiceSidebar = ({
       status: "all",
       channel: "all",
       dateRange: undefined,
+      labelIds: [],
     });
   };
 
@@ -233,272 +351,466 @@ export const CustomerServiceSidebar = ({
     <div className="bg-card flex flex-col h-full border-r">
       {/* HEADER: Search & Filter Button */}
       <div className="p-3 border-b space-y-3 flex-shrink-0 bg-background/50 backdrop-blur-sm">
+        {/* Agent Load */}
+        {(currentAgent || queuedChatsCount > 0) && (
+          <div className="flex items-center gap-3 text-xs">
+            {currentAgent && (
+              <div className="flex flex-1 items-center gap-2 min-w-0">
+                <span
+                  className={cn(
+                    "w-2 h-2 rounded-full shrink-0",
+                    AGENT_STATUS_DOT[currentAgent.status],
+                  )}
+                  title={
+                    AUTO_STATUS_LABELS[currentAgent.statusSource]
+                      ? `${currentAgent.status} (otomatis: ${AUTO_STATUS_LABELS[currentAgent.statusSource]})`
+                      : currentAgent.status
+                  }
+                />
+                <AgentLoadIndicator
+                  className="flex-1"
+                  assignedChats={currentAgent.assignedChats}
+                  maxConcurrentChats={currentAgent.maxConcurrentChats}
+                />
+              </div>
+            )}
+            {queuedChatsCount > 0 && (
+              <Badge
+                variant="outline"
+                className="gap-1 text-[10px] h-5 px-1.5 shrink-0 bg-amber-500/10 text-amber-700 border-amber-500/30"
+                title="Chat menunggu agent dengan kapasitas tersedia"
+              >
+                <Inbox className="h-3 w-3" />
+                {queuedChatsCount} antrian
+              </Badge>
+            )}
+          </div>
+        )}
+
         {/* Search Bar */}
         <div className="relative">
           <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             type="text"
-            placeholder="Search conversations..."
+            placeholder={
+              isSearchingAll
+                ? "Cari isi pesan, nama, atau nomor..."
+                : "Search conversations..."
+            }
             className="pl-9 h-9 text-sm"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
           />
         </div>
+        {onSearchResultSelect && (
+          <div className="grid grid-cols-2 gap-1 rounded-md bg-muted p-0.5">
+            {(
+              [
+                { value: "loaded", label: "Daftar chat" },
+                { value: "all", label: "Semua pesan" },
+              ] as const
+            ).map((scope) => (
+              <button
+                key={scope.value}
+                type="button"
+                onClick={() => setSearchScope(scope.value)}
+                className={cn(
+                  "rounded-sm py-1 text-xs transition-colors",
+                  searchScope === scope.value
+                    ? "bg-background shadow-sm font-medium"
+                    : "text-muted-foreground hover:text-foreground",
+                )}
+              >
+                {scope.label}
+              </button>
+            ))}
+          </div>
+        )}
 
-        {/* Filter Modal Trigger */}
-        <Dialog open={isFilterModalOpen} onOpenChange={setIsFilterModalOpen}>
-          <DialogTrigger asChild>
-            <Button
+        {(snoozedCount > 0 || showSnoozed) && (
+          <Button
+            variant={showSnoozed ? "secondary" : "ghost"}
+            size="sm"
+            className="w-full justify-between h-8 text-xs"
+            onClick={() => setShowSnoozed(!showSnoozed)}
+          >
+            <div className="flex items-center gap-2">
+              <AlarmClock className="h-3.5 w-3.5" />
+              <span>
+                {showSnoozed ? "Kembali ke chat aktif" : "Chat ditunda"}
+              </span>
+            </div>
+            <Badge
               variant="outline"
-              size="sm"
-              className={cn(
-                "w-full justify-between h-9 text-xs",
-                activeFiltersCount > 0 &&
-                  "border-primary/50 bg-primary/5 text-primary",
-              )}
+              className="text-[10px] h-5 px-1.5 min-w-[20px] justify-center"
             >
-              <div className="flex items-center gap-2">
-                <SlidersHorizontal className="h-3.5 w-3.5" />
-                <span>Filter Conversations</span>
-              </div>
-              {activeFiltersCount > 0 && (
-                <Badge
-                  variant="secondary"
-                  className="ml-1 text-[10px] h-5 px-1.5 min-w-[20px] justify-center"
-                >
-                  {activeFiltersCount}
-                </Badge>
-              )}
-            </Button>
-          </DialogTrigger>
-
-          {/* FILTER MODAL CONTENT */}
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle className="flex items-center gap-2">
-                <Filter className="h-5 w-5" />
-                Filter Options
-              </DialogTitle>
-            </DialogHeader>
-
-            <div className="grid gap-5 py-4">
-              {/* Date Range Picker - Full Width with Presets */}
-              <div className="space-y-2">
-                <Label>Date Range</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      id="date"
-                      variant={"outline"}
-                      className={cn(
-                        "w-full justify-start text-left font-normal",
-                        !filters.dateRange && "text-muted-foreground",
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {filters.dateRange?.from ? (
-                        filters.dateRange.to ? (
-                          <>
-                            {format(filters.dateRange.from, "LLL dd, y")} -{" "}
-                            {format(filters.dateRange.to, "LLL dd, y")}
-                          </>
-                        ) : (
-                          format(filters.dateRange.from, "LLL dd, y")
-                        )
-                      ) : (
-                        <span>Pick a date range</span>
-                      )}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="center">
-                    <div className="flex">
-                      {/* PRESETS SIDEBAR */}
-                      <div className="flex flex-col gap-2 p-3 border-r w-[140px]">
-                        <p className="text-xs font-medium text-muted-foreground mb-1">
-                          Quick Select
-                        </p>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="justify-start text-xs font-normal"
-                          onClick={() => applyDatePreset(0)}
-                        >
-                          Today
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="justify-start text-xs font-normal"
-                          onClick={() => applyDatePreset(1)}
-                        >
-                          Last 24 Hours
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="justify-start text-xs font-normal"
-                          onClick={() => applyDatePreset(7)}
-                        >
-                          Last 7 Days
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="justify-start text-xs font-normal"
-                          onClick={() => applyDatePreset(30)}
-                        >
-                          Last 30 Days
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="justify-start text-xs font-normal"
-                          onClick={() => applyDatePreset(90)}
-                        >
-                          Last 3 Months
-                        </Button>
-                      </div>
-
-                      {/* CALENDAR */}
-                      <div className="p-0">
-                        <Calendar
-                          initialFocus
-                          mode="range"
-                          defaultMonth={filters.dateRange?.from}
-                          selected={filters.dateRange}
-                          onSelect={(range) =>
-                            onFiltersChange({ ...filters, dateRange: range })
-                          }
-                          numberOfMonths={2}
-                        />
-                      </div>
-                    </div>
-                  </PopoverContent>
-                </Popover>
-              </div>
+              {snoozedCount}
+            </Badge>
+          </Button>
+        )}
 
-              <div className="grid grid-cols-2 gap-4">
-                {/* Status Filter */}
-                <div className="space-y-2">
-                  <Label>Status</Label>
-                  <Select
-                    value={filters.status}
-                    onValueChange={(value) =>
-                      onFiltersChange({ ...filters, status: value as any })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="open">Open</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="assigned">Assigned</SelectItem>
-                      <SelectItem value="resolved">Resolved</SelectItem>
-                    </SelectContent>
-                  </Select>
+        {/* Filter Modal Trigger */}
+        <div className="flex gap-2">
+          <Dialog open={isFilterModalOpen} onOpenChange={setIsFilterModalOpen}>
+            <DialogTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className={cn(
+                  "w-full justify-between h-9 text-xs",
+                  activeFiltersCount > 0 &&
+                    "border-primary/50 bg-primary/5 text-primary",
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <SlidersHorizontal className="h-3.5 w-3.5" />
+                  <span>Filter Conversations</span>
                 </div>
+                {activeFiltersCount > 0 && (
+                  <Badge
+                    variant="secondary"
+                    className="ml-1 text-[10px] h-5 px-1.5 min-w-[20px] justify-center"
+                  >
+                    {activeFiltersCount}
+                  </Badge>
+                )}
+              </Button>
+            </DialogTrigger>
 
-                {/* Read Status Filter */}
+            {/* FILTER MODAL CONTENT */}
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Filter className="h-5 w-5" />
+                  Filter Options
+                </DialogTitle>
+              </DialogHeader>
+
+              <div className="grid gap-5 py-4">
+                {/* Date Range Picker - Full Width with Presets */}
                 <div className="space-y-2">
-                  <Label>Read Status</Label>
-                  <Select
-                    value={filters.readStatus}
-                    onValueChange={(value) =>
-                      onFiltersChange({ ...filters, readStatus: value as any })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Read status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All</SelectItem>
-                      <SelectItem value="read">Read</SelectItem>
-                      <SelectItem value="unread">Unread</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label>Date Range</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        id="date"
+                        variant={"outline"}
+                        className={cn(
+                          "w-full justify-start text-left font-normal",
+                          !filters.dateRange && "text-muted-foreground",
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {filters.dateRange?.from ? (
+                          filters.dateRange.to ? (
+                            <>
+                              {format(filters.dateRange.from, "LLL dd, y")} -{" "}
+                              {format(filters.dateRange.to, "LLL dd, y")}
+                            </>
+                          ) : (
+                            format(filters.dateRange.from, "LLL dd, y")
+                          )
+                        ) : (
+                          <span>Pick a date range</span>
+                        )}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="center">
+                      <div className="flex">
+                        {/* PRESETS SIDEBAR */}
+                        <div className="flex flex-col gap-2 p-3 border-r w-[140px]">
+                          <p className="text-xs font-medium text-muted-foreground mb-1">
+                            Quick Select
+                          </p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="justify-start text-xs font-normal"
+                            onClick={() => applyDatePreset(0)}
+                          >
+                            Today
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="justify-start text-xs font-normal"
+                            onClick={() => applyDatePreset(1)}
+                          >
+                            Last 24 Hours
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="justify-start text-xs font-normal"
+                            onClick={() => applyDatePreset(7)}
+                          >
+                            Last 7 Days
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="justify-start text-xs font-normal"
+                            onClick={() => applyDatePreset(30)}
+                          >
+                            Last 30 Days
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="justify-start text-xs font-normal"
+                            onClick={() => applyDatePreset(90)}
+                          >
+                            Last 3 Months
+                          </Button>
+                        </div>
+
+                        {/* CALENDAR */}
+                        <div className="p-0">
+                          <Calendar
+                            initialFocus
+                            mode="range"
+                            defaultMonth={filters.dateRange?.from}
+                            selected={filters.dateRange}
+                            onSelect={(range) =>
+                              onFiltersChange({ ...filters, dateRange: range })
+                            }
+                            numberOfMonths={2}
+                          />
+                        </div>
+                      </div>
+                    </PopoverContent>
+                  </Popover>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                {/* Agent Filter */}
-                <div className="space-y-2">
-                  <Label>Assigned Agent</Label>
-                  <Select
-                    value={filters.agent}
-                    onValueChange={(value) =>
-                      onFiltersChange({ ...filters, agent: value })
-                    }
-                    disabled={agents.length === 0}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select agent" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Agents</SelectItem>
-                      {agents.map((agent) => (
-                        <SelectItem key={agent} value={agent}>
-                          {agent}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="grid grid-cols-2 gap-4">
+                  {/* Status Filter */}
+                  <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select
+                      value={filters.status}
+                      onValueChange={(value) =>
+                        onFiltersChange({ ...filters, status: value as any })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Status</SelectItem>
+                        <SelectItem value="open">Open</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="assigned">Assigned</SelectItem>
+                        <SelectItem value="resolved">Resolved</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Read Status Filter */}
+                  <div className="space-y-2">
+                    <Label>Read Status</Label>
+                    <Select
+                      value={filters.readStatus}
+                      onValueChange={(value) =>
+                        onFiltersChange({
+                          ...filters,
+                          readStatus: value as any,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Read status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All</SelectItem>
+                        <SelectItem value="read">Read</SelectItem>
+                        <SelectItem value="unread">Unread</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
-                {/* Channel Filter */}
-                <div className="space-y-2">
-                  <Label>Channel</Label>
-                  <Select
-                    value={filters.channel}
-                    onValueChange={(value) =>
-                      onFiltersChange({ ...filters, channel: value })
-                    }
-                    disabled={channels.length === 0}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select channel" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Channels</SelectItem>
-                      {channels.map((channel) => (
-                        <SelectItem key={channel} value={channel}>
-                          {channel
-                            ? channel.charAt(0).toUpperCase() + channel.slice(1)
-                            : "-"}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="grid grid-cols-2 gap-4">
+                  {/* Agent Filter */}
+                  <div className="space-y-2">
+                    <Label>Assigned Agent</Label>
+                    <Select
+                      value={filters.agent}
+                      onValueChange={(value) =>
+                        onFiltersChange({ ...filters, agent: value })
+                      }
+                      disabled={agents.length === 0}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select agent" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Agents</SelectItem>
+                        {agents.map((agent) => (
+                          <SelectItem key={agent} value={agent}>
+                            {agent}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Channel Filter */}
+                  <div className="space-y-2">
+                    <Label>Channel</Label>
+                    <Select
+                      value={filters.channel}
+                      onValueChange={(value) =>
+                        onFiltersChange({ ...filters, channel: value })
+                      }
+                      disabled={channels.length === 0}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select channel" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Channels</SelectItem>
+                        {channels.map((channel) => (
+                          <SelectItem key={channel} value={channel}>
+                            {channel
+                              ? channel.charAt(0).toUpperCase() +
+                                channel.slice(1)
+                              : "-"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
+
+                {/* Label Filter */}
+                {labels.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Labels</Label>
+                    <div className="flex flex-wrap gap-1.5">
+                      {labels.map((label) => {
+                        const isActive = filters.labelIds?.includes(label.id);
+                        return (
+                          <button
+                            key={label.id}
+                            type="button"
+                            onClick={() => toggleLabelFilter(label.id)}
+                            className={cn(
+                              "rounded-full transition-opacity",
+                              isActive
+                                ? "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                                : "opacity-60 hover:opacity-100",
+                            )}
+                          >
+                            <LabelBadge label={label} />
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
               </div>
-            </div>
 
-            {/* Modal Footer */}
-            <DialogFooter className="flex sm:justify-between gap-2">
+              {/* Modal Footer */}
+              <DialogFooter className="flex sm:justify-between gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={resetFilters}
+                  className="w-full sm:w-auto text-muted-foreground"
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  Reset
+                </Button>
+                <DialogClose asChild>
+                  <Button type="button" className="w-full sm:w-auto">
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Apply Filters
+                  </Button>
+                </DialogClose>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+          {onLabelsChange && (
+            <Button
+              variant={isSelecting ? "secondary" : "outline"}
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              title="Pilih chat untuk memberi label"
+              onClick={() =>
+                isSelecting ? stopSelecting() : setIsSelecting(true)
+              }
+            >
+              <ListChecks className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+
+        {/* Bulk Label Bar */}
+        {isSelecting && onLabelsChange && (
+          <div className="flex items-center gap-2 rounded-md border bg-muted/40 px-2 py-1.5 text-xs">
+            <Checkbox
+              checked={
+                filteredChats.length > 0 &&
+                selectedChats.length === filteredChats.length
+              }
+              onCheckedChange={(checked) =>
+                setSelectedChatIds(
+                  checked ? new Set(filteredChats.map((c) => c.id)) : new Set(),
+                )
+              }
+            />
+            <span className="flex-1 text-muted-foreground">
+              {selectedChats.length} dipilih
+            </span>
+            <LabelPicker
+              labels={labels}
+              targetLabelIds={selectedChats.map((chat) =>
+                (chat.labels || []).map((label) => label.id),
+              )}
+              onChange={(addLabelIds, removeLabelIds) =>
+                onLabelsChange(
+                  selectedChats.map((chat) => chat.id),
+                  addLabelIds,
+                  removeLabelIds,
+                )
+              }
+              align="end"
+            >
               <Button
-                type="button"
                 variant="outline"
-                onClick={resetFilters}
-                className="w-full sm:w-auto text-muted-foreground"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={selectedChats.length === 0}
               >
-                <X className="mr-2 h-4 w-4" />
-                Reset
+                <Tag className="h-3 w-3 mr-1.5" />
+                Label
               </Button>
-              <DialogClose asChild>
-                <Button type="button" className="w-full sm:w-auto">
-                  <CheckCircle2 className="mr-2 h-4 w-4" />
-                  Apply Filters
-                </Button>
-              </DialogClose>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+            </LabelPicker>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={stopSelecting}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* CHAT LIST */}
       <ScrollArea className="flex-1">
-        {isLoading ? (
+        {isSearchingAll ? (
+          <ChatMessageSearch
+            query={searchQuery}
+            channel={
+              filters.channel !== "all"
+                ? (filters.channel as CommunicationChannel)
+                : undefined
+            }
+            onSelect={onSearchResultSelect}
+          />
+        ) : isLoading ? (
           <div className="flex flex-col items-center justify-center py-12 space-y-4 text-muted-foreground">
             <Loader2 className="w-8 h-8 animate-spin text-primary" />
             <p className="text-xs">Loading conversations...</p>
@@ -511,7 +823,11 @@ export const CustomerServiceSidebar = ({
               return (
                 <div
                   key={chat.id}
-                  onClick={() => onChatSelect(chat.id)}
+                  onClick={() =>
+                    isSelecting
+                      ? toggleChatSelection(chat.id)
+                      : onChatSelect(chat.id)
+                  }
                   className={cn(
                     "px-3 py-3 cursor-pointer transition-all group relative",
                     isAiHandoffError
@@ -522,9 +838,19 @@ export const CustomerServiceSidebar = ({
                         ? "bg-muted"
                         : "hover:bg-muted/50",
                     chat.status === "resolved" && "opacity-60",
+                    chat.sentiment === "negative" &&
+                      "border-l-2 border-l-red-500 bg-red-50/40 dark:bg-red-500/5",
                   )}
                 >
                   <div className="flex items-start gap-3">
+                    {isSelecting && (
+                      <Checkbox
+                        className="mt-3"
+                        checked={selectedChatIds.has(chat.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onCheckedChange={() => toggleChatSelection(chat.id)}
+                      />
+                    )}
                     <div className="relative">
                       <Avatar className="w-10 h-10 border shadow-sm">
                         <AvatarFallback className="bg-primary/10 text-primary font-semibold text-sm">
@@ -618,6 +944,42 @@ export const CustomerServiceSidebar = ({
                           </Badge>
                         )}
 
+                        {chat.labels?.slice(0, 2).map((label) => (
+                          <LabelBadge key={label.id} label={label} size="sm" />
+                        ))}
+                        {(chat.labels?.length || 0) > 2 && (
+                          <span
+                            className="text-[10px] text-muted-foreground"
+                            title={chat.labels
+                              .slice(2)
+                              .map((label) => label.name)
+                              .join(", ")}
+                          >
+                            +{chat.labels.length - 2}
+                          </span>
+                        )}
+
+                        {chat.sentiment === "negative" && (
+                          <Badge
+                            variant="outline"
+                            className="h-5 px-1.5 text-[10px] gap-1 font-normal border-red-300 text-red-600 dark:text-red-400"
+                            title="Sentimen customer negatif"
+                          >
+                            <Frown className="w-3 h-3" />
+                            Negatif
+                          </Badge>
+                        )}
+
+                        {isChatSnoozed(chat) && (
+                          <Badge
+                            variant="outline"
+                            className="h-5 px-1.5 text-[10px] gap-1 font-normal border-sky-300 text-sky-700 dark:text-sky-400"
+                          >
+                            <AlarmClock className="w-3 h-3" />
+                            {formatSnoozeLabel(chat)}
+                          </Badge>
+                        )}
+
                         {chat.unreadCount > 0 && (
                           <Badge
                             className={cn(
@@ -660,6 +1022,16 @@ export const CustomerServiceSidebar = ({
                     Clear Filters
                   </Button>
                 )}
+                {searchQuery && onSearchResultSelect && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSearchScope("all")}
+                    className="h-8 text-xs"
+                  >
+                    Cari di semua pesan
+                  </Button>
+                )}
               </div>
             )}
 
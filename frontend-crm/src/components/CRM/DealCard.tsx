@@ -13,26 +13,8 @@ import {
   AlertCircle,
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-
-interface Deal {
-  id: string;
-  name: string;
-  company: string;
-  value: number;
-  probability: number;
-  stage: string;
-  leadScore: number;
-  needs: string[];
-  decisionMaker: string;
-  decisionMakerRole: string;
-  contactPhone: string;
-  contactEmail: string;
-  expectedClose: string;
-  lastActivity: string;
-  owner: string;
-  tags: string[];
-  priority: "low" | "medium" | "high";
-}
+import { format, formatDistanceToNow } from "date-fns";
+import type { Deal } from "@/services/crmDealsService";
 
 interface DealCardProps {
   deal: Deal;
@@ -49,6 +31,14 @@ export const DealCard = ({ deal, onCardClick }: DealCardProps) => {
     }).format(amount);
   };
 
+  const formatDate = (date: string | null) =>
+    date ? format(new Date(date), "d MMM yyyy") : "-";
+
+  const formatLastActivity = (timestamp: string | null) =>
+    timestamp
+      ? formatDistanceToNow(new Date(timestamp), { addSuffix: true })
+      : "-";
+
   const getLeadScoreColor = (score: number) => {
     if (score >= 80) return "text-green-600 bg-green-50";
     if (score >= 60) return "text-yellow-600 bg-yellow-50";
@@ -182,14 +172,14 @@ export const DealCard = ({ deal, onCardClick }: DealCardProps) => {
               <Calendar className="h-3 w-3" />
               <span>Expected Close:</span>
             </div>
-            <span className="font-semibold">{deal.expectedClose}</span>
+            <span className="font-semibold">{formatDate(deal.expectedClose)}</span>
           </div>
           <div className="flex items-center justify-between text-xs">
             <div className="flex items-center gap-1.5 text-muted-foreground">
               <Clock className="h-3 w-3" />
               <span>Last Activity:</span>
             </div>
-            <span className="font-semibold">{deal.lastActivity}</span>
+            <span className="font-semibold">{formatLastActivity(deal.lastActivity)}</span>
           </div>
         </div>
 
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -29,36 +30,57 @@ import {
   Plus,
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-
-interface Deal {
-  id: string;
-  name: string;
-  company: string;
-  value: number;
-  probability: number;
-  stage: string;
-  leadScore: number;
-  needs: string[];
-  decisionMaker: string;
-  decisionMakerRole: string;
-  contactPhone: string;
-  contactEmail: string;
-  expectedClose: string;
-  lastActivity: string;
-  owner: string;
-  tags: string[];
-  priority: "low" | "medium" | "high";
-}
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { format, formatDistanceToNow } from "date-fns";
+import { DealFormDialog } from "./DealFormDialog";
+import type { Deal, DealInput } from "@/services/crmDealsService";
+import type { PipelineStage } from "@/services/crmPipelinesService";
 
 interface DealDetailModalProps {
   deal: Deal | null;
   open: boolean;
   onClose: () => void;
+  stages: PipelineStage[];
+  onUpdate: (dealId: string, updates: Partial<DealInput>) => Promise<void>;
+  onDelete: (dealId: string) => Promise<void>;
 }
 
-export const DealDetailModal = ({ deal, open, onClose }: DealDetailModalProps) => {
+export const DealDetailModal = ({
+  deal,
+  open,
+  onClose,
+  stages,
+  onUpdate,
+  onDelete,
+}: DealDetailModalProps) => {
+  const [editOpen, setEditOpen] = useState(false);
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+
   if (!deal) return null;
 
+  const handleDelete = async () => {
+    setConfirmDeleteOpen(false);
+    onClose();
+    await onDelete(deal.id);
+  };
+
+  const formatDate = (date: string | null) =>
+    date ? format(new Date(date), "d MMM yyyy") : "-";
+
+  const formatLastActivity = (timestamp: string | null) =>
+    timestamp
+      ? formatDistanceToNow(new Date(timestamp), { addSuffix: true })
+      : "-";
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("id-ID", {
       style: "currency",
@@ -91,21 +113,14 @@ export const DealDetailModal = ({ deal, open, onClose }: DealDetailModalProps) =
     }
   };
 
-  const getStageBadge = (stage: string) => {
-    const stageMap: Record<string, { label: string; color: string }> = {
-      lead: { label: "Lead", color: "bg-slate-500" },
-      qualified: { label: "Qualified", color: "bg-blue-500" },
-      proposal: { label: "Proposal", color: "bg-purple-500" },
-      negotiation: { label: "Negotiation", color: "bg-yellow-500" },
-      closing: { label: "Closing", color: "bg-orange-500" },
-      won: { label: "Won", color: "bg-green-500" },
-      lost: { label: "Lost", color: "bg-red-500" },
-    };
-
-    const stageInfo = stageMap[stage] || { label: stage, color: "bg-gray-500" };
+  const getStageBadge = (stageId: string) => {
+    const stage = stages.find((s) => s.id === stageId);
     return (
-      <Badge className={`${stageInfo.color} text-white hover:${stageInfo.color}`}>
-        {stageInfo.label}
+      <Badge
+        className="text-white"
+        style={{ backgroundColor: stage?.color || "#6b7280" }}
+      >
+        {stage?.name || stageId}
       </Badge>
     );
   };
@@ -169,11 +184,15 @@ export const DealDetailModal = ({ deal, open, onClose }: DealDetailModalProps) =
               </div>
             </div>
             <div className="flex gap-2">
-              <Button variant="outline" size="sm">
+              <Button variant="outline" size="sm" onClick={() => setEditOpen(true)}>
                 <Edit className="h-4 w-4 mr-2" />
                 Edit
               </Button>
-              <Button variant="outline" size="sm">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfirmDeleteOpen(true)}
+              >
                 <Trash2 className="h-4 w-4 mr-2" />
                 Delete
               </Button>
@@ -330,14 +349,14 @@ export const DealDetailModal = ({ deal, open, onClose }: DealDetailModalProps) =
                         <Calendar className="h-4 w-4 text-muted-foreground" />
                         <span className="text-muted-foreground">Expected Close:</span>
                       </div>
-                      <span className="font-semibold">{deal.expectedClose}</span>
+                      <span className="font-semibold">{formatDate(deal.expectedClose)}</span>
                     </div>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 text-sm">
                         <Clock className="h-4 w-4 text-muted-foreground" />
                         <span className="text-muted-foreground">Last Activity:</span>
                       </div>
-                      <span className="font-semibold">{deal.lastActivity}</span>
+                      <span className="font-semibold">{formatLastActivity(deal.lastActivity)}</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -398,6 +417,25 @@ export const DealDetailModal = ({ deal, open, onClose }: DealDetailModalProps) =
               </TabsContent>
 
               <TabsContent value="notes" className="space-y-3 mt-4">
+                {deal.notes && (
+                  <Card>
+                    <CardContent className="p-4">
+                      <div className="flex items-start gap-3">
+                        <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+                          <FileText className="h-4 w-4 text-primary" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm whitespace-pre-wrap">{deal.notes}</p>
+                          {deal.chatId && (
+                            <span className="text-xs text-muted-foreground mt-2 block">
+                              Dibuat dari chat customer service
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
                 {notes.map((note) => (
                   <Card key={note.id}>
                     <CardContent className="p-4">
@@ -436,6 +474,35 @@ export const DealDetailModal = ({ deal, open, onClose }: DealDetailModalProps) =
           </Button>
         </div>
       </DialogContent>
+
+      <DealFormDialog
+        open={editOpen}
+        onClose={() => setEditOpen(false)}
+        stages={stages}
+        deal={deal}
+        onSubmit={(updates) => onUpdate(deal.id, updates)}
+      />
+
+      <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus deal "{deal.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Deal akan dihapus dari pipeline. Tindakan ini tidak dapat
+              dibatalkan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
 };
@@ -0,0 +1,507 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { getCustomers, type Customer } from "@/services/crmChatsService";
+import type { Deal, DealInput, DealPriority } from "@/services/crmDealsService";
+import type { PipelineStage } from "@/services/crmPipelinesService";
+
+interface DealFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (deal: DealInput) => Promise<void> | void;
+  stages: PipelineStage[];
+  pipelineId?: string | null;
+  deal?: Deal | null; // When provided the dialog works in edit mode
+  initialValues?: Partial<DealInput>;
+  // Customer that must stay selectable even if it is not in the first page (e.g. the chat's customer)
+  linkedCustomer?: Customer | null;
+}
+
+const NO_CUSTOMER = "none";
+
+const emptyForm = (
+  stage: PipelineStage | undefined,
+  pipelineId: string | null,
+): DealInput => ({
+  pipelineId,
+  customerId: null,
+  chatId: null,
+  name: "",
+  company: "",
+  value: 0,
+  probability: stage?.win_probability ?? 10,
+  stage: stage?.id || "",
+  leadScore: 50,
+  needs: [],
+  decisionMaker: "",
+  decisionMakerRole: "",
+  contactPhone: "",
+  contactEmail: "",
+  expectedClose: null,
+  ownerId: null,
+  owner: "",
+  tags: [],
+  priority: "medium",
+  notes: "",
+});
+
+const toFormValues = (deal: Deal): DealInput => ({
+  pipelineId: deal.pipelineId,
+  customerId: deal.customerId,
+  chatId: deal.chatId,
+  name: deal.name,
+  company: deal.company,
+  value: deal.value,
+  probability: deal.probability,
+  stage: deal.stage,
+  leadScore: deal.leadScore,
+  needs: deal.needs,
+  decisionMaker: deal.decisionMaker,
+  decisionMakerRole: deal.decisionMakerRole,
+  contactPhone: deal.contactPhone,
+  contactEmail: deal.contactEmail,
+  expectedClose: deal.expectedClose,
+  ownerId: deal.ownerId,
+  owner: deal.owner,
+  tags: deal.tags,
+  priority: deal.priority,
+  notes: deal.notes,
+});
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const DealFormDialog = ({
+  open,
+  onClose,
+  onSubmit,
+  stages,
+  pipelineId = null,
+  deal,
+  initialValues,
+  linkedCustomer,
+}: DealFormDialogProps) => {
+  const isEdit = Boolean(deal);
+  const pinnedCustomer = deal?.customer || linkedCustomer;
+  const [formData, setFormData] = useState<DealInput>(
+    emptyForm(stages[0], pipelineId),
+  );
+  const [needsText, setNeedsText] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<
+    Partial<Record<keyof DealInput, string>>
+  >({});
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const values = deal
+      ? toFormValues(deal)
+      : { ...emptyForm(stages[0], pipelineId), ...initialValues };
+
+    setFormData(values);
+    setNeedsText(values.needs.join(", "));
+    setTagsText(values.tags.join(", "));
+    setErrors({});
+    // Only re-seed on open, otherwise typing would be wiped by parent re-renders
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, deal]);
+
+  // Load customers for the customer link
+  useEffect(() => {
+    if (!open) return;
+
+    getCustomers({ limit: 100 })
+      .then(setCustomers)
+      .catch((error) => console.error("Failed to fetch customers:", error));
+  }, [open]);
+
+  const handleChange = <K extends keyof DealInput>(
+    field: K,
+    value: DealInput[K],
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+
+    if (errors[field]) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors[field];
+        return newErrors;
+      });
+    }
+  };
+
+  const handleStageChange = (stageId: string) => {
+    const stage = stages.find((s) => s.id === stageId);
+    setFormData((prev) => ({
+      ...prev,
+      stage: stageId,
+      // New deals follow the stage's default win probability
+      probability: !isEdit && stage ? stage.win_probability : prev.probability,
+    }));
+  };
+
+  const handleCustomerChange = (customerId: string) => {
+    if (customerId === NO_CUSTOMER) {
+      handleChange("customerId", null);
+      return;
+    }
+
+    const customer =
+      customers.find((c) => c.id === customerId) ||
+      (pinnedCustomer?.id === customerId ? pinnedCustomer : undefined);
+    setFormData((prev) => ({
+      ...prev,
+      customerId,
+      // Pre-fill contact details from the customer record when empty
+      company:
+        prev.company || customer?.metadata?.company || customer?.name || "",
+      decisionMaker: prev.decisionMaker || customer?.name || "",
+      contactPhone: prev.contactPhone || customer?.phone || "",
+      contactEmail: prev.contactEmail || customer?.email || "",
+    }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Partial<Record<keyof DealInput, string>> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = "Deal name is required";
+    }
+    if (!formData.stage) {
+      newErrors.stage = "Stage is required";
+    }
+    if (formData.value < 0) {
+      newErrors.value = "Value cannot be negative";
+    }
+    if (formData.probability < 0 || formData.probability > 100) {
+      newErrors.probability = "Probability must be between 0 and 100";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        ...formData,
+        name: formData.name.trim(),
+        company: formData.company.trim(),
+        needs: splitList(needsText),
+        tags: splitList(tagsText),
+      });
+      onClose();
+    } catch (error) {
+      // Parent is responsible for surfacing the error toast
+      console.error("Failed to save deal:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "Edit Deal" : "Deal Baru"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="deal-name">
+              Nama Deal <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="deal-name"
+              placeholder="e.g. Kontrak Software Enterprise"
+              value={formData.name}
+              maxLength={150}
+              onChange={(e) => handleChange("name", e.target.value)}
+              className={
+                errors.name ? "border-red-500 focus-visible:ring-red-500" : ""
+              }
+            />
+            {errors.name && (
+              <p className="text-xs text-red-500 font-medium">{errors.name}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Customer */}
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select
+                value={formData.customerId || NO_CUSTOMER}
+                onValueChange={handleCustomerChange}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CUSTOMER}>Tanpa customer</SelectItem>
+                  {/* Keep the linked customer selectable even if it is not in the first page */}
+                  {pinnedCustomer &&
+                    !customers.some((c) => c.id === pinnedCustomer.id) && (
+                      <SelectItem value={pinnedCustomer.id}>
+                        {pinnedCustomer.name}
+                      </SelectItem>
+                    )}
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Company */}
+            <div className="space-y-2">
+              <Label htmlFor="deal-company">Company</Label>
+              <Input
+                id="deal-company"
+                placeholder="e.g. PT. Maju Jaya"
+                value={formData.company}
+                onChange={(e) => handleChange("company", e.target.value)}
+              />
+            </div>
+
+            {/* Value */}
+            <div className="space-y-2">
+              <Label htmlFor="deal-value">Nilai Deal (IDR)</Label>
+              <Input
+                id="deal-value"
+                type="number"
+                min={0}
+                value={formData.value}
+                onChange={(e) => handleChange("value", Number(e.target.value))}
+                className={
+                  errors.value
+                    ? "border-red-500 focus-visible:ring-red-500"
+                    : ""
+                }
+              />
+              {errors.value && (
+                <p className="text-xs text-red-500 font-medium">
+                  {errors.value}
+                </p>
+              )}
+            </div>
+
+            {/* Probability */}
+            <div className="space-y-2">
+              <Label htmlFor="deal-probability">Probability (%)</Label>
+              <Input
+                id="deal-probability"
+                type="number"
+                min={0}
+                max={100}
+                value={formData.probability}
+                onChange={(e) =>
+                  handleChange("probability", Number(e.target.value))
+                }
+                className={
+                  errors.probability
+                    ? "border-red-500 focus-visible:ring-red-500"
+                    : ""
+                }
+              />
+              {errors.probability && (
+                <p className="text-xs text-red-500 font-medium">
+                  {errors.probability}
+                </p>
+              )}
+            </div>
+
+            {/* Stage */}
+            <div className="space-y-2">
+              <Label>Stage</Label>
+              <Select value={formData.stage} onValueChange={handleStageChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>
+                      {stage.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Priority */}
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select
+                value={formData.priority}
+                onValueChange={(value: DealPriority) =>
+                  handleChange("priority", value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Expected Close */}
+            <div className="space-y-2">
+              <Label htmlFor="deal-expected-close">Expected Close</Label>
+              <Input
+                id="deal-expected-close"
+                type="date"
+                value={formData.expectedClose || ""}
+                onChange={(e) =>
+                  handleChange("expectedClose", e.target.value || null)
+                }
+              />
+            </div>
+
+            {/* Lead Score */}
+            <div className="space-y-2">
+              <Label htmlFor="deal-lead-score">Lead Score</Label>
+              <Input
+                id="deal-lead-score"
+                type="number"
+                min={0}
+                max={100}
+                value={formData.leadScore}
+                onChange={(e) =>
+                  handleChange("leadScore", Number(e.target.value))
+                }
+              />
+            </div>
+
+            {/* Decision Maker */}
+            <div className="space-y-2">
+              <Label htmlFor="deal-decision-maker">Decision Maker</Label>
+              <Input
+                id="deal-decision-maker"
+                value={formData.decisionMaker}
+                onChange={(e) => handleChange("decisionMaker", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deal-decision-maker-role">Jabatan</Label>
+              <Input
+                id="deal-decision-maker-role"
+                placeholder="e.g. IT Director"
+                value={formData.decisionMakerRole}
+                onChange={(e) =>
+                  handleChange("decisionMakerRole", e.target.value)
+                }
+              />
+            </div>
+
+            {/* Contact */}
+            <div className="space-y-2">
+              <Label htmlFor="deal-phone">Telepon</Label>
+              <Input
+                id="deal-phone"
+                value={formData.contactPhone}
+                onChange={(e) => handleChange("contactPhone", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deal-email">Email</Label>
+              <Input
+                id="deal-email"
+                type="email"
+                value={formData.contactEmail}
+                onChange={(e) => handleChange("contactEmail", e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Needs & Tags */}
+          <div className="space-y-2">
+            <Label htmlFor="deal-needs">Kebutuhan</Label>
+            <Input
+              id="deal-needs"
+              placeholder="Pisahkan dengan koma, e.g. CRM, Training"
+              value={needsText}
+              onChange={(e) => setNeedsText(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deal-tags">Tags</Label>
+            <Input
+              id="deal-tags"
+              placeholder="Pisahkan dengan koma, e.g. Enterprise, Hot"
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+            />
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="deal-notes">Catatan</Label>
+            <Textarea
+              id="deal-notes"
+              placeholder="Konteks deal, kebutuhan customer, dll."
+              value={formData.notes}
+              rows={4}
+              onChange={(e) => handleChange("notes", e.target.value)}
+              className="resize-none text-sm"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              {isEdit ? "Simpan" : "Buat Deal"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  AlertCircle,
+  ChevronDown,
+  ClipboardList,
+  Loader2,
+  RefreshCw,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SENTIMENT_STYLES } from "@/lib/sentiment";
+import type { HandoffSummary } from "@/services/crmChatsService";
+
+const SummaryList = ({ title, items }: { title: string; items: string[] }) =>
+  items.length === 0 ? null : (
+    <div className="space-y-1">
+      <p className="font-medium text-foreground">{title}</p>
+      <ul className="list-disc pl-4 space-y-0.5">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+interface HandoffSummaryCardProps {
+  summary: HandoffSummary;
+  onRegenerate?: () => void;
+}
+
+/**
+ * AI handoff summary pinned above the conversation of an escalated chat
+ */
+export const HandoffSummaryCard = ({
+  summary,
+  onRegenerate,
+}: HandoffSummaryCardProps) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const sentiment = summary.sentiment && SENTIMENT_STYLES[summary.sentiment];
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className="border-b bg-violet-50/60 dark:bg-violet-500/5 px-4 py-2"
+    >
+      <div className="flex items-center gap-2 max-w-4xl mx-auto">
+        <ClipboardList className="w-4 h-4 text-violet-600 shrink-0" />
+        <span className="text-sm font-medium">Ringkasan Handoff</span>
+        {summary.ai_agent_name && (
+          <span className="text-xs text-muted-foreground truncate">
+            dari {summary.ai_agent_name}
+          </span>
+        )}
+        {sentiment && (
+          <Badge
+            variant="outline"
+            className={cn("text-[10px] h-5", sentiment.className)}
+          >
+            {sentiment.label}
+          </Badge>
+        )}
+        <div className="flex-1" />
+        {onRegenerate && summary.status !== "pending" && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Buat ulang ringkasan"
+            onClick={onRegenerate}
+          >
+            <RefreshCw className="w-3 h-3" />
+          </Button>
+        )}
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6">
+            <ChevronDown
+              className={cn(
+                "w-4 h-4 transition-transform",
+                isOpen && "rotate-180",
+              )}
+            />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+
+      <CollapsibleContent>
+        <div className="max-w-4xl mx-auto pt-2 pb-1 text-xs text-muted-foreground space-y-2">
+          {summary.status === "pending" ? (
+            <div className="flex items-center gap-2">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Menyusun ringkasan percakapan...
+            </div>
+          ) : summary.status === "failed" ? (
+            <div className="flex items-center gap-2 text-red-600">
+              <AlertCircle className="w-3 h-3" />
+              {summary.error || "Ringkasan gagal dibuat"}
+            </div>
+          ) : (
+            <>
+              {summary.customer_intent && (
+                <p>
+                  <span className="font-medium text-foreground">
+                    Kebutuhan customer:{" "}
+                  </span>
+                  {summary.customer_intent}
+                </p>
+              )}
+              <SummaryList
+                title="Sudah dicoba AI"
+                items={summary.ai_attempts}
+              />
+              <SummaryList
+                title="Pertanyaan terbuka"
+                items={summary.open_questions}
+              />
+            </>
+          )}
+          {summary.escalation_reason && (
+            <p>
+              <span className="font-medium text-foreground">
+                Alasan eskalasi:{" "}
+              </span>
+              {summary.escalation_reason}
+            </p>
+          )}
+          {summary.generated_at && (
+            <p className="text-[10px]">
+              Dari {summary.message_count} pesan ·{" "}
+              {new Date(summary.generated_at).toLocaleString()}
+            </p>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { BookOpen, FileText, Loader2, PenLine, Search, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { queryDocuments, type QueryResult } from "@/lib/documentsApi";
+
+const MAX_RESULTS = 5;
+const MAX_DRAFT_SENTENCES = 3;
+
+// Greeting plus the first sentences of the snippet, for the agent to edit
+const buildDraftReply = (snippet: string, customerName: string) => {
+  const text = snippet.replace(/\s+/g, " ").trim();
+  const sentences = text.match(/[^.!?]+[.!?]*/g) || [text];
+  const body = sentences.slice(0, MAX_DRAFT_SENTENCES).join("").trim();
+  const firstName = customerName?.split(" ")[0];
+
+  return `${firstName ? `Halo ${firstName}, ` : ""}${body}`;
+};
+
+interface KnowledgeSuggestionsPanelProps {
+  aiAgentId?: string;
+  aiAgentName?: string;
+  customerName: string;
+  lastCustomerMessage: string;
+  onUseDraft: (draft: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Searches the assigned AI agent's knowledge base with the customer's last
+ * message and turns the snippets into editable draft replies
+ */
+export const KnowledgeSuggestionsPanel = ({
+  aiAgentId,
+  aiAgentName,
+  customerName,
+  lastCustomerMessage,
+  onUseDraft,
+  onClose,
+}: KnowledgeSuggestionsPanelProps) => {
+  const [query, setQuery] = useState(lastCustomerMessage);
+  const [results, setResults] = useState<QueryResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  // Only the latest search may update the results
+  const requestIdRef = useRef(0);
+
+  const search = useCallback(
+    async (text: string) => {
+      const requestId = ++requestIdRef.current;
+      if (!aiAgentId || !text.trim()) {
+        setResults([]);
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+      setExpandedIndex(null);
+      try {
+        const response = await queryDocuments(
+          text.trim(),
+          MAX_RESULTS,
+          aiAgentId,
+        );
+        if (requestId !== requestIdRef.current) return;
+        setResults(
+          [...response.results].sort(
+            (a, b) => b.relevance_score - a.relevance_score,
+          ),
+        );
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        console.error("Failed to query knowledge base:", error);
+        setError(error.message || "Gagal mencari di knowledge base");
+      } finally {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      }
+    },
+    [aiAgentId],
+  );
+
+  // Search again whenever the customer sends something new
+  useEffect(() => {
+    setQuery(lastCustomerMessage);
+    // A new search also drops responses for the previous chat or message
+    search(lastCustomerMessage);
+  }, [lastCustomerMessage, search]);
+
+  return (
+    <div className="w-96 border-l bg-card flex flex-col">
+      <div className="h-16 border-b px-4 flex items-center gap-2">
+        <BookOpen className="w-4 h-4 text-primary" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold">Saran Balasan</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {aiAgentName
+              ? `Knowledge base ${aiAgentName}`
+              : "Knowledge base AI agent"}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onClose}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {!aiAgentId ? (
+        <p className="p-6 text-sm text-muted-foreground text-center">
+          Chat ini tidak punya AI agent, jadi belum ada knowledge base yang bisa
+          dicari.
+        </p>
+      ) : (
+        <>
+          <form
+            className="p-3 border-b flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              search(query);
+            }}
+          >
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Cari di knowledge base..."
+              className="h-8 text-xs"
+            />
+            <Button
+              type="submit"
+              size="icon"
+              variant="outline"
+              className="h-8 w-8 shrink-0"
+              disabled={isLoading || !query.trim()}
+            >
+              {isLoading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Search className="w-4 h-4" />
+              )}
+            </Button>
+          </form>
+
+          <ScrollArea className="flex-1">
+            <div className="p-3 space-y-2">
+              {error ? (
+                <p className="text-xs text-red-600 text-center py-6">{error}</p>
+              ) : isLoading && results.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : results.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-6">
+                  {query.trim()
+                    ? "Tidak ada dokumen yang relevan"
+                    : "Belum ada pesan customer untuk dicari"}
+                </p>
+              ) : (
+                results.map((result, index) => (
+                  <div
+                    key={`${result.metadata.filename}-${result.metadata.chunk_index}`}
+                    className="rounded-md border p-2.5 space-y-2"
+                  >
+                    <div className="flex items-center gap-2 text-xs">
+                      <FileText className="w-3 h-3 text-muted-foreground shrink-0" />
+                      <span
+                        className="flex-1 truncate font-medium"
+                        title={result.metadata.filename}
+                      >
+                        {result.metadata.filename}
+                      </span>
+                      <Badge variant="secondary" className="text-[10px] h-5">
+                        {Math.round(result.relevance_score * 100)}%
+                      </Badge>
+                    </div>
+                    <p
+                      className={cn(
+                        "text-xs text-muted-foreground whitespace-pre-wrap cursor-pointer",
+                        expandedIndex !== index && "line-clamp-4",
+                      )}
+                      onClick={() =>
+                        setExpandedIndex(expandedIndex === index ? null : index)
+                      }
+                    >
+                      {result.document}
+                    </p>
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] text-muted-foreground">
+                        Bagian {result.metadata.chunk_index + 1} dari{" "}
+                        {result.metadata.total_chunks}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        onClick={() =>
+                          onUseDraft(
+                            buildDraftReply(result.document, customerName),
+                          )
+                        }
+                      >
+                        <PenLine className="w-3 h-3 mr-1" />
+                        Jadikan Draft
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,18 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Table,
   TableBody,
@@ -21,6 +32,7 @@ import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
   DropdownMenuContent,
+  DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
@@ -36,14 +48,56 @@ import {
   UserX,
   TrendingUp,
   Loader2, // Added for loading state
+  GitMerge,
+  Upload,
+  Download,
+  ListFilter,
+  Edit,
+  Trash2,
+  Tag,
 } from "lucide-react";
+import { toast } from "sonner";
 import { CustomerDetailPanel } from "./CustomerDetailPanel";
+import { CustomerFormDialog } from "./CustomerFormDialog";
+import { MergeCustomersDialog } from "./MergeCustomersDialog";
+import { CustomerImportWizard } from "./CustomerImportWizard";
+import { SegmentBuilderDialog } from "./SegmentBuilderDialog";
+import { LabelBadge } from "./LabelBadge";
+import { LabelPicker } from "./LabelPicker";
+import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 // API Import
 import {
   getCustomers,
+  getAllCustomers,
+  createCustomer,
+  updateCustomer,
+  deleteCustomer,
+  getCustomerCustomFields,
   type Customer as ApiCustomer,
+  type CustomerInput,
+  type CustomerCustomField,
+  type CustomerMergeResult,
 } from "@/services/crmChatsService";
+import {
+  getSegments,
+  createSegment,
+  updateSegment,
+  deleteSegment,
+  getSegmentCustomers,
+  getAllSegmentCustomers,
+  type Segment,
+  type SegmentInput,
+} from "@/services/crmSegmentsService";
+import {
+  getLabels,
+  bulkUpdateCustomerLabels,
+  type LabelSummary,
+} from "@/services/crmLabelsService";
+import {
+  buildCustomerExport,
+  type CustomerExportFormat,
+} from "@/lib/customerImportExport";
 
 // Extended Interface to support UI fields that might not be in API yet
 interface Customer extends ApiCustomer {
@@ -57,7 +111,6 @@ interface Customer extends ApiCustomer {
   location?: string;
   status?: "active" | "inactive";
   lastContact?: string;
-  tags?: string[];
   notes?: string;
   totalOrders?: number;
   totalSpent?: number;
@@ -66,10 +119,57 @@ interface Customer extends ApiCustomer {
   position?: string;
 }
 
+// Transform API data to match UI structure
+const mapCustomer = (c: ApiCustomer): Customer => ({
+  ...c,
+  // Provide defaults for fields not yet in API
+  status: "active",
+  company: c.metadata?.company || "-",
+  location: c.metadata?.location || "-",
+  totalOrders: c.metadata?.total_orders || 0,
+  totalSpent: c.metadata?.total_spent || 0,
+  lastContact: new Date(c.updated_at).toLocaleDateString(),
+  labels: c.labels || [],
+});
+
+// Active segment and filters survive page visits
+const FILTERS_STORAGE_KEY = "crm_customer_filters";
+
+interface StoredCustomerFilters {
+  segmentId: string;
+  status: string;
+  location: string;
+  labelId: string;
+}
+
+const loadStoredFilters = (): StoredCustomerFilters => {
+  const defaults = {
+    segmentId: "all",
+    status: "all",
+    location: "all",
+    labelId: "all",
+  };
+  try {
+    const saved = localStorage.getItem(FILTERS_STORAGE_KEY);
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
 export const KontakPelanggan = () => {
+  const { user } = useAuth();
+  const [storedFilters] = useState(loadStoredFilters);
   const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [locationFilter, setLocationFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState(storedFilters.status);
+  const [locationFilter, setLocationFilter] = useState(
+    storedFilters.location
+  );
+  const [labelFilter, setLabelFilter] = useState(storedFilters.labelId);
+  const [labels, setLabels] = useState<LabelSummary[]>([]);
+  const [activeSegmentId, setActiveSegmentId] = useState(
+    storedFilters.segmentId
+  );
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(
     null
   );
@@ -83,7 +183,7 @@ export const KontakPelanggan = () => {
     location: true,
     status: true,
     lastContact: true,
-    tags: false,
+    labels: true,
     totalOrders: false,
     totalSpent: false,
   });
@@ -126,23 +226,24 @@ export const KontakPelanggan = () => {
     try {
       // Call Backend API
       // Using search param if query exists
+      if (activeSegmentId !== "all") {
+        const response = await getSegmentCustomers(activeSegmentId, {
+          search: searchQuery || undefined,
+          limit: 50,
+        });
+        setCustomers(response.customers.map(mapCustomer));
+        setTotalCustomersCount(response.total);
+        return;
+      }
+
       const data = await getCustomers({
         search: searchQuery || undefined,
         limit: 50,
+        label_ids: labelFilter !== "all" ? [labelFilter] : undefined,
       });
 
       // Transform API data to match UI structure
-      const mappedData: Customer[] = data.map((c) => ({
-        ...c,
-        // Provide defaults for fields not yet in API
-        status: "active",
-        company: c.metadata?.company || "-",
-        location: c.metadata?.location || "-",
-        totalOrders: c.metadata?.total_orders || 0,
-        totalSpent: c.metadata?.total_spent || 0,
-        lastContact: new Date(c.updated_at).toLocaleDateString(),
-        tags: [],
-      }));
+      const mappedData: Customer[] = data.map(mapCustomer);
 
       setCustomers(mappedData);
       setTotalCustomersCount(mappedData.length); // Ideally API returns total count separately
@@ -160,7 +261,306 @@ export const KontakPelanggan = () => {
     }, 500); // 500ms delay
 
     return () => clearTimeout(timer);
-  }, [searchQuery]);
+  }, [searchQuery, activeSegmentId, labelFilter]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      FILTERS_STORAGE_KEY,
+      JSON.stringify({
+        segmentId: activeSegmentId,
+        status: statusFilter,
+        location: locationFilter,
+        labelId: labelFilter,
+      })
+    );
+  }, [activeSegmentId, statusFilter, locationFilter, labelFilter]);
+
+  // ==================================================================================
+  // LABELS
+  // ==================================================================================
+  useEffect(() => {
+    getLabels()
+      .then((data) => {
+        setLabels(data);
+        // Stored label may have been deleted in the meantime
+        setLabelFilter((prev) =>
+          prev === "all" || data.some((l) => l.id === prev) ? prev : "all"
+        );
+      })
+      .catch((error) => console.error("Failed to fetch labels:", error));
+  }, []);
+
+  const handleCustomerLabelsChange = async (
+    customerIds: string[],
+    addLabelIds: string[],
+    removeLabelIds: string[]
+  ) => {
+    const previousCustomers = customers;
+    const added = labels.filter((l) => addLabelIds.includes(l.id));
+
+    setCustomers((prev) =>
+      prev.map((customer) => {
+        if (!customerIds.includes(customer.id)) return customer;
+        const kept = (customer.labels || []).filter(
+          (l) => !removeLabelIds.includes(l.id)
+        );
+        return {
+          ...customer,
+          labels: [
+            ...kept,
+            ...added.filter((l) => !kept.some((k) => k.id === l.id)),
+          ],
+        };
+      })
+    );
+
+    try {
+      await bulkUpdateCustomerLabels(customerIds, {
+        add_label_ids: addLabelIds,
+        remove_label_ids: removeLabelIds,
+      });
+    } catch (error) {
+      console.error("Failed to update customer labels:", error);
+      toast.error(error.message || "Gagal memperbarui label");
+      setCustomers(previousCustomers);
+    }
+  };
+
+  // ==================================================================================
+  // SEGMENTS
+  // ==================================================================================
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [segmentDialogOpen, setSegmentDialogOpen] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<Segment | null>(null);
+  const [segmentToDelete, setSegmentToDelete] = useState<Segment | null>(
+    null
+  );
+
+  const activeSegment = segments.find((s) => s.id === activeSegmentId);
+  // The stored segment is selected before the segment list has loaded
+  const isActiveSegmentPending = activeSegmentId !== "all" && !activeSegment;
+  const canManageSegment = (segment?: Segment) =>
+    Boolean(segment && segment.created_by === user?.id);
+
+  useEffect(() => {
+    getSegments()
+      .then((data) => {
+        setSegments(data);
+        // Stored segment may have been deleted or unshared in the meantime
+        setActiveSegmentId((prev) =>
+          prev === "all" || data.some((s) => s.id === prev) ? prev : "all"
+        );
+      })
+      .catch((error) => console.error("Failed to fetch segments:", error));
+  }, []);
+
+  const openCreateSegment = () => {
+    setEditingSegment(null);
+    setSegmentDialogOpen(true);
+  };
+
+  const handleSaveSegment = async (input: SegmentInput) => {
+    try {
+      if (editingSegment) {
+        const updated = await updateSegment(editingSegment.id, input);
+        setSegments((prev) =>
+          prev.map((s) => (s.id === updated.id ? updated : s))
+        );
+        // Rules may have changed, reload the members
+        if (updated.id === activeSegmentId) fetchData();
+        toast.success("Segment berhasil diperbarui");
+      } else {
+        const created = await createSegment(input);
+        setSegments((prev) => [...prev, created]);
+        setActiveSegmentId(created.id);
+        toast.success("Segment berhasil dibuat");
+      }
+    } catch (error) {
+      toast.error(error.message || "Gagal menyimpan segment");
+      throw error;
+    }
+  };
+
+  const handleDeleteSegment = async () => {
+    if (!segmentToDelete) return;
+    const segment = segmentToDelete;
+    setSegmentToDelete(null);
+
+    try {
+      await deleteSegment(segment.id);
+      setSegments((prev) => prev.filter((s) => s.id !== segment.id));
+      if (activeSegmentId === segment.id) setActiveSegmentId("all");
+      toast.success("Segment berhasil dihapus");
+    } catch (error) {
+      console.error("Failed to delete segment:", error);
+      toast.error(error.message || "Gagal menghapus segment");
+    }
+  };
+
+  // ==================================================================================
+  // CUSTOMER CRUD, CUSTOM FIELDS & MERGE
+  // ==================================================================================
+  const [customFields, setCustomFields] = useState<CustomerCustomField[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(
+    null
+  );
+  const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(
+    null
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  useEffect(() => {
+    getCustomerCustomFields()
+      .then(setCustomFields)
+      .catch((error) => console.error("Failed to fetch custom fields:", error));
+  }, []);
+
+  const openCreateForm = () => {
+    setEditingCustomer(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (customer: Customer) => {
+    setEditingCustomer(customer);
+    setFormOpen(true);
+  };
+
+  const handleSaveCustomer = async (input: CustomerInput) => {
+    try {
+      if (editingCustomer) {
+        const updated = mapCustomer(
+          await updateCustomer(editingCustomer.id, input)
+        );
+        setCustomers((prev) =>
+          prev.map((c) => (c.id === updated.id ? updated : c))
+        );
+        setSelectedCustomer((prev) =>
+          prev?.id === updated.id ? updated : prev
+        );
+        toast.success("Customer berhasil diperbarui");
+      } else {
+        const created = mapCustomer(await createCustomer(input));
+        setCustomers((prev) => [created, ...prev]);
+        setTotalCustomersCount((prev) => prev + 1);
+        toast.success("Customer berhasil ditambahkan");
+      }
+    } catch (error) {
+      toast.error(error.message || "Gagal menyimpan customer");
+      throw error;
+    }
+  };
+
+  const handleDeleteCustomer = async () => {
+    if (!customerToDelete) return;
+    const customer = customerToDelete;
+    setCustomerToDelete(null);
+
+    try {
+      await deleteCustomer(customer.id);
+      setCustomers((prev) => prev.filter((c) => c.id !== customer.id));
+      setTotalCustomersCount((prev) => Math.max(0, prev - 1));
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(customer.id);
+        return next;
+      });
+      if (selectedCustomer?.id === customer.id) setSelectedCustomer(null);
+      toast.success("Customer berhasil dihapus");
+    } catch (error) {
+      console.error("Failed to delete customer:", error);
+      toast.error(error.message || "Gagal menghapus customer");
+    }
+  };
+
+  const handleMerged = (result: CustomerMergeResult) => {
+    const merged = mapCustomer(result.customer);
+    setCustomers((prev) =>
+      prev
+        .filter((c) => !result.merged_customer_ids.includes(c.id))
+        .map((c) => (c.id === merged.id ? merged : c))
+    );
+    setTotalCustomersCount(
+      (prev) => prev - result.merged_customer_ids.length
+    );
+    if (
+      selectedCustomer &&
+      (selectedCustomer.id === merged.id ||
+        result.merged_customer_ids.includes(selectedCustomer.id))
+    ) {
+      setSelectedCustomer(merged);
+    }
+    setSelectedIds(new Set());
+  };
+
+  const triggerBrowserDownload = (blob: Blob, filename: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  // Exports everything matching the current view (search + filters),
+  // not only the loaded page.
+  const handleExport = async (exportFormat: CustomerExportFormat) => {
+    // Never fall back to all customers while the segment is unknown
+    if (isActiveSegmentPending) {
+      toast.error("Segment belum dimuat, coba lagi");
+      return;
+    }
+
+    try {
+      const search = searchQuery || undefined;
+      const allCustomers = activeSegment
+        ? await getAllSegmentCustomers(activeSegment.id, { search })
+        : await getAllCustomers({
+            search,
+            label_ids: labelFilter !== "all" ? [labelFilter] : undefined,
+          });
+      const exportCustomers = allCustomers
+        .map(mapCustomer)
+        .filter(matchesFilters);
+
+      if (exportCustomers.length === 0) {
+        toast.error("Tidak ada customer untuk diekspor");
+        return;
+      }
+
+      const { blob, filename } = buildCustomerExport(
+        exportCustomers,
+        customFields,
+        exportFormat
+      );
+      triggerBrowserDownload(
+        blob,
+        activeSegment
+          ? filename.replace(
+              "customers",
+              `customers_${activeSegment.name.replace(/[^a-z0-9]+/gi, "-")}`
+            )
+          : filename
+      );
+      toast.success(`${exportCustomers.length} customer diekspor`);
+    } catch (error) {
+      console.error("Failed to export customers:", error);
+      toast.error("Gagal mengekspor customer");
+    }
+  };
+
+  const toggleSelected = (customerId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(customerId)) next.delete(customerId);
+      else next.add(customerId);
+      return next;
+    });
+  };
 
   // ==================================================================================
 
@@ -172,7 +572,7 @@ export const KontakPelanggan = () => {
 
   // Filter customers (Client-side filtering for Status/Location)
   // Search is now handled by API above
-  const filteredCustomers = customers.filter((customer) => {
+  const matchesFilters = (customer: Customer) => {
     // OLD Search Logic (Commented out since API does search)
     /*
     const matchesSearch =
@@ -187,9 +587,16 @@ export const KontakPelanggan = () => {
     const matchesLocation =
       locationFilter === "all" || customer.location === locationFilter;
 
+    // Segment members are not filtered by label server-side
+    const matchesLabel =
+      labelFilter === "all" ||
+      Boolean(customer.labels?.some((l) => l.id === labelFilter));
+
     // return matchesSearch && matchesStatus && matchesLocation;
-    return matchesStatus && matchesLocation;
-  });
+    return matchesStatus && matchesLocation && matchesLabel;
+  };
+
+  const filteredCustomers = customers.filter(matchesFilters);
 
   const getStatusBadge = (status?: string) => {
     return status === "active" ? (
@@ -206,8 +613,26 @@ export const KontakPelanggan = () => {
     }));
   };
 
+  const allVisibleSelected =
+    filteredCustomers.length > 0 &&
+    filteredCustomers.every((c) => selectedIds.has(c.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      allVisibleSelected ? new Set() : new Set(filteredCustomers.map((c) => c.id))
+    );
+  };
+
+  // Memoized so the merge dialog keeps its primary choice across re-renders
+  const selectedForMerge = useMemo(
+    () => customers.filter((c) => selectedIds.has(c.id)),
+    [customers, selectedIds]
+  );
+
   const activeFiltersCount =
-    (statusFilter !== "all" ? 1 : 0) + (locationFilter !== "all" ? 1 : 0);
+    (statusFilter !== "all" ? 1 : 0) +
+    (locationFilter !== "all" ? 1 : 0) +
+    (labelFilter !== "all" ? 1 : 0);
 
   // Calculate summary statistics (Based on current data)
   const totalCustomers = customers.length;
@@ -330,7 +755,78 @@ export const KontakPelanggan = () => {
                   <Loader2 className="absolute right-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 animate-spin text-muted-foreground" />
                 )}
               </div>
-              <Button size="sm" className="h-8 text-xs">
+              {selectedIds.size > 0 && (
+                <LabelPicker
+                  labels={labels}
+                  targetLabelIds={selectedForMerge.map((c) =>
+                    (c.labels || []).map((l) => l.id)
+                  )}
+                  onChange={(addLabelIds, removeLabelIds) =>
+                    handleCustomerLabelsChange(
+                      selectedForMerge.map((c) => c.id),
+                      addLabelIds,
+                      removeLabelIds
+                    )
+                  }
+                  align="end"
+                >
+                  <Button variant="outline" size="sm" className="h-8 text-xs">
+                    <Tag className="h-3.5 w-3.5 mr-1.5" />
+                    Label ({selectedIds.size})
+                  </Button>
+                </LabelPicker>
+              )}
+              {selectedIds.size >= 2 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setMergeOpen(true)}
+                >
+                  <GitMerge className="h-3.5 w-3.5 mr-1.5" />
+                  Merge ({selectedIds.size})
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => setImportOpen(true)}
+              >
+                <Upload className="h-3.5 w-3.5 mr-1.5" />
+                Import
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                    disabled={isActiveSegmentPending}
+                  >
+                    <Download className="h-3.5 w-3.5 mr-1.5" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="text-xs">
+                    {activeSegment
+                      ? `Segment: ${activeSegment.name}`
+                      : "Semua customer sesuai filter"}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleExport("csv")}>
+                    CSV
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+                    Excel (XLSX)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("vcf")}>
+                    vCard (VCF)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button size="sm" className="h-8 text-xs" onClick={openCreateForm}>
                 <Plus className="h-3.5 w-3.5 mr-1.5" />
                 Add Customer
               </Button>
@@ -338,6 +834,64 @@ export const KontakPelanggan = () => {
 
             {/* Bottom Row: Filters & Column Selector */}
             <div className="flex items-center gap-2">
+              {/* Segment Selector */}
+              <Select value={activeSegmentId} onValueChange={setActiveSegmentId}>
+                <SelectTrigger className="w-48 h-8 text-xs">
+                  <div className="flex items-center gap-1.5 truncate">
+                    <ListFilter className="h-3.5 w-3.5 flex-shrink-0" />
+                    <SelectValue />
+                  </div>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all" className="text-xs">
+                    Semua Customer
+                  </SelectItem>
+                  {segments.map((segment) => (
+                    <SelectItem
+                      key={segment.id}
+                      value={segment.id}
+                      className="text-xs"
+                    >
+                      {segment.name} ({segment.customer_count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canManageSegment(activeSegment) ? (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Edit segment"
+                    onClick={() => {
+                      setEditingSegment(activeSegment);
+                      setSegmentDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Hapus segment"
+                    onClick={() => setSegmentToDelete(activeSegment)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </>
+              ) : null}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={openCreateSegment}
+              >
+                <Plus className="h-3.5 w-3.5 mr-1.5" />
+                Segment
+              </Button>
+
               {/* Status Filter */}
               <Select value={statusFilter} onValueChange={setStatusFilter}>
                 <SelectTrigger className="w-32 h-8 text-xs">
@@ -380,6 +934,32 @@ export const KontakPelanggan = () => {
                 </SelectContent>
               </Select>
 
+              {/* Label Filter */}
+              {labels.length > 0 && (
+                <Select value={labelFilter} onValueChange={setLabelFilter}>
+                  <SelectTrigger className="w-32 h-8 text-xs">
+                    <div className="flex items-center gap-1.5">
+                      <Tag className="h-3.5 w-3.5" />
+                      <SelectValue placeholder="All Labels" />
+                    </div>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all" className="text-xs">
+                      All Labels
+                    </SelectItem>
+                    {labels.map((label) => (
+                      <SelectItem
+                        key={label.id}
+                        value={label.id}
+                        className="text-xs"
+                      >
+                        {label.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
               {activeFiltersCount > 0 && (
                 <Badge variant="secondary" className="text-[10px] h-5">
                   {activeFiltersCount} filters
@@ -447,10 +1027,10 @@ export const KontakPelanggan = () => {
                     Additional Columns
                   </DropdownMenuLabel>
                   <DropdownMenuCheckboxItem
-                    checked={visibleColumns.tags}
-                    onCheckedChange={() => toggleColumn("tags")}
+                    checked={visibleColumns.labels}
+                    onCheckedChange={() => toggleColumn("labels")}
                   >
-                    Tags
+                    Labels
                   </DropdownMenuCheckboxItem>
                   <DropdownMenuCheckboxItem
                     checked={visibleColumns.totalOrders}
@@ -474,6 +1054,13 @@ export const KontakPelanggan = () => {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-8">
+                    <Checkbox
+                      checked={allVisibleSelected}
+                      onCheckedChange={toggleSelectAll}
+                      aria-label="Select all customers"
+                    />
+                  </TableHead>
                   {visibleColumns.name && <TableHead>Name</TableHead>}
                   {visibleColumns.email && <TableHead>Email</TableHead>}
                   {visibleColumns.phone && <TableHead>Phone</TableHead>}
@@ -483,7 +1070,7 @@ export const KontakPelanggan = () => {
                   {visibleColumns.lastContact && (
                     <TableHead>Last Contact</TableHead>
                   )}
-                  {visibleColumns.tags && <TableHead>Tags</TableHead>}
+                  {visibleColumns.labels && <TableHead>Labels</TableHead>}
                   {visibleColumns.totalOrders && (
                     <TableHead className="text-right">Orders</TableHead>
                   )}
@@ -497,7 +1084,7 @@ export const KontakPelanggan = () => {
                 {/* Show Loading State */}
                 {isLoading && filteredCustomers.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={10} className="h-24 text-center">
+                    <TableCell colSpan={11} className="h-24 text-center">
                       <div className="flex items-center justify-center gap-2 text-muted-foreground">
                         <Loader2 className="h-4 w-4 animate-spin" />
                         Loading data...
@@ -512,6 +1099,13 @@ export const KontakPelanggan = () => {
                         selectedCustomer?.id === customer.id ? "bg-muted" : ""
                       }`}
                     >
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(customer.id)}
+                          onCheckedChange={() => toggleSelected(customer.id)}
+                          aria-label={`Select ${customer.name}`}
+                        />
+                      </TableCell>
                       {visibleColumns.name && (
                         <TableCell className="font-medium">
                           {customer.name}
@@ -545,17 +1139,11 @@ export const KontakPelanggan = () => {
                           {customer.lastContact || "-"}
                         </TableCell>
                       )}
-                      {visibleColumns.tags && (
+                      {visibleColumns.labels && (
                         <TableCell>
                           <div className="flex gap-1 flex-wrap">
-                            {customer.tags?.map((tag, index) => (
-                              <Badge
-                                key={index}
-                                variant="outline"
-                                className="text-xs"
-                              >
-                                {tag}
-                              </Badge>
+                            {customer.labels?.map((label) => (
+                              <LabelBadge key={label.id} label={label} />
                             ))}
                           </div>
                         </TableCell>
@@ -591,7 +1179,7 @@ export const KontakPelanggan = () => {
                   <TableRow>
                     <TableCell
                       colSpan={
-                        Object.values(visibleColumns).filter(Boolean).length + 1
+                        Object.values(visibleColumns).filter(Boolean).length + 2
                       }
                       className="text-center py-8 text-muted-foreground"
                     >
@@ -611,6 +1199,13 @@ export const KontakPelanggan = () => {
               Showing{" "}
               <span className="font-medium">{filteredCustomers.length}</span>{" "}
               results
+              {activeSegment && (
+                <>
+                  {" "}
+                  of <span className="font-medium">{totalCustomersCount}</span>{" "}
+                  in segment "{activeSegment.name}"
+                </>
+              )}
             </p>
           </div>
         </div>
@@ -620,9 +1215,95 @@ export const KontakPelanggan = () => {
           <CustomerDetailPanel
             customer={selectedCustomer as any}
             onClose={() => setSelectedCustomer(null)}
+            customFields={customFields}
+            onEdit={() => openEditForm(selectedCustomer)}
+            onDelete={() => setCustomerToDelete(selectedCustomer)}
           />
         )}
       </div>
+
+      <CustomerFormDialog
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSubmit={handleSaveCustomer}
+        customFields={customFields}
+        customer={editingCustomer}
+      />
+
+      <CustomerImportWizard
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        customFields={customFields}
+        onImported={fetchData}
+      />
+
+      <SegmentBuilderDialog
+        open={segmentDialogOpen}
+        onClose={() => setSegmentDialogOpen(false)}
+        onSubmit={handleSaveSegment}
+        customFields={customFields}
+        segment={editingSegment}
+      />
+
+      <MergeCustomersDialog
+        open={mergeOpen}
+        onClose={() => setMergeOpen(false)}
+        customers={selectedForMerge}
+        onMerged={handleMerged}
+      />
+
+      <AlertDialog
+        open={Boolean(customerToDelete)}
+        onOpenChange={(open) => !open && setCustomerToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus customer "{customerToDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Data customer akan dihapus permanen. Tindakan ini tidak dapat
+              dibatalkan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteCustomer}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={Boolean(segmentToDelete)}
+        onOpenChange={(open) => !open && setSegmentToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus segment "{segmentToDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Customer di dalam segment tidak ikut terhapus.
+              {segmentToDelete?.is_shared &&
+                " Segment ini dibagikan dan akan hilang untuk seluruh organisasi."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteSegment}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
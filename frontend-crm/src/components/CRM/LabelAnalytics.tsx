@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import * as crmLabelsService from "@/services/crmLabelsService";
+import type { LabelReport } from "@/services/crmLabelsService";
+import { LabelBadge } from "./LabelBadge";
+
+const PERIOD_OPTIONS = [
+  { value: "7", label: "7 hari terakhir" },
+  { value: "30", label: "30 hari terakhir" },
+  { value: "90", label: "90 hari terakhir" },
+];
+
+const chartConfig = {
+  chat_count: { label: "Chat" },
+} satisfies ChartConfig;
+
+/**
+ * Chat and customer counts per label over a period
+ */
+export const LabelAnalytics = () => {
+  const [period, setPeriod] = useState("30");
+  const [report, setReport] = useState<LabelReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setIsLoading(true);
+      const dateFrom = new Date();
+      dateFrom.setDate(dateFrom.getDate() - Number(period));
+
+      try {
+        setReport(
+          await crmLabelsService.getLabelReport({
+            date_from: dateFrom.toISOString().slice(0, 10),
+          }),
+        );
+      } catch (error) {
+        console.error("Failed to fetch label report:", error);
+        toast.error("Gagal memuat laporan label");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [period]);
+
+  const rows = [...(report?.labels || [])].sort(
+    (a, b) => b.chat_count - a.chat_count,
+  );
+  const labeledChats =
+    (report?.total_chats ?? 0) - (report?.unlabeled_chats ?? 0);
+  const labeledPercent = report?.total_chats
+    ? Math.round((labeledChats / report.total_chats) * 100)
+    : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && !report ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-3 sm:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Total Chat
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold">
+                  {report?.total_chats ?? 0}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  Chat dibuat dalam periode ini
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Chat Berlabel
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold">
+                  {labeledPercent === null ? "-" : `${labeledPercent}%`}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  {labeledChats} chat punya minimal satu label
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Tanpa Label
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold">
+                  {report?.unlabeled_chats ?? 0}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  Chat yang belum dikategorikan
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Per label */}
+          <Card>
+            <CardHeader className="pb-2 pt-3 px-3">
+              <CardTitle className="text-xs font-semibold">
+                Chat per Label
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pb-3">
+              {rows.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-8">
+                  Belum ada data
+                </p>
+              ) : (
+                <ChartContainer
+                  config={chartConfig}
+                  className="w-full"
+                  style={{ height: Math.max(160, rows.length * 36) }}
+                >
+                  <BarChart data={rows} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} />
+                    <YAxis
+                      type="category"
+                      dataKey="name"
+                      tickLine={false}
+                      axisLine={false}
+                      width={110}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="chat_count" radius={4}>
+                      {rows.map((row) => (
+                        <Cell key={row.id} fill={row.color} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="px-3 py-3">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Label</TableHead>
+                    <TableHead className="text-xs text-right">Chat</TableHead>
+                    <TableHead className="text-xs text-right">
+                      Resolved
+                    </TableHead>
+                    <TableHead className="text-xs text-right">
+                      Customer
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell>
+                        <LabelBadge label={row} />
+                      </TableCell>
+                      <TableCell className="text-xs text-right">
+                        {row.chat_count}
+                      </TableCell>
+                      <TableCell className="text-xs text-right">
+                        {row.resolved_count}
+                      </TableCell>
+                      <TableCell className="text-xs text-right">
+                        {row.customer_count}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LabelSummary } from "@/services/crmLabelsService";
+
+interface LabelBadgeProps {
+  label: LabelSummary;
+  size?: "sm" | "md";
+  onRemove?: () => void;
+  className?: string;
+}
+
+/**
+ * Colored label pill, tinted with the label's own color
+ */
+export const LabelBadge = ({
+  label,
+  size = "md",
+  onRemove,
+  className,
+}: LabelBadgeProps) => (
+  <span
+    className={cn(
+      "inline-flex items-center gap-1 rounded-full border font-medium whitespace-nowrap",
+      size === "sm" ? "h-4 px-1.5 text-[10px]" : "h-5 px-2 text-xs",
+      className,
+    )}
+    style={{
+      color: label.color,
+      borderColor: `${label.color}66`,
+      backgroundColor: `${label.color}1a`,
+    }}
+  >
+    {label.name}
+    {onRemove && (
+      <button
+        type="button"
+        className="opacity-70 hover:opacity-100"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    )}
+  </span>
+);
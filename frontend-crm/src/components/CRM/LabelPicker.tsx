@@ -0,0 +1,97 @@
+import { useState, type ReactNode } from "react";
+import { Check, Minus } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import type { LabelSummary } from "@/services/crmLabelsService";
+
+interface LabelPickerProps {
+  labels: LabelSummary[];
+  // Label sets of every target (one chat, or the bulk selection)
+  targetLabelIds: string[][];
+  onChange: (addLabelIds: string[], removeLabelIds: string[]) => void;
+  children: ReactNode;
+  align?: "start" | "end";
+}
+
+/**
+ * Apply or remove labels on one or many chats/customers.
+ * A label on only some of the targets shows as partial; picking it
+ * applies it to all, picking a label on all targets removes it.
+ */
+export const LabelPicker = ({
+  labels,
+  targetLabelIds,
+  onChange,
+  children,
+  align = "start",
+}: LabelPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const getState = (labelId: string): "all" | "some" | "none" => {
+    const count = targetLabelIds.filter((ids) => ids.includes(labelId)).length;
+    if (count === 0) return "none";
+    return count === targetLabelIds.length ? "all" : "some";
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-56 p-0" align={align}>
+        <Command>
+          <CommandInput placeholder="Cari label..." />
+          <CommandList>
+            <CommandEmpty>
+              {labels.length === 0
+                ? "Belum ada label. Admin dapat membuatnya di Organization Settings."
+                : "Label tidak ditemukan."}
+            </CommandEmpty>
+            <CommandGroup>
+              {labels.map((label) => {
+                const state = getState(label.id);
+                return (
+                  <CommandItem
+                    key={label.id}
+                    value={label.name}
+                    onSelect={() =>
+                      state === "all"
+                        ? onChange([], [label.id])
+                        : onChange([label.id], [])
+                    }
+                  >
+                    <span
+                      className={cn(
+                        "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
+                        state !== "none" &&
+                          "bg-primary text-primary-foreground",
+                      )}
+                    >
+                      {state === "all" && <Check className="h-3 w-3" />}
+                      {state === "some" && <Minus className="h-3 w-3" />}
+                    </span>
+                    <span
+                      className="mr-2 h-2.5 w-2.5 rounded-full shrink-0"
+                      style={{ backgroundColor: label.color }}
+                    />
+                    <span className="truncate">{label.name}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
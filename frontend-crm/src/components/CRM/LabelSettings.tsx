@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, Edit, Loader2, Plus, Tag, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import * as crmLabelsService from "@/services/crmLabelsService";
+import type {
+  Label as ChatLabel,
+  LabelInput,
+} from "@/services/crmLabelsService";
+import { LabelBadge } from "./LabelBadge";
+
+interface LabelSettingsProps {
+  canEdit: boolean;
+}
+
+const emptyLabel = (): LabelInput => ({
+  name: "",
+  color: crmLabelsService.LABEL_COLORS[0],
+  description: "",
+});
+
+export const LabelSettings = ({ canEdit }: LabelSettingsProps) => {
+  const [labels, setLabels] = useState<ChatLabel[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Editor dialog state. `editingId` is null when creating a new label.
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LabelInput>(emptyLabel());
+  const [isSaving, setIsSaving] = useState(false);
+  const [labelToDelete, setLabelToDelete] = useState<ChatLabel | null>(null);
+
+  const fetchLabels = async () => {
+    setIsLoading(true);
+    try {
+      setLabels(await crmLabelsService.getLabels());
+    } catch (error) {
+      console.error("Failed to fetch labels:", error);
+      toast.error("Gagal memuat label");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLabels();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    // Suggest the first color not used yet
+    const usedColors = new Set(labels.map((l) => l.color));
+    setDraft({
+      ...emptyLabel(),
+      color:
+        crmLabelsService.LABEL_COLORS.find((c) => !usedColors.has(c)) ||
+        crmLabelsService.LABEL_COLORS[0],
+    });
+    setEditorOpen(true);
+  };
+
+  const openEdit = (label: ChatLabel) => {
+    setEditingId(label.id);
+    setDraft({
+      name: label.name,
+      color: label.color,
+      description: label.description || "",
+    });
+    setEditorOpen(true);
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+
+    if (!name) {
+      toast.error("Nama label harus diisi");
+      return;
+    }
+    if (
+      labels.some(
+        (l) =>
+          l.name.toLowerCase() === name.toLowerCase() && l.id !== editingId,
+      )
+    ) {
+      toast.error(`Label "${name}" sudah ada`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name,
+        color: draft.color,
+        description: draft.description?.trim() || null,
+      };
+      if (editingId) {
+        await crmLabelsService.updateLabel(editingId, payload);
+      } else {
+        await crmLabelsService.createLabel(payload);
+      }
+      toast.success("Label berhasil disimpan");
+      setEditorOpen(false);
+      await fetchLabels();
+    } catch (error) {
+      console.error("Failed to save label:", error);
+      toast.error(error.message || "Gagal menyimpan label");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!labelToDelete) return;
+    const label = labelToDelete;
+    setLabelToDelete(null);
+
+    try {
+      await crmLabelsService.deleteLabel(label.id);
+      toast.success("Label berhasil dihapus");
+      setLabels((prev) => prev.filter((l) => l.id !== label.id));
+    } catch (error) {
+      console.error("Failed to delete label:", error);
+      toast.error(error.message || "Gagal menghapus label");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Tag className="w-5 h-5" />
+              Label
+            </CardTitle>
+            <CardDescription>
+              Label berwarna untuk chat dan customer, misalnya "Refund", "VIP"
+              atau "Bug Report". Agent bisa memasang label dari daftar chat.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Label
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && labels.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Belum ada label
+          </p>
+        ) : (
+          labels.map((label) => (
+            <div
+              key={label.id}
+              className="flex items-center gap-3 p-2 rounded-md border"
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <LabelBadge label={label} />
+                {label.description && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    {label.description}
+                  </p>
+                )}
+              </div>
+              <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                {label.chat_count} chat · {label.customer_count} customer
+              </span>
+              {canEdit && (
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => openEdit(label)}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setLabelToDelete(label)}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Label" : "Label Baru"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="label-name">Nama</Label>
+              <Input
+                id="label-name"
+                placeholder="e.g. Refund"
+                maxLength={32}
+                value={draft.name}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Warna</Label>
+              <div className="flex flex-wrap gap-2">
+                {crmLabelsService.LABEL_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    className={cn(
+                      "h-7 w-7 rounded-full flex items-center justify-center ring-offset-2 ring-offset-background",
+                      draft.color === color && "ring-2 ring-primary",
+                    )}
+                    style={{ backgroundColor: color }}
+                    onClick={() => setDraft((prev) => ({ ...prev, color }))}
+                  >
+                    {draft.color === color && (
+                      <Check className="w-4 h-4 text-white" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="label-description">Deskripsi</Label>
+              <Input
+                id="label-description"
+                placeholder="Kapan label ini dipakai (opsional)"
+                value={draft.description || ""}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    description: e.target.value,
+                  }))
+                }
+              />
+            </div>
+
+            {draft.name.trim() && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                Preview:
+                <LabelBadge
+                  label={{
+                    id: "preview",
+                    name: draft.name,
+                    color: draft.color,
+                  }}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditorOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={Boolean(labelToDelete)}
+        onOpenChange={(open) => !open && setLabelToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus label "{labelToDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Label akan dilepas dari {labelToDelete?.chat_count || 0} chat dan{" "}
+              {labelToDelete?.customer_count || 0} customer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
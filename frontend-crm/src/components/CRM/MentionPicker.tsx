@@ -0,0 +1,90 @@
+import { forwardRef, useEffect, useImperativeHandle, useState } from "react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { MentionCandidate } from "@/lib/mentions";
+
+interface MentionPickerProps {
+  open: boolean;
+  query: string; // Text typed after the "@"
+  candidates: MentionCandidate[];
+  onSelect: (candidate: MentionCandidate) => void;
+  onClose: () => void;
+}
+
+export interface MentionPickerHandle {
+  /** Returns true when the key was consumed by the picker */
+  handleKeyDown: (e: React.KeyboardEvent) => boolean;
+}
+
+/**
+ * Teammate picker for @mentions in internal notes
+ */
+export const MentionPicker = forwardRef<
+  MentionPickerHandle,
+  MentionPickerProps
+>(({ open, query, candidates, onSelect, onClose }, ref) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query, open]);
+
+  const search = query.toLowerCase();
+  const filtered = candidates
+    .filter((c) => c.name.toLowerCase().includes(search))
+    .slice(0, 8);
+
+  useImperativeHandle(ref, () => ({
+    handleKeyDown: (e: React.KeyboardEvent) => {
+      if (!open || filtered.length === 0) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          setActiveIndex((i) => (i + 1) % filtered.length);
+          break;
+        case "ArrowUp":
+          setActiveIndex((i) => (i - 1 + filtered.length) % filtered.length);
+          break;
+        case "Enter":
+        case "Tab":
+          onSelect(filtered[Math.min(activeIndex, filtered.length - 1)]);
+          break;
+        case "Escape":
+          onClose();
+          break;
+        default:
+          return false;
+      }
+
+      e.preventDefault();
+      return true;
+    },
+  }));
+
+  if (!open || filtered.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 z-20 w-64 rounded-lg border bg-popover p-1 shadow-lg">
+      {filtered.map((candidate, index) => (
+        <div
+          key={candidate.userId}
+          className={`flex items-center gap-2 rounded-md px-2 py-1.5 cursor-pointer text-sm ${
+            index === activeIndex ? "bg-accent" : "hover:bg-muted"
+          }`}
+          // Keep focus in the message input
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => setActiveIndex(index)}
+          onClick={() => onSelect(candidate)}
+        >
+          <Avatar className="w-6 h-6">
+            <AvatarFallback className="text-[10px] bg-amber-500/10 text-amber-600">
+              {candidate.name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <span className="truncate">{candidate.name}</span>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+MentionPicker.displayName = "MentionPicker";
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertTriangle,
+  GitMerge,
+  Loader2,
+  Mail,
+  MessageCircle,
+  Send,
+} from "lucide-react";
+import { toast } from "sonner";
+import * as crmChatsService from "@/services/crmChatsService";
+import type { Customer, CustomerMergeResult } from "@/services/crmChatsService";
+
+interface MergeCustomersDialogProps {
+  open: boolean;
+  onClose: () => void;
+  customers: Customer[];
+  onMerged: (result: CustomerMergeResult) => void;
+}
+
+export const MergeCustomersDialog = ({
+  open,
+  onClose,
+  customers,
+  onMerged,
+}: MergeCustomersDialogProps) => {
+  const [primaryId, setPrimaryId] = useState("");
+  const [isMerging, setIsMerging] = useState(false);
+
+  // Default to the oldest record, it usually carries the longest history
+  useEffect(() => {
+    if (!open || customers.length === 0) return;
+    const oldest = [...customers].sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+    )[0];
+    setPrimaryId(oldest.id);
+  }, [open, customers]);
+
+  const primary = customers.find((c) => c.id === primaryId);
+  const duplicates = customers.filter((c) => c.id !== primaryId);
+
+  // Empty fields of the primary record are filled from the duplicates
+  const pick = (getter: (customer: Customer) => string | null | undefined) =>
+    (primary && getter(primary)) || duplicates.map(getter).find(Boolean) || "-";
+
+  const handleMerge = async () => {
+    if (!primary || duplicates.length === 0) return;
+
+    setIsMerging(true);
+    try {
+      const result = await crmChatsService.mergeCustomers({
+        primary_customer_id: primary.id,
+        duplicate_customer_ids: duplicates.map((c) => c.id),
+      });
+      toast.success(
+        `${result.merged_customer_ids.length} customer digabung, ${result.reassigned_chats} chat dipindahkan`,
+      );
+      onMerged(result);
+      onClose();
+    } catch (error) {
+      console.error("Failed to merge customers:", error);
+      toast.error(error.message || "Gagal menggabungkan customer");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Merge Customers
+          </DialogTitle>
+          <DialogDescription>
+            Gabungkan kontak duplikat (mis. dari WhatsApp dan Telegram) menjadi
+            satu identitas. Semua chat dipindahkan ke customer utama.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Pilih customer utama</Label>
+            <RadioGroup value={primaryId} onValueChange={setPrimaryId}>
+              {customers.map((customer) => (
+                <label
+                  key={customer.id}
+                  htmlFor={`merge-${customer.id}`}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    customer.id === primaryId
+                      ? "border-primary bg-primary/5"
+                      : "hover:bg-muted"
+                  }`}
+                >
+                  <RadioGroupItem
+                    id={`merge-${customer.id}`}
+                    value={customer.id}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">
+                        {customer.name}
+                      </span>
+                      {customer.id === primaryId && (
+                        <Badge className="text-[10px] h-4">Utama</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      {customer.phone && (
+                        <span className="flex items-center gap-1">
+                          <MessageCircle className="w-3 h-3 text-green-600" />
+                          {customer.phone}
+                        </span>
+                      )}
+                      {customer.metadata?.telegram_id && (
+                        <span className="flex items-center gap-1">
+                          <Send className="w-3 h-3 text-blue-500" />
+                          {customer.metadata.telegram_id}
+                        </span>
+                      )}
+                      {customer.email && (
+                        <span className="flex items-center gap-1">
+                          <Mail className="w-3 h-3" />
+                          {customer.email}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                      Dibuat{" "}
+                      {new Date(customer.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {/* Result Preview */}
+          {primary && (
+            <div className="bg-muted/50 p-3 rounded-lg space-y-1 text-sm">
+              <p className="text-xs font-semibold text-muted-foreground mb-1">
+                Hasil penggabungan
+              </p>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Nama</span>
+                <span className="font-medium">{primary.name}</span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Phone</span>
+                <span className="font-medium">{pick((c) => c.phone)}</span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Telegram ID</span>
+                <span className="font-medium">
+                  {pick((c) => c.metadata?.telegram_id)}
+                </span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Email</span>
+                <span className="font-medium">{pick((c) => c.email)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 p-3 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-900">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0 text-amber-600" />
+            <span>
+              {duplicates.length} customer lain akan dihapus setelah digabung.
+              Tindakan ini tidak dapat dibatalkan.
+            </span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={!primary || duplicates.length === 0 || isMerging}
+          >
+            {isMerging ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <GitMerge className="w-4 h-4 mr-2" />
+            )}
+            Merge {customers.length} Customer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
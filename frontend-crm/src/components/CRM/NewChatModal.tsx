@@ -27,12 +27,18 @@ import {
   Loader2,
   Search,
   Zap,
+  ListFilter,
 } from "lucide-react";
 import {
   type CommunicationChannel,
   type Customer,
   getCustomers,
 } from "@/services/crmChatsService";
+import {
+  type Segment,
+  getSegments,
+  getSegmentCustomers,
+} from "@/services/crmSegmentsService";
 
 export interface ExistingChatSnippet {
   id: string;
@@ -85,7 +91,9 @@ export const NewChatModal = ({
   const [integrationAgentId, setIntegrationAgentId] =
     useState<string>("unassigned");
   const [isCreating, setIsCreating] = useState(false);
-  const [activeTab, setActiveTab] = useState<"existing" | "manual">("existing");
+  const [activeTab, setActiveTab] = useState<"existing" | "segment" | "manual">(
+    "existing",
+  );
   const [manualName, setManualName] = useState("");
   const [manualContact, setManualContact] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
@@ -96,6 +104,11 @@ export const NewChatModal = ({
   const [isSearching, setIsSearching] = useState(false);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [segmentId, setSegmentId] = useState("");
+  const [segmentMembers, setSegmentMembers] = useState<Customer[]>([]);
+  const [segmentMembersTotal, setSegmentMembersTotal] = useState(0);
+  const [isLoadingMembers, setIsLoadingMembers] = useState(false);
 
   const channels = [
     {
@@ -137,6 +150,8 @@ export const NewChatModal = ({
       setInitialMessage("");
       setErrors({});
       setActiveTab("existing");
+      setSegmentId("");
+      setSegmentMembers([]);
       setAssignedAgentId("select agent");
       setIntegrationAgentId("select agent integration");
     }
@@ -174,6 +189,42 @@ export const NewChatModal = ({
     };
   }, [searchQuery, channel]);
 
+  // Saved segments (own + shared) as chat targets
+  useEffect(() => {
+    if (!open) return;
+    getSegments()
+      .then(setSegments)
+      .catch((error) => console.error("Failed to fetch segments", error));
+  }, [open]);
+
+  // Members of the chosen segment that are reachable on the selected channel
+  useEffect(() => {
+    if (!segmentId) {
+      setSegmentMembers([]);
+      setSegmentMembersTotal(0);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingMembers(true);
+    getSegmentCustomers(segmentId, { channel, limit: 50 })
+      .then((response) => {
+        if (cancelled) return;
+        setSegmentMembers(response.customers);
+        setSegmentMembersTotal(response.total);
+      })
+      .catch((error) => {
+        console.error("Failed to fetch segment customers", error);
+        if (!cancelled) setSegmentMembers([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingMembers(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [segmentId, channel]);
+
   const handleSelectCustomer = (customer: Customer) => {
     let isValid = true;
     if (channel === "whatsapp" && !customer.phone) isValid = false;
@@ -393,6 +444,9 @@ export const NewChatModal = ({
     if (activeTab === "existing" && !selectedCustomer) {
       newErrors.selection = "Pilih customer dari database";
     }
+    if (activeTab === "segment" && !selectedCustomer) {
+      newErrors.selection = "Pilih customer dari segment";
+    }
 
     // --- 5. Manual Input Validation ---
     if (activeTab === "manual" && channel === "telegram") {
@@ -435,7 +489,7 @@ export const NewChatModal = ({
       let finalName = "",
         finalContact = "";
 
-      if (activeTab === "existing" && selectedCustomer) {
+      if (activeTab !== "manual" && selectedCustomer) {
         finalName = selectedCustomer.name;
         if (channel === "email") finalContact = selectedCustomer.email || "";
         else if (channel === "telegram")
@@ -508,6 +562,30 @@ export const NewChatModal = ({
 
   const ChannelIcon = selectedChannel?.icon || MessageCircle;
 
+  const renderSelectedCustomer = () => (
+    <div className="flex justify-between items-center p-3 border rounded bg-green-50">
+      <div>
+        <div className="text-sm font-medium">{selectedCustomer?.name}</div>
+        <div className="text-xs text-muted-foreground">
+          {channel === "email"
+            ? selectedCustomer?.email
+            : selectedCustomer?.phone ||
+              selectedCustomer?.metadata?.telegram_id}
+        </div>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          setSelectedCustomer(null);
+          setErrors((prev) => ({ ...prev, selection: "" }));
+        }}
+      >
+        Ganti
+      </Button>
+    </div>
+  );
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[550px] overflow-visible">
@@ -529,7 +607,8 @@ export const NewChatModal = ({
                 setSelectedCustomer(null);
                 setErrors({});
                 setIntegrationAgentId("unassigned");
-                if (v === "telegram") setActiveTab("existing");
+                if (v === "telegram" && activeTab === "manual")
+                  setActiveTab("existing");
               }}
               disabled={isCreating}
             >
@@ -557,8 +636,9 @@ export const NewChatModal = ({
           <Tabs
             value={activeTab}
             onValueChange={(v) => {
-              if (channel !== "telegram") {
+              if (channel !== "telegram" || v !== "manual") {
                 setActiveTab(v as any);
+                setSelectedCustomer(null);
                 setErrors({});
               }
             }}
@@ -566,8 +646,9 @@ export const NewChatModal = ({
           >
             <div className="space-y-2">
               <Label>Metode Input</Label>
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="existing">Cari Database</TabsTrigger>
+                <TabsTrigger value="segment">Segment</TabsTrigger>
                 <TabsTrigger value="manual" disabled={channel === "telegram"}>
                   Input Manual
                 </TabsTrigger>
@@ -619,29 +700,7 @@ export const NewChatModal = ({
                     )}
                   </>
                 ) : (
-                  <div className="flex justify-between items-center p-3 border rounded bg-green-50">
-                    <div>
-                      <div className="text-sm font-medium">
-                        {selectedCustomer.name}
-                      </div>
-                      <div className="text-xs text-muted-foreground">
-                        {channel === "email"
-                          ? selectedCustomer.email
-                          : selectedCustomer.phone ||
-                            selectedCustomer.metadata?.telegram_id}
-                      </div>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        setSelectedCustomer(null);
-                        setErrors((prev) => ({ ...prev, selection: "" }));
-                      }}
-                    >
-                      Ganti
-                    </Button>
-                  </div>
+                  renderSelectedCustomer()
                 )}
               </div>
               {errors.selection && (
@@ -649,6 +708,86 @@ export const NewChatModal = ({
               )}
             </TabsContent>
 
+            {/* TAB: Segment */}
+            <TabsContent value="segment" className="mt-4 space-y-2">
+              <Label>Segment</Label>
+              <Select
+                value={segmentId}
+                onValueChange={(v) => {
+                  setSegmentId(v);
+                  setSelectedCustomer(null);
+                }}
+                disabled={isCreating}
+              >
+                <SelectTrigger>
+                  <div className="flex gap-2 items-center">
+                    <ListFilter className="w-4 h-4" />
+                    <SelectValue
+                      placeholder={
+                        segments.length
+                          ? "Pilih segment..."
+                          : "Belum ada segment tersimpan"
+                      }
+                    />
+                  </div>
+                </SelectTrigger>
+                <SelectContent>
+                  {segments.map((segment) => (
+                    <SelectItem key={segment.id} value={segment.id}>
+                      {segment.name} ({segment.customer_count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {segmentId &&
+                (selectedCustomer ? (
+                  renderSelectedCustomer()
+                ) : isLoadingMembers ? (
+                  <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Memuat customer...
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      {segmentMembersTotal} customer dapat dihubungi via{" "}
+                      {selectedChannel?.label}
+                    </p>
+                    <div className="border rounded-md max-h-[200px] overflow-auto">
+                      {segmentMembers.length === 0 ? (
+                        <p className="p-3 text-sm text-muted-foreground">
+                          Tidak ada customer di segment ini untuk channel{" "}
+                          {selectedChannel?.label}
+                        </p>
+                      ) : (
+                        segmentMembers.map((c) => (
+                          <div
+                            key={c.id}
+                            className="p-3 hover:bg-accent cursor-pointer"
+                            onClick={() => handleSelectCustomer(c)}
+                          >
+                            <div className="flex justify-between items-center">
+                              <div className="text-sm font-medium">
+                                {c.name}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {channel === "email"
+                                  ? c.email
+                                  : c.phone || c.metadata?.telegram_id}
+                              </div>
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </>
+                ))}
+              {errors.selection && (
+                <p className="text-xs text-red-500">{errors.selection}</p>
+              )}
+            </TabsContent>
+
             {/* TAB: Manual Input */}
             <TabsContent value="manual" className="mt-4 space-y-4">
               <div className="space-y-2">
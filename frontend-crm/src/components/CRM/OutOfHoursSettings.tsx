@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Bot, CalendarDays, Eye, MoonStar, UserRoundCheck } from "lucide-react";
+import type { OutOfHoursConfig } from "@/services/crmAgentsService";
+import * as crmCalendarsService from "@/services/crmCalendarsService";
+import type { CalendarEntry } from "@/services/crmCalendarsService";
+import { OUT_OF_OFFICE_TEMPLATE_VARIABLES } from "@/lib/messageTemplate";
+import { toDateTimeLocalValue } from "@/lib/chatSnooze";
+import {
+  formatNextOpening,
+  getScheduleStatus,
+  renderOutOfOfficeReply,
+  scheduleToBusinessHours,
+  type ScheduleDay,
+} from "@/lib/agentSchedule";
+
+const PREVIEW_CUSTOMER_NAME = "Budi Santoso";
+
+interface OutOfHoursSettingsProps {
+  timezone: string;
+  workingHours: ScheduleDay[];
+  calendarIds: string[]; // Settings state, stable until the selection changes
+  value: OutOfHoursConfig;
+  onChange: (value: OutOfHoursConfig) => void;
+}
+
+/**
+ * Out-of-office behavior of an agent plus a preview at a chosen time
+ */
+export const OutOfHoursSettings = ({
+  timezone,
+  workingHours,
+  calendarIds,
+  value,
+  onChange,
+}: OutOfHoursSettingsProps) => {
+  const [previewAt, setPreviewAt] = useState(() =>
+    toDateTimeLocalValue(new Date()),
+  );
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const messageRef = useRef<HTMLTextAreaElement>(null);
+
+  // Entries of the subscribed calendars, so the preview honors holidays
+  const subscribedIds = useMemo(() => [...calendarIds].sort(), [calendarIds]);
+  useEffect(() => {
+    if (subscribedIds.length === 0) {
+      setEntries([]);
+      return;
+    }
+
+    // A slower response for an earlier selection must not win
+    let cancelled = false;
+    Promise.all(
+      subscribedIds.map((id) => crmCalendarsService.getCalendarEntries(id)),
+    )
+      .then((results) => {
+        if (!cancelled) setEntries(results.flat());
+      })
+      .catch((error) =>
+        console.error("Failed to fetch calendar entries:", error),
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [subscribedIds]);
+
+  const update = (changes: Partial<OutOfHoursConfig>) =>
+    onChange({ ...value, ...changes });
+
+  const insertVariable = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const textarea = messageRef.current;
+    const message = value.autoReplyMessage;
+    const start = textarea?.selectionStart ?? message.length;
+    const end = textarea?.selectionEnd ?? message.length;
+    update({
+      autoReplyMessage:
+        message.slice(0, start) + placeholder + message.slice(end),
+    });
+  };
+
+  const businessHours = scheduleToBusinessHours(timezone, workingHours);
+  const previewDate = previewAt ? new Date(previewAt) : new Date();
+  const status = getScheduleStatus(businessHours, previewDate, entries);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MoonStar className="w-5 h-5" />
+          Di Luar Jam Kerja
+        </CardTitle>
+        <CardDescription>
+          Yang terjadi saat customer menghubungi di luar jam kerja di atas
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label>Auto-reply</Label>
+            <p className="text-xs text-muted-foreground">
+              Dikirim sekali per chat, berisi jam buka berikutnya
+            </p>
+          </div>
+          <Switch
+            checked={value.autoReplyEnabled}
+            onCheckedChange={(checked) => update({ autoReplyEnabled: checked })}
+          />
+        </div>
+
+        {value.autoReplyEnabled && (
+          <div className="space-y-2">
+            <Textarea
+              ref={messageRef}
+              rows={3}
+              value={value.autoReplyMessage}
+              onChange={(e) => update({ autoReplyMessage: e.target.value })}
+            />
+            <div className="flex flex-wrap gap-1">
+              {OUT_OF_OFFICE_TEMPLATE_VARIABLES.map((variable) => (
+                <Button
+                  key={variable.key}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 text-[11px] px-2"
+                  onClick={() => insertVariable(variable.key)}
+                >
+                  {variable.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label>AI tetap menjawab</Label>
+            <p className="text-xs text-muted-foreground">
+              Jika mati, hanya auto-reply yang dikirim sampai jam kerja dimulai
+            </p>
+          </div>
+          <Switch
+            checked={value.aiKeepsAnswering}
+            onCheckedChange={(checked) => update({ aiKeepsAnswering: checked })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label>Antrikan handoff</Label>
+            <p className="text-xs text-muted-foreground">
+              Eskalasi ke agent manusia ditahan dan diteruskan saat jam kerja
+              dimulai
+            </p>
+          </div>
+          <Switch
+            checked={value.queueHandoffs}
+            onCheckedChange={(checked) => update({ queueHandoffs: checked })}
+          />
+        </div>
+
+        {/* Preview */}
+        <div className="rounded-lg border bg-muted/30 p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="flex items-center gap-1.5">
+              <Eye className="w-4 h-4" />
+              Preview
+            </Label>
+            <Input
+              type="datetime-local"
+              value={previewAt}
+              onChange={(e) => setPreviewAt(e.target.value)}
+              className="h-8 w-56 text-xs"
+            />
+          </div>
+
+          <div className="flex items-center gap-2 text-xs">
+            {status.isOpen ? (
+              <Badge className="bg-green-100 text-green-700 border-green-200 hover:bg-green-100">
+                Jam kerja
+              </Badge>
+            ) : (
+              <Badge
+                variant="outline"
+                className="bg-slate-100 text-slate-700 border-slate-200"
+              >
+                Di luar jam kerja
+              </Badge>
+            )}
+            <span className="text-muted-foreground">
+              {status.nextOpening
+                ? status.isOpen
+                  ? "Chat dilayani seperti biasa"
+                  : `Buka lagi ${formatNextOpening(status.nextOpening, businessHours.timezone)}`
+                : "Tidak ada hari kerja yang aktif"}
+            </span>
+          </div>
+
+          {status.entry && (
+            <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <CalendarDays className="w-3.5 h-3.5" />
+              {status.entry.closed
+                ? `Libur: ${status.entry.name}`
+                : `Jam khusus ${status.entry.start} - ${status.entry.end}: ${status.entry.name}`}
+            </p>
+          )}
+
+          {!status.isOpen && (
+            <div className="space-y-2 text-xs">
+              {value.autoReplyEnabled && value.autoReplyMessage.trim() && (
+                <div className="max-w-[85%] rounded-lg bg-primary text-primary-foreground px-3 py-2 whitespace-pre-wrap">
+                  {renderOutOfOfficeReply(
+                    value.autoReplyMessage,
+                    businessHours,
+                    PREVIEW_CUSTOMER_NAME,
+                    previewDate,
+                    entries,
+                  )}
+                </div>
+              )}
+              <p className="flex items-center gap-1.5 text-muted-foreground">
+                <Bot className="w-3.5 h-3.5" />
+                {value.aiKeepsAnswering
+                  ? "AI tetap menjawab pertanyaan customer"
+                  : "AI tidak menjawab sampai jam kerja dimulai"}
+              </p>
+              <p className="flex items-center gap-1.5 text-muted-foreground">
+                <UserRoundCheck className="w-3.5 h-3.5" />
+                {value.queueHandoffs
+                  ? "Handoff ke agent menunggu sampai jam kerja dimulai"
+                  : "Handoff ke agent langsung diteruskan"}
+              </p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,502 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowDown,
+  ArrowUp,
+  GitBranch,
+  Loader2,
+  Plus,
+  Save,
+  Star,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import * as crmPipelinesService from "@/services/crmPipelinesService";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  type Pipeline,
+  type PipelineInput,
+  type PipelineStageInput,
+} from "@/services/crmPipelinesService";
+
+interface PipelineSettingsProps {
+  canEdit: boolean;
+}
+
+// Local draft of the pipeline being edited. `id` is null for unsaved pipelines.
+interface PipelineDraft extends PipelineInput {
+  id: string | null;
+}
+
+const NEW_STAGE_COLOR = "#6366f1";
+
+const toDraft = (pipeline: Pipeline): PipelineDraft => ({
+  id: pipeline.id,
+  name: pipeline.name,
+  is_default: pipeline.is_default,
+  stages: pipeline.stages.map((stage) => ({ ...stage })),
+});
+
+const newPipelineDraft = (isFirst: boolean): PipelineDraft => ({
+  id: null,
+  name: isFirst ? "Sales Pipeline" : "Pipeline Baru",
+  is_default: isFirst,
+  // The first pipeline keeps the legacy stage ids so existing deals keep their
+  // column; later pipelines only copy the stages and get new ids
+  stages: DEFAULT_PIPELINE_STAGES.map(({ id, ...stage }) =>
+    isFirst ? { id, ...stage } : stage,
+  ),
+});
+
+export const PipelineSettings = ({ canEdit }: PipelineSettingsProps) => {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [draft, setDraft] = useState<PipelineDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+
+  const fetchPipelines = async (selectId?: string) => {
+    setIsLoading(true);
+    try {
+      const data = await crmPipelinesService.getPipelines();
+      setPipelines(data);
+
+      const selected =
+        data.find((p) => p.id === selectId) ||
+        data.find((p) => p.is_default) ||
+        data[0];
+      setDraft(selected ? toDraft(selected) : null);
+    } catch (error) {
+      console.error("Failed to fetch pipelines:", error);
+      toast.error("Gagal memuat pipeline");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPipelines();
+  }, []);
+
+  // ============= Draft Helpers =============
+
+  const updateStage = (index: number, updates: Partial<PipelineStageInput>) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const stages = prev.stages.map((stage, i) => {
+        if (i === index) return { ...stage, ...updates };
+        // Only one won stage and one lost stage per pipeline
+        if (updates.is_won && stage.is_won) return { ...stage, is_won: false };
+        if (updates.is_lost && stage.is_lost)
+          return { ...stage, is_lost: false };
+        return stage;
+      });
+      return { ...prev, stages };
+    });
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const target = index + direction;
+      if (target < 0 || target >= prev.stages.length) return prev;
+
+      const stages = [...prev.stages];
+      [stages[index], stages[target]] = [stages[target], stages[index]];
+      return { ...prev, stages };
+    });
+  };
+
+  const addStage = () => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            stages: [
+              ...prev.stages,
+              {
+                name: "",
+                color: NEW_STAGE_COLOR,
+                position: prev.stages.length,
+                win_probability: 50,
+                is_won: false,
+                is_lost: false,
+              },
+            ],
+          }
+        : prev,
+    );
+  };
+
+  const removeStage = (index: number) => {
+    setDraft((prev) =>
+      prev
+        ? { ...prev, stages: prev.stages.filter((_, i) => i !== index) }
+        : prev,
+    );
+  };
+
+  // ============= Actions =============
+
+  const validateDraft = (data: PipelineDraft): string | null => {
+    if (!data.name.trim()) return "Nama pipeline harus diisi";
+    if (data.stages.length === 0)
+      return "Pipeline harus memiliki minimal 1 stage";
+    if (data.stages.some((stage) => !stage.name.trim()))
+      return "Semua stage harus memiliki nama";
+    if (
+      data.stages.some(
+        (stage) => stage.win_probability < 0 || stage.win_probability > 100,
+      )
+    )
+      return "Probability harus di antara 0 dan 100";
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationError = validateDraft(draft);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    const payload: PipelineInput = {
+      name: draft.name.trim(),
+      is_default: draft.is_default,
+      // Positions always follow the order shown in the editor
+      stages: draft.stages.map((stage, index) => ({
+        ...stage,
+        name: stage.name.trim(),
+        position: index,
+      })),
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = draft.id
+        ? await crmPipelinesService.updatePipeline(draft.id, payload)
+        : await crmPipelinesService.createPipeline(payload);
+      toast.success("Pipeline berhasil disimpan");
+      await fetchPipelines(saved.id);
+    } catch (error) {
+      console.error("Failed to save pipeline:", error);
+      toast.error(error.message || "Gagal menyimpan pipeline");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft?.id) return;
+    setConfirmDeleteOpen(false);
+
+    try {
+      await crmPipelinesService.deletePipeline(draft.id);
+      toast.success("Pipeline berhasil dihapus");
+      await fetchPipelines();
+    } catch (error) {
+      console.error("Failed to delete pipeline:", error);
+      toast.error(error.message || "Gagal menghapus pipeline");
+    }
+  };
+
+  if (isLoading && pipelines.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[260px_1fr]">
+      {/* Pipeline List */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="w-5 h-5" />
+            Pipelines
+          </CardTitle>
+          <CardDescription>Sales process per team</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {pipelines.length === 0 && !draft && (
+            <p className="text-sm text-muted-foreground">
+              Belum ada pipeline. Stage default digunakan di Sales Management.
+            </p>
+          )}
+          {pipelines.map((pipeline) => (
+            <button
+              key={pipeline.id}
+              type="button"
+              onClick={() => setDraft(toDraft(pipeline))}
+              className={`w-full text-left p-2 rounded-md border text-sm transition-colors ${
+                draft?.id === pipeline.id
+                  ? "border-primary bg-primary/5"
+                  : "hover:bg-muted"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{pipeline.name}</span>
+                {pipeline.is_default && (
+                  <Star className="w-3.5 h-3.5 text-yellow-500 fill-yellow-500" />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {pipeline.stages.length} stages
+              </p>
+            </button>
+          ))}
+          {canEdit && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setDraft(newPipelineDraft(pipelines.length === 0))}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Pipeline Baru
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pipeline Editor */}
+      {draft ? (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>
+                  {draft.id ? "Edit Pipeline" : "Pipeline Baru"}
+                </CardTitle>
+                <CardDescription>
+                  Urutan, warna, dan probability default setiap stage
+                </CardDescription>
+              </div>
+              {canEdit && (
+                <div className="flex gap-2">
+                  {draft.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setConfirmDeleteOpen(true)}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                  <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="w-4 h-4 mr-2" />
+                    )}
+                    Simpan
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="pipeline-name">Nama Pipeline</Label>
+                <Input
+                  id="pipeline-name"
+                  value={draft.name}
+                  disabled={!canEdit}
+                  onChange={(e) =>
+                    setDraft(
+                      (prev) => prev && { ...prev, name: e.target.value },
+                    )
+                  }
+                />
+              </div>
+              <div className="flex items-center gap-3 pt-6">
+                <Switch
+                  id="pipeline-default"
+                  checked={draft.is_default}
+                  disabled={!canEdit}
+                  onCheckedChange={(checked) =>
+                    setDraft((prev) => prev && { ...prev, is_default: checked })
+                  }
+                />
+                <Label htmlFor="pipeline-default">Default pipeline</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[auto_1fr_56px_100px_70px_70px_auto] items-center gap-2 px-1 text-xs font-medium text-muted-foreground">
+                <span className="w-14" />
+                <span>Stage</span>
+                <span>Warna</span>
+                <span>Probability %</span>
+                <span>Won</span>
+                <span>Lost</span>
+                <span className="w-8" />
+              </div>
+
+              {draft.stages.map((stage, index) => (
+                <div
+                  key={stage.id || `new-${index}`}
+                  className="grid grid-cols-[auto_1fr_56px_100px_70px_70px_auto] items-center gap-2 p-1 rounded-md border"
+                >
+                  <div className="flex w-14">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={!canEdit || index === 0}
+                      onClick={() => moveStage(index, -1)}
+                    >
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={!canEdit || index === draft.stages.length - 1}
+                      onClick={() => moveStage(index, 1)}
+                    >
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                  <Input
+                    value={stage.name}
+                    placeholder="Nama stage"
+                    disabled={!canEdit}
+                    className="h-8"
+                    onChange={(e) =>
+                      updateStage(index, { name: e.target.value })
+                    }
+                  />
+                  <Input
+                    type="color"
+                    value={stage.color}
+                    disabled={!canEdit}
+                    className="h-8 p-1"
+                    onChange={(e) =>
+                      updateStage(index, { color: e.target.value })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={stage.win_probability}
+                    disabled={!canEdit}
+                    className="h-8"
+                    onChange={(e) =>
+                      updateStage(index, {
+                        win_probability: Number(e.target.value),
+                      })
+                    }
+                  />
+                  <Switch
+                    checked={stage.is_won}
+                    disabled={!canEdit}
+                    onCheckedChange={(checked) =>
+                      updateStage(index, {
+                        is_won: checked,
+                        ...(checked ? { is_lost: false } : {}),
+                      })
+                    }
+                  />
+                  <Switch
+                    checked={stage.is_lost}
+                    disabled={!canEdit}
+                    onCheckedChange={(checked) =>
+                      updateStage(index, {
+                        is_lost: checked,
+                        ...(checked ? { is_won: false } : {}),
+                      })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={!canEdit}
+                    onClick={() => removeStage(index)}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+
+              {canEdit && (
+                <Button variant="outline" size="sm" onClick={addStage}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Tambah Stage
+                </Button>
+              )}
+            </div>
+
+            {/* Preview */}
+            <div className="flex flex-wrap gap-2 pt-2 border-t">
+              {draft.stages.map((stage, index) => (
+                <Badge
+                  key={stage.id || `preview-${index}`}
+                  className="text-white"
+                  style={{ backgroundColor: stage.color }}
+                >
+                  {stage.name || "—"}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            Pilih atau buat pipeline untuk mulai mengatur stage.
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus pipeline "{draft?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Pipeline dan konfigurasi stage-nya akan dihapus. Deals yang masih
+              berada di pipeline ini harus dipindahkan terlebih dahulu.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
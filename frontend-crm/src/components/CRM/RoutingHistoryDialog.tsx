@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CheckCircle2, Loader2, RefreshCw, Route, XCircle } from "lucide-react";
+import * as crmRoutingService from "@/services/crmRoutingService";
+import type { RoutingDecision } from "@/services/crmRoutingService";
+
+interface RoutingHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  chatId: string;
+  canReroute?: boolean;
+}
+
+const OUTCOME_STYLES: Record<
+  RoutingDecision["outcome"],
+  { label: string; className: string }
+> = {
+  assigned: {
+    label: "Assigned",
+    className: "bg-emerald-500/10 text-emerald-700 border-emerald-500/30",
+  },
+  queued: {
+    label: "Antrian",
+    className: "bg-amber-500/10 text-amber-700 border-amber-500/30",
+  },
+  ai_fallback: {
+    label: "Tetap AI",
+    className: "bg-blue-500/10 text-blue-700 border-blue-500/30",
+  },
+};
+
+const TRIGGER_LABELS: Record<RoutingDecision["triggered_by"], string> = {
+  incoming_chat: "Chat masuk",
+  escalation: "Escalation",
+  manual: "Routing ulang",
+};
+
+const getStrategyLabel = (strategy: RoutingDecision["strategy"]) =>
+  crmRoutingService.ROUTING_STRATEGIES.find((s) => s.value === strategy)
+    ?.label || strategy;
+
+/**
+ * Every routing decision of a chat, with the reason each candidate was
+ * picked or skipped
+ */
+export const RoutingHistoryDialog = ({
+  open,
+  onClose,
+  chatId,
+  canReroute = false,
+}: RoutingHistoryDialogProps) => {
+  const [decisions, setDecisions] = useState<RoutingDecision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRerouting, setIsRerouting] = useState(false);
+
+  const fetchDecisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setDecisions(await crmRoutingService.getChatRoutingDecisions(chatId));
+    } catch (error) {
+      console.error("Failed to fetch routing decisions:", error);
+      toast.error("Gagal memuat riwayat routing");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chatId]);
+
+  useEffect(() => {
+    if (open) fetchDecisions();
+  }, [open, fetchDecisions]);
+
+  const handleReroute = async () => {
+    setIsRerouting(true);
+    try {
+      const decision = await crmRoutingService.rerouteChat(chatId);
+      setDecisions((prev) => [decision, ...prev]);
+      if (decision.assigned_agent_name) {
+        toast.success(`Chat di-assign ke ${decision.assigned_agent_name}`);
+      } else {
+        toast.info(decision.reason || "Tidak ada agent yang tersedia");
+      }
+    } catch (error) {
+      console.error("Failed to reroute chat:", error);
+      toast.error(error.message || "Gagal menjalankan routing ulang");
+    } finally {
+      setIsRerouting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Route className="w-5 h-5" />
+            Riwayat Routing
+          </DialogTitle>
+          <DialogDescription>
+            Keputusan routing otomatis untuk chat ini, terbaru di atas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : decisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-10">
+            Belum ada keputusan routing untuk chat ini
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[420px] pr-3">
+            <div className="space-y-3">
+              {decisions.map((decision) => (
+                <div
+                  key={decision.id}
+                  className="rounded-md border p-3 space-y-2"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium">
+                        {decision.assigned_agent_name || "Tidak di-assign"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {TRIGGER_LABELS[decision.triggered_by]} ·{" "}
+                        {getStrategyLabel(decision.strategy)} ·{" "}
+                        {new Date(decision.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={`text-[10px] ${OUTCOME_STYLES[decision.outcome].className}`}
+                    >
+                      {OUTCOME_STYLES[decision.outcome].label}
+                    </Badge>
+                  </div>
+
+                  {decision.reason && (
+                    <p className="text-xs">{decision.reason}</p>
+                  )}
+
+                  {decision.candidates.length > 0 && (
+                    <div className="space-y-1 border-t pt-2">
+                      {decision.candidates.map((candidate) => (
+                        <div
+                          key={candidate.agent_id}
+                          className="flex items-center gap-2 text-xs"
+                        >
+                          {candidate.eligible ? (
+                            <CheckCircle2 className="w-3 h-3 text-emerald-600 shrink-0" />
+                          ) : (
+                            <XCircle className="w-3 h-3 text-muted-foreground shrink-0" />
+                          )}
+                          <span
+                            className={
+                              candidate.agent_id === decision.assigned_agent_id
+                                ? "font-medium"
+                                : ""
+                            }
+                          >
+                            {candidate.agent_name}
+                          </span>
+                          <span className="text-muted-foreground truncate">
+                            {[
+                              candidate.reason,
+                              candidate.assigned_chats_count != null &&
+                                `${candidate.assigned_chats_count} chat aktif`,
+                              candidate.score != null &&
+                                `skor ${candidate.score}`,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Tutup
+          </Button>
+          {canReroute && (
+            <Button onClick={handleReroute} disabled={isRerouting}>
+              {isRerouting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4 mr-2" />
+              )}
+              Jalankan Routing Ulang
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,522 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Route, Users } from "lucide-react";
+import { toast } from "sonner";
+import * as crmRoutingService from "@/services/crmRoutingService";
+import * as crmAgentsService from "@/services/crmAgentsService";
+import type {
+  AgentRoutingProfile,
+  RoutingFallback,
+  RoutingRuleInput,
+  RoutingStrategy,
+} from "@/services/crmRoutingService";
+import type { AgentFrontend } from "@/services/crmAgentsService";
+import type { CommunicationChannel } from "@/services/crmChatsService";
+
+interface RoutingSettingsProps {
+  canEdit: boolean;
+}
+
+type RuleDrafts = Partial<Record<CommunicationChannel, RoutingRuleInput>>;
+
+// Comma separated text <-> list, used for skills and languages
+const parseList = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  );
+
+const STATUS_STYLES: Record<crmAgentsService.AgentStatus, string> = {
+  active: "bg-emerald-500/10 text-emerald-700 border-emerald-500/30",
+  busy: "bg-amber-500/10 text-amber-700 border-amber-500/30",
+  inactive: "bg-muted text-muted-foreground",
+};
+
+export const RoutingSettings = ({ canEdit }: RoutingSettingsProps) => {
+  const [rules, setRules] = useState<RuleDrafts>({});
+  const [agents, setAgents] = useState<AgentFrontend[]>([]);
+  const [profiles, setProfiles] = useState<
+    Record<string, { languages: string; skills: string }>
+  >({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingChannel, setSavingChannel] = useState<string | null>(null);
+  const [savingAgentId, setSavingAgentId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setIsLoading(true);
+      try {
+        const [ruleList, profileList, agentList] = await Promise.all([
+          crmRoutingService.getRoutingRules(),
+          crmRoutingService.getAgentRoutingProfiles(),
+          crmAgentsService.getAgents(),
+        ]);
+
+        const drafts: RuleDrafts = {};
+        crmRoutingService.ROUTING_CHANNELS.forEach(({ value }) => {
+          const rule = ruleList.find((r) => r.channel === value);
+          drafts[value] = rule
+            ? {
+                enabled: rule.enabled,
+                strategy: rule.strategy,
+                agent_ids: rule.agent_ids || [],
+                respect_working_hours: rule.respect_working_hours,
+                required_skills: rule.required_skills || [],
+                match_language: rule.match_language,
+                fallback: rule.fallback,
+              }
+            : crmRoutingService.DEFAULT_ROUTING_RULE;
+        });
+        setRules(drafts);
+
+        // Only human agents take part in routing
+        const humanAgents = agentList.filter((a) => a.userId);
+        setAgents(humanAgents);
+        setProfiles(
+          Object.fromEntries(
+            humanAgents.map((agent) => {
+              const profile = profileList.find((p) => p.agent_id === agent.id);
+              return [
+                agent.id,
+                {
+                  languages: (profile?.languages || []).join(", "),
+                  skills: (profile?.skills || []).join(", "),
+                },
+              ];
+            }),
+          ),
+        );
+      } catch (error) {
+        console.error("Failed to fetch routing settings:", error);
+        toast.error("Gagal memuat pengaturan routing");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const updateRule = (
+    channel: CommunicationChannel,
+    updates: Partial<RoutingRuleInput>,
+  ) => {
+    setRules((prev) => ({
+      ...prev,
+      [channel]: { ...prev[channel], ...updates },
+    }));
+  };
+
+  const toggleAgent = (channel: CommunicationChannel, agentId: string) => {
+    const current = rules[channel]?.agent_ids || [];
+    updateRule(channel, {
+      agent_ids: current.includes(agentId)
+        ? current.filter((id) => id !== agentId)
+        : [...current, agentId],
+    });
+  };
+
+  const handleSaveRule = async (channel: CommunicationChannel) => {
+    const rule = rules[channel];
+    if (!rule) return;
+
+    setSavingChannel(channel);
+    try {
+      const saved = await crmRoutingService.saveRoutingRule(channel, rule);
+      updateRule(channel, {
+        enabled: saved.enabled,
+        strategy: saved.strategy,
+        agent_ids: saved.agent_ids || [],
+      });
+      toast.success("Aturan routing berhasil disimpan");
+    } catch (error) {
+      console.error("Failed to save routing rule:", error);
+      toast.error(error.message || "Gagal menyimpan aturan routing");
+    } finally {
+      setSavingChannel(null);
+    }
+  };
+
+  const handleSaveProfile = async (agentId: string) => {
+    const draft = profiles[agentId];
+    if (!draft) return;
+
+    setSavingAgentId(agentId);
+    try {
+      const saved: AgentRoutingProfile =
+        await crmRoutingService.updateAgentRoutingProfile(agentId, {
+          languages: parseList(draft.languages),
+          skills: parseList(draft.skills),
+        });
+      setProfiles((prev) => ({
+        ...prev,
+        [agentId]: {
+          languages: saved.languages.join(", "),
+          skills: saved.skills.join(", "),
+        },
+      }));
+      toast.success("Profil routing agent berhasil disimpan");
+    } catch (error) {
+      console.error("Failed to save agent routing profile:", error);
+      toast.error(error.message || "Gagal menyimpan profil agent");
+    } finally {
+      setSavingAgentId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Channel rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Route className="w-5 h-5" />
+            Routing Otomatis
+          </CardTitle>
+          <CardDescription>
+            Chat baru dan chat yang di-escalate dibagikan otomatis ke agent
+            manusia. Hanya agent berstatus Active yang menerima chat; setiap
+            keputusan tercatat di riwayat routing chat.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {crmRoutingService.ROUTING_CHANNELS.map(({ value, label }) => {
+            const rule = rules[value];
+            if (!rule) return null;
+            const strategy = crmRoutingService.ROUTING_STRATEGIES.find(
+              (s) => s.value === rule.strategy,
+            );
+            const isAutomatic = rule.enabled && rule.strategy !== "manual";
+
+            return (
+              <div key={value} className="rounded-md border p-4 space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) =>
+                        updateRule(value, { enabled })
+                      }
+                      disabled={!canEdit}
+                    />
+                    <span className="font-medium">{label}</span>
+                    {!rule.enabled && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Nonaktif
+                      </Badge>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSaveRule(value)}
+                      disabled={savingChannel === value}
+                    >
+                      {savingChannel === value && (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      )}
+                      Simpan
+                    </Button>
+                  )}
+                </div>
+
+                {rule.enabled && (
+                  <>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label>Strategi</Label>
+                        <Select
+                          value={rule.strategy}
+                          onValueChange={(v) =>
+                            updateRule(value, {
+                              strategy: v as RoutingStrategy,
+                            })
+                          }
+                          disabled={!canEdit}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {crmRoutingService.ROUTING_STRATEGIES.map((s) => (
+                              <SelectItem key={s.value} value={s.value}>
+                                {s.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {strategy && (
+                          <p className="text-xs text-muted-foreground">
+                            {strategy.description}
+                          </p>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Jika tidak ada agent tersedia</Label>
+                        <Select
+                          value={rule.fallback}
+                          onValueChange={(v) =>
+                            updateRule(value, {
+                              fallback: v as RoutingFallback,
+                            })
+                          }
+                          disabled={!canEdit || !isAutomatic}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="queue">
+                              Masuk antrian (unassigned)
+                            </SelectItem>
+                            <SelectItem value="ai">
+                              Tetap ditangani AI agent
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    {isAutomatic && (
+                      <>
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <Label>Hanya dalam jam kerja agent</Label>
+                            <p className="text-xs text-muted-foreground">
+                              Mengikuti jadwal di pengaturan masing-masing agent
+                            </p>
+                          </div>
+                          <Switch
+                            checked={rule.respect_working_hours}
+                            onCheckedChange={(respect_working_hours) =>
+                              updateRule(value, { respect_working_hours })
+                            }
+                            disabled={!canEdit}
+                          />
+                        </div>
+
+                        {rule.strategy === "skill_based" && (
+                          <div className="grid gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                              <Label>Skill wajib</Label>
+                              <Input
+                                placeholder="billing, teknis"
+                                defaultValue={rule.required_skills.join(", ")}
+                                onBlur={(e) =>
+                                  updateRule(value, {
+                                    required_skills: parseList(e.target.value),
+                                  })
+                                }
+                                disabled={!canEdit}
+                              />
+                            </div>
+                            <div className="flex items-center justify-between gap-4">
+                              <div>
+                                <Label>Cocokkan bahasa customer</Label>
+                                <p className="text-xs text-muted-foreground">
+                                  Prioritaskan agent yang menguasai bahasa chat
+                                </p>
+                              </div>
+                              <Switch
+                                checked={rule.match_language}
+                                onCheckedChange={(match_language) =>
+                                  updateRule(value, { match_language })
+                                }
+                                disabled={!canEdit}
+                              />
+                            </div>
+                          </div>
+                        )}
+
+                        <div className="space-y-2">
+                          <Label>
+                            Agent pool{" "}
+                            <span className="font-normal text-muted-foreground">
+                              (kosong = semua agent)
+                            </span>
+                          </Label>
+                          {agents.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">
+                              Belum ada agent manusia
+                            </p>
+                          ) : (
+                            <div className="grid gap-2 sm:grid-cols-3">
+                              {agents.map((agent) => (
+                                <label
+                                  key={agent.id}
+                                  className="flex items-center gap-2 text-sm"
+                                >
+                                  <Checkbox
+                                    checked={rule.agent_ids.includes(agent.id)}
+                                    onCheckedChange={() =>
+                                      toggleAgent(value, agent.id)
+                                    }
+                                    disabled={!canEdit}
+                                  />
+                                  {agent.name}
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Agent skills & languages */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Skill & Bahasa Agent
+          </CardTitle>
+          <CardDescription>
+            Dipakai oleh strategi "Skill & bahasa". Pisahkan dengan koma,
+            gunakan kode bahasa seperti id, en.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {agents.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Belum ada agent manusia
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Chat aktif</TableHead>
+                  <TableHead>Bahasa</TableHead>
+                  <TableHead>Skill</TableHead>
+                  {canEdit && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {agents.map((agent) => {
+                  const profile = profiles[agent.id] || {
+                    languages: "",
+                    skills: "",
+                  };
+                  return (
+                    <TableRow key={agent.id}>
+                      <TableCell className="font-medium">
+                        {agent.name}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={`text-[10px] capitalize ${STATUS_STYLES[agent.status]}`}
+                        >
+                          {agent.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{agent.assignedChats}</TableCell>
+                      <TableCell>
+                        <Input
+                          className="h-8 w-28"
+                          placeholder="id, en"
+                          value={profile.languages}
+                          onChange={(e) =>
+                            setProfiles((prev) => ({
+                              ...prev,
+                              [agent.id]: {
+                                ...profile,
+                                languages: e.target.value,
+                              },
+                            }))
+                          }
+                          disabled={!canEdit}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="h-8"
+                          placeholder="billing, teknis"
+                          value={profile.skills}
+                          onChange={(e) =>
+                            setProfiles((prev) => ({
+                              ...prev,
+                              [agent.id]: {
+                                ...profile,
+                                skills: e.target.value,
+                              },
+                            }))
+                          }
+                          disabled={!canEdit}
+                        />
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleSaveProfile(agent.id)}
+                            disabled={savingAgentId === agent.id}
+                          >
+                            {savingAgentId === agent.id && (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            )}
+                            Simpan
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
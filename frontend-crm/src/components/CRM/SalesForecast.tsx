@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Award,
+  Clock,
+  Download,
+  Loader2,
+  TrendingUp,
+  XCircle,
+} from "lucide-react";
+import * as crmDealsService from "@/services/crmDealsService";
+import type { Deal, DealStageChange } from "@/services/crmDealsService";
+import type { PipelineStage } from "@/services/crmPipelinesService";
+import {
+  averageTimeInStage,
+  forecastByMonth,
+  forecastByOwner,
+  stageConversionRates,
+  winLossSummary,
+} from "@/lib/salesForecast";
+
+interface SalesForecastProps {
+  deals: Deal[];
+  stages: PipelineStage[];
+  pipelineId: string | null;
+  // The default pipeline also holds deals without a pipeline
+  includeUnassigned: boolean;
+}
+
+const monthChartConfig = {
+  weighted: { label: "Weighted", color: "#906BFF" },
+  won: { label: "Won", color: "#22c55e" },
+} satisfies ChartConfig;
+
+const ownerChartConfig = {
+  weighted: { label: "Weighted", color: "#906BFF" },
+  pipeline: { label: "Pipeline", color: "#94a3b8" },
+} satisfies ChartConfig;
+
+const formatCompactCurrency = (amount: number) =>
+  new Intl.NumberFormat("id-ID", {
+    style: "currency",
+    currency: "IDR",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+    notation: "compact",
+    compactDisplay: "short",
+  }).format(amount);
+
+export const SalesForecast = ({
+  deals,
+  stages,
+  pipelineId,
+  includeUnassigned,
+}: SalesForecastProps) => {
+  const [history, setHistory] = useState<DealStageChange[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    // Ignore a late response after switching pipelines
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setIsLoadingHistory(true);
+      try {
+        const data = await crmDealsService.getDealStageHistory({
+          pipeline_id: pipelineId || undefined,
+          include_unassigned: includeUnassigned,
+        });
+        if (!cancelled) setHistory(data);
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Failed to fetch deal stage history:", error);
+        setHistory([]);
+      } finally {
+        if (!cancelled) setIsLoadingHistory(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [pipelineId, includeUnassigned]);
+
+  const byMonth = useMemo(
+    () => forecastByMonth(deals, stages),
+    [deals, stages],
+  );
+  const byOwner = useMemo(
+    () => forecastByOwner(deals, stages),
+    [deals, stages],
+  );
+  const conversions = useMemo(
+    () => stageConversionRates(deals, history, stages),
+    [deals, history, stages],
+  );
+  const durations = useMemo(
+    () => averageTimeInStage(deals, history, stages),
+    [deals, history, stages],
+  );
+  const winLoss = useMemo(() => winLossSummary(deals, stages), [deals, stages]);
+
+  const triggerBrowserDownload = (blob: Blob, filename: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      toast.info("Preparing export...");
+      const blob = await crmDealsService.exportForecastReport({
+        pipeline_id: pipelineId || undefined,
+        include_unassigned: includeUnassigned,
+      });
+      triggerBrowserDownload(
+        blob,
+        `sales_forecast_${new Date().toISOString().split("T")[0]}.csv`,
+      );
+      toast.success("Export downloaded successfully");
+    } catch (error) {
+      toast.error("Failed to export sales forecast");
+      console.error(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold">Sales Forecast</h2>
+          <p className="text-[10px] text-muted-foreground">
+            Revenue berdasarkan probability, conversion, dan win/loss
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+          onClick={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+          ) : (
+            <Download className="h-3.5 w-3.5 mr-1.5" />
+          )}
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Win / Loss */}
+      <div className="grid gap-3 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1.5 pt-3 px-3">
+            <CardTitle className="text-xs font-medium">Win Rate</CardTitle>
+            <TrendingUp className="h-3.5 w-3.5 text-green-600" />
+          </CardHeader>
+          <CardContent className="px-3 pb-3">
+            <div className="text-lg font-bold">{winLoss.winRate}%</div>
+            <p className="text-[10px] text-muted-foreground">
+              {winLoss.won} won / {winLoss.lost} lost · {winLoss.open} open
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1.5 pt-3 px-3">
+            <CardTitle className="text-xs font-medium">Won Value</CardTitle>
+            <Award className="h-3.5 w-3.5 text-green-600" />
+          </CardHeader>
+          <CardContent className="px-3 pb-3">
+            <div className="text-lg font-bold text-green-600">
+              {formatCompactCurrency(winLoss.wonValue)}
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Berhasil ditutup
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1.5 pt-3 px-3">
+            <CardTitle className="text-xs font-medium">Lost Value</CardTitle>
+            <XCircle className="h-3.5 w-3.5 text-red-500" />
+          </CardHeader>
+          <CardContent className="px-3 pb-3">
+            <div className="text-lg font-bold text-red-500">
+              {formatCompactCurrency(winLoss.lostValue)}
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Deals yang hilang
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Charts */}
+      <div className="grid gap-3 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2 pt-3 px-3">
+            <CardTitle className="text-xs font-semibold">
+              Weighted Revenue per Bulan
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="px-3 pb-3">
+            {byMonth.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-8">
+                Belum ada data
+              </p>
+            ) : (
+              <ChartContainer config={monthChartConfig} className="h-64 w-full">
+                <BarChart data={byMonth}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={formatCompactCurrency}
+                    width={70}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name) => (
+                          <span>
+                            {monthChartConfig[
+                              name as keyof typeof monthChartConfig
+                            ]?.label || name}
+                            : {formatCompactCurrency(Number(value))}
+                          </span>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar
+                    dataKey="weighted"
+                    fill="var(--color-weighted)"
+                    radius={4}
+                  />
+                  <Bar dataKey="won" fill="var(--color-won)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2 pt-3 px-3">
+            <CardTitle className="text-xs font-semibold">
+              Weighted Revenue per Owner
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="px-3 pb-3">
+            {byOwner.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-8">
+                Belum ada data
+              </p>
+            ) : (
+              <ChartContainer config={ownerChartConfig} className="h-64 w-full">
+                <BarChart data={byOwner}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={formatCompactCurrency}
+                    width={70}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name) => (
+                          <span>
+                            {ownerChartConfig[
+                              name as keyof typeof ownerChartConfig
+                            ]?.label || name}
+                            : {formatCompactCurrency(Number(value))}
+                          </span>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar
+                    dataKey="weighted"
+                    fill="var(--color-weighted)"
+                    radius={4}
+                  />
+                  <Bar
+                    dataKey="pipeline"
+                    fill="var(--color-pipeline)"
+                    radius={4}
+                  />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Conversion & Time in Stage */}
+      <div className="grid gap-3 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2 pt-3 px-3">
+            <CardTitle className="text-xs font-semibold">
+              Conversion Rate per Stage
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 px-3 pb-3">
+            {isLoadingHistory ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              conversions.map((conversion) => (
+                <div key={conversion.fromStage.id} className="space-y-1">
+                  <div className="flex items-center justify-between text-xs">
+                    <span>
+                      {conversion.fromStage.name} → {conversion.toStage.name}
+                    </span>
+                    <span className="font-semibold">
+                      {conversion.rate}%{" "}
+                      <span className="text-muted-foreground font-normal">
+                        ({conversion.converted}/{conversion.reached})
+                      </span>
+                    </span>
+                  </div>
+                  <Progress value={conversion.rate} className="h-1.5" />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2 pt-3 px-3">
+            <CardTitle className="text-xs font-semibold">
+              Rata-rata Waktu di Stage
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 px-3 pb-3">
+            {isLoadingHistory ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              durations.map((duration) => (
+                <div
+                  key={duration.stage.id}
+                  className="flex items-center justify-between p-2 rounded-lg border text-xs"
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: duration.stage.color }}
+                    />
+                    <span>{duration.stage.name}</span>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <Clock className="h-3 w-3 text-muted-foreground" />
+                    <span className="font-semibold">
+                      {duration.samples > 0 ? `${duration.avgDays} hari` : "-"}
+                    </span>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
+import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,209 +15,126 @@ import {
   Search,
   Filter,
   Sparkles,
+  Loader2,
+  Columns,
+  BarChart3,
 } from "lucide-react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
 import { DealCard } from "./DealCard";
 import { DealDetailModal } from "./DealDetailModal";
+import { DealFormDialog } from "./DealFormDialog";
+import { SalesForecast } from "./SalesForecast";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import * as crmDealsService from "@/services/crmDealsService";
+import type { Deal, DealInput } from "@/services/crmDealsService";
+import * as crmPipelinesService from "@/services/crmPipelinesService";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  type Pipeline,
+  type PipelineStage,
+} from "@/services/crmPipelinesService";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
-interface Deal {
-  id: string;
-  name: string;
-  company: string;
-  value: number;
-  probability: number;
-  stage: string;
-  leadScore: number;
-  needs: string[];
-  decisionMaker: string;
-  decisionMakerRole: string;
-  contactPhone: string;
-  contactEmail: string;
-  expectedClose: string;
-  lastActivity: string;
-  owner: string;
-  tags: string[];
-  priority: "low" | "medium" | "high";
-}
-
-interface Stage {
-  id: string;
-  name: string;
-  color: string;
-  icon: string;
-}
+// Board column for deals whose stage is not in the selected pipeline
+const UNMAPPED_STAGE: PipelineStage = {
+  id: "__unmapped",
+  name: "Tanpa Stage",
+  color: "#94a3b8",
+  position: Number.MAX_SAFE_INTEGER,
+  win_probability: 0,
+  is_won: false,
+  is_lost: false,
+};
 
 export const SalesManagement = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
 
-  // Pipeline Stages
-  const stages: Stage[] = [
-    { id: "lead", name: "Lead", color: "bg-slate-500", icon: "👤" },
-    { id: "qualified", name: "Qualified", color: "bg-blue-500", icon: "✓" },
-    { id: "proposal", name: "Proposal", color: "bg-purple-500", icon: "📄" },
-    { id: "negotiation", name: "Negotiation", color: "bg-yellow-500", icon: "💬" },
-    { id: "closing", name: "Closing", color: "bg-orange-500", icon: "🤝" },
-    { id: "won", name: "Won", color: "bg-green-500", icon: "🎉" },
-    { id: "lost", name: "Lost", color: "bg-red-500", icon: "❌" },
-  ];
-
-  // Mock data untuk sales pipeline
-  const [deals, setDeals] = useState<Deal[]>([
-    {
-      id: "1",
-      name: "Kontrak Software Enterprise",
-      company: "PT. Maju Jaya",
-      value: 150000000,
-      stage: "negotiation",
-      probability: 75,
-      leadScore: 85,
-      needs: ["CRM System", "Integration", "Training"],
-      decisionMaker: "Budi Santoso",
-      decisionMakerRole: "IT Director",
-      contactPhone: "+62 812-3456-7890",
-      contactEmail: "budi.santoso@majujaya.com",
-      expectedClose: "15 Feb 2024",
-      lastActivity: "2 hours ago",
-      owner: "John Doe",
-      tags: ["Enterprise", "High Value"],
-      priority: "high",
-    },
-    {
-      id: "2",
-      name: "Implementasi CRM System",
-      company: "CV. Sukses Mandiri",
-      value: 85000000,
-      stage: "proposal",
-      probability: 60,
-      leadScore: 72,
-      needs: ["CRM", "Mobile App"],
-      decisionMaker: "Siti Rahayu",
-      decisionMakerRole: "Owner",
-      contactPhone: "+62 811-2345-6789",
-      contactEmail: "siti@suksesmandiri.com",
-      expectedClose: "28 Feb 2024",
-      lastActivity: "1 day ago",
-      owner: "Jane Smith",
-      tags: ["SME", "Software"],
-      priority: "medium",
-    },
-    {
-      id: "3",
-      name: "Maintenance & Support",
-      company: "UD. Berkah Jaya",
-      value: 35000000,
-      stage: "qualified",
-      probability: 40,
-      leadScore: 58,
-      needs: ["Support", "Maintenance"],
-      decisionMaker: "Ahmad Hidayat",
-      decisionMakerRole: "Operations Manager",
-      contactPhone: "+62 813-4567-8901",
-      contactEmail: "ahmad@berkahjaya.com",
-      expectedClose: "10 Mar 2024",
-      lastActivity: "3 days ago",
-      owner: "Bob Wilson",
-      tags: ["Support", "Recurring"],
-      priority: "low",
-    },
-    {
-      id: "4",
-      name: "Cloud Infrastructure",
-      company: "PT. Teknologi Nusantara",
-      value: 200000000,
-      stage: "negotiation",
-      probability: 80,
-      leadScore: 92,
-      needs: ["Cloud Migration", "Security", "DevOps"],
-      decisionMaker: "Dr. Linda Wijaya",
-      decisionMakerRole: "CTO",
-      contactPhone: "+62 821-5678-9012",
-      contactEmail: "linda.wijaya@teknusantara.com",
-      expectedClose: "20 Feb 2024",
-      lastActivity: "1 hour ago",
-      owner: "Alice Johnson",
-      tags: ["Enterprise", "Cloud", "Hot"],
-      priority: "high",
-    },
-    {
-      id: "5",
-      name: "Digital Marketing Tools",
-      company: "PT. Media Digital",
-      value: 65000000,
-      stage: "lead",
-      probability: 25,
-      leadScore: 45,
-      needs: ["Marketing Automation", "Analytics"],
-      decisionMaker: "Rina Kusuma",
-      decisionMakerRole: "Marketing Head",
-      contactPhone: "+62 822-6789-0123",
-      contactEmail: "rina@mediadigital.com",
-      expectedClose: "15 Mar 2024",
-      lastActivity: "5 days ago",
-      owner: "John Doe",
-      tags: ["Marketing", "SaaS"],
-      priority: "medium",
-    },
-    {
-      id: "6",
-      name: "E-commerce Platform",
-      company: "CV. Belanja Online",
-      value: 120000000,
-      stage: "proposal",
-      probability: 55,
-      leadScore: 68,
-      needs: ["E-commerce", "Payment Gateway", "Shipping"],
-      decisionMaker: "Hendra Wijaya",
-      decisionMakerRole: "CEO",
-      contactPhone: "+62 823-7890-1234",
-      contactEmail: "hendra@belanjaonline.com",
-      expectedClose: "25 Feb 2024",
-      lastActivity: "12 hours ago",
-      owner: "Jane Smith",
-      tags: ["E-commerce", "B2C"],
-      priority: "high",
-    },
-    {
-      id: "7",
-      name: "HR Management System",
-      company: "PT. Sumber Daya",
-      value: 95000000,
-      stage: "closing",
-      probability: 90,
-      leadScore: 88,
-      needs: ["HRIS", "Payroll", "Attendance"],
-      decisionMaker: "Dewi Lestari",
-      decisionMakerRole: "HR Director",
-      contactPhone: "+62 824-8901-2345",
-      contactEmail: "dewi@sumberdaya.com",
-      expectedClose: "18 Feb 2024",
-      lastActivity: "30 min ago",
-      owner: "Bob Wilson",
-      tags: ["HR", "Enterprise", "Almost Done"],
-      priority: "high",
-    },
-    {
-      id: "8",
-      name: "Mobile App Development",
-      company: "Startup Tech",
-      value: 45000000,
-      stage: "qualified",
-      probability: 45,
-      leadScore: 62,
-      needs: ["iOS App", "Android App"],
-      decisionMaker: "Arief Rahman",
-      decisionMakerRole: "Founder",
-      contactPhone: "+62 825-9012-3456",
-      contactEmail: "arief@startuptech.id",
-      expectedClose: "5 Mar 2024",
-      lastActivity: "2 days ago",
-      owner: "Alice Johnson",
-      tags: ["Startup", "Mobile"],
-      priority: "medium",
-    },
-  ]);
+  // Pipelines configured in Organization Settings
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string | null>(
+    null,
+  );
+  const [pipelinesLoaded, setPipelinesLoaded] = useState(false);
+
+  const selectedPipeline =
+    pipelines.find((p) => p.id === selectedPipelineId) || null;
+  const defaultPipelineId =
+    (pipelines.find((p) => p.is_default) || pipelines[0])?.id || null;
+
+  // Fall back to the default stages when the organization has no pipeline yet
+  const stages: PipelineStage[] = selectedPipeline
+    ? selectedPipeline.stages
+    : DEFAULT_PIPELINE_STAGES;
+
+  const wonStageIds = stages.filter((s) => s.is_won).map((s) => s.id);
+  const lostStageIds = stages.filter((s) => s.is_lost).map((s) => s.id);
+
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<"pipeline" | "forecast">(
+    "pipeline",
+  );
+
+  const fetchPipelines = async () => {
+    try {
+      const data = await crmPipelinesService.getPipelines();
+      setPipelines(data);
+      setSelectedPipelineId(
+        (data.find((p) => p.is_default) || data[0])?.id || null,
+      );
+    } catch (error) {
+      console.error("Failed to fetch pipelines:", error);
+    } finally {
+      setPipelinesLoaded(true);
+    }
+  };
+
+  // Only the latest fetch may update the board, e.g. after switching pipelines
+  const dealsRequestIdRef = useRef(0);
+
+  const fetchDeals = async (
+    pipelineId: string | null,
+    defaultId: string | null,
+  ) => {
+    const requestId = ++dealsRequestIdRef.current;
+    setIsLoading(true);
+    try {
+      // Deals created before pipelines existed have no pipeline_id and
+      // belong to the default pipeline. Without any pipeline, all deals show.
+      const { deals } = await crmDealsService.getDeals({
+        pipeline_id: pipelineId || undefined,
+        include_unassigned: Boolean(pipelineId) && pipelineId === defaultId,
+        limit: 500,
+      });
+      if (requestId !== dealsRequestIdRef.current) return;
+      setDeals(deals);
+    } catch (error) {
+      if (requestId !== dealsRequestIdRef.current) return;
+      console.error("Failed to fetch deals:", error);
+      toast.error("Gagal memuat data pipeline");
+    } finally {
+      if (requestId === dealsRequestIdRef.current) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPipelines();
+  }, []);
+
+  // Wait for the pipeline list so deals are only fetched once on mount
+  useEffect(() => {
+    if (!pipelinesLoaded) return;
+    fetchDeals(selectedPipelineId, defaultPipelineId);
+  }, [pipelinesLoaded, selectedPipelineId, defaultPipelineId]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("id-ID", {
@@ -234,54 +152,146 @@ export const SalesManagement = () => {
       deal.name.toLowerCase().includes(query) ||
       deal.company.toLowerCase().includes(query) ||
       deal.decisionMaker.toLowerCase().includes(query) ||
+      (deal.customer?.name || "").toLowerCase().includes(query) ||
       deal.tags.some((tag) => tag.toLowerCase().includes(query))
     );
   });
 
+  // Deals with a stage the pipeline does not know get their own column
+  const stageIds = new Set(stages.map((s) => s.id));
+  const unmappedDeals = filteredDeals.filter((d) => !stageIds.has(d.stage));
+  const boardStages =
+    unmappedDeals.length > 0 ? [...stages, UNMAPPED_STAGE] : stages;
+
   // Calculate stats
-  const activeDeals = filteredDeals.filter((d) => d.stage !== "won" && d.stage !== "lost");
+  const activeDeals = filteredDeals.filter(
+    (d) => !wonStageIds.includes(d.stage) && !lostStageIds.includes(d.stage),
+  );
   const totalValue = activeDeals.reduce((sum, deal) => sum + deal.value, 0);
   const weightedValue = activeDeals.reduce(
     (sum, deal) => sum + (deal.value * deal.probability) / 100,
     0
   );
   const averageDealSize = activeDeals.length > 0 ? totalValue / activeDeals.length : 0;
-  const wonDeals = filteredDeals.filter((d) => d.stage === "won").length;
+  const wonDeals = filteredDeals.filter((d) => wonStageIds.includes(d.stage)).length;
 
   // Handle drag and drop
-  const handleDragEnd = (result: DropResult) => {
+  const handleDragEnd = async (result: DropResult) => {
     const { source, destination, draggableId } = result;
 
     // If dropped outside a droppable area
     if (!destination) return;
 
-    // If dropped in the same position
-    if (source.droppableId === destination.droppableId && source.index === destination.index) {
-      return;
-    }
+    // Reordering inside the same stage is not persisted
+    if (source.droppableId === destination.droppableId) return;
 
     // Find the deal being moved
     const dealToMove = deals.find((d) => d.id === draggableId);
     if (!dealToMove) return;
 
-    // Update the deal's stage
-    const updatedDeals = deals.map((deal) => {
-      if (deal.id === draggableId) {
-        return { ...deal, stage: destination.droppableId };
+    // Moving a deal resets its probability to the stage default
+    const targetStage = stages.find((s) => s.id === destination.droppableId);
+    const probability = targetStage?.win_probability ?? dealToMove.probability;
+
+    // Optimistic update; a failure rolls back only this deal
+    setDeals((prev) =>
+      prev.map((deal) =>
+        deal.id === draggableId
+          ? { ...deal, stage: destination.droppableId, probability }
+          : deal,
+      ),
+    );
+
+    try {
+      const updatedDeal = await crmDealsService.moveDealStage(
+        draggableId,
+        destination.droppableId,
+        probability,
+      );
+      setDeals((prev) =>
+        prev.map((deal) => (deal.id === draggableId ? updatedDeal : deal)),
+      );
+    } catch (error) {
+      console.error("Failed to move deal:", error);
+      setDeals((prev) =>
+        prev.map((deal) => (deal.id === draggableId ? dealToMove : deal)),
+      );
+      toast.error(`Gagal memindahkan "${dealToMove.name}"`);
+    }
+  };
+
+  const handleCreateDeal = async (dealData: DealInput) => {
+    try {
+      const newDeal = await crmDealsService.createDeal(dealData);
+      setDeals((prev) => [newDeal, ...prev]);
+      toast.success("Deal berhasil dibuat");
+    } catch (error) {
+      console.error("Failed to create deal:", error);
+      toast.error(error.message || "Gagal membuat deal");
+      throw error;
+    }
+  };
+
+  const handleUpdateDeal = async (
+    dealId: string,
+    updates: Partial<DealInput>,
+  ) => {
+    const previousDeal = deals.find((deal) => deal.id === dealId);
+    setDeals((prev) =>
+      prev.map((deal) => (deal.id === dealId ? { ...deal, ...updates } : deal)),
+    );
+    setSelectedDeal((prev) =>
+      prev && prev.id === dealId ? { ...prev, ...updates } : prev,
+    );
+
+    try {
+      const updatedDeal = await crmDealsService.updateDeal(dealId, updates);
+      setDeals((prev) =>
+        prev.map((deal) => (deal.id === dealId ? updatedDeal : deal)),
+      );
+      setSelectedDeal((prev) =>
+        prev && prev.id === dealId ? updatedDeal : prev,
+      );
+      toast.success("Deal berhasil diupdate");
+    } catch (error) {
+      console.error("Failed to update deal:", error);
+      if (previousDeal) {
+        setDeals((prev) =>
+          prev.map((deal) => (deal.id === dealId ? previousDeal : deal)),
+        );
+        setSelectedDeal((prev) =>
+          prev && prev.id === dealId ? previousDeal : prev,
+        );
+      }
+      toast.error(error.message || "Gagal mengupdate deal");
+      throw error;
+    }
+  };
+
+  const handleDeleteDeal = async (dealId: string) => {
+    const deletedIndex = deals.findIndex((deal) => deal.id === dealId);
+    const deletedDeal = deals[deletedIndex];
+    setDeals((prev) => prev.filter((deal) => deal.id !== dealId));
+
+    try {
+      await crmDealsService.deleteDeal(dealId);
+      toast.success("Deal berhasil dihapus");
+    } catch (error) {
+      console.error("Failed to delete deal:", error);
+      // Put the deal back where it was, keeping other changes made meanwhile
+      if (deletedDeal) {
+        setDeals((prev) =>
+          prev.some((deal) => deal.id === dealId)
+            ? prev
+            : [
+                ...prev.slice(0, deletedIndex),
+                deletedDeal,
+                ...prev.slice(deletedIndex),
+              ],
+        );
       }
-      return deal;
-    });
-
-    // Update state
-    setDeals(updatedDeals);
-
-    // In real app, this would be an API call
-    console.log("Deal moved:", {
-      dealId: draggableId,
-      dealName: dealToMove.name,
-      from: source.droppableId,
-      to: destination.droppableId,
-    });
+      toast.error(error.message || "Gagal menghapus deal");
+    }
   };
 
   // Handle card click to open detail modal
@@ -373,6 +383,44 @@ export const SalesManagement = () => {
 
       {/* Search & Actions */}
       <div className="flex items-center gap-2">
+        <Tabs
+          value={viewMode}
+          onValueChange={(value) => setViewMode(value as "pipeline" | "forecast")}
+        >
+          <TabsList className="h-8 p-1">
+            <TabsTrigger
+              value="pipeline"
+              className="flex items-center gap-1.5 text-xs h-6 data-[state=active]:bg-background"
+            >
+              <Columns className="h-3.5 w-3.5" />
+              Pipeline
+            </TabsTrigger>
+            <TabsTrigger
+              value="forecast"
+              className="flex items-center gap-1.5 text-xs h-6 data-[state=active]:bg-background"
+            >
+              <BarChart3 className="h-3.5 w-3.5" />
+              Forecast
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {pipelines.length > 1 && (
+          <Select
+            value={selectedPipelineId || undefined}
+            onValueChange={setSelectedPipelineId}
+          >
+            <SelectTrigger className="w-48 h-8 text-xs">
+              <SelectValue placeholder="Pilih pipeline" />
+            </SelectTrigger>
+            <SelectContent>
+              {pipelines.map((pipeline) => (
+                <SelectItem key={pipeline.id} value={pipeline.id}>
+                  {pipeline.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <div className="relative flex-1">
           <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
           <Input
@@ -387,139 +435,186 @@ export const SalesManagement = () => {
           <Filter className="h-3.5 w-3.5 mr-1.5" />
           Filter
         </Button>
-        <Button size="sm" className="h-8 text-xs">
+        <Button
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => setCreateDialogOpen(true)}
+        >
           <Plus className="h-3.5 w-3.5 mr-1.5" />
           Deal Baru
         </Button>
       </div>
 
-      {/* Kanban Board */}
-      <DragDropContext onDragEnd={handleDragEnd}>
-        <div className="overflow-x-auto pb-4">
-          <div className="flex gap-4 min-w-max">
-            {stages.map((stage) => {
-              const stageDeals = filteredDeals.filter((deal) => deal.stage === stage.id);
-              const stageValue = stageDeals.reduce((sum, deal) => sum + deal.value, 0);
-
-              return (
-                <Card key={stage.id} className="w-72 flex-shrink-0">
-                  <CardHeader className="pb-2 pt-3 px-3">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-1.5">
-                        <span className="text-base">{stage.icon}</span>
-                        <div>
-                          <CardTitle className="text-xs font-semibold">
-                            {stage.name}
-                          </CardTitle>
-                          <p className="text-[10px] text-muted-foreground mt-0.5">
-                            {stageDeals.length} deals
-                          </p>
+      {viewMode === "forecast" ? (
+        <SalesForecast
+          deals={filteredDeals}
+          stages={stages}
+          pipelineId={selectedPipeline?.id || null}
+          includeUnassigned={
+            Boolean(selectedPipeline) &&
+            selectedPipeline.id === defaultPipelineId
+          }
+        />
+      ) : (
+        <>
+          {/* Kanban Board */}
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <div className="overflow-x-auto pb-4">
+              <div className="flex gap-4 min-w-max">
+                {boardStages.map((stage) => {
+                  const isUnmapped = stage.id === UNMAPPED_STAGE.id;
+                  const stageDeals = isUnmapped
+                    ? unmappedDeals
+                    : filteredDeals.filter((deal) => deal.stage === stage.id);
+                  const stageValue = stageDeals.reduce((sum, deal) => sum + deal.value, 0);
+
+                  return (
+                    <Card key={stage.id} className="w-72 flex-shrink-0">
+                      <CardHeader className="pb-2 pt-3 px-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-1.5">
+                            <span
+                              className="w-2.5 h-2.5 rounded-full"
+                              style={{ backgroundColor: stage.color }}
+                            />
+                            <div>
+                              <CardTitle className="text-xs font-semibold">
+                                {stage.name}
+                              </CardTitle>
+                              <p className="text-[10px] text-muted-foreground mt-0.5">
+                                {stageDeals.length} deals
+                              </p>
+                            </div>
+                          </div>
+                          <Badge
+                            className="text-white text-[10px] h-5"
+                            style={{ backgroundColor: stage.color }}
+                            variant="default"
+                          >
+                            {new Intl.NumberFormat("id-ID", {
+                              style: "currency",
+                              currency: "IDR",
+                              minimumFractionDigits: 0,
+                              maximumFractionDigits: 0,
+                              notation: "compact",
+                              compactDisplay: "short"
+                            }).format(stageValue)}
+                          </Badge>
                         </div>
-                      </div>
-                      <Badge
-                        className={`${stage.color} text-white hover:${stage.color} text-[10px] h-5`}
-                        variant="default"
-                      >
-                        {new Intl.NumberFormat("id-ID", {
-                          style: "currency",
-                          currency: "IDR",
-                          minimumFractionDigits: 0,
-                          maximumFractionDigits: 0,
-                          notation: "compact",
-                          compactDisplay: "short"
-                        }).format(stageValue)}
-                      </Badge>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="p-0">
-                    <Droppable droppableId={stage.id}>
-                      {(provided, snapshot) => (
-                        <div
-                          ref={provided.innerRef}
-                          {...provided.droppableProps}
-                          className={`transition-colors ${
-                            snapshot.isDraggingOver ? "bg-primary/5" : ""
-                          }`}
-                        >
-                          <ScrollArea className="h-[calc(100vh-24rem)] px-3">
-                            <div className="space-y-3 pb-4 pt-2">
-                              {stageDeals.length === 0 ? (
-                                <div className="text-center py-8 text-muted-foreground">
-                                  <p className="text-sm">Tidak ada deals</p>
+                      </CardHeader>
+                      <CardContent className="p-0">
+                        {/* Deals can leave the unmapped column, not enter it */}
+                        <Droppable droppableId={stage.id} isDropDisabled={isUnmapped}>
+                          {(provided, snapshot) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.droppableProps}
+                              className={`transition-colors ${
+                                snapshot.isDraggingOver ? "bg-primary/5" : ""
+                              }`}
+                            >
+                              <ScrollArea className="h-[calc(100vh-24rem)] px-3">
+                                <div className="space-y-3 pb-4 pt-2">
+                                  {isLoading && deals.length === 0 ? (
+                                    <div className="flex justify-center py-8 text-muted-foreground">
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    </div>
+                                  ) : stageDeals.length === 0 ? (
+                                    <div className="text-center py-8 text-muted-foreground">
+                                      <p className="text-sm">Tidak ada deals</p>
+                                    </div>
+                                  ) : (
+                                    stageDeals.map((deal, index) => (
+                                      <Draggable key={deal.id} draggableId={deal.id} index={index}>
+                                        {(provided, snapshot) => (
+                                          <div
+                                            ref={provided.innerRef}
+                                            {...provided.draggableProps}
+                                            {...provided.dragHandleProps}
+                                            className={`transition-shadow ${
+                                              snapshot.isDragging ? "shadow-lg" : ""
+                                            }`}
+                                          >
+                                            <DealCard deal={deal} onCardClick={handleCardClick} />
+                                          </div>
+                                        )}
+                                      </Draggable>
+                                    ))
+                                  )}
+                                  {provided.placeholder}
                                 </div>
-                              ) : (
-                                stageDeals.map((deal, index) => (
-                                  <Draggable key={deal.id} draggableId={deal.id} index={index}>
-                                    {(provided, snapshot) => (
-                                      <div
-                                        ref={provided.innerRef}
-                                        {...provided.draggableProps}
-                                        {...provided.dragHandleProps}
-                                        className={`transition-shadow ${
-                                          snapshot.isDragging ? "shadow-lg" : ""
-                                        }`}
-                                      >
-                                        <DealCard deal={deal} onCardClick={handleCardClick} />
-                                      </div>
-                                    )}
-                                  </Draggable>
-                                ))
-                              )}
-                              {provided.placeholder}
+                              </ScrollArea>
                             </div>
-                          </ScrollArea>
-                        </div>
-                      )}
-                    </Droppable>
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
-        </div>
-      </DragDropContext>
-
-      {/* AI Insights Card */}
-      <Card className="border-primary/20 bg-gradient-to-br from-primary/5 to-transparent">
-        <CardHeader className="pb-2 pt-3 px-3">
-          <div className="flex items-center gap-1.5">
-            <Sparkles className="h-4 w-4 text-primary" />
-            <CardTitle className="text-sm">AI Insights</CardTitle>
-          </div>
-        </CardHeader>
-        <CardContent className="space-y-2 px-3 pb-3">
-          <div className="flex items-start gap-2 p-2 bg-card rounded-lg border">
-            <div className="w-1.5 h-1.5 rounded-full bg-green-500 mt-1" />
-            <div className="flex-1">
-              <p className="text-xs font-medium">High Priority Follow-up</p>
-              <p className="text-[10px] text-muted-foreground mt-0.5">
-                3 deals dengan lead score tinggi belum ada activity dalam 2 hari terakhir.
-              </p>
-            </div>
-          </div>
-          <div className="flex items-start gap-2 p-2 bg-card rounded-lg border">
-            <div className="w-1.5 h-1.5 rounded-full bg-yellow-500 mt-1" />
-            <div className="flex-1">
-              <p className="text-xs font-medium">Bottleneck Alert</p>
-              <p className="text-[10px] text-muted-foreground mt-0.5">
-                Stage "Proposal" memiliki conversion rate rendah (45%).
-              </p>
-            </div>
-          </div>
-          <div className="flex items-start gap-2 p-2 bg-card rounded-lg border">
-            <div className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-1" />
-            <div className="flex-1">
-              <p className="text-xs font-medium">Revenue Forecast</p>
-              <p className="text-[10px] text-muted-foreground mt-0.5">
-                Estimated revenue: <span className="font-semibold text-foreground">{formatCurrency(weightedValue)}</span>
-              </p>
+                          )}
+                        </Droppable>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </DragDropContext>
+
+          {/* AI Insights Card */}
+          <Card className="border-primary/20 bg-gradient-to-br from-primary/5 to-transparent">
+            <CardHeader className="pb-2 pt-3 px-3">
+              <div className="flex items-center gap-1.5">
+                <Sparkles className="h-4 w-4 text-primary" />
+                <CardTitle className="text-sm">AI Insights</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2 px-3 pb-3">
+              <div className="flex items-start gap-2 p-2 bg-card rounded-lg border">
+                <div className="w-1.5 h-1.5 rounded-full bg-green-500 mt-1" />
+                <div className="flex-1">
+                  <p className="text-xs font-medium">High Priority Follow-up</p>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">
+                    3 deals dengan lead score tinggi belum ada activity dalam 2 hari terakhir.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2 p-2 bg-card rounded-lg border">
+                <div className="w-1.5 h-1.5 rounded-full bg-yellow-500 mt-1" />
+                <div className="flex-1">
+                  <p className="text-xs font-medium">Bottleneck Alert</p>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">
+                    Stage "Proposal" memiliki conversion rate rendah (45%).
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2 p-2 bg-card rounded-lg border">
+                <div className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-1" />
+                <div className="flex-1">
+                  <p className="text-xs font-medium">Revenue Forecast</p>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">
+                    Estimated revenue: <span className="font-semibold text-foreground">{formatCurrency(weightedValue)}</span>
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+        </>
+      )}
 
       {/* Deal Detail Modal */}
-      <DealDetailModal deal={selectedDeal} open={modalOpen} onClose={handleCloseModal} />
+      <DealDetailModal
+        deal={selectedDeal}
+        open={modalOpen}
+        onClose={handleCloseModal}
+        stages={stages}
+        onUpdate={handleUpdateDeal}
+        onDelete={handleDeleteDeal}
+      />
+
+      {/* Create Deal Dialog */}
+      <DealFormDialog
+        open={createDialogOpen}
+        onClose={() => setCreateDialogOpen(false)}
+        stages={stages}
+        pipelineId={selectedPipeline?.id || null}
+        onSubmit={handleCreateDeal}
+      />
     </div>
   );
 };
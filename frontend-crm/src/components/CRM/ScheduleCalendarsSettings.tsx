@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CalendarDays, Loader2 } from "lucide-react";
+import * as crmCalendarsService from "@/services/crmCalendarsService";
+import type { HolidayCalendar } from "@/services/crmCalendarsService";
+
+interface ScheduleCalendarsSettingsProps {
+  value: string[];
+  onChange: (calendarIds: string[]) => void;
+}
+
+/**
+ * Holiday calendars an agent schedule subscribes to
+ */
+export const ScheduleCalendarsSettings = ({
+  value,
+  onChange,
+}: ScheduleCalendarsSettingsProps) => {
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    crmCalendarsService
+      .getCalendars()
+      .then(setCalendars)
+      .catch((error) => console.error("Failed to fetch calendars:", error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const toggle = (calendarId: string) =>
+    onChange(
+      value.includes(calendarId)
+        ? value.filter((id) => id !== calendarId)
+        : [...value, calendarId],
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          Kalender Libur
+        </CardTitle>
+        <CardDescription>
+          Tanggal di kalender yang dipilih menggantikan jam kerja mingguan,
+          termasuk auto-reply khususnya
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Belum ada kalender. Admin dapat menambahkannya di Pengaturan
+            Organisasi → Kalender Libur.
+          </p>
+        ) : (
+          calendars.map((calendar) => (
+            <label
+              key={calendar.id}
+              className="flex items-center gap-3 text-sm cursor-pointer"
+            >
+              <Checkbox
+                checked={value.includes(calendar.id)}
+                onCheckedChange={() => toggle(calendar.id)}
+              />
+              <span className="flex-1 min-w-0 truncate">{calendar.name}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {calendar.entry_count} tanggal
+              </span>
+            </label>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
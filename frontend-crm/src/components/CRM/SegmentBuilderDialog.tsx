@@ -0,0 +1,438 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Filter, Loader2, Plus, Trash2, Users } from "lucide-react";
+import type { CustomerCustomField } from "@/services/crmChatsService";
+import type {
+  Segment,
+  SegmentInput,
+  SegmentMatch,
+  SegmentOperator,
+  SegmentRule,
+} from "@/services/crmSegmentsService";
+import * as crmSegmentsService from "@/services/crmSegmentsService";
+import * as crmPipelinesService from "@/services/crmPipelinesService";
+import type { PipelineStage } from "@/services/crmPipelinesService";
+import {
+  SEGMENT_CHANNELS,
+  SEGMENT_OPERATOR_LABELS,
+  createEmptyRule,
+  getSegmentFieldOptions,
+  getSegmentValueInput,
+  validateSegmentRule,
+} from "@/lib/customerSegments";
+
+interface SegmentBuilderDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (segment: SegmentInput) => Promise<void> | void;
+  customFields: CustomerCustomField[];
+  segment?: Segment | null; // When provided the dialog works in edit mode
+}
+
+export const SegmentBuilderDialog = ({
+  open,
+  onClose,
+  onSubmit,
+  customFields,
+  segment,
+}: SegmentBuilderDialogProps) => {
+  const isEdit = Boolean(segment);
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(true);
+  const [match, setMatch] = useState<SegmentMatch>("all");
+  const [rules, setRules] = useState<SegmentRule[]>([createEmptyRule()]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [liveCount, setLiveCount] = useState<number | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+
+  const fieldOptions = useMemo(
+    () => getSegmentFieldOptions(customFields),
+    [customFields],
+  );
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(segment?.name || "");
+    setIsShared(segment?.is_shared ?? true);
+    setMatch(segment?.match || "all");
+    setRules(segment?.rules?.length ? segment.rules : [createEmptyRule()]);
+    setErrors({});
+    setLiveCount(null);
+  }, [open, segment]);
+
+  // Deal stages of every pipeline, de-duplicated by id
+  useEffect(() => {
+    if (!open) return;
+    crmPipelinesService
+      .getPipelines()
+      .then((pipelines) => {
+        const byId = new Map<string, PipelineStage>();
+        const allStages = pipelines.length
+          ? pipelines.flatMap((p) => p.stages)
+          : crmPipelinesService.DEFAULT_PIPELINE_STAGES;
+        allStages.forEach((stage) => {
+          if (!byId.has(stage.id)) byId.set(stage.id, stage);
+        });
+        setStages(Array.from(byId.values()));
+      })
+      .catch((error) => {
+        console.error("Failed to fetch pipelines:", error);
+        setStages(crmPipelinesService.DEFAULT_PIPELINE_STAGES);
+      });
+  }, [open]);
+
+  const rulesValid = rules.every(
+    (rule) =>
+      !validateSegmentRule(
+        rule,
+        fieldOptions.find((o) => o.field === rule.field),
+      ),
+  );
+
+  // Live count of matching customers, debounced while the rules are edited
+  useEffect(() => {
+    if (!open || !rulesValid) {
+      setIsCounting(false);
+      return;
+    }
+    setIsCounting(true);
+    const timer = setTimeout(() => {
+      crmSegmentsService
+        .previewSegmentCount({ match, rules })
+        .then(setLiveCount)
+        .catch((error) => {
+          console.error("Failed to preview segment:", error);
+          setLiveCount(null);
+        })
+        .finally(() => setIsCounting(false));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [open, match, rules, rulesValid]);
+
+  const updateRule = (index: number, patch: Partial<SegmentRule>) => {
+    setRules((prev) =>
+      prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    );
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors[`rule.${index}`];
+      return newErrors;
+    });
+  };
+
+  // Switching field resets operator and value to something the field supports
+  const handleFieldChange = (index: number, field: string) => {
+    const option = fieldOptions.find((o) => o.field === field);
+    if (!option) return;
+    const operator = option.operators[0];
+    const input = getSegmentValueInput(option, operator);
+    let value: SegmentRule["value"] = input === "none" ? null : "";
+    if (input === "channel") value = SEGMENT_CHANNELS[0].value;
+    if (input === "stage") value = stages[0]?.id || "";
+    if (input === "text" && option.customField?.type === "select")
+      value = option.customField.options[0] || "";
+    updateRule(index, { field: option.field, operator, value });
+  };
+
+  const handleOperatorChange = (index: number, operator: SegmentOperator) => {
+    const rule = rules[index];
+    const option = fieldOptions.find((o) => o.field === rule.field);
+    const previousInput = getSegmentValueInput(option, rule.operator);
+    const nextInput = getSegmentValueInput(option, operator);
+    updateRule(index, {
+      operator,
+      value:
+        nextInput === "none"
+          ? null
+          : previousInput === nextInput
+            ? rule.value
+            : "",
+    });
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (!name.trim()) newErrors.name = "Nama segment harus diisi";
+    if (rules.length === 0) newErrors.rules = "Tambahkan minimal satu aturan";
+    rules.forEach((rule, index) => {
+      const error = validateSegmentRule(
+        rule,
+        fieldOptions.find((o) => o.field === rule.field),
+      );
+      if (error) newErrors[`rule.${index}`] = error;
+    });
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        is_shared: isShared,
+        match,
+        // Numeric inputs are stored as numbers
+        rules: rules.map((rule) => {
+          const option = fieldOptions.find((o) => o.field === rule.field);
+          return getSegmentValueInput(option, rule.operator) === "number"
+            ? { ...rule, value: Number(rule.value) }
+            : rule;
+        }),
+      });
+      onClose();
+    } catch (error) {
+      // Parent is responsible for surfacing the error toast
+      console.error("Failed to save segment:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderValueInput = (rule: SegmentRule, index: number) => {
+    const option = fieldOptions.find((o) => o.field === rule.field);
+    const input = getSegmentValueInput(option, rule.operator);
+    const errorClass = errors[`rule.${index}`] ? "border-red-500" : "";
+
+    if (input === "none") return <div className="flex-1" />;
+
+    const selectOptions =
+      input === "channel"
+        ? SEGMENT_CHANNELS
+        : input === "stage"
+          ? stages.map((s) => ({ value: s.id, label: s.name }))
+          : option?.customField?.type === "select"
+            ? option.customField.options.map((o) => ({ value: o, label: o }))
+            : null;
+
+    if (selectOptions) {
+      return (
+        <Select
+          value={rule.value ? String(rule.value) : undefined}
+          onValueChange={(value) => updateRule(index, { value })}
+        >
+          <SelectTrigger className={`flex-1 h-8 text-xs ${errorClass}`}>
+            <SelectValue placeholder="Pilih..." />
+          </SelectTrigger>
+          <SelectContent>
+            {selectOptions.map((o) => (
+              <SelectItem key={o.value} value={o.value} className="text-xs">
+                {o.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type={input}
+        min={input === "number" ? 0 : undefined}
+        placeholder={input === "number" ? "0" : "Nilai..."}
+        value={rule.value ?? ""}
+        onChange={(e) => updateRule(index, { value: e.target.value })}
+        className={`flex-1 h-8 text-xs ${errorClass}`}
+      />
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Filter className="w-5 h-5" />
+            {isEdit ? "Edit Segment" : "Segment Baru"}
+          </DialogTitle>
+          <DialogDescription>
+            Kelompokkan customer berdasarkan aturan. Anggota segment diperbarui
+            otomatis.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="segment-name">
+              Nama <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="segment-name"
+              placeholder="e.g. Pelanggan WhatsApp tidak aktif 30 hari"
+              value={name}
+              maxLength={100}
+              onChange={(e) => {
+                setName(e.target.value);
+                setErrors((prev) => ({ ...prev, name: "" }));
+              }}
+              className={
+                errors.name ? "border-red-500 focus-visible:ring-red-500" : ""
+              }
+            />
+            {errors.name && (
+              <p className="text-xs text-red-500 font-medium">{errors.name}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span>Customer yang cocok dengan</span>
+              <Select
+                value={match}
+                onValueChange={(v) => setMatch(v as SegmentMatch)}
+              >
+                <SelectTrigger className="w-24 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all" className="text-xs">
+                    semua
+                  </SelectItem>
+                  <SelectItem value="any" className="text-xs">
+                    salah satu
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <span>aturan berikut</span>
+            </div>
+
+            {rules.map((rule, index) => {
+              const option = fieldOptions.find((o) => o.field === rule.field);
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={rule.field}
+                      onValueChange={(field) => handleFieldChange(index, field)}
+                    >
+                      <SelectTrigger className="w-40 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fieldOptions.map((o) => (
+                          <SelectItem
+                            key={o.field}
+                            value={o.field}
+                            className="text-xs"
+                          >
+                            {o.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={rule.operator}
+                      onValueChange={(operator) =>
+                        handleOperatorChange(index, operator as SegmentOperator)
+                      }
+                    >
+                      <SelectTrigger className="w-44 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(option?.operators || []).map((operator) => (
+                          <SelectItem
+                            key={operator}
+                            value={operator}
+                            className="text-xs"
+                          >
+                            {SEGMENT_OPERATOR_LABELS[operator]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {renderValueInput(rule, index)}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0"
+                      disabled={rules.length === 1}
+                      onClick={() =>
+                        setRules((prev) => prev.filter((_, i) => i !== index))
+                      }
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                  {errors[`rule.${index}`] && (
+                    <p className="text-xs text-red-500 font-medium">
+                      {errors[`rule.${index}`]}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => setRules((prev) => [...prev, createEmptyRule()])}
+            >
+              <Plus className="w-3.5 h-3.5 mr-1.5" />
+              Tambah Aturan
+            </Button>
+            {errors.rules && (
+              <p className="text-xs text-red-500 font-medium">{errors.rules}</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="segment-shared"
+                checked={isShared}
+                onCheckedChange={setIsShared}
+              />
+              <Label htmlFor="segment-shared">
+                Bagikan ke seluruh organisasi
+              </Label>
+            </div>
+            <div className="flex items-center gap-1.5 text-sm font-medium">
+              {isCounting ? (
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              ) : (
+                <Users className="w-4 h-4 text-muted-foreground" />
+              )}
+              {rulesValid && liveCount !== null ? liveCount : "-"} customer
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isEdit ? "Simpan" : "Buat Segment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Radio, Users } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import * as crmSentimentService from "@/services/crmSentimentService";
+import type {
+  SentimentGroupStats,
+  SentimentReport,
+} from "@/services/crmSentimentService";
+import { SURVEY_CHANNELS } from "@/services/crmSurveysService";
+import type { CommunicationChannel } from "@/services/crmChatsService";
+import { SENTIMENT_STYLES, formatSentimentScore } from "@/lib/sentiment";
+
+const PERIOD_OPTIONS = [
+  { value: "7", label: "7 hari terakhir" },
+  { value: "30", label: "30 hari terakhir" },
+  { value: "90", label: "90 hari terakhir" },
+];
+
+const trendChartConfig = {
+  avg_score: { label: "Rata-rata sentimen", color: "#906BFF" },
+} satisfies ChartConfig;
+
+const getScoreClassName = (score: number | null) => {
+  if (score === null || score === undefined) return "";
+  if (score <= -0.3) return "text-red-600";
+  if (score >= 0.3) return "text-green-600";
+  return "";
+};
+
+interface GroupStatsTableProps {
+  title: string;
+  icon: typeof Users;
+  rows: SentimentGroupStats[];
+}
+
+const GroupStatsTable = ({ title, icon: Icon, rows }: GroupStatsTableProps) => (
+  <Card>
+    <CardHeader className="pb-2 pt-3 px-3">
+      <CardTitle className="text-xs font-semibold flex items-center gap-1.5">
+        <Icon className="h-3.5 w-3.5" />
+        {title}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="px-3 pb-3">
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-6">
+          Belum ada data
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Nama</TableHead>
+              <TableHead className="text-xs text-right">Chat</TableHead>
+              <TableHead className="text-xs text-right">Pesan</TableHead>
+              <TableHead className="text-xs text-right">Rata-rata</TableHead>
+              <TableHead className="text-xs text-right">Chat Negatif</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="text-xs font-medium capitalize">
+                  {row.name}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.chats}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.messages}
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    "text-xs text-right",
+                    getScoreClassName(row.avg_score),
+                  )}
+                >
+                  {formatSentimentScore(row.avg_score)}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.negative_chats}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Customer sentiment over time, per channel and per agent
+ */
+export const SentimentAnalytics = () => {
+  const [period, setPeriod] = useState("30");
+  const [channel, setChannel] = useState<CommunicationChannel | "all">("all");
+  const [report, setReport] = useState<SentimentReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setIsLoading(true);
+      const dateFrom = new Date();
+      dateFrom.setDate(dateFrom.getDate() - Number(period));
+
+      try {
+        setReport(
+          await crmSentimentService.getSentimentReport({
+            date_from: dateFrom.toISOString().slice(0, 10),
+            channel: channel === "all" ? undefined : channel,
+          }),
+        );
+      } catch (error) {
+        console.error("Failed to fetch sentiment report:", error);
+        toast.error("Gagal memuat laporan sentimen");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [period, channel]);
+
+  const summary = report?.summary;
+  const breakdown = summary?.breakdown;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        <Select
+          value={channel}
+          onValueChange={(v) => setChannel(v as CommunicationChannel | "all")}
+        >
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Semua channel</SelectItem>
+            {SURVEY_CHANNELS.map((c) => (
+              <SelectItem key={c.value} value={c.value}>
+                {c.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && !report ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-3 sm:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Rata-rata Sentimen
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div
+                  className={cn(
+                    "text-xl font-bold",
+                    getScoreClassName(summary?.avg_score ?? null),
+                  )}
+                >
+                  {formatSentimentScore(summary?.avg_score)}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  Skala -1 (negatif) s/d 1 (positif), dari{" "}
+                  {summary?.messages ?? 0} pesan customer
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Sebaran Pesan
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3 space-y-1.5">
+                {(["positive", "neutral", "negative"] as const).map((key) => {
+                  const count = breakdown?.[key] ?? 0;
+                  const percent = summary?.messages
+                    ? Math.round((count / summary.messages) * 100)
+                    : 0;
+                  return (
+                    <div
+                      key={key}
+                      className="flex items-center gap-2 text-[11px]"
+                    >
+                      <span className="w-12 text-muted-foreground">
+                        {SENTIMENT_STYLES[key].label}
+                      </span>
+                      <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{
+                            width: `${percent}%`,
+                            backgroundColor: SENTIMENT_STYLES[key].color,
+                          }}
+                        />
+                      </div>
+                      <span className="w-8 text-right">{percent}%</span>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Chat Negatif
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold">
+                  {summary?.negative_chats ?? 0}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  Dari {summary?.chats ?? 0} chat, sentimen terakhir customer
+                  negatif
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Trend */}
+          <Card>
+            <CardHeader className="pb-2 pt-3 px-3">
+              <CardTitle className="text-xs font-semibold">
+                Tren Sentimen
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pb-3">
+              {!report?.trend?.length ? (
+                <p className="text-xs text-muted-foreground text-center py-8">
+                  Belum ada data
+                </p>
+              ) : (
+                <ChartContainer
+                  config={trendChartConfig}
+                  className="h-64 w-full"
+                >
+                  <LineChart data={report.trend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) =>
+                        new Date(value).toLocaleDateString("id-ID", {
+                          day: "numeric",
+                          month: "short",
+                        })
+                      }
+                    />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      domain={[-1, 1]}
+                      width={40}
+                    />
+                    <ReferenceLine
+                      y={0}
+                      stroke="#cbd5e1"
+                      strokeDasharray="4 4"
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line
+                      dataKey="avg_score"
+                      stroke="var(--color-avg_score)"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Breakdowns */}
+          <div className="grid gap-3 lg:grid-cols-2">
+            <GroupStatsTable
+              title="Per Channel"
+              icon={Radio}
+              rows={report?.by_channel || []}
+            />
+            <GroupStatsTable
+              title="Per Agent"
+              icon={Users}
+              rows={report?.by_agent || []}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { Line, LineChart, ReferenceLine, YAxis } from "recharts";
+import { cn } from "@/lib/utils";
+import {
+  SENTIMENT_STYLES,
+  formatSentimentScore,
+  getMessageSentiment,
+} from "@/lib/sentiment";
+import type { MessageSentiment } from "@/services/crmChatsService";
+
+const MAX_POINTS = 20;
+
+interface SentimentSparklineProps {
+  messages: {
+    id: string;
+    sender: string;
+    metadata?: Record<string, unknown>;
+  }[];
+  className?: string;
+}
+
+/**
+ * Sentiment of the customer's recent messages, oldest to newest
+ */
+export const SentimentSparkline = ({
+  messages,
+  className,
+}: SentimentSparklineProps) => {
+  const scored = messages
+    .filter((message) => message.sender === "customer")
+    .map((message) => getMessageSentiment(message.metadata))
+    .filter((sentiment): sentiment is MessageSentiment => sentiment !== null)
+    .slice(-MAX_POINTS);
+
+  if (scored.length === 0) return null;
+
+  const latest = scored[scored.length - 1];
+  const style = SENTIMENT_STYLES[latest.label] || SENTIMENT_STYLES.neutral;
+  const points = scored.map((sentiment, index) => ({
+    index,
+    score: sentiment.score,
+  }));
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1.5 rounded-md border px-2 py-0.5",
+        className,
+      )}
+      title={`Sentimen customer: ${style.label} (${formatSentimentScore(
+        latest.score,
+      )}) dari ${points.length} pesan terakhir`}
+    >
+      {points.length > 1 && (
+        <LineChart width={64} height={20} data={points}>
+          <YAxis hide domain={[-1, 1]} />
+          <ReferenceLine y={0} stroke="#cbd5e1" strokeDasharray="2 2" />
+          <Line
+            type="monotone"
+            dataKey="score"
+            stroke={style.color}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      )}
+      <span
+        className="w-2 h-2 rounded-full"
+        style={{ backgroundColor: style.color }}
+      />
+      <span className="text-[10px] text-muted-foreground">{style.label}</span>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2, Timer } from "lucide-react";
+import type { TicketSla } from "@/services/crmChatsService";
+import {
+  SLA_STATE_STYLES,
+  SLA_TIMER_LABELS,
+  formatSlaDuration,
+  getPrimarySlaTimer,
+  getTicketSlaTimers,
+  type SlaTimer,
+  type SlaTimerKind,
+} from "@/lib/sla";
+
+// Countdowns show minutes, so a 30s tick is precise enough
+const TICK_MS = 30000;
+
+const useNow = (enabled: boolean) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  return now;
+};
+
+const isTicking = (sla: TicketSla) =>
+  (Boolean(sla.first_response_due_at) && !sla.first_responded_at) ||
+  (Boolean(sla.resolution_due_at) && !sla.resolved_at);
+
+const describeTimer = (timer: SlaTimer) => {
+  const duration = formatSlaDuration(timer.remainingMs);
+  switch (timer.state) {
+    case "breached":
+      return `lewat ${duration}`;
+    case "missed":
+      return `terlambat ${duration}`;
+    case "met":
+      return "tercapai";
+    default:
+      return `sisa ${duration}`;
+  }
+};
+
+const TimerIcon = ({ timer }: { timer: SlaTimer }) => {
+  if (timer.state === "breached" || timer.state === "missed") {
+    return <AlertTriangle className="w-2.5 h-2.5" />;
+  }
+  if (timer.state === "met") return <CheckCircle2 className="w-2.5 h-2.5" />;
+  return <Timer className="w-2.5 h-2.5" />;
+};
+
+interface SlaBadgeProps {
+  sla?: TicketSla | null;
+}
+
+/**
+ * Compact SLA badge for ticket cards: the most urgent timer only
+ */
+export const SlaBadge = ({ sla }: SlaBadgeProps) => {
+  const now = useNow(Boolean(sla) && isTicking(sla));
+  if (!sla) return null;
+
+  const primary = getPrimarySlaTimer(getTicketSlaTimers(sla, now));
+  if (!primary) return null;
+
+  const { kind, timer } = primary;
+  return (
+    <Badge
+      variant="outline"
+      className={`text-[9px] h-4 px-1.5 gap-1 ${SLA_STATE_STYLES[timer.state].className}`}
+      title={`${sla.policy_name} · ${SLA_TIMER_LABELS[kind]}`}
+    >
+      <TimerIcon timer={timer} />
+      {kind === "first_response" ? "FRT" : "SLA"} {describeTimer(timer)}
+    </Badge>
+  );
+};
+
+/**
+ * Both SLA timers with due dates, for the ticket detail view
+ */
+export const SlaTimers = ({ sla }: SlaBadgeProps) => {
+  const now = useNow(Boolean(sla) && isTicking(sla));
+  if (!sla) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Tidak ada SLA policy yang berlaku untuk tiket ini
+      </p>
+    );
+  }
+
+  const timers = getTicketSlaTimers(sla, now);
+  const dueDates: Record<SlaTimerKind, string | null> = {
+    first_response: sla.first_response_due_at,
+    resolution: sla.resolution_due_at,
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">{sla.policy_name}</p>
+      <div className="grid grid-cols-2 gap-3">
+        {(Object.keys(timers) as SlaTimerKind[]).map((kind) => {
+          const timer = timers[kind];
+          return (
+            <div key={kind} className="rounded-md border p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium">
+                  {SLA_TIMER_LABELS[kind]}
+                </span>
+                {timer && (
+                  <Badge
+                    variant="outline"
+                    className={`text-[10px] ${SLA_STATE_STYLES[timer.state].className}`}
+                  >
+                    {SLA_STATE_STYLES[timer.state].label}
+                  </Badge>
+                )}
+              </div>
+              {timer ? (
+                <>
+                  <p className="text-lg font-semibold">
+                    {describeTimer(timer)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    Target: {new Date(dueDates[kind]).toLocaleString()}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Tanpa target</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,763 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Clock, Edit, Loader2, Plus, Timer, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import * as crmSlaService from "@/services/crmSlaService";
+import type {
+  BusinessHours,
+  SlaPolicy,
+  SlaPolicyInput,
+  Weekday,
+} from "@/services/crmSlaService";
+import type { TicketPriority } from "@/services/crmChatsService";
+import { addBusinessMinutes, formatSlaTarget } from "@/lib/sla";
+
+interface SlaPolicySettingsProps {
+  canEdit: boolean;
+}
+
+type DurationUnit = "minutes" | "hours" | "days";
+
+const UNIT_MINUTES: Record<DurationUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 1440,
+};
+
+const PRIORITY_OPTIONS: { value: TicketPriority; label: string }[] = [
+  { value: "urgent", label: "Urgent" },
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+const TIMEZONES = [
+  "Asia/Jakarta",
+  "Asia/Makassar",
+  "Asia/Jayapura",
+  "Asia/Singapore",
+  "UTC",
+];
+
+const ANY = "__any__";
+
+interface PolicyDraft {
+  name: string;
+  priority: TicketPriority | null;
+  category: string;
+  firstResponseValue: string;
+  firstResponseUnit: DurationUnit;
+  resolutionValue: string;
+  resolutionUnit: DurationUnit;
+  businessHoursOnly: boolean;
+  isActive: boolean;
+}
+
+// Largest unit that divides the minutes evenly
+const splitDuration = (
+  minutes: number,
+): { value: string; unit: DurationUnit } => {
+  const unit: DurationUnit =
+    minutes % 1440 === 0 ? "days" : minutes % 60 === 0 ? "hours" : "minutes";
+  return { value: String(minutes / UNIT_MINUTES[unit]), unit };
+};
+
+const toDraft = (policy: SlaPolicy | null): PolicyDraft => {
+  const firstResponse = splitDuration(policy?.first_response_minutes ?? 60);
+  const resolution = splitDuration(policy?.resolution_minutes ?? 1440);
+  return {
+    name: policy?.name || "",
+    priority: policy?.priority || null,
+    category: policy?.category || "",
+    firstResponseValue: firstResponse.value,
+    firstResponseUnit: firstResponse.unit,
+    resolutionValue: resolution.value,
+    resolutionUnit: resolution.unit,
+    businessHoursOnly: policy?.business_hours_only ?? true,
+    isActive: policy?.is_active ?? true,
+  };
+};
+
+const toMinutes = (value: string, unit: DurationUnit) =>
+  Math.round(Number(value) * UNIT_MINUTES[unit]);
+
+export const SlaPolicySettings = ({ canEdit }: SlaPolicySettingsProps) => {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [businessHours, setBusinessHours] = useState<BusinessHours>(
+    crmSlaService.DEFAULT_BUSINESS_HOURS,
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSavingHours, setIsSavingHours] = useState(false);
+
+  // Policy editor. `editingPolicy` is null when creating.
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+  const [draft, setDraft] = useState<PolicyDraft>(toDraft(null));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [policyToDelete, setPolicyToDelete] = useState<SlaPolicy | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setIsLoading(true);
+      try {
+        const [policyList, hours] = await Promise.all([
+          crmSlaService.getSlaPolicies(),
+          crmSlaService.getBusinessHours(),
+        ]);
+        setPolicies(policyList);
+        setBusinessHours(hours);
+      } catch (error) {
+        console.error("Failed to fetch SLA settings:", error);
+        toast.error("Gagal memuat pengaturan SLA");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  // ============= Business hours =============
+
+  const updateDay = (
+    day: Weekday,
+    updates: Partial<BusinessHours["days"][Weekday]>,
+  ) => {
+    setBusinessHours((prev) => ({
+      ...prev,
+      days: { ...prev.days, [day]: { ...prev.days[day], ...updates } },
+    }));
+  };
+
+  const handleSaveBusinessHours = async () => {
+    const invalidDay = crmSlaService.WEEKDAYS.find(
+      ({ value }) =>
+        businessHours.days[value].enabled &&
+        businessHours.days[value].start >= businessHours.days[value].end,
+    );
+    if (invalidDay) {
+      toast.error(`Jam tutup ${invalidDay.label} harus setelah jam buka`);
+      return;
+    }
+
+    setIsSavingHours(true);
+    try {
+      setBusinessHours(await crmSlaService.updateBusinessHours(businessHours));
+      toast.success("Jam kerja berhasil disimpan");
+    } catch (error) {
+      console.error("Failed to save business hours:", error);
+      toast.error(error.message || "Gagal menyimpan jam kerja");
+    } finally {
+      setIsSavingHours(false);
+    }
+  };
+
+  // ============= Policies =============
+
+  const openEditor = (policy: SlaPolicy | null) => {
+    setEditingPolicy(policy);
+    setDraft(toDraft(policy));
+    setErrors({});
+    setEditorOpen(true);
+  };
+
+  const firstResponseMinutes = toMinutes(
+    draft.firstResponseValue,
+    draft.firstResponseUnit,
+  );
+  const resolutionMinutes = toMinutes(
+    draft.resolutionValue,
+    draft.resolutionUnit,
+  );
+
+  // Due dates for a ticket created right now, to make business hours tangible
+  const preview = useMemo(() => {
+    if (!editorOpen || !(firstResponseMinutes > 0) || !(resolutionMinutes > 0))
+      return null;
+    const now = new Date();
+    const addMinutes = (minutes: number) =>
+      draft.businessHoursOnly
+        ? addBusinessMinutes(now, minutes, businessHours)
+        : new Date(now.getTime() + minutes * 60000);
+    return {
+      firstResponse: addMinutes(firstResponseMinutes),
+      resolution: addMinutes(resolutionMinutes),
+    };
+  }, [
+    editorOpen,
+    firstResponseMinutes,
+    resolutionMinutes,
+    draft.businessHoursOnly,
+    businessHours,
+  ]);
+
+  const validate = () => {
+    const next: Record<string, string> = {};
+    if (!draft.name.trim()) next.name = "Nama policy harus diisi";
+    if (!(firstResponseMinutes > 0))
+      next.firstResponse = "Target respon pertama harus lebih dari 0";
+    if (!(resolutionMinutes > 0))
+      next.resolution = "Target penyelesaian harus lebih dari 0";
+    else if (firstResponseMinutes > resolutionMinutes)
+      next.resolution =
+        "Target penyelesaian tidak boleh lebih cepat dari respon pertama";
+
+    const duplicate = policies.find(
+      (p) =>
+        p.id !== editingPolicy?.id &&
+        (p.priority || null) === draft.priority &&
+        (p.category || "").toLowerCase() ===
+          draft.category.trim().toLowerCase(),
+    );
+    if (duplicate)
+      next.priority = `Kombinasi prioritas & kategori sudah dipakai "${duplicate.name}"`;
+
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSavePolicy = async () => {
+    if (!validate()) return;
+
+    const payload: SlaPolicyInput = {
+      name: draft.name.trim(),
+      priority: draft.priority,
+      category: draft.category.trim() || null,
+      first_response_minutes: firstResponseMinutes,
+      resolution_minutes: resolutionMinutes,
+      business_hours_only: draft.businessHoursOnly,
+      is_active: draft.isActive,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingPolicy) {
+        const updated = await crmSlaService.updateSlaPolicy(
+          editingPolicy.id,
+          payload,
+        );
+        setPolicies((prev) =>
+          prev.map((p) => (p.id === updated.id ? updated : p)),
+        );
+      } else {
+        const created = await crmSlaService.createSlaPolicy(payload);
+        setPolicies((prev) => [...prev, created]);
+      }
+      toast.success("SLA policy berhasil disimpan");
+      setEditorOpen(false);
+    } catch (error) {
+      console.error("Failed to save SLA policy:", error);
+      toast.error(error.message || "Gagal menyimpan SLA policy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (policy: SlaPolicy) => {
+    try {
+      const updated = await crmSlaService.updateSlaPolicy(policy.id, {
+        is_active: !policy.is_active,
+      });
+      setPolicies((prev) =>
+        prev.map((p) => (p.id === updated.id ? updated : p)),
+      );
+    } catch (error) {
+      console.error("Failed to toggle SLA policy:", error);
+      toast.error("Gagal mengubah status policy");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!policyToDelete) return;
+    const policy = policyToDelete;
+    setPolicyToDelete(null);
+
+    try {
+      await crmSlaService.deleteSlaPolicy(policy.id);
+      setPolicies((prev) => prev.filter((p) => p.id !== policy.id));
+      toast.success("SLA policy berhasil dihapus");
+    } catch (error) {
+      console.error("Failed to delete SLA policy:", error);
+      toast.error(error.message || "Gagal menghapus SLA policy");
+    }
+  };
+
+  const renderDurationInput = (
+    id: string,
+    value: string,
+    unit: DurationUnit,
+    onChange: (value: string, unit: DurationUnit) => void,
+    error?: string,
+  ) => (
+    <>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="number"
+          min={1}
+          value={value}
+          onChange={(e) => onChange(e.target.value, unit)}
+          className={error ? "border-red-500" : ""}
+        />
+        <Select
+          value={unit}
+          onValueChange={(v) => onChange(value, v as DurationUnit)}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="minutes">Menit</SelectItem>
+            <SelectItem value="hours">Jam</SelectItem>
+            <SelectItem value="days">Hari</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+    </>
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Business Hours */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Jam Kerja
+          </CardTitle>
+          <CardDescription>
+            Timer SLA dengan opsi "hanya jam kerja" berhenti di luar jam ini.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label className="w-24">Zona waktu</Label>
+            <Select
+              value={businessHours.timezone}
+              onValueChange={(timezone) =>
+                setBusinessHours((prev) => ({ ...prev, timezone }))
+              }
+              disabled={!canEdit}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMEZONES.map((tz) => (
+                  <SelectItem key={tz} value={tz}>
+                    {tz}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            {crmSlaService.WEEKDAYS.map(({ value, label }) => {
+              const day = businessHours.days[value];
+              return (
+                <div key={value} className="flex items-center gap-3">
+                  <Switch
+                    checked={day.enabled}
+                    onCheckedChange={(enabled) => updateDay(value, { enabled })}
+                    disabled={!canEdit}
+                  />
+                  <span className="w-20 text-sm">{label}</span>
+                  {day.enabled ? (
+                    <>
+                      <Input
+                        type="time"
+                        value={day.start}
+                        onChange={(e) =>
+                          updateDay(value, { start: e.target.value })
+                        }
+                        className="w-28 h-8"
+                        disabled={!canEdit}
+                      />
+                      <span className="text-sm text-muted-foreground">-</span>
+                      <Input
+                        type="time"
+                        value={day.end}
+                        onChange={(e) =>
+                          updateDay(value, { end: e.target.value })
+                        }
+                        className="w-28 h-8"
+                        disabled={!canEdit}
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Tutup</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {canEdit && (
+            <Button
+              size="sm"
+              onClick={handleSaveBusinessHours}
+              disabled={isSavingHours}
+            >
+              {isSavingHours && (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              )}
+              Simpan Jam Kerja
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Policies */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Timer className="w-5 h-5" />
+                SLA Policies
+              </CardTitle>
+              <CardDescription>
+                Target respon pertama dan penyelesaian tiket. Policy paling
+                spesifik (prioritas + kategori) yang dipakai.
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button size="sm" onClick={() => openEditor(null)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Tambah Policy
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {policies.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Belum ada SLA policy
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Berlaku untuk</TableHead>
+                  <TableHead>Respon pertama</TableHead>
+                  <TableHead>Penyelesaian</TableHead>
+                  <TableHead>Aktif</TableHead>
+                  {canEdit && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="font-medium">
+                      {policy.name}
+                      {policy.business_hours_only && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 text-[10px] font-normal"
+                        >
+                          Jam kerja
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary" className="text-[10px]">
+                          {policy.priority
+                            ? policy.priority.toUpperCase()
+                            : "Semua prioritas"}
+                        </Badge>
+                        <Badge variant="secondary" className="text-[10px]">
+                          {policy.category || "Semua kategori"}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatSlaTarget(policy.first_response_minutes)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatSlaTarget(policy.resolution_minutes)}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={policy.is_active}
+                        onCheckedChange={() => handleToggleActive(policy)}
+                        disabled={!canEdit}
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <div className="flex">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openEditor(policy)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setPolicyToDelete(policy)}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Policy Editor */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPolicy ? "Edit SLA Policy" : "SLA Policy Baru"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="sla-name">Nama</Label>
+              <Input
+                id="sla-name"
+                placeholder="e.g. Urgent - Pembayaran"
+                value={draft.name}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, name: e.target.value }))
+                }
+                className={errors.name ? "border-red-500" : ""}
+              />
+              {errors.name && (
+                <p className="text-xs text-red-500 font-medium">
+                  {errors.name}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Prioritas</Label>
+                <Select
+                  value={draft.priority || ANY}
+                  onValueChange={(v) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      priority: v === ANY ? null : (v as TicketPriority),
+                    }))
+                  }
+                >
+                  <SelectTrigger
+                    className={errors.priority ? "border-red-500" : ""}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Semua prioritas</SelectItem>
+                    {PRIORITY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-category">Kategori</Label>
+                <Input
+                  id="sla-category"
+                  placeholder="Kosongkan = semua"
+                  value={draft.category}
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, category: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+            {errors.priority && (
+              <p className="text-xs text-red-500 font-medium -mt-2">
+                {errors.priority}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="sla-first-response">Target respon pertama</Label>
+              {renderDurationInput(
+                "sla-first-response",
+                draft.firstResponseValue,
+                draft.firstResponseUnit,
+                (value, unit) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    firstResponseValue: value,
+                    firstResponseUnit: unit,
+                  })),
+                errors.firstResponse,
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sla-resolution">Target penyelesaian</Label>
+              {renderDurationInput(
+                "sla-resolution",
+                draft.resolutionValue,
+                draft.resolutionUnit,
+                (value, unit) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    resolutionValue: value,
+                    resolutionUnit: unit,
+                  })),
+                errors.resolution,
+              )}
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <p className="text-sm font-medium">Hanya jam kerja</p>
+                <p className="text-xs text-muted-foreground">
+                  Timer berhenti di luar jam kerja organisasi
+                </p>
+              </div>
+              <Switch
+                checked={draft.businessHoursOnly}
+                onCheckedChange={(businessHoursOnly) =>
+                  setDraft((prev) => ({ ...prev, businessHoursOnly }))
+                }
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sla-active">Aktif</Label>
+              <Switch
+                id="sla-active"
+                checked={draft.isActive}
+                onCheckedChange={(isActive) =>
+                  setDraft((prev) => ({ ...prev, isActive }))
+                }
+              />
+            </div>
+
+            {preview && (
+              <div className="rounded-md bg-muted/50 p-3 text-xs space-y-1">
+                <p className="font-medium">Tiket yang dibuat sekarang:</p>
+                <p>
+                  Respon pertama paling lambat{" "}
+                  {preview.firstResponse?.toLocaleString() || "-"}
+                </p>
+                <p>
+                  Selesai paling lambat{" "}
+                  {preview.resolution?.toLocaleString() || "-"}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditorOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSavePolicy} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={Boolean(policyToDelete)}
+        onOpenChange={(open) => !open && setPolicyToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Hapus SLA policy "{policyToDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Tiket baru tidak lagi memakai policy ini. Timer tiket yang sedang
+              berjalan tetap memakai target lamanya.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,396 @@
+import { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Bot, Loader2, MessageSquareQuote, Star, Users } from "lucide-react";
+import { toast } from "sonner";
+import * as crmSurveysService from "@/services/crmSurveysService";
+import type {
+  SurveyAgentStats,
+  SurveyAnalytics as SurveyAnalyticsData,
+  SurveyResponse,
+} from "@/services/crmSurveysService";
+import type { CommunicationChannel } from "@/services/crmChatsService";
+
+const PERIOD_OPTIONS = [
+  { value: "7", label: "7 hari terakhir" },
+  { value: "30", label: "30 hari terakhir" },
+  { value: "90", label: "90 hari terakhir" },
+];
+
+const RECENT_RESPONSES_LIMIT = 10;
+
+const trendChartConfig = {
+  csat_percent: { label: "CSAT %", color: "#906BFF" },
+  nps: { label: "NPS", color: "#22c55e" },
+} satisfies ChartConfig;
+
+const formatScore = (value: number | null, suffix = "") =>
+  value === null || value === undefined ? "-" : `${value}${suffix}`;
+
+// Promoters/passives/detractors for NPS, satisfied/neutral/unsatisfied for CSAT
+const getScoreClassName = (response: SurveyResponse) => {
+  const isPositive =
+    response.survey_type === "nps" ? response.score >= 9 : response.score >= 4;
+  const isNegative =
+    response.survey_type === "nps" ? response.score <= 6 : response.score <= 2;
+  if (isPositive) return "bg-green-100 text-green-700 border-green-200";
+  if (isNegative) return "bg-red-100 text-red-700 border-red-200";
+  return "bg-amber-100 text-amber-700 border-amber-200";
+};
+
+interface AgentStatsTableProps {
+  title: string;
+  icon: typeof Users;
+  rows: SurveyAgentStats[];
+}
+
+const AgentStatsTable = ({ title, icon: Icon, rows }: AgentStatsTableProps) => (
+  <Card>
+    <CardHeader className="pb-2 pt-3 px-3">
+      <CardTitle className="text-xs font-semibold flex items-center gap-1.5">
+        <Icon className="h-3.5 w-3.5" />
+        {title}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="px-3 pb-3">
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-6">
+          Belum ada respons
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Nama</TableHead>
+              <TableHead className="text-xs text-right">Respons</TableHead>
+              <TableHead className="text-xs text-right">Rata-rata</TableHead>
+              <TableHead className="text-xs text-right">CSAT</TableHead>
+              <TableHead className="text-xs text-right">NPS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.agent_id}>
+                <TableCell className="text-xs font-medium">
+                  {row.agent_name}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.responses}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {formatScore(row.avg_csat)}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {formatScore(row.csat_percent, "%")}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {formatScore(row.nps)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
+
+/**
+ * CSAT/NPS survey results per channel, human agent and AI persona
+ */
+export const SurveyAnalytics = () => {
+  const [period, setPeriod] = useState("30");
+  const [channel, setChannel] = useState<CommunicationChannel | "all">("all");
+  const [analytics, setAnalytics] = useState<SurveyAnalyticsData | null>(null);
+  const [recentResponses, setRecentResponses] = useState<SurveyResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setIsLoading(true);
+      const dateFrom = new Date();
+      dateFrom.setDate(dateFrom.getDate() - Number(period));
+      const params = {
+        date_from: dateFrom.toISOString().slice(0, 10),
+        channel: channel === "all" ? undefined : channel,
+      };
+
+      try {
+        const [analyticsData, responsesData] = await Promise.all([
+          crmSurveysService.getSurveyAnalytics(params),
+          crmSurveysService.getSurveyResponses({
+            ...params,
+            limit: RECENT_RESPONSES_LIMIT,
+          }),
+        ]);
+        setAnalytics(analyticsData);
+        setRecentResponses(responsesData.responses || []);
+      } catch (error) {
+        console.error("Failed to fetch survey analytics:", error);
+        toast.error("Gagal memuat hasil survei");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+  }, [period, channel]);
+
+  const summary = analytics?.summary;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        <Select
+          value={channel}
+          onValueChange={(v) => setChannel(v as CommunicationChannel | "all")}
+        >
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Semua channel</SelectItem>
+            {crmSurveysService.SURVEY_CHANNELS.map((c) => (
+              <SelectItem key={c.value} value={c.value}>
+                {c.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && !analytics ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Response Rate
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold">
+                  {formatScore(summary?.response_rate ?? null, "%")}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  {summary?.responded ?? 0} dari {summary?.sent ?? 0} survei
+                  dibalas
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">CSAT</CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold">
+                  {formatScore(summary?.csat_percent ?? null, "%")}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  Skor 4-5 dari seluruh respons CSAT
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">
+                  Rata-rata Skor
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold flex items-center gap-1">
+                  {formatScore(summary?.avg_csat ?? null)}
+                  <Star className="h-4 w-4 text-amber-400 fill-amber-400" />
+                </div>
+                <p className="text-[11px] text-muted-foreground">Skala 1-5</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-1.5 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">NPS</CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pb-3">
+                <div className="text-xl font-bold">
+                  {formatScore(summary?.nps ?? null)}
+                </div>
+                <p className="text-[11px] text-muted-foreground">
+                  Promoter dikurangi detractor (-100 s/d 100)
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Trend */}
+          <Card>
+            <CardHeader className="pb-2 pt-3 px-3">
+              <CardTitle className="text-xs font-semibold">
+                Tren Kepuasan
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pb-3">
+              {!analytics?.trend?.length ? (
+                <p className="text-xs text-muted-foreground text-center py-8">
+                  Belum ada data
+                </p>
+              ) : (
+                <ChartContainer
+                  config={trendChartConfig}
+                  className="h-64 w-full"
+                >
+                  <LineChart data={analytics.trend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) =>
+                        new Date(value).toLocaleDateString("id-ID", {
+                          day: "numeric",
+                          month: "short",
+                        })
+                      }
+                    />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      domain={[-100, 100]}
+                      width={40}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line
+                      dataKey="csat_percent"
+                      stroke="var(--color-csat_percent)"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                    <Line
+                      dataKey="nps"
+                      stroke="var(--color-nps)"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Per agent */}
+          <div className="grid gap-3 lg:grid-cols-2">
+            <AgentStatsTable
+              title="Per Agent"
+              icon={Users}
+              rows={analytics?.by_agent || []}
+            />
+            <AgentStatsTable
+              title="Per AI Agent"
+              icon={Bot}
+              rows={analytics?.by_ai_agent || []}
+            />
+          </div>
+
+          {/* Recent responses */}
+          <Card>
+            <CardHeader className="pb-2 pt-3 px-3">
+              <CardTitle className="text-xs font-semibold flex items-center gap-1.5">
+                <MessageSquareQuote className="h-3.5 w-3.5" />
+                Respons Terbaru
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 px-3 pb-3">
+              {recentResponses.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-6">
+                  Belum ada respons
+                </p>
+              ) : (
+                recentResponses.map((response) => (
+                  <div
+                    key={response.id}
+                    className="flex items-start gap-3 p-2 rounded-lg border text-xs"
+                  >
+                    <Badge
+                      variant="outline"
+                      className={`shrink-0 ${getScoreClassName(response)}`}
+                    >
+                      {response.score}/{response.survey_type === "nps" ? 10 : 5}
+                    </Badge>
+                    <div className="min-w-0 flex-1 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">
+                          {response.customer_name}
+                        </span>
+                        <Badge
+                          variant="outline"
+                          className="text-[9px] h-4 px-1 capitalize"
+                        >
+                          {response.channel}
+                        </Badge>
+                        <span className="ml-auto text-[10px] text-muted-foreground shrink-0">
+                          {new Date(response.responded_at).toLocaleString()}
+                        </span>
+                      </div>
+                      {response.comment && (
+                        <p className="text-muted-foreground break-words">
+                          "{response.comment}"
+                        </p>
+                      )}
+                      <p className="text-[10px] text-muted-foreground">
+                        {[response.human_agent_name, response.ai_agent_name]
+                          .filter(Boolean)
+                          .join(" · ") || "Tanpa agent"}
+                      </p>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, SmilePlus } from "lucide-react";
+import { toast } from "sonner";
+import * as crmSurveysService from "@/services/crmSurveysService";
+import type {
+  SurveyConfigInput,
+  SurveyType,
+} from "@/services/crmSurveysService";
+import type { CommunicationChannel } from "@/services/crmChatsService";
+import {
+  CHAT_TEMPLATE_VARIABLES,
+  renderMessageTemplate,
+} from "@/lib/messageTemplate";
+
+interface SurveySettingsProps {
+  canEdit: boolean;
+}
+
+type ConfigDrafts = Partial<Record<CommunicationChannel, SurveyConfigInput>>;
+
+// Surveys are sent after the chat is closed, so there is no ticket context
+const SURVEY_VARIABLES = CHAT_TEMPLATE_VARIABLES.filter(
+  (v) => !v.key.startsWith("ticket."),
+);
+
+const PREVIEW_CONTEXT = {
+  customer: { name: "Budi Santoso" },
+  agent: { name: "Sari" },
+};
+
+export const SurveySettings = ({ canEdit }: SurveySettingsProps) => {
+  const [configs, setConfigs] = useState<ConfigDrafts>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingChannel, setSavingChannel] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchConfigs = async () => {
+      setIsLoading(true);
+      try {
+        const configList = await crmSurveysService.getSurveyConfigs();
+        const drafts: ConfigDrafts = {};
+        crmSurveysService.SURVEY_CHANNELS.forEach(({ value }) => {
+          const config = configList.find((c) => c.channel === value);
+          drafts[value] = config
+            ? {
+                enabled: config.enabled,
+                survey_type: config.survey_type,
+                question: config.question,
+                comment_prompt: config.comment_prompt,
+                delay_minutes: config.delay_minutes,
+                expires_after_hours: config.expires_after_hours,
+              }
+            : crmSurveysService.DEFAULT_SURVEY_CONFIG;
+        });
+        setConfigs(drafts);
+      } catch (error) {
+        console.error("Failed to fetch survey configs:", error);
+        toast.error("Gagal memuat pengaturan survei");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchConfigs();
+  }, []);
+
+  const updateConfig = (
+    channel: CommunicationChannel,
+    updates: Partial<SurveyConfigInput>,
+  ) => {
+    setConfigs((prev) => ({
+      ...prev,
+      [channel]: { ...prev[channel], ...updates },
+    }));
+  };
+
+  // Swap in the default question unless the admin already customized it
+  const handleTypeChange = (
+    channel: CommunicationChannel,
+    surveyType: SurveyType,
+  ) => {
+    const config = configs[channel];
+    const isDefaultQuestion = Object.values(
+      crmSurveysService.DEFAULT_SURVEY_QUESTIONS,
+    ).includes(config?.question || "");
+    updateConfig(channel, {
+      survey_type: surveyType,
+      ...(isDefaultQuestion || !config?.question
+        ? { question: crmSurveysService.DEFAULT_SURVEY_QUESTIONS[surveyType] }
+        : {}),
+    });
+  };
+
+  const handleSave = async (channel: CommunicationChannel) => {
+    const config = configs[channel];
+    if (!config) return;
+
+    if (config.enabled && !config.question.trim()) {
+      toast.error("Pertanyaan survei harus diisi");
+      return;
+    }
+    if (!(config.delay_minutes >= 0) || !(config.expires_after_hours > 0)) {
+      toast.error("Jeda dan masa berlaku harus berupa angka positif");
+      return;
+    }
+
+    setSavingChannel(channel);
+    try {
+      const saved = await crmSurveysService.saveSurveyConfig(channel, {
+        ...config,
+        question: config.question.trim(),
+        comment_prompt: config.comment_prompt?.trim() || null,
+      });
+      updateConfig(channel, {
+        enabled: saved.enabled,
+        question: saved.question,
+        comment_prompt: saved.comment_prompt,
+      });
+      toast.success("Pengaturan survei berhasil disimpan");
+    } catch (error) {
+      console.error("Failed to save survey config:", error);
+      toast.error(error.message || "Gagal menyimpan pengaturan survei");
+    } finally {
+      setSavingChannel(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SmilePlus className="w-5 h-5" />
+          Survei Kepuasan
+        </CardTitle>
+        <CardDescription>
+          Survei CSAT atau NPS dikirim otomatis lewat channel chat setelah chat
+          di-resolve. Balasan customer dicatat untuk agent dan AI agent yang
+          menangani chat.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {crmSurveysService.SURVEY_CHANNELS.map(({ value, label }) => {
+          const config = configs[value];
+          if (!config) return null;
+
+          return (
+            <div key={value} className="rounded-md border p-4 space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={config.enabled}
+                    onCheckedChange={(enabled) =>
+                      updateConfig(value, { enabled })
+                    }
+                    disabled={!canEdit}
+                  />
+                  <span className="font-medium">{label}</span>
+                  {config.enabled && (
+                    <Badge variant="outline" className="text-[10px] uppercase">
+                      {config.survey_type}
+                    </Badge>
+                  )}
+                </div>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSave(value)}
+                    disabled={savingChannel === value}
+                  >
+                    {savingChannel === value && (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    )}
+                    Simpan
+                  </Button>
+                )}
+              </div>
+
+              {config.enabled && (
+                <>
+                  <div className="grid gap-4 sm:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label>Jenis survei</Label>
+                      <Select
+                        value={config.survey_type}
+                        onValueChange={(v) =>
+                          handleTypeChange(value, v as SurveyType)
+                        }
+                        disabled={!canEdit}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {crmSurveysService.SURVEY_TYPES.map((type) => (
+                            <SelectItem key={type.value} value={type.value}>
+                              {type.label} · {type.scale}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Kirim setelah (menit)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={config.delay_minutes}
+                        onChange={(e) =>
+                          updateConfig(value, {
+                            delay_minutes: Number(e.target.value),
+                          })
+                        }
+                        disabled={!canEdit}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Berlaku selama (jam)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={config.expires_after_hours}
+                        onChange={(e) =>
+                          updateConfig(value, {
+                            expires_after_hours: Number(e.target.value),
+                          })
+                        }
+                        disabled={!canEdit}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Pertanyaan</Label>
+                    <Textarea
+                      rows={3}
+                      value={config.question}
+                      onChange={(e) =>
+                        updateConfig(value, { question: e.target.value })
+                      }
+                      disabled={!canEdit}
+                    />
+                    <div className="flex flex-wrap gap-1">
+                      {SURVEY_VARIABLES.map((variable) => (
+                        <Badge
+                          key={variable.key}
+                          variant="secondary"
+                          className="cursor-pointer text-[10px] font-normal"
+                          onClick={() =>
+                            canEdit &&
+                            updateConfig(value, {
+                              question: `${config.question}{{${variable.key}}}`,
+                            })
+                          }
+                        >
+                          {variable.label}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground rounded-md bg-muted/50 p-2">
+                      {renderMessageTemplate(config.question, PREVIEW_CONTEXT)}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Minta komentar setelah skor</Label>
+                      <Switch
+                        checked={config.comment_prompt !== null}
+                        onCheckedChange={(checked) =>
+                          updateConfig(value, {
+                            comment_prompt: checked
+                              ? crmSurveysService.DEFAULT_SURVEY_CONFIG
+                                  .comment_prompt
+                              : null,
+                          })
+                        }
+                        disabled={!canEdit}
+                      />
+                    </div>
+                    {config.comment_prompt !== null && (
+                      <Input
+                        value={config.comment_prompt}
+                        onChange={(e) =>
+                          updateConfig(value, {
+                            comment_prompt: e.target.value,
+                          })
+                        }
+                        disabled={!canEdit}
+                      />
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
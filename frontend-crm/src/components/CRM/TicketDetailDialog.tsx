@@ -33,9 +33,12 @@ import {
   Laptop,
   History,
   Loader2,
+  Timer,
+  AlertTriangle,
 } from "lucide-react";
 import * as crmChatsService from "@/services/crmChatsService";
 import { Input } from "@/components/ui/input";
+import { SlaTimers } from "./SlaBadge";
 
 interface Ticket {
   id: string;
@@ -52,6 +55,7 @@ interface Ticket {
   assignedTo?: string;
   tags?: string[];
   relatedMessages: string[];
+  sla?: crmChatsService.TicketSla | null;
 }
 
 interface TicketDetailDialogProps {
@@ -153,7 +157,10 @@ export const TicketDetailDialog = ({
     }
   };
 
-  const getActorIcon = (type: string) => {
+  const getActorIcon = (type: string, action?: string) => {
+    if (action === "sla_breached") {
+      return <AlertTriangle className="h-4 w-4 text-red-500" />;
+    }
     switch (type) {
       case "ai":
         return <Bot className="h-4 w-4 text-purple-500" />;
@@ -293,6 +300,17 @@ export const TicketDetailDialog = ({
                 </Card>
               </div>
 
+              {/* SLA */}
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2 text-muted-foreground mb-2">
+                    <Timer className="h-4 w-4" />
+                    <Label className="text-sm">SLA</Label>
+                  </div>
+                  <SlaTimers sla={ticket.sla} />
+                </CardContent>
+              </Card>
+
               {/* Description */}
               <Card>
                 <CardContent className="p-4">
@@ -452,7 +470,10 @@ export const TicketDetailDialog = ({
                             className="flex gap-3"
                           >
                             <div className="mt-1">
-                              {getActorIcon(activity.actor_type)}
+                              {getActorIcon(
+                                activity.actor_type,
+                                activity.action,
+                              )}
                             </div>
                             <div className="flex-1 space-y-1">
                               <div className="flex items-center justify-between">
@@ -10,6 +10,8 @@ import {
   Mail,
   Globe,
 } from "lucide-react";
+import type { TicketSla } from "@/services/crmChatsService";
+import { SlaBadge } from "./SlaBadge";
 
 interface Ticket {
   id: string;
@@ -27,6 +29,7 @@ interface Ticket {
   customerName?: string;
   chatId?: string;
   channel?: "whatsapp" | "telegram" | "email" | "web";
+  sla?: TicketSla | null;
 }
 
 interface TicketKanbanCardProps {
@@ -183,10 +186,13 @@ export const TicketKanbanCard = ({
           )}
         </div>
 
-        {/* Created time */}
-        <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
-          <Clock className="h-2.5 w-2.5" />
-          <span>{ticket.createdAt}</span>
+        {/* Created time & SLA */}
+        <div className="flex items-center justify-between gap-1 text-[10px] text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <Clock className="h-2.5 w-2.5" />
+            <span>{ticket.createdAt}</span>
+          </div>
+          <SlaBadge sla={ticket.sla} />
         </div>
 
         {/* Tags */}
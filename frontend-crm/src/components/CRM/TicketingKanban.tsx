@@ -32,6 +32,7 @@ import {
 } from "lucide-react";
 import { TicketKanbanCard } from "./TicketKanbanCard";
 import { TicketDetailDialog } from "./TicketDetailDialog";
+import type { TicketSla } from "@/services/crmChatsService";
 
 interface Ticket {
   id: string;
@@ -51,6 +52,7 @@ interface Ticket {
   customerName?: string;
   chatId?: string;
   channel?: "whatsapp" | "telegram" | "email" | "web";
+  sla?: TicketSla | null;
 }
 
 interface Agent {
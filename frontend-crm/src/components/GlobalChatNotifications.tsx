@@ -1,12 +1,20 @@
 import { useEffect, useRef } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { toast } from "sonner";
-import { MessageSquare, UserCircle } from "lucide-react";
+import {
+  AlertTriangle,
+  AtSign,
+  BellRing,
+  MessageSquare,
+  UserCircle,
+} from "lucide-react";
 import {
   useWebSocket,
   WebSocketNotification,
   WebSocketNewMessage,
   WebSocketChatUpdate,
+  WebSocketMention,
+  WebSocketFollowUpReminder,
 } from "@/contexts/WebSocketContext";
 import { useNotificationPreferences } from "@/contexts/NotificationPreferencesContext";
 import { useAuth } from "@/contexts/AuthContext";
@@ -131,8 +139,14 @@ export const GlobalChatNotifications = () => {
       message_content,
       handled_by,
       assigned_agent_id,
+      sender_type,
     } = data;
 
+    // Internal notes are not customer messages (mentions are handled separately)
+    if (sender_type === "note") {
+      return;
+    }
+
     // Skip if user is on CRM page (CustomerService will handle it)
     if (isOnCRMPage()) {
       console.log("⏭️ Skipping notification - user is on CRM page");
@@ -236,11 +250,96 @@ export const GlobalChatNotifications = () => {
       }
 
       incrementUnreadCount();
+    } else if (
+      update_type === "sla_breached" &&
+      assigned_agent_id &&
+      assigned_agent_id === user?.id
+    ) {
+      console.log("🔔 Showing notification for SLA breach");
+
+      const title = `SLA breached: ${data.ticket_number || "Ticket"}`;
+      const body =
+        data.sla_type === "first_response"
+          ? "Target respon pertama terlewati"
+          : "Target penyelesaian terlewati";
+
+      showToastNotification(
+        title,
+        body,
+        chat_id,
+        <AlertTriangle className="h-5 w-5 text-red-500" />,
+      );
+
+      showBrowserNotification(title, body, chat_id);
+
+      if (preferences.enableSound) {
+        playNotificationSound("alert", 0.6);
+      }
     }
     // For other update types (status_changed, resolved), we don't show notifications
     // unless user wants to be notified for all updates
   };
 
+  /**
+   * Handle @mention in an internal note.
+   * Shown on every page (including /crm) since it is addressed to this user.
+   */
+  const handleMentionNotification = (notification: WebSocketMention) => {
+    const { data } = notification;
+    const { chat_id, note_content, mentioned_by_id, mentioned_by_name } = data;
+
+    if (!user?.id || !data.mentioned_user_ids?.includes(user.id)) return;
+    if (mentioned_by_id === user.id) return;
+
+    console.log("🔔 Showing notification for mention by:", mentioned_by_name);
+
+    const title = `${mentioned_by_name} mentioned you${
+      data.customer_name ? ` (${data.customer_name})` : ""
+    }`;
+
+    showToastNotification(
+      title,
+      note_content,
+      chat_id,
+      <AtSign className="h-5 w-5 text-amber-500" />,
+    );
+
+    showBrowserNotification(title, note_content, chat_id);
+
+    if (preferences.enableSound) {
+      playNotificationSound("alert", 0.6);
+    }
+  };
+
+  /**
+   * Handle a due follow-up reminder.
+   * Shown on every page (including /crm) since the agent scheduled it.
+   */
+  const handleFollowUpReminderNotification = (
+    notification: WebSocketFollowUpReminder,
+  ) => {
+    const { data } = notification;
+    if (!user?.id || data.created_by !== user.id) return;
+
+    console.log("🔔 Showing follow-up reminder:", data.reminder_id);
+
+    const subject = data.ticket_number || data.customer_name;
+    const title = `Pengingat follow-up${subject ? `: ${subject}` : ""}`;
+
+    showToastNotification(
+      title,
+      data.note,
+      data.chat_id,
+      <BellRing className="h-5 w-5 text-sky-500" />,
+    );
+
+    showBrowserNotification(title, data.note, data.chat_id);
+
+    if (preferences.enableSound) {
+      playNotificationSound("alert", 0.6);
+    }
+  };
+
   /**
    * Handle all WebSocket messages
    */
@@ -259,6 +358,22 @@ export const GlobalChatNotifications = () => {
         handleChatUpdateNotification(notification);
         break;
 
+      case "mention":
+        handleMentionNotification(notification);
+        break;
+
+      case "follow_up_reminder":
+        handleFollowUpReminderNotification(notification);
+        break;
+
+      case "agent_presence":
+      case "queue_update":
+      case "agent_viewing":
+      case "agent_typing":
+      case "read_receipt":
+        // Handled inside the CRM page only
+        break;
+
       // ✅ ADD THESE TWO CASES:
       case "document_upload_completed":
       case "document_upload_failed":
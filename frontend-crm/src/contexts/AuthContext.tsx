@@ -2,6 +2,8 @@ import React, { createContext, useContext, useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { organizationStorage } from "@/lib/organizationStorage";
+import { reportAgentPresence } from "@/services/crmAgentsService";
+import { clearDrafts } from "@/lib/messageOutbox";
 import { useDebugState, logContextAction } from "@/lib/debuggableContext";
 
 interface AuthContextType {
@@ -99,8 +101,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const signOut = async () => {
     logContextAction("Auth", "SIGN_OUT_INITIATED", null);
+    // Mark the agent away while the session token is still valid. Not
+    // awaited: a slow presence request must not hold up the logout.
+    reportAgentPresence("offline");
     // Clear organization data from localStorage on logout
     organizationStorage.clear();
+    // Reply drafts must not show up for the next agent on this browser
+    clearDrafts().catch((error) =>
+      console.error("Failed to clear reply drafts:", error),
+    );
     await supabase.auth.signOut();
     logContextAction("Auth", "SIGN_OUT_COMPLETED", null);
   };
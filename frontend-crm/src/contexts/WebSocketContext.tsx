@@ -10,6 +10,11 @@ import React, {
 import { useAuth } from "./AuthContext";
 import { useOrganization } from "./OrganizationContext";
 import { env } from "@/config/env";
+import type {
+  HandoffSummary,
+  MessageSentiment,
+  Sentiment,
+} from "@/services/crmChatsService";
 import { useDebugState, logContextAction } from "@/lib/debuggableContext";
 
 /**
@@ -28,6 +33,13 @@ export interface WebSocketMessage {
     | "connection_established"
     | "new_message"
     | "chat_update"
+    | "mention"
+    | "agent_presence"
+    | "queue_update"
+    | "agent_viewing"
+    | "agent_typing"
+    | "read_receipt"
+    | "follow_up_reminder"
     | "document_upload_completed"
     | "document_upload_failed"
     | "file_upload_completed"
@@ -80,6 +92,7 @@ export interface WebSocketNewMessage extends WebSocketMessage {
       name: string;
     };
     metadata?: any;
+    delivery_status?: "sent" | "delivered" | "read";
     channel:
       | "whatsapp"
       | "telegram"
@@ -105,7 +118,13 @@ export interface WebSocketChatUpdate extends WebSocketMessage {
     | "escalated"
     | "status_changed"
     | "resolved"
-    | "ticket_created";
+    | "ticket_created"
+    | "sla_breached"
+    | "snoozed"
+    | "unsnoozed"
+    | "labels_updated"
+    | "handoff_summary_ready"
+    | "sentiment_updated";
   data: {
     chat_id: string;
     from_agent?: string;
@@ -117,10 +136,139 @@ export interface WebSocketChatUpdate extends WebSocketMessage {
     ticket_id?: string;
     ticket_number?: string;
     priority?: string;
+    // SLA breach fields
+    sla_type?: "first_response" | "resolution";
+    breached_at?: string;
+    // Set when the assignment was made by the routing engine
+    routing_decision_id?: string;
+    routing_strategy?: string;
+    // Snooze fields; unsnoozed reason is "customer_replied" or "snooze_expired"
+    snooze_mode?: "until_date" | "until_reply" | null;
+    snoozed_until?: string | null;
+    // Full label set of the chat after a "labels_updated"
+    labels?: { id: string; name: string; color: string }[];
+    // Set on "handoff_summary_ready"
+    handoff_summary?: HandoffSummary;
+    // Set on "sentiment_updated": the scored message and the chat's new value
+    message_id?: string;
+    message_sentiment?: MessageSentiment;
+    sentiment?: Sentiment | null;
     [key: string]: any;
   };
 }
 
+/**
+ * Agent mentioned in an internal note
+ */
+export interface WebSocketMention extends WebSocketMessage {
+  type: "mention";
+  data: {
+    chat_id: string;
+    message_id: string;
+    customer_name?: string;
+    note_content: string;
+    mentioned_by_id: string;
+    mentioned_by_name: string;
+    mentioned_user_ids: string[];
+  };
+}
+
+/**
+ * Live agent load: sent when status, assigned chats or capacity change
+ */
+export interface WebSocketAgentPresence extends WebSocketMessage {
+  type: "agent_presence";
+  data: {
+    agent_id: string;
+    user_id?: string | null;
+    status: "active" | "inactive" | "busy";
+    status_source: "manual" | "capacity" | "idle" | "logout";
+    assigned_chats_count: number;
+    max_concurrent_chats: number | null;
+  };
+}
+
+/**
+ * Overflow queue size changed
+ */
+export interface WebSocketQueueUpdate extends WebSocketMessage {
+  type: "queue_update";
+  data: {
+    queued_count: number;
+  };
+}
+
+/**
+ * Another agent opened or left a chat
+ */
+export interface WebSocketAgentViewing extends WebSocketMessage {
+  type: "agent_viewing";
+  data: {
+    chat_id: string;
+    user_id: string;
+    agent_name: string;
+    viewing: boolean;
+  };
+}
+
+/**
+ * Another agent started or stopped typing in a chat
+ */
+export interface WebSocketAgentTyping extends WebSocketMessage {
+  type: "agent_typing";
+  data: {
+    chat_id: string;
+    user_id: string;
+    agent_name: string;
+    is_typing: boolean;
+    mode: "reply" | "note";
+  };
+}
+
+/**
+ * Customer delivery/read receipts, only for channels that report them
+ */
+export interface WebSocketReadReceipt extends WebSocketMessage {
+  type: "read_receipt";
+  data: {
+    chat_id: string;
+    message_ids: string[];
+    status: "delivered" | "read";
+    at: string;
+  };
+}
+
+/**
+ * A follow-up reminder is due, sent to the agent who scheduled it
+ */
+export interface WebSocketFollowUpReminder extends WebSocketMessage {
+  type: "follow_up_reminder";
+  data: {
+    reminder_id: string;
+    chat_id: string;
+    ticket_id?: string | null;
+    ticket_number?: string | null;
+    customer_name?: string | null;
+    note: string;
+    remind_at: string;
+    created_by: string;
+  };
+}
+
+/**
+ * Outgoing agent activity, relayed by the backend to the other agents of
+ * the organization as agent_viewing / agent_typing
+ */
+export interface WebSocketOutgoingMessage {
+  type: "agent_viewing" | "agent_typing";
+  data: {
+    chat_id: string;
+    viewing?: boolean;
+    is_typing?: boolean;
+    mode?: "reply" | "note";
+  };
+}
+
 export interface WebSocketDocumentUploadCompleted extends WebSocketMessage {
   type: "document_upload_completed" | "file_upload_completed";
   organization_id: string;
@@ -148,6 +296,13 @@ export type WebSocketNotification =
   | WebSocketConnectionEstablished
   | WebSocketNewMessage
   | WebSocketChatUpdate
+  | WebSocketMention
+  | WebSocketAgentPresence
+  | WebSocketQueueUpdate
+  | WebSocketAgentViewing
+  | WebSocketAgentTyping
+  | WebSocketReadReceipt
+  | WebSocketFollowUpReminder
   | WebSocketDocumentUploadCompleted
   | WebSocketDocumentUploadFailed
   | WebSocketFileUploadWarning;
@@ -167,6 +322,7 @@ interface WebSocketContextType {
   reconnectAttempts: number;
   isConnected: boolean;
   subscribeToMessages: (callback: MessageCallback) => UnsubscribeFunction;
+  sendMessage: (message: WebSocketOutgoingMessage) => boolean;
   unreadChatsCount: number;
   incrementUnreadCount: () => void;
   decrementUnreadCount: () => void;
@@ -283,6 +439,26 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     [],
   );
 
+  /**
+   * Send a message to the server
+   * Returns false when the connection is not open (the message is dropped)
+   */
+  const sendMessage = useCallback(
+    (message: WebSocketOutgoingMessage): boolean => {
+      if (!wsConnection || wsConnection.readyState !== WebSocket.OPEN) {
+        return false;
+      }
+      try {
+        wsConnection.send(JSON.stringify(message));
+        return true;
+      } catch (error) {
+        console.error("❌ Failed to send WebSocket message:", error);
+        return false;
+      }
+    },
+    [wsConnection],
+  );
+
   // ============================================================================
   // MESSAGE DEDUPLICATION
   // ============================================================================
@@ -431,6 +607,10 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
           } else if (notification.type === "chat_update") {
             // Create unique ID for chat updates
             messageId = `${notification.type}_${notification.data.chat_id}_${notification.timestamp}`;
+          } else if (notification.type === "mention") {
+            messageId = `mention_${notification.data.message_id}`;
+          } else if (notification.type === "follow_up_reminder") {
+            messageId = `reminder_${notification.data.reminder_id}`;
           } else if (
             notification.type === "document_upload_completed" ||
             notification.type === "document_upload_failed" ||
@@ -566,6 +746,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     reconnectAttempts: wsReconnectAttempts,
     isConnected: wsStatus === "connected",
     subscribeToMessages,
+    sendMessage,
     unreadChatsCount,
     incrementUnreadCount,
     decrementUnreadCount,
@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+
+// Viewing is re-announced periodically; peers that stop announcing are dropped
+const VIEWING_HEARTBEAT_MS = 20 * 1000;
+const VIEWING_EXPIRY_MS = 45 * 1000;
+// Typing is re-sent while the agent keeps typing, cleared after a pause
+const TYPING_THROTTLE_MS = 3 * 1000;
+const TYPING_IDLE_MS = 5 * 1000;
+const TYPING_EXPIRY_MS = 8 * 1000;
+const SWEEP_INTERVAL_MS = 2 * 1000;
+
+export type ComposerMode = "reply" | "note";
+
+export interface ChatCollaborator {
+  userId: string;
+  name: string;
+  lastSeenAt: number;
+  typingMode: ComposerMode | null;
+  typingAt: number | null;
+}
+
+/**
+ * Other agents viewing or typing in a chat, and the current agent's own
+ * viewing/typing announcements for that chat.
+ * @param replierUserId - User allowed to reply in the chat (the assignee)
+ */
+export const useChatCollaboration = (
+  chatId: string | null,
+  replierUserId?: string | null,
+) => {
+  const { user } = useAuth();
+  const { subscribeToMessages, sendMessage, isConnected } = useWebSocket();
+  const userId = user?.id;
+
+  const [collaborators, setCollaborators] = useState<
+    Record<string, ChatCollaborator>
+  >({});
+  const lastTypingSentRef = useRef(0);
+  const typingModeRef = useRef<ComposerMode | null>(null);
+  const typingIdleTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Announce viewing while the chat is open
+  useEffect(() => {
+    setCollaborators({});
+    if (!chatId || !isConnected) return;
+
+    const announce = (viewing: boolean) =>
+      sendMessage({
+        type: "agent_viewing",
+        data: { chat_id: chatId, viewing },
+      });
+
+    announce(true);
+    const interval = setInterval(() => announce(true), VIEWING_HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(interval);
+      announce(false);
+    };
+  }, [chatId, isConnected, sendMessage]);
+
+  // Track other agents in this chat
+  useEffect(() => {
+    if (!chatId) return;
+
+    const unsubscribe = subscribeToMessages((notification) => {
+      if (
+        notification.type !== "agent_viewing" &&
+        notification.type !== "agent_typing"
+      ) {
+        return;
+      }
+      const { data } = notification;
+      if (data.chat_id !== chatId || data.user_id === userId) return;
+
+      setCollaborators((prev) => {
+        if (
+          notification.type === "agent_viewing" &&
+          !notification.data.viewing
+        ) {
+          const rest = { ...prev };
+          delete rest[data.user_id];
+          return rest;
+        }
+
+        const now = Date.now();
+        const existing = prev[data.user_id];
+        const next: ChatCollaborator = {
+          userId: data.user_id,
+          name: data.agent_name,
+          lastSeenAt: now,
+          typingMode: existing?.typingMode || null,
+          typingAt: existing?.typingAt || null,
+        };
+        if (notification.type === "agent_typing") {
+          next.typingMode = notification.data.is_typing
+            ? notification.data.mode
+            : null;
+          next.typingAt = notification.data.is_typing ? now : null;
+        }
+        return { ...prev, [data.user_id]: next };
+      });
+    });
+
+    return unsubscribe;
+  }, [chatId, userId, subscribeToMessages]);
+
+  // Drop stale viewers and typing states (missed "stop" events)
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setCollaborators((prev) => {
+        const now = Date.now();
+        let changed = false;
+        const next: Record<string, ChatCollaborator> = {};
+        Object.values(prev).forEach((collaborator) => {
+          if (now - collaborator.lastSeenAt > VIEWING_EXPIRY_MS) {
+            changed = true;
+            return;
+          }
+          if (
+            collaborator.typingAt &&
+            now - collaborator.typingAt > TYPING_EXPIRY_MS
+          ) {
+            changed = true;
+            next[collaborator.userId] = {
+              ...collaborator,
+              typingMode: null,
+              typingAt: null,
+            };
+            return;
+          }
+          next[collaborator.userId] = collaborator;
+        });
+        return changed ? next : prev;
+      });
+    }, SWEEP_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimeoutRef.current) {
+      clearTimeout(typingIdleTimeoutRef.current);
+      typingIdleTimeoutRef.current = null;
+    }
+    if (!chatId || !typingModeRef.current) return;
+
+    sendMessage({
+      type: "agent_typing",
+      data: {
+        chat_id: chatId,
+        is_typing: false,
+        mode: typingModeRef.current,
+      },
+    });
+    typingModeRef.current = null;
+    lastTypingSentRef.current = 0;
+  }, [chatId, sendMessage]);
+
+  /**
+   * Call on every keystroke; sends throttled typing events
+   */
+  const notifyTyping = useCallback(
+    (mode: ComposerMode) => {
+      if (!chatId) return;
+
+      const now = Date.now();
+      if (
+        typingModeRef.current !== mode ||
+        now - lastTypingSentRef.current >= TYPING_THROTTLE_MS
+      ) {
+        sendMessage({
+          type: "agent_typing",
+          data: { chat_id: chatId, is_typing: true, mode },
+        });
+        typingModeRef.current = mode;
+        lastTypingSentRef.current = now;
+      }
+
+      if (typingIdleTimeoutRef.current) {
+        clearTimeout(typingIdleTimeoutRef.current);
+      }
+      typingIdleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+    },
+    [chatId, sendMessage, stopTyping],
+  );
+
+  // Leaving the chat ends any typing in it
+  useEffect(() => stopTyping, [stopTyping]);
+
+  const collaboratorList = Object.values(collaborators);
+
+  return {
+    viewers: collaboratorList,
+    // Only the assignee can reply; other agents' reply typing never sends
+    replyingAgent:
+      collaboratorList.find(
+        (c) =>
+          c.typingMode === "reply" &&
+          Boolean(replierUserId) &&
+          c.userId === replierUserId,
+      ) || null,
+    notifyTyping,
+    stopTyping,
+  };
+};
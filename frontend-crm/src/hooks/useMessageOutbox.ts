@@ -0,0 +1,335 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as crmChatsService from "@/services/crmChatsService";
+import * as messageOutbox from "@/lib/messageOutbox";
+import type { OutboxEntry, OutboxMetadata } from "@/lib/messageOutbox";
+
+interface EnqueueMessageParams {
+  chatId: string;
+  content: string;
+  file?: File;
+  cannedResponseId?: string;
+  metadata: OutboxMetadata;
+}
+
+// Only the tab holding the lock delivers; the channel keeps other tabs in sync
+const DELIVERY_LOCK_NAME = "syntra_crm_outbox_delivery";
+const SYNC_CHANNEL_NAME = "syntra_crm_outbox";
+
+type OutboxSyncMessage =
+  | { type: "changed" }
+  | { type: "sent"; entry: OutboxEntry; message: crmChatsService.Message };
+
+interface UseMessageOutboxOptions {
+  userId?: string;
+  // Called once the backend accepted a queued message
+  onSent: (entry: OutboxEntry, message: crmChatsService.Message) => void;
+}
+
+/**
+ * Persistent outbox for agent replies: queues every message in IndexedDB,
+ * delivers it with retry and backoff, and keeps failed ones for a manual
+ * resend. Entries of previous sessions are resumed on load.
+ *
+ * Messages of a chat go out oldest first, one at a time: a message waits
+ * until the one before it is delivered or discarded. One tab per agent
+ * delivers (Web Locks), the others follow its progress.
+ */
+export const useMessageOutbox = ({
+  userId,
+  onSent,
+}: UseMessageOutboxOptions) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(
+    typeof navigator === "undefined" ? true : navigator.onLine,
+  );
+  const [isDeliveringTab, setIsDeliveringTab] = useState(false);
+  // Chats with a message on its way
+  const inFlightRef = useRef<Set<string>>(new Set());
+  // Entries IndexedDB did not take; only this tab knows about them
+  const localOnlyRef = useRef<Set<string>>(new Set());
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+
+  const broadcast = useCallback((message: OutboxSyncMessage) => {
+    try {
+      channelRef.current?.postMessage(message);
+    } catch (error) {
+      console.error("Failed to sync outbox with other tabs:", error);
+    }
+  }, []);
+
+  const updateEntry = useCallback(
+    async (entry: OutboxEntry) => {
+      setEntries((prev) => prev.map((e) => (e.id === entry.id ? entry : e)));
+      try {
+        await messageOutbox.putOutboxEntry(entry);
+        broadcast({ type: "changed" });
+      } catch (error) {
+        console.error("Failed to persist outbox entry:", error);
+      }
+    },
+    [broadcast],
+  );
+
+  const removeEntry = useCallback(
+    async (id: string) => {
+      localOnlyRef.current.delete(id);
+      setEntries((prev) => prev.filter((e) => e.id !== id));
+      try {
+        await messageOutbox.deleteOutboxEntry(id);
+        broadcast({ type: "changed" });
+      } catch (error) {
+        console.error("Failed to delete outbox entry:", error);
+      }
+    },
+    [broadcast],
+  );
+
+  // Resume the agent's unsent messages and follow changes from other tabs
+  useEffect(() => {
+    if (!userId) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadEntries = () =>
+      messageOutbox
+        .getOutboxEntries(userId)
+        .then((stored) => {
+          if (cancelled) return;
+          // "sent" entries were delivered right before the page closed
+          stored
+            .filter((e) => e.status === "sent")
+            .forEach((e) => messageOutbox.deleteOutboxEntry(e.id));
+          setEntries((prev) => [
+            ...stored.filter((e) => e.status !== "sent"),
+            ...prev.filter((e) => localOnlyRef.current.has(e.id)),
+          ]);
+        })
+        .catch((error) => {
+          console.error("Failed to load message outbox:", error);
+        });
+
+    loadEntries();
+
+    const channel =
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : new BroadcastChannel(`${SYNC_CHANNEL_NAME}:${userId}`);
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<OutboxSyncMessage>) => {
+        if (event.data.type === "sent") {
+          const { entry, message } = event.data;
+          setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+          onSentRef.current(entry, message);
+          return;
+        }
+        loadEntries();
+      };
+    }
+    channelRef.current = channel;
+
+    return () => {
+      cancelled = true;
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [userId]);
+
+  // Hold the delivery lock while this tab is open
+  useEffect(() => {
+    if (!userId) return;
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      setIsDeliveringTab(true);
+      return;
+    }
+
+    const controller = new AbortController();
+    let releaseLock: () => void = () => undefined;
+    const held = new Promise<void>((resolve) => {
+      releaseLock = resolve;
+    });
+
+    navigator.locks
+      .request(
+        `${DELIVERY_LOCK_NAME}:${userId}`,
+        { signal: controller.signal },
+        () => {
+          setIsDeliveringTab(true);
+          return held;
+        },
+      )
+      .catch((error) => {
+        if (error.name !== "AbortError") {
+          console.error("Failed to acquire outbox lock:", error);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      releaseLock();
+      setIsDeliveringTab(false);
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  const deliver = useCallback(
+    async (entry: OutboxEntry) => {
+      if (inFlightRef.current.has(entry.chat_id)) return;
+      inFlightRef.current.add(entry.chat_id);
+
+      try {
+        const message = await crmChatsService.sendMessage({
+          chatId: entry.chat_id,
+          content: entry.content,
+          senderType: "agent",
+          senderId: entry.user_id,
+          file: entry.file
+            ? new File([entry.file], entry.file_name || "attachment", {
+                type: entry.file_type || entry.file.type,
+              })
+            : undefined,
+          // Lets the backend drop duplicates when a retry races a slow success
+          metadata: { ...entry.metadata, client_message_id: entry.id },
+          cannedResponseId: entry.canned_response_id || undefined,
+        });
+
+        await messageOutbox
+          .putOutboxEntry({ ...entry, status: "sent" })
+          .catch(() => undefined);
+        await removeEntry(entry.id);
+        onSentRef.current(entry, message);
+        broadcast({ type: "sent", entry, message });
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const exhausted = attempts >= messageOutbox.MAX_AUTO_SEND_ATTEMPTS;
+        console.error(
+          `Failed to send queued message (attempt ${attempts}):`,
+          error,
+        );
+        await updateEntry({
+          ...entry,
+          attempts,
+          status: exhausted ? "failed" : "pending",
+          next_attempt_at: Date.now() + messageOutbox.getRetryDelay(attempts),
+          last_error: error.message || "Gagal mengirim pesan",
+        });
+      } finally {
+        inFlightRef.current.delete(entry.chat_id);
+      }
+    },
+    [removeEntry, updateEntry, broadcast],
+  );
+
+  // Schedule the oldest message of each chat; a failed one holds the chat
+  useEffect(() => {
+    if (!isOnline) return;
+
+    const oldestByChat = new Map<string, OutboxEntry>();
+    [...entries]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .forEach((entry) => {
+        if (!oldestByChat.has(entry.chat_id)) {
+          oldestByChat.set(entry.chat_id, entry);
+        }
+      });
+
+    const timeouts = [...oldestByChat.values()]
+      .filter(
+        (e) =>
+          e.status === "pending" &&
+          (isDeliveringTab || localOnlyRef.current.has(e.id)) &&
+          !inFlightRef.current.has(e.chat_id),
+      )
+      .map((entry) =>
+        setTimeout(
+          () => deliver(entry),
+          Math.max(0, entry.next_attempt_at - Date.now()),
+        ),
+      );
+
+    return () => timeouts.forEach(clearTimeout);
+  }, [entries, isOnline, isDeliveringTab, deliver]);
+
+  /**
+   * Queue a message and send it as soon as possible
+   */
+  const enqueue = useCallback(
+    async ({
+      chatId,
+      content,
+      file,
+      cannedResponseId,
+      metadata,
+    }: EnqueueMessageParams): Promise<OutboxEntry | null> => {
+      if (!userId) return null;
+
+      const entry: OutboxEntry = {
+        id: messageOutbox.createOutboxId(),
+        chat_id: chatId,
+        user_id: userId,
+        content,
+        file: file || null,
+        file_name: file?.name || null,
+        file_type: file?.type || null,
+        canned_response_id: cannedResponseId || null,
+        metadata,
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: Date.now(),
+        last_error: null,
+        created_at: new Date().toISOString(),
+      };
+
+      setEntries((prev) => [...prev, entry]);
+      try {
+        await messageOutbox.putOutboxEntry(entry);
+        broadcast({ type: "changed" });
+      } catch (error) {
+        // Still delivered from memory, just not reload-safe
+        localOnlyRef.current.add(entry.id);
+        console.error("Failed to persist outbox entry:", error);
+      }
+      return entry;
+    },
+    [userId, broadcast],
+  );
+
+  /**
+   * Retry a failed message now, with a fresh set of automatic attempts
+   */
+  const resend = useCallback(
+    (id: string) => {
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) return;
+      updateEntry({
+        ...entry,
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: Date.now(),
+        last_error: null,
+      });
+    },
+    [entries, updateEntry],
+  );
+
+  return {
+    entries,
+    isOnline,
+    enqueue,
+    resend,
+    discard: removeEntry,
+  };
+};
@@ -0,0 +1,140 @@
+/**
+ * Agent schedule helpers
+ * The backend enforces the schedule; these helpers drive the settings preview.
+ */
+import { DEFAULT_BUSINESS_HOURS } from "@/services/crmSlaService";
+import type { BusinessHours, Weekday } from "@/services/crmSlaService";
+import type { CalendarEntryInput } from "@/services/crmCalendarsService";
+import {
+  getNextBusinessOpening,
+  isWithinBusinessHours,
+  type BusinessDayOverride,
+} from "./sla";
+import { renderMessageTemplate } from "./messageTemplate";
+import { entryToBusinessDay, findCalendarEntry } from "./holidayCalendars";
+
+export interface ScheduleDay {
+  day: string; // "Senin" in the settings form, "monday" from the API
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface ScheduleStatus {
+  isOpen: boolean;
+  nextOpening: Date | null; // null when nothing opens soon
+  entry: CalendarEntryInput | null; // Calendar entry in effect today
+}
+
+const WEEKDAY_BY_DAY_NAME: Record<string, Weekday> = {
+  senin: "mon",
+  selasa: "tue",
+  rabu: "wed",
+  kamis: "thu",
+  jumat: "fri",
+  sabtu: "sat",
+  minggu: "sun",
+  monday: "mon",
+  tuesday: "tue",
+  wednesday: "wed",
+  thursday: "thu",
+  friday: "fri",
+  saturday: "sat",
+  sunday: "sun",
+};
+
+/**
+ * Agent working hours in the shape used by the SLA business-hours helpers.
+ * Days missing from the schedule are closed.
+ */
+export const scheduleToBusinessHours = (
+  timezone: string,
+  workingHours: ScheduleDay[],
+): BusinessHours => {
+  const days = Object.fromEntries(
+    Object.entries(DEFAULT_BUSINESS_HOURS.days).map(([weekday, day]) => [
+      weekday,
+      { ...day, enabled: false },
+    ]),
+  ) as BusinessHours["days"];
+
+  workingHours.forEach((wh) => {
+    const weekday = WEEKDAY_BY_DAY_NAME[wh.day.toLowerCase()];
+    if (weekday) {
+      days[weekday] = { enabled: wh.enabled, start: wh.start, end: wh.end };
+    }
+  });
+
+  return { timezone: timezone || DEFAULT_BUSINESS_HOURS.timezone, days };
+};
+
+const getZonedDate = (date: Date, timezone: string) =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date); // YYYY-MM-DD
+
+const toDayOverride =
+  (entries: CalendarEntryInput[]): BusinessDayOverride =>
+  (date) => {
+    const entry = findCalendarEntry(entries, date);
+    return entry ? entryToBusinessDay(entry) : null;
+  };
+
+/**
+ * Whether the agent is within hours at `now` and when it opens next, with
+ * the entries of its subscribed calendars replacing the weekly hours
+ */
+export const getScheduleStatus = (
+  businessHours: BusinessHours,
+  now: Date = new Date(),
+  entries: CalendarEntryInput[] = [],
+): ScheduleStatus => {
+  const getOverride = toDayOverride(entries);
+  return {
+    isOpen: isWithinBusinessHours(now, businessHours, getOverride),
+    nextOpening: getNextBusinessOpening(now, businessHours, getOverride),
+    entry: findCalendarEntry(
+      entries,
+      getZonedDate(now, businessHours.timezone),
+    ),
+  };
+};
+
+/**
+ * Opening time as the customer reads it, e.g. "Senin, 7 April pukul 09.00 WIB"
+ */
+export const formatNextOpening = (date: Date, timezone: string): string =>
+  new Intl.DateTimeFormat("id-ID", {
+    timeZone: timezone,
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(date);
+
+/**
+ * The out-of-office reply a customer would receive at `now`; a calendar
+ * entry's own text replaces the agent's template
+ */
+export const renderOutOfOfficeReply = (
+  template: string,
+  businessHours: BusinessHours,
+  customerName: string,
+  now: Date = new Date(),
+  entries: CalendarEntryInput[] = [],
+): string => {
+  const { nextOpening, entry } = getScheduleStatus(businessHours, now, entries);
+  return renderMessageTemplate(entry?.auto_reply_message || template, {
+    customer: { name: customerName },
+    schedule: {
+      next_open: nextOpening
+        ? formatNextOpening(nextOpening, businessHours.timezone)
+        : null,
+    },
+  });
+};
@@ -0,0 +1,74 @@
+import type {
+  CampaignRecipientStatus,
+  CampaignStats,
+  CampaignStatus,
+} from "@/services/crmCampaignsService";
+
+/**
+ * Broadcast campaign display helpers
+ */
+
+export const CAMPAIGN_STATUS_STYLES: Record<
+  CampaignStatus,
+  { label: string; className: string }
+> = {
+  draft: { label: "Draft", className: "bg-slate-500 hover:bg-slate-600" },
+  scheduled: {
+    label: "Terjadwal",
+    className: "bg-blue-500 hover:bg-blue-600",
+  },
+  running: {
+    label: "Mengirim",
+    className: "bg-purple-500 hover:bg-purple-600",
+  },
+  paused: { label: "Dijeda", className: "bg-amber-500 hover:bg-amber-600" },
+  completed: {
+    label: "Selesai",
+    className: "bg-green-500 hover:bg-green-600",
+  },
+  cancelled: {
+    label: "Dibatalkan",
+    className: "bg-gray-400 hover:bg-gray-500",
+  },
+  failed: { label: "Gagal", className: "bg-red-500 hover:bg-red-600" },
+};
+
+export const RECIPIENT_STATUS_STYLES: Record<
+  CampaignRecipientStatus,
+  { label: string; className: string }
+> = {
+  pending: { label: "Menunggu", className: "text-muted-foreground" },
+  sent: { label: "Terkirim", className: "border-blue-300 text-blue-700" },
+  delivered: {
+    label: "Diterima",
+    className: "border-indigo-300 text-indigo-700",
+  },
+  read: { label: "Dibaca", className: "border-purple-300 text-purple-700" },
+  replied: { label: "Dibalas", className: "border-green-300 text-green-700" },
+  failed: { label: "Gagal", className: "border-red-300 text-red-700" },
+  opted_out: { label: "Opt-out", className: "border-amber-300 text-amber-700" },
+};
+
+/**
+ * Cumulative funnel counts and rates (percent of attempted recipients).
+ * Stats hold each recipient's latest status only, but a read message was also
+ * delivered and sent, so later steps are added to the earlier ones.
+ */
+export const getCampaignFunnel = (stats: CampaignStats) => {
+  const attempted = stats.total - stats.pending - stats.opted_out;
+  const replied = stats.replied;
+  const read = stats.read + replied;
+  const delivered = stats.delivered + read;
+  const sent = stats.sent + delivered;
+  const step = (count: number) => ({
+    count,
+    rate: attempted > 0 ? (count / attempted) * 100 : 0,
+  });
+
+  return {
+    sent: step(sent),
+    delivered: step(delivered),
+    read: step(read),
+    replied: step(replied),
+  };
+};
@@ -0,0 +1,70 @@
+import {
+  addDays,
+  addHours,
+  format,
+  isToday,
+  isTomorrow,
+  nextMonday,
+  setHours,
+  startOfHour,
+  startOfMinute,
+} from "date-fns";
+import type { ChatSnoozeMode } from "@/services/crmChatsService";
+
+export interface SnoozeState {
+  snoozeMode?: ChatSnoozeMode | null;
+  snoozedUntil?: string | null;
+}
+
+export interface SnoozePreset {
+  label: string;
+  until: Date;
+}
+
+/**
+ * A chat is snoozed until the customer replies, or until its date passes
+ * (the backend also sends an "unsnoozed" update, this covers the gap)
+ */
+export const isChatSnoozed = (
+  chat: SnoozeState,
+  now: Date = new Date(),
+): boolean => {
+  if (chat.snoozeMode === "until_reply") return true;
+  if (chat.snoozeMode === "until_date" && chat.snoozedUntil) {
+    return new Date(chat.snoozedUntil) > now;
+  }
+  return false;
+};
+
+/**
+ * Short label such as "s/d besok 09:00" or "s/d dibalas"
+ */
+export const formatSnoozeLabel = (chat: SnoozeState): string => {
+  if (chat.snoozeMode === "until_reply") return "s/d dibalas";
+  if (!chat.snoozedUntil) return "";
+
+  const until = new Date(chat.snoozedUntil);
+  if (isToday(until)) return `s/d ${format(until, "HH:mm")}`;
+  if (isTomorrow(until)) return `s/d besok ${format(until, "HH:mm")}`;
+  return `s/d ${format(until, "dd MMM HH:mm")}`;
+};
+
+/**
+ * Common snooze/reminder times relative to now
+ */
+export const getSnoozePresets = (now: Date = new Date()): SnoozePreset[] => {
+  const at = (date: Date, hour: number) => setHours(startOfHour(date), hour);
+
+  return [
+    { label: "3 jam lagi", until: startOfMinute(addHours(now, 3)) },
+    { label: "Besok pagi", until: at(addDays(now, 1), 9) },
+    { label: "Lusa", until: at(addDays(now, 2), 9) },
+    { label: "Senin depan", until: at(nextMonday(now), 9) },
+  ];
+};
+
+/**
+ * Value for <input type="datetime-local"> in local time
+ */
+export const toDateTimeLocalValue = (date: Date): string =>
+  format(date, "yyyy-MM-dd'T'HH:mm");
@@ -0,0 +1,80 @@
+/**
+ * Content lines of vCard (RFC 6350) and iCalendar (RFC 5545) files
+ * Both formats fold long lines and escape values the same way.
+ */
+
+export interface ContentLine {
+  name: string; // Upper-case, without group prefix: "item1.TEL" -> "TEL"
+  params: Record<string, string>; // Upper-case keys: { VALUE: "DATE" }
+  value: string; // Raw value, see unescapeContentValue
+}
+
+/**
+ * Unfold a file into its logical lines
+ * Continuation lines start with a space or tab.
+ */
+export const unfoldContentLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Split "NAME;PARAM=value:VALUE", or null for a line without a value
+ */
+export const parseContentLine = (line: string): ContentLine | null => {
+  // The first colon outside a quoted parameter value ends the name part
+  let separator = -1;
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...params] = line.slice(0, separator).split(";");
+  return {
+    name: name.split(".").pop().toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, ...rest] = param.split("=");
+        return [key.toUpperCase(), rest.join("=").replace(/^"|"$/g, "")];
+      }),
+    ),
+    value: line.slice(separator + 1),
+  };
+};
+
+/**
+ * Resolve the \n, \, \; and \\ escapes of a text value
+ * One pass, so "\\n" stays a backslash followed by "n".
+ */
+export const unescapeContentValue = (value: string, newline = "\n"): string =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? newline : char,
+  );
+
+/**
+ * Split a structured value (N, ORG, ADR) on its unescaped ";" separators
+ * Components are unescaped after splitting, so "Acme\; Inc" stays one part.
+ */
+export const splitStructuredValue = (value: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\") {
+      i++; // Skip the escaped character
+    } else if (value[i] === ";") {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+
+  return parts.map((part) => unescapeContentValue(part));
+};
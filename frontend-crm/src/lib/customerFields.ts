@@ -0,0 +1,71 @@
+import { format, isValid, parseISO } from "date-fns";
+import type { Customer, CustomerCustomField } from "@/services/crmChatsService";
+
+/**
+ * Customer custom field helpers
+ * Values of org-defined fields are stored in `customer.metadata.custom_fields[key]`
+ */
+
+export type CustomFieldValue = string | number | null;
+
+/**
+ * Turn a label into a stable metadata key, e.g. "Nomor NPWP" -> "nomor_npwp"
+ */
+export const toCustomFieldKey = (label: string): string =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+/**
+ * Read all custom field values of a customer
+ */
+export const getCustomFieldValues = (
+  customer: Pick<Customer, "metadata"> | null | undefined,
+): Record<string, CustomFieldValue> => customer?.metadata?.custom_fields || {};
+
+/**
+ * Format a stored value for display according to the field type
+ */
+export const formatCustomFieldValue = (
+  field: CustomerCustomField,
+  value: CustomFieldValue | undefined,
+): string => {
+  if (value === null || value === undefined || value === "") return "-";
+
+  if (field.type === "date") {
+    // parseISO reads "YYYY-MM-DD" as a local date, `new Date` as UTC
+    const date = parseISO(String(value));
+    return isValid(date) ? format(date, "dd MMM yyyy") : String(value);
+  }
+  if (field.type === "number") {
+    const number = Number(value);
+    return isNaN(number)
+      ? String(value)
+      : new Intl.NumberFormat("id-ID").format(number);
+  }
+  return String(value);
+};
+
+/**
+ * Validate a value against its field definition. Returns an error message or null.
+ */
+export const validateCustomFieldValue = (
+  field: CustomerCustomField,
+  value: CustomFieldValue | undefined,
+): string | null => {
+  const isEmpty = value === null || value === undefined || value === "";
+  if (isEmpty) return field.required ? `${field.label} harus diisi` : null;
+
+  if (field.type === "number" && isNaN(Number(value))) {
+    return `${field.label} harus berupa angka`;
+  }
+  if (field.type === "date" && !isValid(parseISO(String(value)))) {
+    return `${field.label} harus berupa tanggal yang valid`;
+  }
+  if (field.type === "select" && !field.options.includes(String(value))) {
+    return `${field.label} tidak valid`;
+  }
+  return null;
+};
@@ -0,0 +1,563 @@
+import * as XLSX from "xlsx";
+import { format, isValid, parse, parseISO } from "date-fns";
+import { sanitizePhone } from "@/services/crmAgentsService";
+import {
+  parseContentLine,
+  splitStructuredValue,
+  unescapeContentValue,
+  unfoldContentLines,
+} from "./contentLines";
+import type {
+  Customer,
+  CustomerCustomField,
+  CustomerInput,
+} from "@/services/crmChatsService";
+import {
+  getCustomFieldValues,
+  validateCustomFieldValue,
+  type CustomFieldValue,
+} from "@/lib/customerFields";
+
+/**
+ * Customer import & export helpers
+ * Parses CSV/XLSX/vCard files into rows, maps them to customers and serializes customers back.
+ */
+
+// ============= Types =============
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export type StandardImportField =
+  | "name"
+  | "phone"
+  | "email"
+  | "company"
+  | "location"
+  | "industry"
+  | "position"
+  | "notes"
+  | "telegram_id";
+
+// "custom:<key>" targets an org-defined custom field
+export type ImportTarget = "ignore" | StandardImportField | `custom:${string}`;
+
+export interface ImportTargetOption {
+  value: ImportTarget;
+  label: string;
+}
+
+export type ImportDuplicate =
+  { source: "file"; row: number } | { source: "existing"; customer: Customer };
+
+export interface ImportPreviewRow {
+  row: number; // 1-based row number as shown in a spreadsheet (header = row 1)
+  input: CustomerInput;
+  errors: string[];
+  duplicate: ImportDuplicate | null;
+}
+
+export type CustomerExportFormat = "csv" | "xlsx" | "vcf";
+
+// ============= Constants =============
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const STANDARD_FIELDS: { value: StandardImportField; label: string }[] = [
+  { value: "name", label: "Name" },
+  { value: "phone", label: "Phone" },
+  { value: "email", label: "Email" },
+  { value: "company", label: "Company" },
+  { value: "location", label: "Location" },
+  { value: "industry", label: "Industry" },
+  { value: "position", label: "Position" },
+  { value: "notes", label: "Notes" },
+  { value: "telegram_id", label: "Telegram ID" },
+];
+
+// Lower-cased header aliases used to pre-fill the column mapping
+const HEADER_ALIASES: Record<StandardImportField, string[]> = {
+  name: ["name", "nama", "full name", "nama lengkap", "contact", "kontak"],
+  phone: [
+    "phone",
+    "telepon",
+    "no hp",
+    "no. hp",
+    "nomor hp",
+    "mobile",
+    "whatsapp",
+    "wa",
+    "phone number",
+  ],
+  email: ["email", "e-mail", "email address"],
+  company: ["company", "perusahaan", "organization", "org"],
+  location: ["location", "lokasi", "city", "kota", "address", "alamat"],
+  industry: ["industry", "industri"],
+  position: ["position", "jabatan", "title", "job title"],
+  notes: ["notes", "note", "catatan"],
+  telegram_id: ["telegram", "telegram id", "telegram_id"],
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_REGEX = /^\d{6,15}$/;
+
+// ============= Parsing =============
+
+/**
+ * Unfold and split a vCard file into contacts
+ * Supports the common FN, N, TEL, EMAIL, ORG, TITLE, ADR and NOTE properties.
+ */
+export const parseVCards = (text: string): ParsedSheet => {
+  const headers = [
+    "Name",
+    "Phone",
+    "Email",
+    "Company",
+    "Position",
+    "Location",
+    "Notes",
+  ];
+  const rows: string[][] = [];
+
+  let card: Record<string, string> | null = null;
+  unfoldContentLines(text).forEach((line) => {
+    if (/^BEGIN:VCARD$/i.test(line)) {
+      card = {};
+      return;
+    }
+    if (/^END:VCARD$/i.test(line)) {
+      if (card) {
+        rows.push([
+          card.FN || card.N || "",
+          card.TEL || "",
+          card.EMAIL || "",
+          card.ORG || "",
+          card.TITLE || "",
+          card.ADR || "",
+          card.NOTE || "",
+        ]);
+      }
+      card = null;
+      return;
+    }
+    if (!card) return;
+
+    const contentLine = parseContentLine(line);
+    if (!contentLine) return;
+
+    const property = contentLine.name;
+
+    // Only keep the first value of repeated properties (e.g. several TEL lines)
+    if (card[property]) return;
+
+    if (property === "N") {
+      // N:Family;Given;Additional;Prefix;Suffix
+      const [family, given] = splitStructuredValue(contentLine.value);
+      card.N = [given, family].filter(Boolean).join(" ");
+    } else if (property === "ORG") {
+      card.ORG = splitStructuredValue(contentLine.value)[0];
+    } else if (property === "ADR") {
+      // ADR:PO;Ext;Street;Locality;Region;Code;Country -> prefer the locality
+      const parts = splitStructuredValue(contentLine.value);
+      card.ADR = parts[3] || parts.filter(Boolean).join(", ");
+    } else {
+      card[property] = unescapeContentValue(contentLine.value);
+    }
+  });
+
+  return { headers, rows };
+};
+
+// Undo toSafeCell, so an exported file re-imports unchanged
+const fromSafeCell = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+
+/**
+ * Text of a sheet cell for import
+ * Numbers use their raw value, as the formatted text may be rounded
+ * (a phone 628123456789 shows as "6.28123E+11"); date cells become "YYYY-MM-DD".
+ */
+const cellToText = (cell: XLSX.CellObject | undefined): string => {
+  if (!cell || cell.t === "e" || cell.t === "z") return "";
+  // With cellDates SheetJS builds dates from the local calendar date
+  if (cell.t === "d") return format(cell.v as Date, "yyyy-MM-dd");
+  if (cell.t === "n") return String(cell.v);
+  return cell.w ?? String(cell.v ?? "");
+};
+
+/**
+ * Read a CSV, XLSX or vCard file into a header row plus data rows
+ */
+export const parseCustomerFile = async (file: File): Promise<ParsedSheet> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".vcf") || name.endsWith(".vcard")) {
+    return parseVCards(await file.text());
+  }
+
+  const buf = await file.arrayBuffer();
+  // raw: CSV cells keep their original text instead of SheetJS' reformatting
+  // (e.g. "01/05/2024" would become "1/5/24"); spreadsheet date cells are read as dates
+  const isCsv = name.endsWith(".csv");
+  const wb = XLSX.read(buf, { type: "array", raw: isCsv, cellDates: !isCsv });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws?.["!ref"]) return { headers: [], rows: [] };
+
+  const range = XLSX.utils.decode_range(ws["!ref"]);
+  const data: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellToText(ws[XLSX.utils.encode_cell({ r, c })]));
+    }
+    data.push(row);
+  }
+  const [headerRow = [], ...rows] = data;
+
+  return {
+    headers: headerRow.map((header) => header.trim()),
+    rows: rows
+      .map((row) => row.map((cell) => fromSafeCell(cell.trim())))
+      .filter((row) => row.some(Boolean)),
+  };
+};
+
+// ============= Mapping =============
+
+/**
+ * Options for the column mapping select
+ */
+export const getImportTargets = (
+  customFields: CustomerCustomField[],
+): ImportTargetOption[] => [
+  { value: "ignore", label: "— Abaikan —" },
+  ...STANDARD_FIELDS,
+  ...customFields.map((field) => ({
+    value: `custom:${field.key}` as ImportTarget,
+    label: `${field.label} (custom)`,
+  })),
+];
+
+/**
+ * Guess the target field of every column from its header
+ */
+export const guessImportMapping = (
+  headers: string[],
+  customFields: CustomerCustomField[],
+): ImportTarget[] => {
+  const used = new Set<ImportTarget>();
+
+  return headers.map((header) => {
+    const normalized = header.toLowerCase().trim();
+
+    const custom = customFields.find(
+      (field) =>
+        field.key === normalized || field.label.toLowerCase() === normalized,
+    );
+    const standard = STANDARD_FIELDS.find(
+      (field) =>
+        field.value === normalized ||
+        HEADER_ALIASES[field.value].includes(normalized),
+    );
+    const target: ImportTarget = custom
+      ? `custom:${custom.key}`
+      : standard?.value || "ignore";
+
+    // Map each field only once, the first matching column wins
+    if (target !== "ignore" && used.has(target)) return "ignore";
+    used.add(target);
+    return target;
+  });
+};
+
+// ============= Normalization & Validation =============
+
+/**
+ * Normalize a phone number from a spreadsheet or phone book
+ * Formatting characters are dropped, then the number is sanitized like agent phones.
+ */
+export const normalizeImportPhone = (phone: string): string =>
+  sanitizePhone((phone || "").replace(/[\s\-().]/g, ""));
+
+/**
+ * Parse the date formats a spreadsheet typically holds, as local dates:
+ * ISO ("2024-05-01"), day-first ("01/05/2024", "1-5-2024") and Excel's
+ * default display of date cells ("5/1/24", month first)
+ */
+const parseImportDate = (value: string): Date | null => {
+  const trimmed = value.trim();
+  let date: Date | null = null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    date = parseISO(trimmed);
+  } else if (/^\d{1,2}[/.-]\d{1,2}[/.-]\d{4}$/.test(trimmed)) {
+    date = parse(trimmed.replace(/[.-]/g, "/"), "d/M/yyyy", new Date());
+  } else if (/^\d{1,2}\/\d{1,2}\/\d{2}$/.test(trimmed)) {
+    date = parse(trimmed, "M/d/yy", new Date());
+  }
+  return date && isValid(date) ? date : null;
+};
+
+const normalizeCustomValue = (
+  field: CustomerCustomField,
+  value: string,
+): CustomFieldValue => {
+  if (!value) return null;
+  if (field.type === "number") {
+    const number = Number(value.replace(/,/g, ""));
+    return isNaN(number) ? value : number;
+  }
+  if (field.type === "date") {
+    const date = parseImportDate(value);
+    return date ? format(date, "yyyy-MM-dd") : value;
+  }
+  if (field.type === "select") {
+    // Accept case-insensitive matches of the configured options
+    return (
+      field.options.find(
+        (option) => option.toLowerCase() === value.toLowerCase(),
+      ) || value
+    );
+  }
+  return value;
+};
+
+/**
+ * Map parsed rows to customer payloads, validate them and flag duplicates inside the file
+ */
+export const buildImportRows = (
+  sheet: ParsedSheet,
+  mapping: ImportTarget[],
+  customFields: CustomerCustomField[],
+): ImportPreviewRow[] => {
+  const seenPhones = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+
+  return sheet.rows.map((cells, index) => {
+    const row = index + 2; // Header is row 1
+    const errors: string[] = [];
+    const standard: Partial<Record<StandardImportField, string>> = {};
+    const custom: Record<string, CustomFieldValue> = {};
+
+    mapping.forEach((target, column) => {
+      const value = (cells[column] || "").trim();
+      if (target === "ignore" || !value) return;
+
+      if (target.startsWith("custom:")) {
+        const field = customFields.find(
+          (f) => f.key === target.slice("custom:".length),
+        );
+        if (field) custom[field.key] = normalizeCustomValue(field, value);
+      } else {
+        standard[target as StandardImportField] = value;
+      }
+    });
+
+    const phone = standard.phone ? normalizeImportPhone(standard.phone) : "";
+    const email = (standard.email || "").toLowerCase();
+
+    if (!standard.name && !phone && !email) {
+      errors.push("Nama, phone, atau email harus diisi");
+    }
+    if (phone && !PHONE_REGEX.test(phone)) {
+      errors.push(`Nomor telepon tidak valid: ${standard.phone}`);
+    }
+    if (email && !EMAIL_REGEX.test(email)) {
+      errors.push(`Email tidak valid: ${standard.email}`);
+    }
+    customFields.forEach((field) => {
+      const error = validateCustomFieldValue(field, custom[field.key]);
+      if (error) errors.push(error);
+    });
+
+    // Duplicates inside the file itself (same phone or email as an earlier row)
+    const firstRow =
+      (phone && seenPhones.get(phone)) || (email && seenEmails.get(email));
+    if (phone && !seenPhones.has(phone)) seenPhones.set(phone, row);
+    if (email && !seenEmails.has(email)) seenEmails.set(email, row);
+
+    const metadata: Record<string, unknown> = {};
+    (
+      [
+        "company",
+        "location",
+        "industry",
+        "position",
+        "notes",
+        "telegram_id",
+      ] as const
+    ).forEach((key) => {
+      if (standard[key]) metadata[key] = standard[key];
+    });
+    if (Object.keys(custom).length > 0) metadata.custom_fields = custom;
+
+    return {
+      row,
+      input: {
+        name: standard.name || phone || email,
+        phone: phone || null,
+        email: email || null,
+        metadata,
+      },
+      errors,
+      duplicate: firstRow ? { source: "file", row: firstRow } : null,
+    };
+  });
+};
+
+/**
+ * Flag rows that match an existing customer by phone or email
+ * Duplicates inside the file take precedence since only the first row is imported.
+ */
+export const markExistingDuplicates = (
+  rows: ImportPreviewRow[],
+  existing: Customer[],
+): ImportPreviewRow[] => {
+  const byPhone = new Map<string, Customer>();
+  const byEmail = new Map<string, Customer>();
+  existing.forEach((customer) => {
+    if (customer.phone)
+      byPhone.set(normalizeImportPhone(customer.phone), customer);
+    if (customer.email) byEmail.set(customer.email.toLowerCase(), customer);
+  });
+
+  return rows.map((row) => {
+    if (row.duplicate) return row;
+    const match =
+      (row.input.phone && byPhone.get(row.input.phone)) ||
+      (row.input.email && byEmail.get(row.input.email));
+    return match
+      ? { ...row, duplicate: { source: "existing", customer: match } }
+      : row;
+  });
+};
+
+// ============= Export =============
+
+/**
+ * Quote text that a spreadsheet would evaluate, e.g. a contact named "=HYPERLINK(...)"
+ */
+const toSafeCell = (value: string | number): string | number =>
+  typeof value === "string" && FORMULA_PREFIX.test(value)
+    ? `'${value}`
+    : value;
+
+/**
+ * Flatten customers into spreadsheet records
+ * Headers match the import aliases so an exported file can be re-imported as is.
+ */
+export const customersToRecords = (
+  customers: Customer[],
+  customFields: CustomerCustomField[],
+): Record<string, string | number>[] =>
+  customers.map((customer) => {
+    const values = getCustomFieldValues(customer);
+    const record: Record<string, string | number> = {
+      Name: customer.name || "",
+      Phone: customer.phone || "",
+      Email: customer.email || "",
+      Company: customer.metadata?.company || "",
+      Location: customer.metadata?.location || "",
+      Industry: customer.metadata?.industry || "",
+      Position: customer.metadata?.position || "",
+      Notes: customer.metadata?.notes || "",
+      "Telegram ID": customer.metadata?.telegram_id || "",
+    };
+    customFields.forEach((field) => {
+      record[field.label] = values[field.key] ?? "";
+    });
+    return Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, toSafeCell(value)]),
+    );
+  });
+
+const escapeVCardValue = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/([,;])/g, "\\$1");
+
+/**
+ * Phones are stored without "+"; a number starting with a country code
+ * (e.g. "62812...") gets it back, local numbers ("0812...") stay as they are
+ */
+const toVCardPhone = (phone: string): string => {
+  const trimmed = phone.trim();
+  return /^[1-9]\d{5,14}$/.test(trimmed) ? `+${trimmed}` : trimmed;
+};
+
+/**
+ * Serialize customers as vCard 3.0 contacts
+ */
+export const customersToVCards = (customers: Customer[]): string =>
+  customers
+    .map((customer) => {
+      const lines = [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        `FN:${escapeVCardValue(customer.name || "")}`,
+        `N:;${escapeVCardValue(customer.name || "")};;;`,
+      ];
+      if (customer.phone)
+        lines.push(`TEL;TYPE=CELL:${toVCardPhone(customer.phone)}`);
+      if (customer.email) lines.push(`EMAIL:${customer.email}`);
+      if (customer.metadata?.company)
+        lines.push(`ORG:${escapeVCardValue(customer.metadata.company)}`);
+      if (customer.metadata?.position)
+        lines.push(`TITLE:${escapeVCardValue(customer.metadata.position)}`);
+      if (customer.metadata?.location)
+        lines.push(`ADR:;;;${escapeVCardValue(customer.metadata.location)};;;`);
+      if (customer.metadata?.notes)
+        lines.push(`NOTE:${escapeVCardValue(customer.metadata.notes)}`);
+      lines.push("END:VCARD");
+      return lines.join("\r\n");
+    })
+    .join("\r\n");
+
+/**
+ * Build the export file of the given customers
+ */
+export const buildCustomerExport = (
+  customers: Customer[],
+  customFields: CustomerCustomField[],
+  exportFormat: CustomerExportFormat,
+): { blob: Blob; filename: string } => {
+  const filename = `customers_${new Date().toISOString().split("T")[0]}.${exportFormat}`;
+
+  if (exportFormat === "vcf") {
+    return {
+      blob: new Blob([customersToVCards(customers)], {
+        type: "text/vcard;charset=utf-8",
+      }),
+      filename,
+    };
+  }
+
+  const ws = XLSX.utils.json_to_sheet(
+    customersToRecords(customers, customFields),
+  );
+
+  if (exportFormat === "csv") {
+    // BOM so Excel opens UTF-8 names correctly
+    return {
+      blob: new Blob(["\uFEFF" + XLSX.utils.sheet_to_csv(ws)], {
+        type: "text/csv;charset=utf-8",
+      }),
+      filename,
+    };
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Customers");
+  const data = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+  return {
+    blob: new Blob([data], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    }),
+    filename,
+  };
+};
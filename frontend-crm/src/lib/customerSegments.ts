@@ -0,0 +1,131 @@
+import type { CustomerCustomField } from "@/services/crmChatsService";
+import type {
+  SegmentField,
+  SegmentOperator,
+  SegmentRule,
+} from "@/services/crmSegmentsService";
+
+/**
+ * Segment rule builder helpers
+ * Describe which operators and value inputs each field supports.
+ */
+
+export type SegmentValueInput =
+  "channel" | "stage" | "text" | "number" | "date" | "none";
+
+export interface SegmentFieldOption {
+  field: SegmentField;
+  label: string;
+  operators: SegmentOperator[];
+  customField?: CustomerCustomField;
+}
+
+export const SEGMENT_OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  is: "adalah",
+  is_not: "bukan",
+  contains: "mengandung",
+  not_contains: "tidak mengandung",
+  gt: "lebih dari",
+  lt: "kurang dari",
+  eq: "sama dengan",
+  within_days: "dalam N hari terakhir",
+  older_than_days: "lebih dari N hari lalu",
+  before: "sebelum",
+  after: "sesudah",
+  is_empty: "kosong",
+  is_not_empty: "tidak kosong",
+};
+
+export const SEGMENT_CHANNELS = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "telegram", label: "Telegram" },
+  { value: "email", label: "Email" },
+  { value: "web", label: "Web Chat" },
+];
+
+const BASE_FIELDS: SegmentFieldOption[] = [
+  { field: "channel", label: "Channel", operators: ["is", "is_not"] },
+  {
+    field: "last_contact",
+    label: "Last Contact",
+    operators: ["within_days", "older_than_days", "before", "after"],
+  },
+  {
+    field: "ticket_count",
+    label: "Jumlah Tiket",
+    operators: ["gt", "lt", "eq"],
+  },
+  {
+    field: "tags",
+    label: "Tags",
+    operators: ["contains", "not_contains", "is_empty", "is_not_empty"],
+  },
+  { field: "deal_stage", label: "Deal Stage", operators: ["is", "is_not"] },
+];
+
+const CUSTOM_FIELD_OPERATORS: Record<
+  CustomerCustomField["type"],
+  SegmentOperator[]
+> = {
+  text: ["is", "is_not", "contains", "is_empty", "is_not_empty"],
+  number: ["eq", "gt", "lt", "is_empty", "is_not_empty"],
+  date: ["before", "after", "is_empty", "is_not_empty"],
+  select: ["is", "is_not", "is_empty", "is_not_empty"],
+};
+
+/**
+ * All fields a rule can target, including the organization's custom fields
+ */
+export const getSegmentFieldOptions = (
+  customFields: CustomerCustomField[],
+): SegmentFieldOption[] => [
+  ...BASE_FIELDS,
+  ...customFields.map((customField) => ({
+    field: `custom:${customField.key}` as SegmentField,
+    label: customField.label,
+    operators: CUSTOM_FIELD_OPERATORS[customField.type],
+    customField,
+  })),
+];
+
+/**
+ * Which input the value of a rule needs
+ */
+export const getSegmentValueInput = (
+  option: SegmentFieldOption | undefined,
+  operator: SegmentOperator,
+): SegmentValueInput => {
+  if (!option || operator === "is_empty" || operator === "is_not_empty")
+    return "none";
+  if (operator === "within_days" || operator === "older_than_days")
+    return "number";
+  if (option.field === "channel") return "channel";
+  if (option.field === "deal_stage") return "stage";
+  if (option.field === "ticket_count") return "number";
+  if (option.field === "last_contact") return "date";
+  if (option.customField?.type === "number") return "number";
+  if (option.customField?.type === "date") return "date";
+  return "text";
+};
+
+export const createEmptyRule = (): SegmentRule => ({
+  field: "channel",
+  operator: "is",
+  value: "whatsapp",
+});
+
+/**
+ * Validate a single rule. Returns an error message or null.
+ */
+export const validateSegmentRule = (
+  rule: SegmentRule,
+  option: SegmentFieldOption | undefined,
+): string | null => {
+  if (!option) return "Field tidak ditemukan";
+  const input = getSegmentValueInput(option, rule.operator);
+  if (input === "none") return null;
+  if (rule.value === null || rule.value === "") return "Nilai harus diisi";
+  if (input === "number" && isNaN(Number(rule.value)))
+    return "Nilai harus berupa angka";
+  return null;
+};
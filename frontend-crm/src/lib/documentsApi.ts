@@ -67,15 +67,18 @@ export async function deleteDocument(
 
 /**
  * Query documents using semantic search
- * Returns most relevant document chunks based on query
+ * Returns most relevant document chunks based on query.
+ * Pass an agent id to search only that AI agent's knowledge documents.
  */
 export async function queryDocuments(
   query: string,
-  topK: number = 5
+  topK: number = 5,
+  agentId?: string
 ): Promise<QueryResponse> {
   return apiClient.post<QueryResponse>('/filemanager/documents/query', {
     query,
-    top_k: topK
+    top_k: topK,
+    ...(agentId && { agent_id: agentId })
   });
 }
 
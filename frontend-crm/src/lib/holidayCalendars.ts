@@ -0,0 +1,354 @@
+/**
+ * Holiday calendar helpers
+ * Parses ICS files into calendar entries and resolves the entry of a date.
+ */
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isValid,
+  parseISO,
+} from "date-fns";
+import type { BusinessDay } from "@/services/crmSlaService";
+import type {
+  CalendarEntry,
+  CalendarEntryInput,
+} from "@/services/crmCalendarsService";
+import {
+  parseContentLine,
+  unescapeContentValue,
+  unfoldContentLines,
+  type ContentLine,
+} from "./contentLines";
+
+export interface IcsSkippedEvent {
+  name: string;
+  reason: string;
+}
+
+export interface IcsImport {
+  entries: CalendarEntryInput[];
+  skipped: IcsSkippedEvent[]; // Events that cannot become whole-day closures
+}
+
+type IcsEvent = Record<string, ContentLine>;
+type DateSpan = Pick<CalendarEntryInput, "start_date" | "end_date">;
+
+const ICS_DATE = /^(\d{4})(\d{2})(\d{2})$/;
+const ICS_DATE_TIME = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const ICS_DURATION =
+  /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+// Yearly holidays are expanded up to this many years after the current one
+const RECURRENCE_YEARS_AHEAD = 2;
+const SUPPORTED_RRULE_PARTS = [
+  "FREQ",
+  "INTERVAL",
+  "COUNT",
+  "UNTIL",
+  "BYMONTH",
+  "BYMONTHDAY",
+  "WKST",
+];
+
+const TIMED_EVENT_REASON = "Event dengan jam tertentu, bukan seharian";
+const RECURRENCE_REASON = "Pengulangan selain tahunan tidak didukung";
+
+const getSpan = (entry: CalendarEntryInput) =>
+  Date.parse(entry.end_date) - Date.parse(entry.start_date);
+
+// "20250331" -> "2025-03-31"
+const toEntryDate = (icsDate: string) => icsDate.replace(ICS_DATE, "$1-$2-$3");
+
+const shiftDate = (date: string, days: number) =>
+  format(addDays(parseISO(date), days), "yyyy-MM-dd");
+
+// parseISO rejects impossible dates such as Feb 29 of a common year
+const isValidDate = (date: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) && isValid(parseISO(date));
+
+const parseDurationMs = (duration: string): number | null => {
+  const match = duration.match(ICS_DURATION);
+  if (!match) return null;
+  const [weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => Number(part || 0));
+  return (
+    (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 * 1000 +
+    seconds * 1000
+  );
+};
+
+// Wall-clock time of an instant in a timezone
+const getWallTime = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return {
+    date: `${get("year")}-${String(get("month")).padStart(2, "0")}-${String(get("day")).padStart(2, "0")}`,
+    utc: Date.UTC(
+      get("year"),
+      get("month") - 1,
+      get("day"),
+      get("hour") % 24,
+      get("minute"),
+      get("second"),
+    ),
+    isMidnight: get("hour") % 24 === 0 && get("minute") === 0,
+  };
+};
+
+// Instant of a wall-clock time (given as if it were UTC) in a timezone
+const fromWallTime = (wallUtc: number, timezone: string) => {
+  const offset = getWallTime(new Date(wallUtc), timezone).utc - wallUtc;
+  const guess = wallUtc - offset;
+  // Re-check once, the offset differs across a DST change
+  const correction = getWallTime(new Date(guess), timezone).utc - wallUtc;
+  return new Date(guess - correction);
+};
+
+/**
+ * DTSTART/DTEND with a time: UTC ("...Z"), in its TZID, or floating in the
+ * organization's timezone
+ */
+const toInstant = (line: ContentLine, timezone: string): Date | null => {
+  const match = line.value.match(ICS_DATE_TIME);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map(Number);
+  const wallUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (match[7] === "Z") return new Date(wallUtc);
+
+  try {
+    return fromWallTime(wallUtc, line.params.TZID || timezone);
+  } catch {
+    // Unknown TZID, e.g. a Windows zone name
+    return fromWallTime(wallUtc, timezone);
+  }
+};
+
+/**
+ * Dates an event closes, in the organization's timezone. Timed events only
+ * count when they run from midnight to midnight.
+ */
+const getEventSpan = (event: IcsEvent, timezone: string): DateSpan | string => {
+  const start = event.DTSTART;
+  if (!start) return "Tanpa tanggal mulai";
+  const durationMs = event.DURATION
+    ? parseDurationMs(event.DURATION.value)
+    : null;
+
+  if (start.params.VALUE === "DATE" || ICS_DATE.test(start.value)) {
+    const startDate = toEntryDate(start.value);
+    if (!isValidDate(startDate)) return "Tanggal tidak valid";
+    // DTEND of all-day events is exclusive, entries store an inclusive end
+    let endDate = startDate;
+    const endValue = event.DTEND?.value.slice(0, 8);
+    if (endValue && isValidDate(toEntryDate(endValue))) {
+      endDate = shiftDate(toEntryDate(endValue), -1);
+    } else if (durationMs) {
+      endDate = shiftDate(
+        startDate,
+        Math.ceil(durationMs / (24 * 60 * 60 * 1000)) - 1,
+      );
+    }
+    return {
+      start_date: startDate,
+      end_date: endDate < startDate ? startDate : endDate,
+    };
+  }
+
+  const startAt = toInstant(start, timezone);
+  const endAt = event.DTEND
+    ? toInstant(event.DTEND, timezone)
+    : startAt && durationMs
+      ? new Date(startAt.getTime() + durationMs)
+      : null;
+  if (!startAt || !endAt || endAt <= startAt) return TIMED_EVENT_REASON;
+
+  const from = getWallTime(startAt, timezone);
+  const to = getWallTime(endAt, timezone);
+  if (!from.isMidnight || !to.isMidnight) return TIMED_EVENT_REASON;
+  return { start_date: from.date, end_date: shiftDate(to.date, -1) };
+};
+
+/**
+ * Occurrences of a yearly RRULE from the current year on; other rules are
+ * not supported
+ */
+const expandYearly = (
+  span: DateSpan,
+  rrule: string,
+  exdates: string[],
+): DateSpan[] | string => {
+  const rule: Record<string, string> = Object.fromEntries(
+    rrule.split(";").map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()];
+    }),
+  );
+  const [, month, day] = span.start_date.split("-").map(Number);
+  if (
+    rule.FREQ !== "YEARLY" ||
+    Object.keys(rule).some((key) => !SUPPORTED_RRULE_PARTS.includes(key)) ||
+    (rule.BYMONTH && Number(rule.BYMONTH) !== month) ||
+    (rule.BYMONTHDAY && Number(rule.BYMONTHDAY) !== day)
+  ) {
+    return RECURRENCE_REASON;
+  }
+
+  const interval = Math.max(1, Number(rule.INTERVAL || 1));
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const until = rule.UNTIL ? toEntryDate(rule.UNTIL.slice(0, 8)) : null;
+  const length = differenceInCalendarDays(
+    parseISO(span.end_date),
+    parseISO(span.start_date),
+  );
+  const currentYear = new Date().getFullYear();
+  const lastYear = currentYear + RECURRENCE_YEARS_AHEAD;
+
+  const occurrences: DateSpan[] = [];
+  let seen = 0;
+  for (
+    let year = Number(span.start_date.slice(0, 4));
+    year <= lastYear && seen < count;
+    year += interval
+  ) {
+    const startDate = `${year}${span.start_date.slice(4)}`;
+    // Feb 29 only happens in leap years and does not count otherwise
+    if (!isValidDate(startDate)) continue;
+    if (until && startDate > until) break;
+    seen += 1;
+    if (year < currentYear || exdates.includes(startDate)) continue;
+    occurrences.push({
+      start_date: startDate,
+      end_date: shiftDate(startDate, length),
+    });
+  }
+  return occurrences.length > 0 ? occurrences : "Pengulangan sudah berakhir";
+};
+
+/**
+ * Read the VEVENTs of an ICS file as whole-day closures. Times are read in
+ * `timezone` (the organization's); timed events and unsupported recurrences
+ * are reported in `skipped`.
+ */
+export const parseIcsEvents = (text: string, timezone: string): IcsImport => {
+  const entries: CalendarEntryInput[] = [];
+  const skipped: IcsSkippedEvent[] = [];
+
+  let event: IcsEvent | null = null;
+  let exdates: string[] = [];
+  // Components nested in an event, e.g. VALARM, carry their own properties
+  let nestedDepth = 0;
+
+  const addEvent = (current: IcsEvent) => {
+    const name =
+      unescapeContentValue(current.SUMMARY?.value || "", " ").trim() || "Libur";
+    const span = getEventSpan(current, timezone);
+    const occurrences =
+      typeof span === "string" || !current.RRULE
+        ? span
+        : expandYearly(span, current.RRULE.value, exdates);
+
+    if (typeof occurrences === "string") {
+      skipped.push({ name, reason: occurrences });
+      return;
+    }
+    (Array.isArray(occurrences) ? occurrences : [occurrences]).forEach(
+      (occurrence) =>
+        entries.push({
+          name,
+          ...occurrence,
+          closed: true,
+          start: null,
+          end: null,
+          auto_reply_message: null,
+        }),
+    );
+  };
+
+  unfoldContentLines(text).forEach((raw) => {
+    const line = parseContentLine(raw);
+    if (!line) return;
+    const component = line.value.toUpperCase();
+
+    if (line.name === "BEGIN") {
+      if (event) {
+        nestedDepth += 1;
+      } else if (component === "VEVENT") {
+        event = {};
+        exdates = [];
+      }
+      return;
+    }
+    if (line.name === "END") {
+      if (nestedDepth > 0) {
+        nestedDepth -= 1;
+      } else if (event && component === "VEVENT") {
+        addEvent(event);
+        event = null;
+      }
+      return;
+    }
+    if (!event || nestedDepth > 0) return;
+
+    if (line.name === "EXDATE") {
+      exdates.push(
+        ...line.value.split(",").map((value) => toEntryDate(value.slice(0, 8))),
+      );
+      return;
+    }
+    if (!event[line.name]) event[line.name] = line;
+  });
+
+  return { entries, skipped };
+};
+
+/**
+ * The entry covering a YYYY-MM-DD date; the shortest range wins when entries
+ * overlap, so a one-off closure beats a month of Ramadan hours
+ */
+export const findCalendarEntry = <T extends CalendarEntryInput>(
+  entries: T[],
+  date: string,
+): T | null =>
+  entries
+    .filter((entry) => entry.start_date <= date && date <= entry.end_date)
+    .sort((a, b) => getSpan(a) - getSpan(b))[0] || null;
+
+/**
+ * Business hours of a date as set by its calendar entry
+ */
+export const entryToBusinessDay = (entry: CalendarEntryInput): BusinessDay => ({
+  enabled: !entry.closed && Boolean(entry.start && entry.end),
+  start: entry.start || "00:00",
+  end: entry.end || "00:00",
+});
+
+/**
+ * "17 Agu 2025" or "31 Mar - 1 Apr 2025"
+ */
+export const formatEntryDates = (
+  entry: Pick<CalendarEntry, "start_date" | "end_date">,
+): string => {
+  const toLabel = (date: string, withYear: boolean) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      ...(withYear && { year: "numeric" }),
+    });
+
+  return entry.start_date === entry.end_date
+    ? toLabel(entry.start_date, true)
+    : `${toLabel(entry.start_date, false)} - ${toLabel(entry.end_date, true)}`;
+};
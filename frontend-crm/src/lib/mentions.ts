@@ -0,0 +1,84 @@
+/**
+ * @mention helpers for internal notes
+ * Mentions are written as "@Agent Name" using the teammate's display name.
+ */
+
+export interface MentionCandidate {
+  userId: string;
+  name: string;
+}
+
+export interface MentionSegment {
+  text: string;
+  isMention: boolean;
+}
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Longest names first so "@Budi Santoso" wins over "@Budi"
+const buildMentionRegex = (names: string[]): RegExp | null => {
+  const unique = Array.from(new Set(names.filter(Boolean))).sort(
+    (a, b) => b.length - a.length,
+  );
+  if (unique.length === 0) return null;
+  return new RegExp(`@(${unique.map(escapeRegex).join("|")})(?![\\w])`, "g");
+};
+
+/**
+ * Query typed after a trailing "@", or null when the caret is not in a mention
+ */
+export const getMentionQuery = (text: string): string | null => {
+  const match = text.match(/(?:^|\s)@([^\s@]*)$/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Replace the trailing "@query" with the full mention
+ */
+export const insertMention = (text: string, name: string): string =>
+  text.replace(/@([^\s@]*)$/, `@${name} `);
+
+/**
+ * User ids of the candidates still mentioned in the text
+ */
+export const extractMentionedUserIds = (
+  text: string,
+  candidates: MentionCandidate[],
+): string[] => {
+  const regex = buildMentionRegex(candidates.map((c) => c.name));
+  if (!regex) return [];
+
+  const names = new Set(Array.from(text.matchAll(regex), (m) => m[1]));
+  return Array.from(
+    new Set(candidates.filter((c) => names.has(c.name)).map((c) => c.userId)),
+  );
+};
+
+/**
+ * Split text into plain and mention segments for highlighting
+ */
+export const splitMentions = (
+  text: string,
+  names: string[],
+): MentionSegment[] => {
+  const regex = buildMentionRegex(names);
+  if (!regex) return [{ text, isMention: false }];
+
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(regex)) {
+    if (match.index > lastIndex) {
+      segments.push({
+        text: text.slice(lastIndex, match.index),
+        isMention: false,
+      });
+    }
+    segments.push({ text: match[0], isMention: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), isMention: false });
+  }
+  return segments;
+};
@@ -0,0 +1,177 @@
+/**
+ * Message Outbox
+ * IndexedDB-backed queue of outgoing chat messages and per-chat reply drafts,
+ * so text and attachments survive network drops, reloads and tab switches.
+ */
+
+const DB_NAME = "syntra_crm_outbox";
+const DB_VERSION = 2;
+const OUTBOX_STORE = "outbox";
+const DRAFTS_STORE = "drafts";
+
+// Automatic retries before the message waits for a manual resend
+export const MAX_AUTO_SEND_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+export type OutboxStatus = "pending" | "failed" | "sent";
+
+export interface OutboxMetadata {
+  agent_name?: string;
+  [key: string]: unknown;
+}
+
+export interface OutboxEntry {
+  id: string; // Client id, also sent as metadata.client_message_id
+  chat_id: string;
+  user_id: string;
+  content: string;
+  file: Blob | null;
+  file_name: string | null;
+  file_type: string | null;
+  canned_response_id: string | null;
+  metadata: OutboxMetadata;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number; // Epoch ms
+  last_error: string | null;
+  created_at: string;
+}
+
+interface DraftRecord {
+  id: string; // "<user_id>:<chat_id>", drafts belong to one agent
+  user_id: string;
+  chat_id: string;
+  content: string;
+  updated_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      // Version 1 kept drafts per chat only; they have no owner, so drop them
+      if (event.oldVersion < 2 && db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.deleteObjectStore(DRAFTS_STORE);
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const store = db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+        store.createIndex("user_id", "user_id");
+      }
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later retry, e.g. after private mode blocked the first open
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Backoff before the next automatic attempt: 2s, 4s, 8s ... capped at 60s
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+export const createOutboxId = (): string => {
+  const random =
+    typeof crypto !== "undefined" && crypto.randomUUID
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return `local-${random}`;
+};
+
+// ============= Outbox =============
+
+export const putOutboxEntry = (entry: OutboxEntry): Promise<void> =>
+  runRequest(OUTBOX_STORE, "readwrite", (store) => store.put(entry));
+
+export const deleteOutboxEntry = (id: string): Promise<void> =>
+  runRequest(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+
+/**
+ * Unsent messages of the agent, oldest first
+ */
+export const getOutboxEntries = async (
+  userId: string,
+): Promise<OutboxEntry[]> => {
+  const entries = await runRequest<OutboxEntry[]>(
+    OUTBOX_STORE,
+    "readonly",
+    (store) => store.index("user_id").getAll(userId),
+  );
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+// ============= Drafts =============
+
+const toDraftId = (userId: string, chatId: string) => `${userId}:${chatId}`;
+
+export const getDraft = async (
+  userId: string,
+  chatId: string,
+): Promise<string> => {
+  const draft = await runRequest<DraftRecord | undefined>(
+    DRAFTS_STORE,
+    "readonly",
+    (store) => store.get(toDraftId(userId, chatId)),
+  );
+  return draft?.content || "";
+};
+
+/**
+ * Store the agent's reply draft of a chat; an empty draft is removed
+ */
+export const saveDraft = (
+  userId: string,
+  chatId: string,
+  content: string,
+): Promise<void> =>
+  runRequest(DRAFTS_STORE, "readwrite", (store) =>
+    content.trim()
+      ? store.put({
+          id: toDraftId(userId, chatId),
+          user_id: userId,
+          chat_id: chatId,
+          content,
+          updated_at: new Date().toISOString(),
+        } satisfies DraftRecord)
+      : store.delete(toDraftId(userId, chatId)),
+  );
+
+/**
+ * Remove every stored draft, e.g. on sign-out of a shared browser
+ */
+export const clearDrafts = (): Promise<void> =>
+  runRequest(DRAFTS_STORE, "readwrite", (store) => store.clear());
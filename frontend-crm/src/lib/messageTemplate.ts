@@ -0,0 +1,93 @@
+/**
+ * Message template helpers
+ * Templates use `{{scope.field}}` placeholders, e.g. "Halo {{customer.name}}".
+ */
+
+export interface MessageTemplateContext {
+  customer?: {
+    name?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    metadata?: Record<string, unknown>;
+  } | null;
+  ticket?: { number?: string | null; title?: string | null } | null;
+  agent?: { name?: string | null; email?: string | null } | null;
+  // Formatted opening time, e.g. "Senin, 09.00 WIB"
+  schedule?: { next_open?: string | null } | null;
+}
+
+export interface TemplateVariable {
+  key: string;
+  label: string;
+}
+
+export const CUSTOMER_TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { key: "customer.name", label: "Nama customer" },
+  { key: "customer.first_name", label: "Nama depan" },
+  { key: "customer.email", label: "Email" },
+  { key: "customer.phone", label: "Phone" },
+  { key: "customer.company", label: "Company" },
+];
+
+// Variables available in chat replies (canned responses)
+export const CHAT_TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { key: "customer.name", label: "Nama customer" },
+  { key: "customer.first_name", label: "Nama depan" },
+  { key: "ticket.number", label: "Nomor tiket" },
+  { key: "agent.name", label: "Nama agent" },
+];
+
+// Variables available in out-of-office auto replies
+export const OUT_OF_OFFICE_TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { key: "customer.name", label: "Nama customer" },
+  { key: "customer.first_name", label: "Nama depan" },
+  { key: "schedule.next_open", label: "Jam buka berikutnya" },
+];
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const resolveVariable = (
+  key: string,
+  context: MessageTemplateContext,
+): string | undefined => {
+  const [scope, field] = key.split(".");
+  if (scope === "customer" && context.customer) {
+    const customer = context.customer;
+    if (field === "first_name") return customer.name?.trim().split(/\s+/)[0];
+    if (field === "name" || field === "email" || field === "phone")
+      return customer[field] || undefined;
+    const value = customer.metadata?.[field];
+    return value === undefined || value === null ? undefined : String(value);
+  }
+  if (scope === "ticket" && context.ticket) {
+    return context.ticket[field as "number" | "title"] || undefined;
+  }
+  if (scope === "agent" && context.agent) {
+    return context.agent[field as "name" | "email"] || undefined;
+  }
+  if (scope === "schedule" && context.schedule) {
+    return context.schedule[field as "next_open"] || undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Replace placeholders with values from the context.
+ * Unknown placeholders are kept as-is so missing data stays visible.
+ */
+export const renderMessageTemplate = (
+  template: string,
+  context: MessageTemplateContext,
+): string =>
+  template.replace(
+    PLACEHOLDER_REGEX,
+    (placeholder, key: string) => resolveVariable(key, context) ?? placeholder,
+  );
+
+/**
+ * List the placeholders used in a template
+ */
+export const getTemplatePlaceholders = (template: string): string[] =>
+  Array.from(
+    new Set(Array.from(template.matchAll(PLACEHOLDER_REGEX), (m) => m[1])),
+  );
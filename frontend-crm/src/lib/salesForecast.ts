@@ -0,0 +1,278 @@
+import { format, parseISO } from "date-fns";
+import type { Deal, DealStageChange } from "@/services/crmDealsService";
+import type { PipelineStage } from "@/services/crmPipelinesService";
+
+/**
+ * Sales forecast & pipeline analytics
+ * Pure aggregation helpers over deals and their stage history
+ */
+
+export interface ForecastBucket {
+  key: string;
+  label: string;
+  weighted: number; // Sum of value * probability of open deals
+  pipeline: number; // Sum of value of open deals
+  won: number; // Sum of value of won deals
+  count: number;
+}
+
+export interface StageConversion {
+  fromStage: PipelineStage;
+  toStage: PipelineStage;
+  reached: number; // Deals that reached `fromStage`
+  converted: number; // Of those, deals that reached `toStage` or further
+  rate: number; // 0-100
+}
+
+export interface StageDuration {
+  stage: PipelineStage;
+  avgDays: number;
+  samples: number;
+}
+
+export interface WinLossSummary {
+  won: number;
+  lost: number;
+  open: number;
+  winRate: number; // 0-100, won / (won + lost)
+  wonValue: number;
+  lostValue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isClosedStage = (stage: PipelineStage | undefined) =>
+  Boolean(stage && (stage.is_won || stage.is_lost));
+
+const stageMap = (stages: PipelineStage[]) =>
+  new Map(stages.map((stage) => [stage.id, stage]));
+
+const addToBucket = (
+  buckets: Map<string, ForecastBucket>,
+  key: string,
+  label: string,
+  deal: Deal,
+  stage: PipelineStage | undefined,
+) => {
+  const bucket = buckets.get(key) || {
+    key,
+    label,
+    weighted: 0,
+    pipeline: 0,
+    won: 0,
+    count: 0,
+  };
+
+  if (stage?.is_won) {
+    bucket.won += deal.value;
+  } else if (!stage?.is_lost) {
+    bucket.weighted += (deal.value * deal.probability) / 100;
+    bucket.pipeline += deal.value;
+  }
+  bucket.count += 1;
+
+  buckets.set(key, bucket);
+};
+
+/**
+ * Probability-weighted revenue grouped by expected close month
+ * Deals without an expected close date are grouped under "no-date".
+ */
+export function forecastByMonth(
+  deals: Deal[],
+  stages: PipelineStage[],
+): ForecastBucket[] {
+  const stagesById = stageMap(stages);
+  const buckets = new Map<string, ForecastBucket>();
+
+  deals.forEach((deal) => {
+    const stage = stagesById.get(deal.stage);
+    if (stage?.is_lost) return;
+
+    if (!deal.expectedClose) {
+      addToBucket(buckets, "no-date", "Tanpa tanggal", deal, stage);
+      return;
+    }
+
+    // parseISO reads "YYYY-MM-DD" as a local date, `new Date` as UTC
+    const date = parseISO(deal.expectedClose);
+    addToBucket(
+      buckets,
+      format(date, "yyyy-MM"),
+      format(date, "MMM yyyy"),
+      deal,
+      stage,
+    );
+  });
+
+  // Chronological order, undated deals last
+  return Array.from(buckets.values()).sort((a, b) => {
+    if (a.key === "no-date") return 1;
+    if (b.key === "no-date") return -1;
+    return a.key.localeCompare(b.key);
+  });
+}
+
+/**
+ * Probability-weighted revenue grouped by deal owner
+ */
+export function forecastByOwner(
+  deals: Deal[],
+  stages: PipelineStage[],
+): ForecastBucket[] {
+  const stagesById = stageMap(stages);
+  const buckets = new Map<string, ForecastBucket>();
+
+  deals.forEach((deal) => {
+    const stage = stagesById.get(deal.stage);
+    if (stage?.is_lost) return;
+
+    addToBucket(
+      buckets,
+      deal.ownerId || "unassigned",
+      deal.owner || "Unassigned",
+      deal,
+      stage,
+    );
+  });
+
+  return Array.from(buckets.values()).sort((a, b) => b.weighted - a.weighted);
+}
+
+/**
+ * Stage-to-stage conversion rates along the pipeline order
+ * A deal "reached" a stage when it is, or has ever been, in that stage or a later one.
+ */
+export function stageConversionRates(
+  deals: Deal[],
+  history: DealStageChange[],
+  stages: PipelineStage[],
+): StageConversion[] {
+  // Lost stages are an exit, not a step of the funnel
+  const funnel = stages.filter((stage) => !stage.is_lost);
+  const funnelIndex = new Map(funnel.map((stage, index) => [stage.id, index]));
+
+  // Furthest funnel position each deal has reached
+  const furthest = new Map<string, number>();
+  const track = (dealId: string, stageId: string | null) => {
+    if (!stageId || !funnelIndex.has(stageId)) return;
+    const index = funnelIndex.get(stageId);
+    furthest.set(dealId, Math.max(furthest.get(dealId) ?? -1, index));
+  };
+
+  deals.forEach((deal) => track(deal.id, deal.stage));
+  history.forEach((change) => {
+    track(change.deal_id, change.from_stage);
+    track(change.deal_id, change.to_stage);
+  });
+
+  const reachedCount = (index: number) =>
+    Array.from(furthest.values()).filter((value) => value >= index).length;
+
+  return funnel.slice(0, -1).map((fromStage, index) => {
+    const reached = reachedCount(index);
+    const converted = reachedCount(index + 1);
+    return {
+      fromStage,
+      toStage: funnel[index + 1],
+      reached,
+      converted,
+      rate: reached > 0 ? Math.round((converted / reached) * 100) : 0,
+    };
+  });
+}
+
+/**
+ * Average number of days deals spend in each (non-closed) stage
+ * Only completed stays are counted; the current stage of an open deal is ignored.
+ */
+export function averageTimeInStage(
+  deals: Deal[],
+  history: DealStageChange[],
+  stages: PipelineStage[],
+): StageDuration[] {
+  const createdAt = new Map(deals.map((deal) => [deal.id, deal.createdAt]));
+  const totals = new Map<string, { days: number; samples: number }>();
+
+  // Group transitions by deal, oldest first
+  const byDeal = new Map<string, DealStageChange[]>();
+  history.forEach((change) => {
+    const list = byDeal.get(change.deal_id) || [];
+    list.push(change);
+    byDeal.set(change.deal_id, list);
+  });
+
+  byDeal.forEach((changes, dealId) => {
+    const sorted = [...changes].sort(
+      (a, b) =>
+        new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime(),
+    );
+
+    let enteredAt = createdAt.get(dealId);
+    sorted.forEach((change) => {
+      if (change.from_stage && enteredAt) {
+        const days =
+          (new Date(change.changed_at).getTime() -
+            new Date(enteredAt).getTime()) /
+          DAY_MS;
+        if (days >= 0) {
+          const total = totals.get(change.from_stage) || {
+            days: 0,
+            samples: 0,
+          };
+          total.days += days;
+          total.samples += 1;
+          totals.set(change.from_stage, total);
+        }
+      }
+      enteredAt = change.changed_at;
+    });
+  });
+
+  return stages
+    .filter((stage) => !isClosedStage(stage))
+    .map((stage) => {
+      const total = totals.get(stage.id);
+      return {
+        stage,
+        avgDays: total ? Math.round((total.days / total.samples) * 10) / 10 : 0,
+        samples: total?.samples || 0,
+      };
+    });
+}
+
+/**
+ * Won vs lost deals based on the stage flags of the pipeline
+ */
+export function winLossSummary(
+  deals: Deal[],
+  stages: PipelineStage[],
+): WinLossSummary {
+  const stagesById = stageMap(stages);
+  const summary: WinLossSummary = {
+    won: 0,
+    lost: 0,
+    open: 0,
+    winRate: 0,
+    wonValue: 0,
+    lostValue: 0,
+  };
+
+  deals.forEach((deal) => {
+    const stage = stagesById.get(deal.stage);
+    if (stage?.is_won) {
+      summary.won += 1;
+      summary.wonValue += deal.value;
+    } else if (stage?.is_lost) {
+      summary.lost += 1;
+      summary.lostValue += deal.value;
+    } else {
+      summary.open += 1;
+    }
+  });
+
+  const closed = summary.won + summary.lost;
+  summary.winRate = closed > 0 ? Math.round((summary.won / closed) * 100) : 0;
+
+  return summary;
+}
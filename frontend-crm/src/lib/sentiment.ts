@@ -0,0 +1,40 @@
+import type { MessageSentiment, Sentiment } from "@/services/crmChatsService";
+
+export const SENTIMENT_STYLES: Record<
+  Sentiment,
+  { label: string; className: string; color: string }
+> = {
+  positive: {
+    label: "Positif",
+    className: "bg-green-100 text-green-700 border-green-200",
+    color: "#22c55e",
+  },
+  neutral: {
+    label: "Netral",
+    className: "bg-slate-100 text-slate-700 border-slate-200",
+    color: "#64748b",
+  },
+  negative: {
+    label: "Negatif",
+    className: "bg-red-100 text-red-700 border-red-200",
+    color: "#ef4444",
+  },
+};
+
+/**
+ * Score stored on a scored customer message, null while it is not scored yet
+ */
+export const getMessageSentiment = (
+  metadata?: Record<string, unknown> | null,
+): MessageSentiment | null => {
+  const sentiment = metadata?.sentiment as MessageSentiment | undefined;
+  return typeof sentiment?.score === "number" ? sentiment : null;
+};
+
+/**
+ * "-0.42" / "+0.80", for tooltips and report tables
+ */
+export const formatSentimentScore = (score: number | null | undefined) =>
+  score === null || score === undefined
+    ? "-"
+    : `${score > 0 ? "+" : ""}${score.toFixed(2)}`;
@@ -0,0 +1,290 @@
+/**
+ * SLA timer helpers
+ * Due dates come from the backend; these helpers only derive display state.
+ */
+import type { TicketSla } from "@/services/crmChatsService";
+import type {
+  BusinessDay,
+  BusinessHours,
+  Weekday,
+} from "@/services/crmSlaService";
+
+export type SlaTimerState =
+  "running" | "at_risk" | "breached" | "met" | "missed";
+
+export interface SlaTimer {
+  state: SlaTimerState;
+  remainingMs: number; // Negative once overdue
+}
+
+export type SlaTimerKind = "first_response" | "resolution";
+
+// Share of the target left when a running timer turns "at risk"
+const AT_RISK_RATIO = 0.25;
+
+export const SLA_TIMER_LABELS: Record<SlaTimerKind, string> = {
+  first_response: "Respon pertama",
+  resolution: "Penyelesaian",
+};
+
+export const SLA_STATE_STYLES: Record<
+  SlaTimerState,
+  { label: string; className: string }
+> = {
+  running: {
+    label: "On track",
+    className: "bg-emerald-500/10 text-emerald-700 border-emerald-500/30",
+  },
+  at_risk: {
+    label: "At risk",
+    className: "bg-amber-500/10 text-amber-700 border-amber-500/30",
+  },
+  breached: {
+    label: "Breached",
+    className: "bg-red-500 text-white border-red-500",
+  },
+  met: {
+    label: "Met",
+    className: "bg-muted text-muted-foreground",
+  },
+  missed: {
+    label: "Missed",
+    className: "bg-red-500/10 text-red-700 border-red-500/30",
+  },
+};
+
+/**
+ * Derive the state of one SLA timer at `now`
+ */
+export const getSlaTimer = (
+  startAt: string,
+  dueAt: string | null,
+  completedAt: string | null | undefined,
+  now: number = Date.now(),
+): SlaTimer | null => {
+  if (!dueAt) return null;
+
+  const due = new Date(dueAt).getTime();
+  if (completedAt) {
+    const completed = new Date(completedAt).getTime();
+    return {
+      state: completed <= due ? "met" : "missed",
+      remainingMs: due - completed,
+    };
+  }
+
+  const remainingMs = due - now;
+  if (remainingMs < 0) return { state: "breached", remainingMs };
+
+  const total = due - new Date(startAt).getTime();
+  return {
+    state:
+      total > 0 && remainingMs / total <= AT_RISK_RATIO ? "at_risk" : "running",
+    remainingMs,
+  };
+};
+
+/**
+ * Both timers of a ticket
+ */
+export const getTicketSlaTimers = (
+  sla: TicketSla,
+  now: number = Date.now(),
+): Record<SlaTimerKind, SlaTimer | null> => ({
+  first_response: getSlaTimer(
+    sla.started_at,
+    sla.first_response_due_at,
+    sla.first_responded_at,
+    now,
+  ),
+  resolution: getSlaTimer(
+    sla.started_at,
+    sla.resolution_due_at,
+    sla.resolved_at,
+    now,
+  ),
+});
+
+/**
+ * The timer to show when there is room for one badge: the breached or most
+ * urgent running timer, otherwise the resolution result.
+ */
+export const getPrimarySlaTimer = (
+  timers: Record<SlaTimerKind, SlaTimer | null>,
+): { kind: SlaTimerKind; timer: SlaTimer } | null => {
+  const entries = (Object.keys(timers) as SlaTimerKind[])
+    .filter((kind) => timers[kind])
+    .map((kind) => ({ kind, timer: timers[kind] as SlaTimer }));
+
+  const open = entries
+    .filter((e) => ["running", "at_risk", "breached"].includes(e.timer.state))
+    .sort((a, b) => a.timer.remainingMs - b.timer.remainingMs);
+
+  return open[0] || entries.find((e) => e.kind === "resolution") || null;
+};
+
+/**
+ * Compact duration, e.g. "45m", "3h 20m", "2d 4h"
+ */
+export const formatSlaDuration = (ms: number): string => {
+  const totalMinutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+/**
+ * Human readable target, e.g. 90 -> "1h 30m"
+ */
+export const formatSlaTarget = (minutes: number): string =>
+  formatSlaDuration(minutes * 60000);
+
+// ============= Business hours =============
+
+const WEEKDAY_BY_SHORT_NAME: Record<string, Weekday> = {
+  Mon: "mon",
+  Tue: "tue",
+  Wed: "wed",
+  Thu: "thu",
+  Fri: "fri",
+  Sat: "sat",
+  Sun: "sun",
+};
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + (m || 0);
+};
+
+const getZonedParts = (formatter: Intl.DateTimeFormat, date: Date) => {
+  const parts = formatter.formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`, // YYYY-MM-DD
+    weekday: WEEKDAY_BY_SHORT_NAME[get("weekday") || "Mon"],
+    minutes: (Number(get("hour")) % 24) * 60 + Number(get("minute")),
+  };
+};
+
+const createZonedFormatter = (timezone: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+
+// Upper bound for the day-by-day walk
+const MAX_WALK_DAYS = 60;
+
+/**
+ * Add working minutes to a start date, skipping time outside business hours.
+ * Walks one business window per day instead of minute by minute.
+ * Used for previews; the backend computes the real due dates.
+ */
+export const addBusinessMinutes = (
+  start: Date,
+  minutes: number,
+  businessHours: BusinessHours,
+): Date | null => {
+  if (!Object.values(businessHours.days).some((d) => d.enabled)) return null;
+
+  const formatter = createZonedFormatter(businessHours.timezone);
+
+  const cursor = new Date(start.getTime());
+  cursor.setSeconds(0, 0);
+  let remaining = minutes;
+  const advance = (by: number) => cursor.setTime(cursor.getTime() + by * 60000);
+
+  // Two steps per day at most: through the window, then to the next midnight
+  for (let step = 0; step <= MAX_WALK_DAYS * 2; step++) {
+    if (remaining <= 0) return cursor;
+
+    const { weekday, minutes: minuteOfDay } = getZonedParts(formatter, cursor);
+    const day = businessHours.days[weekday];
+    const open = day ? toMinutes(day.start) : 0;
+    const close = day ? toMinutes(day.end) : 0;
+
+    if (day?.enabled && minuteOfDay < close) {
+      const from = Math.max(minuteOfDay, open);
+      const available = close - from;
+      if (remaining <= available) {
+        advance(from - minuteOfDay + remaining);
+        return cursor;
+      }
+      remaining -= available;
+    }
+
+    // On to the next local midnight; DST shifts are corrected next step
+    advance(1440 - minuteOfDay);
+  }
+
+  return null;
+};
+
+// Hours that replace the weekly ones on a YYYY-MM-DD date, e.g. a holiday
+export type BusinessDayOverride = (date: string) => BusinessDay | null;
+
+// How far ahead to look for an opening, long enough for a holiday week
+const MAX_LOOKAHEAD_DAYS = 60;
+
+/**
+ * Whether `date` falls inside the business hours, in their timezone
+ */
+export const isWithinBusinessHours = (
+  date: Date,
+  businessHours: BusinessHours,
+  getOverride?: BusinessDayOverride,
+): boolean => {
+  const zoned = getZonedParts(
+    createZonedFormatter(businessHours.timezone),
+    date,
+  );
+  const day = getOverride?.(zoned.date) ?? businessHours.days[zoned.weekday];
+  return Boolean(
+    day?.enabled &&
+    zoned.minutes >= toMinutes(day.start) &&
+    zoned.minutes < toMinutes(day.end),
+  );
+};
+
+/**
+ * Start of the next business period at or after `from` (`from` itself when
+ * already open), or null when nothing opens within the lookahead
+ */
+export const getNextBusinessOpening = (
+  from: Date,
+  businessHours: BusinessHours,
+  getOverride?: BusinessDayOverride,
+): Date | null => {
+  const formatter = createZonedFormatter(businessHours.timezone);
+  const start = new Date(from.getTime());
+  start.setSeconds(0, 0);
+  const { minutes } = getZonedParts(formatter, start);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const zoned = getZonedParts(
+      formatter,
+      new Date(start.getTime() + offset * 86400000),
+    );
+    const day = getOverride?.(zoned.date) ?? businessHours.days[zoned.weekday];
+    if (!day?.enabled) continue;
+
+    const open = toMinutes(day.start);
+    if (offset === 0) {
+      if (minutes >= toMinutes(day.end)) continue;
+      if (minutes >= open) return start;
+    }
+    return new Date(start.getTime() + (offset * 1440 + open - minutes) * 60000);
+  }
+
+  return null;
+};
@@ -15,6 +15,7 @@ import { ProtectedRoute } from "./components/ProtectedRoute";
 import { AdminRoute } from "./components/AdminRoute";
 import { Toaster } from "@/components/ui/sonner";
 import { GlobalChatNotifications } from "./components/GlobalChatNotifications";
+import { AgentPresenceTracker } from "./components/AgentPresenceTracker";
 import Index from "./pages/Index";
 import { AuthPage } from "./pages/AuthPage";
 import { UserManagement } from "./pages/UserManagement";
@@ -67,6 +68,7 @@ createRoot(document.getElementById("root")!).render(
                     <HashRouter>
                       <PasswordRecoveryHandler />
                       <GlobalChatNotifications />
+                      <AgentPresenceTracker />
                       <Routes>
                         <Route
                           path="/"
@@ -6,6 +6,8 @@ import { CRMNavbar } from "@/components/CRM/CRMNavbar";
 import { CustomerService } from "@/components/CRM/CustomerService";
 import { KontakPelanggan } from "@/components/CRM/KontakPelanggan";
 import { SalesManagement } from "@/components/CRM/SalesManagement";
+import { CampaignManagement } from "@/components/CRM/CampaignManagement";
+import { CustomerAnalytics } from "@/components/CRM/CustomerAnalytics";
 
 export const CRM = () => {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -15,7 +17,7 @@ export const CRM = () => {
   // Get tab from URL or default to customer-service
   const tabFromUrl = searchParams.get("tab");
   const [activeTab, setActiveTab] = useState(
-    tabFromUrl && ["customer-service", "kontak-pelanggan", "sales-management"].includes(tabFromUrl)
+    tabFromUrl && ["customer-service", "kontak-pelanggan", "sales-management", "campaigns", "analytics"].includes(tabFromUrl)
       ? tabFromUrl
       : "customer-service"
   );
@@ -84,6 +86,8 @@ export const CRM = () => {
             )}
             {activeTab === "kontak-pelanggan" && <KontakPelanggan />}
             {activeTab === "sales-management" && <SalesManagement />}
+            {activeTab === "campaigns" && <CampaignManagement />}
+            {activeTab === "analytics" && <CustomerAnalytics />}
           </div>
         </div>
       </div>
@@ -52,6 +52,14 @@ import {
   Lock,
   FolderLock,
   Loader2,
+  GitBranch,
+  ListPlus,
+  MessageSquareText,
+  Timer,
+  Route,
+  SmilePlus,
+  Tag,
+  CalendarDays,
 } from "lucide-react";
 import { apiClient } from "@/lib/apiClient";
 import { toast } from "sonner";
@@ -60,10 +68,18 @@ import { FloatingAIButton } from "@/components/FloatingAIButton";
 import { useUserManagement } from "@/hooks/useUserManagement";
 import { useGroups, PermissionType } from "@/hooks/useGroups";
 import { OrganizationService } from "@/lib/organizationRolesService";
+import { PipelineSettings } from "@/components/CRM/PipelineSettings";
+import { CustomFieldSettings } from "@/components/CRM/CustomFieldSettings";
+import { CannedResponseSettings } from "@/components/CRM/CannedResponseSettings";
+import { SlaPolicySettings } from "@/components/CRM/SlaPolicySettings";
+import { RoutingSettings } from "@/components/CRM/RoutingSettings";
+import { SurveySettings } from "@/components/CRM/SurveySettings";
+import { LabelSettings } from "@/components/CRM/LabelSettings";
+import { CalendarSettings } from "@/components/CRM/CalendarSettings";
 
 export const OrganizationSettings = () => {
   const { user } = useAuth();
-  const { userRoles, loading: rolesLoading } = useRole();
+  const { userRoles, loading: rolesLoading, hasPermission } = useRole();
   const [currentOrg, setCurrentOrg] = useState<any>(null);
   const [loadingOrg, setLoadingOrg] = useState(false);
   const [activeSection, setActiveSection] = useState("organization");
@@ -564,7 +580,7 @@ export const OrganizationSettings = () => {
             </div>
 
             <Tabs defaultValue="overview" className="space-y-6">
-              <TabsList className="grid w-full grid-cols-4 lg:w-auto">
+              <TabsList className="grid w-full grid-cols-12 lg:w-auto">
                 <TabsTrigger
                   value="overview"
                   className="flex items-center gap-2"
@@ -594,6 +610,56 @@ export const OrganizationSettings = () => {
                   <Shield className="w-4 h-4" />
                   My Roles
                 </TabsTrigger>
+                <TabsTrigger
+                  value="pipelines"
+                  className="flex items-center gap-2"
+                >
+                  <GitBranch className="w-4 h-4" />
+                  Pipelines
+                </TabsTrigger>
+                <TabsTrigger
+                  value="customer-fields"
+                  className="flex items-center gap-2"
+                >
+                  <ListPlus className="w-4 h-4" />
+                  Customer Fields
+                </TabsTrigger>
+                <TabsTrigger
+                  value="canned-responses"
+                  className="flex items-center gap-2"
+                >
+                  <MessageSquareText className="w-4 h-4" />
+                  Canned Responses
+                </TabsTrigger>
+                <TabsTrigger value="labels" className="flex items-center gap-2">
+                  <Tag className="w-4 h-4" />
+                  Label
+                </TabsTrigger>
+                <TabsTrigger value="sla" className="flex items-center gap-2">
+                  <Timer className="w-4 h-4" />
+                  SLA
+                </TabsTrigger>
+                <TabsTrigger
+                  value="calendars"
+                  className="flex items-center gap-2"
+                >
+                  <CalendarDays className="w-4 h-4" />
+                  Kalender Libur
+                </TabsTrigger>
+                <TabsTrigger
+                  value="routing"
+                  className="flex items-center gap-2"
+                >
+                  <Route className="w-4 h-4" />
+                  Routing
+                </TabsTrigger>
+                <TabsTrigger
+                  value="surveys"
+                  className="flex items-center gap-2"
+                >
+                  <SmilePlus className="w-4 h-4" />
+                  Survei
+                </TabsTrigger>
               </TabsList>
 
               {/* Overview Tab */}
@@ -1226,6 +1292,61 @@ export const OrganizationSettings = () => {
               <TabsContent value="roles">
                 <UserOrganizationsCard />
               </TabsContent>
+
+              {/* Sales Pipelines Tab */}
+              <TabsContent value="pipelines">
+                <PipelineSettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
+
+              {/* Customer Custom Fields Tab */}
+              <TabsContent value="customer-fields">
+                <CustomFieldSettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
+
+              {/* Canned Responses Tab */}
+              <TabsContent value="canned-responses">
+                <CannedResponseSettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
+
+              {/* Labels Tab */}
+              <TabsContent value="labels">
+                <LabelSettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
+
+              {/* SLA Policies Tab */}
+              <TabsContent value="sla">
+                <SlaPolicySettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
+
+              {/* Holiday Calendars Tab */}
+              <TabsContent value="calendars">
+                <CalendarSettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
+
+              {/* Chat Routing Tab */}
+              <TabsContent value="routing">
+                <RoutingSettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
+
+              <TabsContent value="surveys" className="space-y-6">
+                <SurveySettings
+                  canEdit={hasPermission(firstOrg.organization_id, "admin")}
+                />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
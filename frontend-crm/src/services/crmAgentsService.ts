@@ -9,6 +9,17 @@ import { apiClient } from "@/lib/apiClient";
  */
 export type AgentStatus = "active" | "inactive" | "busy";
 
+/**
+ * Who set the current status. Automatic statuses are reverted by the backend
+ * (e.g. "capacity" back to active once a chat frees up); "manual" never is.
+ */
+export type AgentStatusSource = "manual" | "capacity" | "idle" | "logout";
+
+/**
+ * Browser presence reported by the signed-in agent
+ */
+export type AgentPresenceState = "online" | "idle" | "offline";
+
 /**
  * Backend Agent entity (snake_case as returned by API)
  */
@@ -20,8 +31,10 @@ export interface AgentBackend {
   email: string;
   phone: string;
   status: AgentStatus;
+  status_source?: AgentStatusSource;
   avatar_url: string | null;
   assigned_chats_count: number;
+  max_concurrent_chats?: number | null; // null = unlimited
   resolved_today_count: number;
   avg_response_time_seconds: number;
   last_active_at: string; // ISO timestamp
@@ -45,8 +58,10 @@ export interface AgentFrontend {
   email: string;
   phone: string;
   status: AgentStatus;
+  statusSource?: AgentStatusSource;
   avatar?: string;
   assignedChats: number;
+  maxConcurrentChats?: number | null; // null = unlimited
   resolvedToday: number;
   avgResponseTime: string; // Human-readable format like "2.5 min"
   lastActive: string; // Human-readable format like "Just now"
@@ -85,6 +100,16 @@ export interface UpdateAgentStatusRequest {
   status: AgentStatus;
 }
 
+/**
+ * What the agent does with chats arriving outside its working hours
+ */
+export interface OutOfHoursConfig {
+  autoReplyEnabled: boolean;
+  autoReplyMessage: string; // Supports OUT_OF_OFFICE_TEMPLATE_VARIABLES
+  aiKeepsAnswering: boolean; // Otherwise only the auto reply is sent
+  queueHandoffs: boolean; // Hold handoffs to humans until hours resume
+}
+
 /**
  * Agent settings configuration (backend response format - snake_case)
  */
@@ -106,6 +131,8 @@ export interface AgentSettingsBackend {
       start: string; // HH:mm format
       end: string; // HH:mm format
     }>;
+    outOfHours?: OutOfHoursConfig;
+    calendarIds?: string[]; // Holiday calendars overriding the weekly hours
   };
   advanced_config: {
     temperature: string; // "consistent" | "balanced" | "creative"
@@ -154,6 +181,8 @@ export interface AgentSettingsFrontend {
       start: string;
       end: string;
     }>;
+    outOfHours: OutOfHoursConfig;
+    calendarIds: string[];
   };
   advanced: {
     temperature: "consistent" | "balanced" | "creative";
@@ -234,6 +263,18 @@ export interface AgentsListResponse {
   total: number;
 }
 
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_OUT_OF_HOURS: OutOfHoursConfig = {
+  autoReplyEnabled: true,
+  autoReplyMessage:
+    "Halo {{customer.first_name}}, terima kasih sudah menghubungi kami. Saat ini kami sedang di luar jam operasional dan akan kembali melayani pada {{schedule.next_open}}.",
+  aiKeepsAnswering: true,
+  queueHandoffs: true,
+};
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
@@ -242,7 +283,7 @@ export interface AgentsListResponse {
  * Sanitize phone number to prevent double prefixes
  * Removes leading '+' and trims whitespace
  */
-function sanitizePhone(phone: string): string {
+export function sanitizePhone(phone: string): string {
   if (!phone) return phone;
   // Remove leading + and trim whitespace.
   // This prevents sending "+62" when the backend automatically appends its own prefix.
@@ -296,7 +337,9 @@ export function transformAgentToFrontend(backendAgent: any): any {
     email: backendAgent.email,
     phone: backendAgent.phone,
     status: backendAgent.status,
+    statusSource: backendAgent.status_source || "manual",
     assignedChats: backendAgent.assigned_chats_count || 0,
+    maxConcurrentChats: backendAgent.max_concurrent_chats ?? null,
     resolvedToday: backendAgent.resolved_today_count || 0,
     avgResponseTime: "N/A", // Or your formatter
     lastActive: backendAgent.last_active_at, // Or your relative time formatter
@@ -495,6 +538,53 @@ export async function updateAgentStatus(
   }
 }
 
+/**
+ * Set how many chats an agent handles at once. The agent switches to busy
+ * automatically at capacity; extra chats wait in the routing queue.
+ * @param agentId - Agent UUID
+ * @param maxConcurrentChats - Limit, or null for unlimited
+ * @returns Updated agent in frontend format
+ */
+export async function updateAgentCapacity(
+  agentId: string,
+  maxConcurrentChats: number | null,
+): Promise<AgentFrontend> {
+  try {
+    const backendAgent = await apiClient.patch<AgentBackend>(
+      `/crm/agents/${agentId}/capacity`,
+      { max_concurrent_chats: maxConcurrentChats },
+    );
+    return transformAgentToFrontend(backendAgent);
+  } catch (error) {
+    console.error(
+      `[CRM Agents Service] Error updating agent capacity ${agentId}:`,
+      error,
+    );
+    throw new Error("Failed to update agent capacity. Please try again.");
+  }
+}
+
+/**
+ * Report browser presence of the signed-in user's agent. The backend maps
+ * idle/offline to an automatic inactive status and restores it when online.
+ * Users without an agent profile are ignored by the backend.
+ * @param state - Current presence
+ */
+export async function reportAgentPresence(
+  state: AgentPresenceState,
+): Promise<void> {
+  try {
+    // keepalive lets the offline report finish while the app signs out
+    await apiClient.post(
+      "/crm/agents/me/presence",
+      { state },
+      { keepalive: true },
+    );
+  } catch (error) {
+    console.error("[CRM Agents Service] Error reporting presence:", error);
+  }
+}
+
 /**
  * Transform backend settings to frontend format
  * @param backendSettings - Settings from API
@@ -538,6 +628,11 @@ export function transformSettingsToFrontend(
           end: wh.end,
         }),
       ),
+      outOfHours: {
+        ...DEFAULT_OUT_OF_HOURS,
+        ...backendSettings.schedule_config.outOfHours,
+      },
+      calendarIds: backendSettings.schedule_config.calendarIds || [],
     },
     advanced: {
       temperature: backendSettings.advanced_config.temperature as any,
@@ -626,6 +721,8 @@ export function transformSettingsToBackend(
           end: wh.end,
         };
       }),
+      outOfHours: frontendSettings.schedule.outOfHours,
+      calendarIds: frontendSettings.schedule.calendarIds,
     },
     advanced_config: {
       temperature: frontendSettings.advanced.temperature,
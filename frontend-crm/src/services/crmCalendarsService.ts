@@ -0,0 +1,137 @@
+import { apiClient } from "@/lib/apiClient";
+
+/**
+ * CRM Calendars Service
+ * Organization holiday and exception calendars that agent schedules subscribe to
+ */
+
+// ============= Type Definitions =============
+
+export interface HolidayCalendar {
+  id: string;
+  organization_id: string;
+  name: string;
+  description: string | null;
+  entry_count: number;
+  subscriber_count: number; // Agents whose schedule uses this calendar
+  created_at: string;
+  updated_at: string;
+}
+
+export type HolidayCalendarInput = Pick<
+  HolidayCalendar,
+  "name" | "description"
+>;
+
+// A date range that replaces the weekly hours of subscribed agents
+export interface CalendarEntry {
+  id: string;
+  calendar_id: string;
+  name: string; // e.g. "Idul Fitri", "Jam Ramadan"
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  closed: boolean; // Closed all day, otherwise open during `start`-`end`
+  start: string | null; // HH:mm
+  end: string | null; // HH:mm
+  auto_reply_message: string | null; // Replaces the agent's out-of-hours reply
+}
+
+export type CalendarEntryInput = Omit<CalendarEntry, "id" | "calendar_id">;
+
+interface CalendarsResponse {
+  calendars: HolidayCalendar[];
+}
+
+interface CalendarEntriesResponse {
+  entries: CalendarEntry[];
+}
+
+// ============= API Functions =============
+
+/**
+ * Get the organization's calendars, sorted by name
+ */
+export const getCalendars = async (): Promise<HolidayCalendar[]> => {
+  const response = await apiClient.get<CalendarsResponse>("/crm/calendars");
+  return (response.calendars || []).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+};
+
+/**
+ * Create a calendar (admin only)
+ */
+export const createCalendar = async (
+  data: HolidayCalendarInput,
+): Promise<HolidayCalendar> => {
+  return apiClient.post<HolidayCalendar>("/crm/calendars", data);
+};
+
+/**
+ * Rename a calendar (admin only)
+ */
+export const updateCalendar = async (
+  calendarId: string,
+  data: Partial<HolidayCalendarInput>,
+): Promise<HolidayCalendar> => {
+  return apiClient.put<HolidayCalendar>(`/crm/calendars/${calendarId}`, data);
+};
+
+/**
+ * Delete a calendar, subscribed agents fall back to their weekly hours
+ */
+export const deleteCalendar = async (calendarId: string): Promise<void> => {
+  await apiClient.delete(`/crm/calendars/${calendarId}`);
+};
+
+/**
+ * Entries of a calendar, sorted by start date
+ */
+export const getCalendarEntries = async (
+  calendarId: string,
+): Promise<CalendarEntry[]> => {
+  const response = await apiClient.get<CalendarEntriesResponse>(
+    `/crm/calendars/${calendarId}/entries`,
+  );
+  return (response.entries || []).sort((a, b) =>
+    a.start_date.localeCompare(b.start_date),
+  );
+};
+
+/**
+ * Add one or more entries, e.g. the events of an imported ICS file
+ */
+export const createCalendarEntries = async (
+  calendarId: string,
+  entries: CalendarEntryInput[],
+): Promise<CalendarEntry[]> => {
+  const response = await apiClient.post<CalendarEntriesResponse>(
+    `/crm/calendars/${calendarId}/entries`,
+    { entries },
+  );
+  return response.entries || [];
+};
+
+/**
+ * Update an entry
+ */
+export const updateCalendarEntry = async (
+  calendarId: string,
+  entryId: string,
+  data: Partial<CalendarEntryInput>,
+): Promise<CalendarEntry> => {
+  return apiClient.put<CalendarEntry>(
+    `/crm/calendars/${calendarId}/entries/${entryId}`,
+    data,
+  );
+};
+
+/**
+ * Delete an entry
+ */
+export const deleteCalendarEntry = async (
+  calendarId: string,
+  entryId: string,
+): Promise<void> => {
+  await apiClient.delete(`/crm/calendars/${calendarId}/entries/${entryId}`);
+};
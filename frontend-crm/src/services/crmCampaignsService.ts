@@ -0,0 +1,253 @@
+import { apiClient } from "@/lib/apiClient";
+
+/**
+ * CRM Broadcast Campaigns Service
+ * Outbound templated messages to a customer segment. Messages are sent by the
+ * backend through the sender agent's WhatsApp/Telegram session or Email SMTP.
+ */
+
+// ============= Type Definitions =============
+
+export type CampaignChannel = "whatsapp" | "telegram" | "email";
+
+export type CampaignStatus =
+  | "draft"
+  | "scheduled"
+  | "running"
+  | "paused"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+export type CampaignRecipientStatus =
+  | "pending"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "replied"
+  | "failed"
+  | "opted_out"; // Skipped because the customer unsubscribed
+
+/**
+ * Recipient counts by their latest status
+ */
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+  opted_out: number;
+}
+
+export interface Campaign {
+  id: string;
+  organization_id: string;
+  name: string;
+  channel: CampaignChannel;
+  sender_agent_id: string; // Agent whose integration sends the messages
+  segment_id: string;
+  segment_name?: string | null;
+  subject?: string | null; // Email only
+  template: string; // Supports {{customer.name}} style placeholders
+  scheduled_at: string | null; // null = send immediately when started
+  throttle_per_minute: number;
+  respect_opt_out: boolean;
+  opt_out_text?: string | null; // Appended to every message, e.g. "Balas STOP untuk berhenti"
+  status: CampaignStatus;
+  stats: CampaignStats;
+  started_at: string | null;
+  completed_at: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampaignsResponse {
+  campaigns: Campaign[];
+  total: number;
+}
+
+export type CampaignInput = Pick<
+  Campaign,
+  | "name"
+  | "channel"
+  | "sender_agent_id"
+  | "segment_id"
+  | "subject"
+  | "template"
+  | "scheduled_at"
+  | "throttle_per_minute"
+  | "respect_opt_out"
+  | "opt_out_text"
+>;
+
+export interface CampaignRecipient {
+  id: string;
+  campaign_id: string;
+  customer_id: string;
+  customer_name: string;
+  contact: string;
+  status: CampaignRecipientStatus;
+  error?: string | null;
+  chat_id?: string | null; // Conversation created for the reply
+  sent_at: string | null;
+  delivered_at: string | null;
+  read_at: string | null;
+  replied_at: string | null;
+}
+
+export interface CampaignRecipientsResponse {
+  recipients: CampaignRecipient[];
+  total: number;
+}
+
+export interface CampaignOptOut {
+  id: string;
+  customer_id: string;
+  customer_name?: string | null;
+  channel: CampaignChannel;
+  reason?: string | null; // e.g. "Replied STOP"
+  created_at: string;
+}
+
+// ============= Defaults =============
+
+export const CAMPAIGN_CHANNELS: { value: CampaignChannel; label: string }[] = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "telegram", label: "Telegram" },
+  { value: "email", label: "Email" },
+];
+
+// ============= API Functions =============
+
+/**
+ * Get campaigns of the current organization
+ */
+export const getCampaigns = async (params?: {
+  status?: CampaignStatus;
+  skip?: number;
+  limit?: number;
+}): Promise<Campaign[]> => {
+  const queryParams = new URLSearchParams();
+  if (params?.status) queryParams.append("status", params.status);
+  if (params?.skip !== undefined)
+    queryParams.append("skip", params.skip.toString());
+  if (params?.limit !== undefined)
+    queryParams.append("limit", params.limit.toString());
+
+  const url = `/crm/campaigns${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiClient.get<CampaignsResponse>(url);
+  return response.campaigns || [];
+};
+
+/**
+ * Get a specific campaign with fresh stats
+ */
+export const getCampaign = async (campaignId: string): Promise<Campaign> => {
+  return apiClient.get<Campaign>(`/crm/campaigns/${campaignId}`);
+};
+
+/**
+ * Create a campaign as draft
+ */
+export const createCampaign = async (
+  data: CampaignInput,
+): Promise<Campaign> => {
+  return apiClient.post<Campaign>("/crm/campaigns", data);
+};
+
+/**
+ * Update a draft or scheduled campaign
+ */
+export const updateCampaign = async (
+  campaignId: string,
+  data: Partial<CampaignInput>,
+): Promise<Campaign> => {
+  return apiClient.put<Campaign>(`/crm/campaigns/${campaignId}`, data);
+};
+
+/**
+ * Delete a campaign that has not started yet
+ */
+export const deleteCampaign = async (campaignId: string): Promise<void> => {
+  await apiClient.delete(`/crm/campaigns/${campaignId}`);
+};
+
+/**
+ * Launch a campaign. It runs immediately, or at `scheduled_at` when set.
+ */
+export const launchCampaign = async (campaignId: string): Promise<Campaign> => {
+  return apiClient.post<Campaign>(`/crm/campaigns/${campaignId}/launch`);
+};
+
+/**
+ * Pause a running campaign, pending recipients are kept
+ */
+export const pauseCampaign = async (campaignId: string): Promise<Campaign> => {
+  return apiClient.post<Campaign>(`/crm/campaigns/${campaignId}/pause`);
+};
+
+/**
+ * Resume a paused campaign
+ */
+export const resumeCampaign = async (campaignId: string): Promise<Campaign> => {
+  return apiClient.post<Campaign>(`/crm/campaigns/${campaignId}/resume`);
+};
+
+/**
+ * Cancel a scheduled, running or paused campaign
+ */
+export const cancelCampaign = async (campaignId: string): Promise<Campaign> => {
+  return apiClient.post<Campaign>(`/crm/campaigns/${campaignId}/cancel`);
+};
+
+/**
+ * Get per-recipient delivery status of a campaign
+ */
+export const getCampaignRecipients = async (
+  campaignId: string,
+  params?: {
+    status?: CampaignRecipientStatus;
+    search?: string;
+    skip?: number;
+    limit?: number;
+  },
+): Promise<CampaignRecipientsResponse> => {
+  const queryParams = new URLSearchParams();
+  if (params?.status) queryParams.append("status", params.status);
+  if (params?.search) queryParams.append("search", params.search);
+  if (params?.skip !== undefined)
+    queryParams.append("skip", params.skip.toString());
+  if (params?.limit !== undefined)
+    queryParams.append("limit", params.limit.toString());
+
+  const url = `/crm/campaigns/${campaignId}/recipients${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  return apiClient.get<CampaignRecipientsResponse>(url);
+};
+
+/**
+ * Get customers that unsubscribed from broadcasts
+ */
+export const getOptOuts = async (
+  channel?: CampaignChannel,
+): Promise<CampaignOptOut[]> => {
+  const url = `/crm/campaigns/opt-outs${channel ? `?channel=${channel}` : ""}`;
+  const response = await apiClient.get<{ opt_outs: CampaignOptOut[] }>(url);
+  return response.opt_outs || [];
+};
+
+/**
+ * Remove a customer from the opt-out list (re-subscribe)
+ */
+export const deleteOptOut = async (optOutId: string): Promise<void> => {
+  await apiClient.delete(`/crm/campaigns/opt-outs/${optOutId}`);
+};
@@ -0,0 +1,100 @@
+import { apiClient } from "@/lib/apiClient";
+
+/**
+ * CRM Canned Responses Service
+ * Organization-wide library of reusable replies for human agents
+ */
+
+// ============= Type Definitions =============
+
+export interface CannedResponse {
+  id: string;
+  organization_id: string;
+  title: string;
+  shortcut: string; // Slash command without the slash, e.g. "greeting" -> "/greeting"
+  content: string; // Supports {{customer.name}}, {{ticket.number}}, {{agent.name}}
+  category: string | null;
+  is_favorite: boolean; // Favourite of the current agent
+  usage_count: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CannedResponsesResponse {
+  canned_responses: CannedResponse[];
+  total: number;
+}
+
+export type CannedResponseInput = Pick<
+  CannedResponse,
+  "title" | "shortcut" | "content" | "category"
+>;
+
+// ============= API Functions =============
+
+/**
+ * Get canned responses, favourites of the current agent first
+ */
+export const getCannedResponses = async (params?: {
+  category?: string;
+  search?: string;
+}): Promise<CannedResponse[]> => {
+  const queryParams = new URLSearchParams();
+  if (params?.category) queryParams.append("category", params.category);
+  if (params?.search) queryParams.append("search", params.search);
+
+  const url = `/crm/canned-responses${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiClient.get<CannedResponsesResponse>(url);
+  return (response.canned_responses || []).sort(
+    (a, b) =>
+      Number(b.is_favorite) - Number(a.is_favorite) ||
+      a.title.localeCompare(b.title),
+  );
+};
+
+/**
+ * Create a canned response
+ */
+export const createCannedResponse = async (
+  data: CannedResponseInput,
+): Promise<CannedResponse> => {
+  return apiClient.post<CannedResponse>("/crm/canned-responses", data);
+};
+
+/**
+ * Update a canned response
+ */
+export const updateCannedResponse = async (
+  cannedResponseId: string,
+  data: Partial<CannedResponseInput>,
+): Promise<CannedResponse> => {
+  return apiClient.put<CannedResponse>(
+    `/crm/canned-responses/${cannedResponseId}`,
+    data,
+  );
+};
+
+/**
+ * Delete a canned response
+ */
+export const deleteCannedResponse = async (
+  cannedResponseId: string,
+): Promise<void> => {
+  await apiClient.delete(`/crm/canned-responses/${cannedResponseId}`);
+};
+
+/**
+ * Mark or unmark a canned response as favourite for the current agent
+ */
+export const setCannedResponseFavorite = async (
+  cannedResponseId: string,
+  isFavorite: boolean,
+): Promise<void> => {
+  await apiClient.put(`/crm/canned-responses/${cannedResponseId}/favorite`, {
+    is_favorite: isFavorite,
+  });
+};
@@ -1,4 +1,5 @@
 import { apiClient } from "@/lib/apiClient";
+import type { LabelSummary } from "./crmLabelsService";
 
 /**
  * CRM Chats, Messages, and Tickets Service
@@ -19,10 +20,12 @@ export type CommunicationChannel =
   | "email"
   | "web"
   | "mcp";
-export type SenderType = "customer" | "agent" | "ai";
+// "note" = internal note between agents, never delivered to the customer's channel
+export type SenderType = "customer" | "agent" | "ai" | "note";
 export type TicketStatus = "open" | "in_progress" | "resolved" | "closed";
 export type TicketPriority = "low" | "medium" | "high" | "urgent";
 export type HandledBy = "ai" | "human" | "unassigned";
+export type Sentiment = "positive" | "neutral" | "negative";
 
 export interface Customer {
   id: string;
@@ -32,6 +35,7 @@ export interface Customer {
   phone?: string | null;
   avatar_url?: string | null;
   metadata?: Record<string, any>;
+  labels?: LabelSummary[];
   created_at: string;
   updated_at: string;
 }
@@ -56,6 +60,8 @@ export interface Chat {
   // NEW: Escalation tracking
   escalated_at?: string | null;
   escalation_reason?: string | null;
+  // Generated on escalation, kept for later review
+  handoff_summary?: HandoffSummary | null;
 
   // ✅ ADD THIS SECTION
   metadata?: {
@@ -74,6 +80,16 @@ export interface Chat {
   resolved_by_agent_id?: string | null;
   updated_at: string;
 
+  // Snooze: hidden from the active list until the date or the next reply
+  snooze_mode?: ChatSnoozeMode | null;
+  snoozed_until?: string | null;
+
+  labels?: LabelSummary[];
+
+  // Sentiment of the customer's recent messages, updated as they are scored
+  sentiment?: Sentiment | null;
+  sentiment_score?: number | null;
+
   // Populated fields
   customer?: Customer;
   assigned_agent?: any;
@@ -94,7 +110,8 @@ export interface Message {
   content: string;
   ticket_id?: string | null;
   // KEEP METADATA: Your payload relies on this!
-  metadata?: Record<string, any>;
+  // Customer messages carry their score under `metadata.sentiment`
+  metadata?: Record<string, any> & { sentiment?: MessageSentiment };
   // OPTIONAL: For when the backend update actually goes live
   attachment?: {
     url: string;
@@ -104,6 +121,16 @@ export interface Message {
   created_at: string;
   updated_at: string;
   sender_name?: string;
+  mentioned_user_ids?: string[]; // Internal notes only
+  // Customer receipt of outgoing messages, only on channels that report it
+  delivery_status?: "sent" | "delivered" | "read";
+}
+
+// Stored in Message.metadata.sentiment once the message is scored
+export interface MessageSentiment {
+  score: number; // -1 (very negative) .. 1 (very positive)
+  label: Sentiment;
+  scored_at?: string;
 }
 
 export interface MessagesResponse {
@@ -111,6 +138,20 @@ export interface MessagesResponse {
   total: number;
 }
 
+// SLA timers of a ticket. Due dates are computed by the backend from the
+// matching policy and already skip time outside business hours.
+export interface TicketSla {
+  policy_id: string;
+  policy_name: string;
+  started_at: string; // Ticket creation or last reopen
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  first_response_breached_at: string | null;
+  resolution_due_at: string | null;
+  resolved_at: string | null;
+  resolution_breached_at: string | null;
+}
+
 export interface Ticket {
   id: string;
   organization_id: string;
@@ -128,6 +169,7 @@ export interface Ticket {
   updated_at: string;
   resolved_at?: string | null;
   closed_at?: string | null;
+  sla?: TicketSla | null; // null when no SLA policy matches
   // Populated fields
   customer?: Customer;
   assigned_agent?: any;
@@ -144,6 +186,34 @@ export interface ChatWithDetails extends Chat {
 export interface ChatEscalationRequest {
   human_agent_id: string;
   reason?: string;
+  generate_summary?: boolean; // Defaults to true on the backend
+}
+
+// AI summary of the conversation so far, handed to the human agent.
+// Generated asynchronously; a "handoff_summary_ready" chat_update follows.
+export interface HandoffSummary {
+  chat_id: string;
+  status: "pending" | "ready" | "failed";
+  customer_intent: string | null;
+  ai_attempts: string[]; // What the AI already tried or answered
+  open_questions: string[];
+  sentiment: Sentiment | null;
+  escalation_reason: string | null;
+  ai_agent_name: string | null;
+  message_count: number; // Messages covered by the summary
+  generated_at: string | null;
+  error?: string | null;
+}
+
+export interface ResolveChatRequest {
+  send_transcript?: boolean; // Email the transcript to the customer
+  transcript_email?: string; // Defaults to the customer's email
+}
+
+export type TranscriptFormat = "pdf" | "html" | "json";
+
+export interface TranscriptOptions {
+  include_notes?: boolean; // Internal notes are left out by default
 }
 
 // NEW: Chat List Query Params
@@ -161,6 +231,45 @@ export interface ChatListParams {
   unassigned?: boolean;
   created_after?: string;
   created_before?: string;
+  // Chats carrying any of these labels
+  label_ids?: string[];
+}
+
+export type ChatSnoozeMode = "until_date" | "until_reply";
+
+export interface SnoozeChatRequest {
+  mode: ChatSnoozeMode;
+  until?: string; // ISO datetime, required for "until_date"
+}
+
+// Full-text search over message content, customer name and phone
+export interface MessageSearchParams {
+  q: string;
+  channel?: CommunicationChannel;
+  created_after?: string;
+  created_before?: string;
+  skip?: number;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  chat_id: string;
+  message_id: string | null; // null when only the customer name/phone matched
+  customer_id: string;
+  customer_name: string;
+  customer_phone?: string | null;
+  channel: CommunicationChannel;
+  sender_type?: SenderType | null;
+  matched_field: "content" | "customer_name" | "customer_phone";
+  snippet: string;
+  highlights: [number, number][]; // [start, end) offsets into `snippet`
+  message_rank?: number | null; // Newer messages in the chat, for paging to the match
+  created_at: string;
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchResult[];
+  total: number;
 }
 
 export interface TicketsResponse {
@@ -172,7 +281,7 @@ export interface TicketActivity {
   id: string;
   ticket_id: string;
   actor_type: "human" | "ai" | "system";
-  action: string; // e.g. "status_change"
+  action: string; // e.g. "status_change", "sla_breached"
   description: string; // e.g. "Changed status to Closed"
   created_at: string;
   actor_name?: string;
@@ -184,6 +293,62 @@ interface CustomersApiResponse {
   total: number;
 }
 
+// NEW: Customer create/update payload
+// Standard attributes (company, location, ...) and custom field values live in `metadata`
+export interface CustomerInput {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  metadata?: Customer["metadata"];
+}
+
+// NEW: Organization-defined custom fields for customers
+export type CustomFieldType = "text" | "number" | "date" | "select";
+
+export interface CustomerCustomField {
+  id: string;
+  organization_id: string;
+  key: string; // Stored under customer.metadata.custom_fields[key]
+  label: string;
+  type: CustomFieldType;
+  options: string[]; // Only used by "select" fields
+  required: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomerCustomFieldInput = Pick<
+  CustomerCustomField,
+  "key" | "label" | "type" | "options" | "required" | "position"
+>;
+
+// NEW: Merge duplicate customers into a single identity
+export interface CustomerMergeRequest {
+  primary_customer_id: string;
+  duplicate_customer_ids: string[];
+}
+
+export interface CustomerMergeResult {
+  customer: Customer; // The surviving (primary) customer
+  merged_customer_ids: string[];
+  reassigned_chats: number;
+}
+
+// NEW: Bulk customer import
+export type CustomerDuplicateStrategy = "skip" | "update" | "create";
+
+export interface CustomerImportRow extends CustomerInput {
+  row: number; // Source row number, echoed back in errors
+}
+
+export interface CustomerImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { row: number; message: string }[];
+}
+
 export interface SendMessageParams {
   chatId: string;
   content: string;
@@ -192,6 +357,7 @@ export interface SendMessageParams {
   ticketId?: string;
   file?: File | null;
   metadata?: Record<string, any>;
+  cannedResponseId?: string; // NEW: canned response the content was built from
 }
 
 // ============= API Functions =============
@@ -229,6 +395,7 @@ export const getChats = async (
     queryParams.append("created_after", params.created_after);
   if (params?.created_before)
     queryParams.append("created_before", params.created_before);
+  params?.label_ids?.forEach((id) => queryParams.append("label_ids", id));
 
   const url = `/crm/chats${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
   return apiClient.get<ChatObject>(url);
@@ -294,10 +461,105 @@ export const escalateChat = async (
 };
 
 /**
- * Mark chat as resolved
+ * Get the handoff summary stored with an escalated chat
+ */
+export const getHandoffSummary = async (
+  chatId: string,
+): Promise<HandoffSummary> => {
+  return apiClient.get<HandoffSummary>(`/crm/chats/${chatId}/handoff-summary`);
+};
+
+/**
+ * Generate the handoff summary again, e.g. after it failed.
+ * Returns the summary in "pending" status.
+ */
+export const regenerateHandoffSummary = async (
+  chatId: string,
+): Promise<HandoffSummary> => {
+  return apiClient.post<HandoffSummary>(
+    `/crm/chats/${chatId}/handoff-summary`,
+    {},
+  );
+};
+
+/**
+ * Mark chat as resolved, optionally emailing the transcript to the customer
+ */
+export const resolveChat = async (
+  chatId: string,
+  data?: ResolveChatRequest,
+): Promise<Chat> => {
+  return apiClient.put<Chat>(`/crm/chats/${chatId}/resolve`, data || {});
+};
+
+/**
+ * Snooze a chat until a date or until the customer replies.
+ * The backend wakes it up and sends an "unsnoozed" chat_update.
+ */
+export const snoozeChat = async (
+  chatId: string,
+  data: SnoozeChatRequest,
+): Promise<Chat> => {
+  return apiClient.put<Chat>(`/crm/chats/${chatId}/snooze`, data);
+};
+
+/**
+ * Bring a snoozed chat back to the active list
  */
-export const resolveChat = async (chatId: string): Promise<Chat> => {
-  return apiClient.put<Chat>(`/crm/chats/${chatId}/resolve`, {});
+export const unsnoozeChat = async (chatId: string): Promise<Chat> => {
+  return apiClient.delete<Chat>(`/crm/chats/${chatId}/snooze`);
+};
+
+/**
+ * Export the full chat transcript: every message with sender attribution
+ * (customer/AI/human), attachments and escalation/assignment events
+ */
+export const exportChatTranscript = async (
+  chatId: string,
+  format: TranscriptFormat,
+  options?: TranscriptOptions,
+): Promise<Blob> => {
+  const queryParams = new URLSearchParams({ format });
+  if (options?.include_notes) queryParams.append("include_notes", "true");
+
+  return apiClient.getBlob(
+    `/crm/chats/${chatId}/transcript?${queryParams.toString()}`,
+  );
+};
+
+/**
+ * Email the transcript (PDF) to the customer. Internal notes are never sent.
+ */
+export const emailChatTranscript = async (
+  chatId: string,
+  data?: { email?: string },
+): Promise<{ sent_to: string }> => {
+  return apiClient.post<{ sent_to: string }>(
+    `/crm/chats/${chatId}/transcript/email`,
+    data || {},
+  );
+};
+
+/**
+ * Search all chats of the organization, best matches first
+ */
+export const searchMessages = async (
+  params: MessageSearchParams,
+): Promise<MessageSearchResponse> => {
+  const queryParams = new URLSearchParams({ q: params.q });
+  if (params.channel) queryParams.append("channel", params.channel);
+  if (params.created_after)
+    queryParams.append("created_after", params.created_after);
+  if (params.created_before)
+    queryParams.append("created_before", params.created_before);
+  if (params.skip !== undefined)
+    queryParams.append("skip", params.skip.toString());
+  if (params.limit !== undefined)
+    queryParams.append("limit", params.limit.toString());
+
+  return apiClient.get<MessageSearchResponse>(
+    `/crm/chats/search?${queryParams.toString()}`,
+  );
 };
 
 /**
@@ -336,6 +598,7 @@ export const sendMessage = async ({
   ticketId,
   file,
   metadata,
+  cannedResponseId,
 }: SendMessageParams): Promise<Message> => {
   const formData = new FormData();
 
@@ -350,6 +613,11 @@ export const sendMessage = async ({
     formData.append("ticket_id", ticketId);
   }
 
+  // Lets the backend count template usage (works for every channel)
+  if (cannedResponseId) {
+    formData.append("canned_response_id", cannedResponseId);
+  }
+
   // 3. Metadata (FastAPI: expects JSON string in 'metadata' field)
   // We combine existing metadata with any frontend flags if needed
   const finalMetadata = metadata || {};
@@ -365,6 +633,25 @@ export const sendMessage = async ({
   return apiClient.post<Message>(`/crm/chats/${chatId}/messages`, formData);
 };
 
+/**
+ * Add an internal note to a chat.
+ * Mentioned users receive a "mention" WebSocket notification.
+ */
+export const sendInternalNote = async ({
+  chatId,
+  content,
+  mentionedUserIds = [],
+}: {
+  chatId: string;
+  content: string;
+  mentionedUserIds?: string[];
+}): Promise<Message> => {
+  return apiClient.post<Message>(`/crm/chats/${chatId}/notes`, {
+    content,
+    mentioned_user_ids: mentionedUserIds,
+  });
+};
+
 /**
  * Get all tickets with optional filters
  */
@@ -474,6 +761,7 @@ export const getCustomers = async (params?: {
   skip?: number;
   limit?: number;
   channel?: string;
+  label_ids?: string[];
 }): Promise<Customer[]> => {
   const queryParams = new URLSearchParams();
   if (params?.search) queryParams.append("search", params.search);
@@ -482,6 +770,7 @@ export const getCustomers = async (params?: {
   if (params?.limit !== undefined)
     queryParams.append("limit", params.limit.toString());
   if (params?.channel) queryParams.append("channel", params.channel);
+  params?.label_ids?.forEach((id) => queryParams.append("label_ids", id));
 
   const url = `/crm/customers${
     queryParams.toString() ? `?${queryParams.toString()}` : ""
@@ -491,6 +780,28 @@ export const getCustomers = async (params?: {
   return response.customers;
 };
 
+/**
+ * Get every customer matching the filters by walking all pages (used for exports)
+ */
+export const getAllCustomers = async (
+  params?: { search?: string; channel?: string; label_ids?: string[] },
+  pageSize = 500,
+): Promise<Customer[]> => {
+  const customers: Customer[] = [];
+
+  while (true) {
+    const page = await getCustomers({
+      ...params,
+      skip: customers.length,
+      limit: pageSize,
+    });
+    customers.push(...page);
+    if (page.length < pageSize) break;
+  }
+
+  return customers;
+};
+
 /**
  * Get a specific customer by ID
  */
@@ -498,6 +809,115 @@ export const getCustomer = async (customerId: string): Promise<Customer> => {
   return apiClient.get<Customer>(`/crm/customers/${customerId}`);
 };
 
+/**
+ * Create a new customer
+ */
+export const createCustomer = async (
+  customerData: CustomerInput,
+): Promise<Customer> => {
+  return apiClient.post<Customer>("/crm/customers", customerData);
+};
+
+/**
+ * Update a customer
+ * Note: `metadata` replaces the stored metadata, send the full object.
+ */
+export const updateCustomer = async (
+  customerId: string,
+  updates: Partial<CustomerInput>,
+): Promise<Customer> => {
+  return apiClient.put<Customer>(`/crm/customers/${customerId}`, updates);
+};
+
+/**
+ * Delete a customer
+ */
+export const deleteCustomer = async (customerId: string): Promise<void> => {
+  await apiClient.delete(`/crm/customers/${customerId}`);
+};
+
+/**
+ * Merge duplicate customers (e.g. same person over WhatsApp and Telegram)
+ * Chats of the duplicates are re-pointed to the primary customer and the duplicates are removed.
+ */
+export const mergeCustomers = async (
+  request: CustomerMergeRequest,
+): Promise<CustomerMergeResult> => {
+  return apiClient.post<CustomerMergeResult>("/crm/customers/merge", request);
+};
+
+/**
+ * Find existing customers matching any of the given phone numbers or emails
+ * Used by the import wizard to preview duplicates before importing.
+ */
+export const findDuplicateCustomers = async (contacts: {
+  phones: string[];
+  emails: string[];
+}): Promise<Customer[]> => {
+  const response = await apiClient.post<CustomersApiResponse>(
+    "/crm/customers/duplicates",
+    contacts,
+  );
+  return response.customers || [];
+};
+
+/**
+ * Import a batch of customers
+ * @param onDuplicate - What to do when a row matches an existing customer (by phone or email)
+ */
+export const importCustomers = async (
+  customers: CustomerImportRow[],
+  onDuplicate: CustomerDuplicateStrategy,
+): Promise<CustomerImportResult> => {
+  return apiClient.post<CustomerImportResult>("/crm/customers/import", {
+    customers,
+    on_duplicate: onDuplicate,
+  });
+};
+
+/**
+ * Get custom field definitions of the current organization
+ */
+export const getCustomerCustomFields = async (): Promise<
+  CustomerCustomField[]
+> => {
+  const fields = await apiClient.get<CustomerCustomField[]>(
+    "/crm/customer-fields",
+  );
+  return [...(fields || [])].sort((a, b) => a.position - b.position);
+};
+
+/**
+ * Create a custom field definition
+ */
+export const createCustomerCustomField = async (
+  field: CustomerCustomFieldInput,
+): Promise<CustomerCustomField> => {
+  return apiClient.post<CustomerCustomField>("/crm/customer-fields", field);
+};
+
+/**
+ * Update a custom field definition
+ */
+export const updateCustomerCustomField = async (
+  fieldId: string,
+  updates: Partial<CustomerCustomFieldInput>,
+): Promise<CustomerCustomField> => {
+  return apiClient.put<CustomerCustomField>(
+    `/crm/customer-fields/${fieldId}`,
+    updates,
+  );
+};
+
+/**
+ * Delete a custom field definition (stored values are kept in metadata)
+ */
+export const deleteCustomerCustomField = async (
+  fieldId: string,
+): Promise<void> => {
+  await apiClient.delete(`/crm/customer-fields/${fieldId}`);
+};
+
 /**
  * Get activity history for a specific ticket
  */
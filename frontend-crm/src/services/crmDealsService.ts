@@ -0,0 +1,313 @@
+import { apiClient } from "@/lib/apiClient";
+import type { Customer } from "@/services/crmChatsService";
+
+/**
+ * CRM Deals Service
+ * Handles the sales pipeline (deals) API calls
+ */
+
+// ============= Type Definitions =============
+
+export type DealPriority = "low" | "medium" | "high";
+
+/**
+ * Backend Deal entity (snake_case as returned by API)
+ */
+export interface DealBackend {
+  id: string;
+  organization_id: string;
+  pipeline_id: string | null;
+  customer_id: string | null;
+  chat_id: string | null; // Chat the deal was created from
+  name: string;
+  company: string | null;
+  value: number;
+  probability: number;
+  stage: string;
+  lead_score: number;
+  needs: string[];
+  decision_maker: string | null;
+  decision_maker_role: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+  expected_close_date: string | null; // ISO date (YYYY-MM-DD)
+  last_activity_at: string | null; // ISO timestamp
+  owner_id: string | null;
+  owner_name: string | null;
+  tags: string[];
+  priority: DealPriority;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  // Populated fields
+  customer?: Customer;
+}
+
+/**
+ * Frontend Deal entity (camelCase as used in components)
+ */
+export interface Deal {
+  id: string;
+  pipelineId: string | null;
+  customerId: string | null;
+  chatId: string | null;
+  name: string;
+  company: string;
+  value: number;
+  probability: number;
+  stage: string;
+  leadScore: number;
+  needs: string[];
+  decisionMaker: string;
+  decisionMakerRole: string;
+  contactPhone: string;
+  contactEmail: string;
+  expectedClose: string | null; // ISO date (YYYY-MM-DD)
+  lastActivity: string | null; // ISO timestamp
+  ownerId: string | null;
+  owner: string;
+  tags: string[];
+  priority: DealPriority;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+  customer?: Customer;
+}
+
+/**
+ * Editable deal fields (used for create & update forms)
+ */
+export type DealInput = Omit<
+  Deal,
+  "id" | "createdAt" | "updatedAt" | "lastActivity" | "customer"
+>;
+
+export interface DealsListResponse {
+  deals: DealBackend[];
+  total: number;
+}
+
+export interface DealListParams {
+  pipeline_id?: string;
+  // With pipeline_id: also return deals without a pipeline (default pipeline)
+  include_unassigned?: boolean;
+  stage?: string;
+  customer_id?: string;
+  chat_id?: string;
+  owner_id?: string;
+  search?: string;
+  skip?: number;
+  limit?: number;
+}
+
+/**
+ * A single stage transition recorded by the backend when a deal moves
+ */
+export interface DealStageChange {
+  id: string;
+  deal_id: string;
+  from_stage: string | null; // null when the deal was created
+  to_stage: string;
+  changed_at: string;
+  changed_by?: string | null;
+}
+
+export interface DealStageHistoryParams {
+  pipeline_id?: string;
+  // With pipeline_id: also include deals without a pipeline (default pipeline)
+  include_unassigned?: boolean;
+  created_after?: string;
+  created_before?: string;
+}
+
+// ============= Transformers =============
+
+/**
+ * Transform backend deal entity to frontend format
+ */
+export function transformDealToFrontend(deal: DealBackend): Deal {
+  return {
+    id: deal.id,
+    pipelineId: deal.pipeline_id,
+    customerId: deal.customer_id,
+    chatId: deal.chat_id ?? null,
+    name: deal.name,
+    company: deal.company || deal.customer?.name || "",
+    value: Number(deal.value) || 0,
+    probability: deal.probability ?? 0,
+    stage: deal.stage,
+    leadScore: deal.lead_score ?? 0,
+    needs: deal.needs || [],
+    decisionMaker: deal.decision_maker || deal.customer?.name || "",
+    decisionMakerRole: deal.decision_maker_role || "",
+    contactPhone: deal.contact_phone || deal.customer?.phone || "",
+    contactEmail: deal.contact_email || deal.customer?.email || "",
+    expectedClose: deal.expected_close_date,
+    lastActivity: deal.last_activity_at || deal.updated_at,
+    ownerId: deal.owner_id,
+    owner: deal.owner_name || "",
+    tags: deal.tags || [],
+    priority: deal.priority || "medium",
+    notes: deal.notes || "",
+    createdAt: deal.created_at,
+    updatedAt: deal.updated_at,
+    customer: deal.customer,
+  };
+}
+
+/**
+ * Transform frontend deal fields to backend request payload
+ */
+function transformDealToRequest(
+  deal: Partial<DealInput>,
+): Partial<DealBackend> {
+  const payload: Partial<DealBackend> = {};
+
+  if (deal.pipelineId !== undefined) payload.pipeline_id = deal.pipelineId;
+  if (deal.customerId !== undefined) payload.customer_id = deal.customerId;
+  if (deal.chatId !== undefined) payload.chat_id = deal.chatId;
+  if (deal.name !== undefined) payload.name = deal.name;
+  if (deal.company !== undefined) payload.company = deal.company;
+  if (deal.value !== undefined) payload.value = deal.value;
+  if (deal.probability !== undefined) payload.probability = deal.probability;
+  if (deal.stage !== undefined) payload.stage = deal.stage;
+  if (deal.leadScore !== undefined) payload.lead_score = deal.leadScore;
+  if (deal.needs !== undefined) payload.needs = deal.needs;
+  if (deal.decisionMaker !== undefined)
+    payload.decision_maker = deal.decisionMaker;
+  if (deal.decisionMakerRole !== undefined)
+    payload.decision_maker_role = deal.decisionMakerRole;
+  if (deal.contactPhone !== undefined)
+    payload.contact_phone = deal.contactPhone;
+  if (deal.contactEmail !== undefined)
+    payload.contact_email = deal.contactEmail;
+  if (deal.expectedClose !== undefined)
+    payload.expected_close_date = deal.expectedClose || null;
+  if (deal.ownerId !== undefined) payload.owner_id = deal.ownerId;
+  if (deal.tags !== undefined) payload.tags = deal.tags;
+  if (deal.priority !== undefined) payload.priority = deal.priority;
+  if (deal.notes !== undefined) payload.notes = deal.notes || null;
+
+  return payload;
+}
+
+// ============= API Functions =============
+
+/**
+ * Get all deals with optional filters
+ */
+export const getDeals = async (
+  params?: DealListParams,
+): Promise<{ deals: Deal[]; total: number }> => {
+  const queryParams = new URLSearchParams();
+
+  if (params?.pipeline_id)
+    queryParams.append("pipeline_id", params.pipeline_id);
+  if (params?.include_unassigned)
+    queryParams.append("include_unassigned", "true");
+  if (params?.stage) queryParams.append("stage", params.stage);
+  if (params?.customer_id)
+    queryParams.append("customer_id", params.customer_id);
+  if (params?.chat_id) queryParams.append("chat_id", params.chat_id);
+  if (params?.owner_id) queryParams.append("owner_id", params.owner_id);
+  if (params?.search) queryParams.append("search", params.search);
+  if (params?.skip !== undefined)
+    queryParams.append("skip", params.skip.toString());
+  if (params?.limit !== undefined)
+    queryParams.append("limit", params.limit.toString());
+
+  const url = `/crm/deals${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
+  const response = await apiClient.get<DealsListResponse>(url);
+
+  return {
+    deals: (response.deals || []).map(transformDealToFrontend),
+    total: response.total ?? 0,
+  };
+};
+
+/**
+ * Get a specific deal by ID
+ */
+export const getDeal = async (dealId: string): Promise<Deal> => {
+  const deal = await apiClient.get<DealBackend>(`/crm/deals/${dealId}`);
+  return transformDealToFrontend(deal);
+};
+
+/**
+ * Create a new deal
+ */
+export const createDeal = async (dealData: DealInput): Promise<Deal> => {
+  const deal = await apiClient.post<DealBackend>(
+    "/crm/deals",
+    transformDealToRequest(dealData),
+  );
+  return transformDealToFrontend(deal);
+};
+
+/**
+ * Update a deal
+ */
+export const updateDeal = async (
+  dealId: string,
+  updates: Partial<DealInput>,
+): Promise<Deal> => {
+  const deal = await apiClient.put<DealBackend>(
+    `/crm/deals/${dealId}`,
+    transformDealToRequest(updates),
+  );
+  return transformDealToFrontend(deal);
+};
+
+/**
+ * Move a deal to another pipeline stage
+ * The backend records the stage change in the deal history.
+ * @param probability - Optional new probability (e.g. the stage default)
+ */
+export const moveDealStage = async (
+  dealId: string,
+  stage: string,
+  probability?: number,
+): Promise<Deal> => {
+  const deal = await apiClient.patch<DealBackend>(
+    `/crm/deals/${dealId}/stage`,
+    probability !== undefined ? { stage, probability } : { stage },
+  );
+  return transformDealToFrontend(deal);
+};
+
+/**
+ * Delete a deal
+ */
+export const deleteDeal = async (dealId: string): Promise<void> => {
+  await apiClient.delete(`/crm/deals/${dealId}`);
+};
+
+/**
+ * Get stage transitions of all deals (used for conversion & time-in-stage analytics)
+ */
+export const getDealStageHistory = async (
+  params?: DealStageHistoryParams,
+): Promise<DealStageChange[]> => {
+  const queryParams = new URLSearchParams();
+  if (params?.pipeline_id)
+    queryParams.append("pipeline_id", params.pipeline_id);
+  if (params?.include_unassigned)
+    queryParams.append("include_unassigned", "true");
+  if (params?.created_after)
+    queryParams.append("created_after", params.created_after);
+  if (params?.created_before)
+    queryParams.append("created_before", params.created_before);
+
+  const url = `/crm/deals/stage-history${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
+  return apiClient.get<DealStageChange[]>(url);
+};
+
+/**
+ * Export the sales forecast (weighted revenue by month/owner, conversion, win/loss) as CSV
+ */
+export const exportForecastReport = async (params?: {
+  pipeline_id?: string;
+  include_unassigned?: boolean;
+}): Promise<Blob> => {
+  return apiClient.postBlob("/crm/deals/forecast/export", params || {});
+};
@@ -0,0 +1,146 @@
+import { apiClient } from "@/lib/apiClient";
+
+/**
+ * CRM Labels Service
+ * Organization-managed colored labels applied to chats and customers
+ */
+
+// ============= Type Definitions =============
+
+export interface Label {
+  id: string;
+  organization_id: string;
+  name: string;
+  color: string; // Hex, e.g. "#ef4444"
+  description: string | null;
+  chat_count: number;
+  customer_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Compact form embedded in chats and customers
+export type LabelSummary = Pick<Label, "id" | "name" | "color">;
+
+export type LabelInput = Pick<Label, "name" | "color" | "description">;
+
+export interface BulkLabelRequest {
+  add_label_ids?: string[];
+  remove_label_ids?: string[];
+}
+
+export interface BulkLabelResult {
+  updated_count: number;
+}
+
+export interface LabelReportItem extends LabelSummary {
+  chat_count: number;
+  resolved_count: number;
+  customer_count: number;
+}
+
+export interface LabelReport {
+  period_start: string;
+  period_end: string;
+  total_chats: number;
+  unlabeled_chats: number;
+  labels: LabelReportItem[];
+}
+
+interface LabelsResponse {
+  labels: Label[];
+}
+
+// ============= Defaults =============
+
+export const LABEL_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#64748b",
+];
+
+// ============= API Functions =============
+
+/**
+ * Get the organization's labels, sorted by name
+ */
+export const getLabels = async (): Promise<Label[]> => {
+  const response = await apiClient.get<LabelsResponse>("/crm/labels");
+  return (response.labels || []).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Create a label (admin only)
+ */
+export const createLabel = async (data: LabelInput): Promise<Label> => {
+  return apiClient.post<Label>("/crm/labels", data);
+};
+
+/**
+ * Rename or recolor a label (admin only)
+ */
+export const updateLabel = async (
+  labelId: string,
+  data: Partial<LabelInput>,
+): Promise<Label> => {
+  return apiClient.put<Label>(`/crm/labels/${labelId}`, data);
+};
+
+/**
+ * Delete a label, it is removed from every chat and customer (admin only)
+ */
+export const deleteLabel = async (labelId: string): Promise<void> => {
+  await apiClient.delete(`/crm/labels/${labelId}`);
+};
+
+/**
+ * Apply and/or remove labels on many chats at once.
+ * Other agents receive a "labels_updated" chat_update per chat.
+ */
+export const bulkUpdateChatLabels = async (
+  chatIds: string[],
+  data: BulkLabelRequest,
+): Promise<BulkLabelResult> => {
+  return apiClient.post<BulkLabelResult>("/crm/labels/chats", {
+    chat_ids: chatIds,
+    ...data,
+  });
+};
+
+/**
+ * Apply and/or remove labels on many customers at once
+ */
+export const bulkUpdateCustomerLabels = async (
+  customerIds: string[],
+  data: BulkLabelRequest,
+): Promise<BulkLabelResult> => {
+  return apiClient.post<BulkLabelResult>("/crm/labels/customers", {
+    customer_ids: customerIds,
+    ...data,
+  });
+};
+
+/**
+ * Chat and customer counts per label for the reporting period
+ */
+export const getLabelReport = async (params?: {
+  date_from?: string;
+  date_to?: string;
+  channel?: string;
+}): Promise<LabelReport> => {
+  const queryParams = new URLSearchParams();
+  if (params?.date_from) queryParams.append("date_from", params.date_from);
+  if (params?.date_to) queryParams.append("date_to", params.date_to);
+  if (params?.channel) queryParams.append("channel", params.channel);
+
+  const url = `/crm/labels/report${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+  return apiClient.get<LabelReport>(url);
+};
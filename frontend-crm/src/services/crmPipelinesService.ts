@@ -0,0 +1,161 @@
+import { apiClient } from "@/lib/apiClient";
+
+/**
+ * CRM Sales Pipelines Service
+ * Handles organization-level pipeline definitions (ordered stages)
+ */
+
+// ============= Type Definitions =============
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  color: string; // Hex color, e.g. "#22c55e"
+  position: number;
+  win_probability: number; // Default probability (0-100) for deals in this stage
+  is_won: boolean;
+  is_lost: boolean;
+}
+
+export interface Pipeline {
+  id: string;
+  organization_id: string;
+  name: string;
+  is_default: boolean;
+  stages: PipelineStage[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelinesResponse {
+  pipelines: Pipeline[];
+  total: number;
+}
+
+/**
+ * Stage payload for create/update. New stages have no id yet.
+ */
+export type PipelineStageInput = Omit<PipelineStage, "id"> & { id?: string };
+
+export interface PipelineInput {
+  name: string;
+  is_default?: boolean;
+  stages: PipelineStageInput[];
+}
+
+// ============= Defaults =============
+
+/**
+ * Stages used when an organization has not configured a pipeline yet.
+ * Stage ids match the legacy hard-coded stages so existing deals keep their column.
+ */
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  {
+    id: "lead",
+    name: "Lead",
+    color: "#64748b",
+    position: 0,
+    win_probability: 10,
+    is_won: false,
+    is_lost: false,
+  },
+  {
+    id: "qualified",
+    name: "Qualified",
+    color: "#3b82f6",
+    position: 1,
+    win_probability: 25,
+    is_won: false,
+    is_lost: false,
+  },
+  {
+    id: "proposal",
+    name: "Proposal",
+    color: "#a855f7",
+    position: 2,
+    win_probability: 50,
+    is_won: false,
+    is_lost: false,
+  },
+  {
+    id: "negotiation",
+    name: "Negotiation",
+    color: "#eab308",
+    position: 3,
+    win_probability: 70,
+    is_won: false,
+    is_lost: false,
+  },
+  {
+    id: "closing",
+    name: "Closing",
+    color: "#f97316",
+    position: 4,
+    win_probability: 90,
+    is_won: false,
+    is_lost: false,
+  },
+  {
+    id: "won",
+    name: "Won",
+    color: "#22c55e",
+    position: 5,
+    win_probability: 100,
+    is_won: true,
+    is_lost: false,
+  },
+  {
+    id: "lost",
+    name: "Lost",
+    color: "#ef4444",
+    position: 6,
+    win_probability: 0,
+    is_won: false,
+    is_lost: true,
+  },
+];
+
+/**
+ * Sort stages by their configured position
+ */
+export const sortStages = <T extends { position: number }>(stages: T[]): T[] =>
+  [...stages].sort((a, b) => a.position - b.position);
+
+// ============= API Functions =============
+
+/**
+ * Get all pipelines of the current organization
+ */
+export const getPipelines = async (): Promise<Pipeline[]> => {
+  const response = await apiClient.get<PipelinesResponse>("/crm/pipelines");
+  return (response.pipelines || []).map((pipeline) => ({
+    ...pipeline,
+    stages: sortStages(pipeline.stages || []),
+  }));
+};
+
+/**
+ * Create a new pipeline
+ */
+export const createPipeline = async (
+  data: PipelineInput,
+): Promise<Pipeline> => {
+  return apiClient.post<Pipeline>("/crm/pipelines", data);
+};
+
+/**
+ * Update a pipeline (name, default flag and the full ordered stage list)
+ */
+export const updatePipeline = async (
+  pipelineId: string,
+  data: Partial<PipelineInput>,
+): Promise<Pipeline> => {
+  return apiClient.put<Pipeline>(`/crm/pipelines/${pipelineId}`, data);
+};
+
+/**
+ * Delete a pipeline
+ */
+export const deletePipeline = async (pipelineId: string): Promise<void> => {
+  await apiClient.delete(`/crm/pipelines/${pipelineId}`);
+};
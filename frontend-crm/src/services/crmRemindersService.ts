@@ -0,0 +1,74 @@
+import { apiClient } from "@/lib/apiClient";
+
+/**
+ * CRM Reminders Service
+ * Follow-up reminders on chats and tickets. The backend fires them as a
+ * "follow_up_reminder" WebSocket event to the agent who created them.
+ */
+
+// ============= Type Definitions =============
+
+export type ReminderStatus = "scheduled" | "fired" | "dismissed";
+
+export interface FollowUpReminder {
+  id: string;
+  organization_id: string;
+  chat_id: string;
+  ticket_id: string | null;
+  ticket_number: string | null;
+  customer_name: string | null;
+  note: string;
+  remind_at: string;
+  status: ReminderStatus;
+  created_by: string;
+  created_at: string;
+}
+
+export interface CreateReminderRequest {
+  chat_id: string;
+  ticket_id?: string | null;
+  remind_at: string; // ISO datetime
+  note: string;
+}
+
+interface RemindersResponse {
+  reminders: FollowUpReminder[];
+}
+
+// ============= API Functions =============
+
+/**
+ * Reminders of the current agent, soonest first
+ */
+export const getReminders = async (params?: {
+  chat_id?: string;
+  ticket_id?: string;
+  status?: ReminderStatus;
+}): Promise<FollowUpReminder[]> => {
+  const queryParams = new URLSearchParams();
+  if (params?.chat_id) queryParams.append("chat_id", params.chat_id);
+  if (params?.ticket_id) queryParams.append("ticket_id", params.ticket_id);
+  if (params?.status) queryParams.append("status", params.status);
+
+  const url = `/crm/reminders${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+  const response = await apiClient.get<RemindersResponse>(url);
+  return response.reminders || [];
+};
+
+/**
+ * Schedule a follow-up reminder on a chat, optionally tied to a ticket
+ */
+export const createReminder = async (
+  data: CreateReminderRequest,
+): Promise<FollowUpReminder> => {
+  return apiClient.post<FollowUpReminder>("/crm/reminders", data);
+};
+
+/**
+ * Cancel a scheduled reminder
+ */
+export const deleteReminder = async (reminderId: string): Promise<void> => {
+  await apiClient.delete(`/crm/reminders/${reminderId}`);
+};
@@ -0,0 +1,214 @@
+import { apiClient } from "@/lib/apiClient";
+import type { CommunicationChannel } from "./crmChatsService";
+
+/**
+ * CRM Routing Service
+ * Automatic assignment of incoming chats to human agents
+ */
+
+// ============= Type Definitions =============
+
+export type RoutingStrategy =
+  "manual" | "round_robin" | "least_busy" | "skill_based";
+
+// What happens when no agent is eligible
+export type RoutingFallback = "queue" | "ai";
+
+export interface RoutingRule {
+  id: string;
+  organization_id: string;
+  channel: CommunicationChannel;
+  enabled: boolean;
+  strategy: RoutingStrategy;
+  agent_ids: string[]; // Agent pool, empty = every human agent
+  respect_working_hours: boolean; // Uses each agent's schedule settings
+  required_skills: string[]; // skill_based only
+  match_language: boolean; // skill_based only: match the customer's language
+  fallback: RoutingFallback;
+  updated_at: string;
+}
+
+export type RoutingRuleInput = Pick<
+  RoutingRule,
+  | "enabled"
+  | "strategy"
+  | "agent_ids"
+  | "respect_working_hours"
+  | "required_skills"
+  | "match_language"
+  | "fallback"
+>;
+
+export interface AgentRoutingProfile {
+  agent_id: string;
+  languages: string[]; // ISO codes, e.g. ["id", "en"]
+  skills: string[];
+}
+
+export interface RoutingCandidate {
+  agent_id: string;
+  agent_name: string;
+  eligible: boolean;
+  reason?: string | null; // Why the agent was skipped, e.g. "status: busy"
+  assigned_chats_count?: number;
+  score?: number | null; // skill_based match score
+}
+
+export interface RoutingDecision {
+  id: string;
+  chat_id: string;
+  channel: CommunicationChannel;
+  strategy: RoutingStrategy;
+  assigned_agent_id: string | null;
+  assigned_agent_name: string | null;
+  outcome: "assigned" | "queued" | "ai_fallback";
+  reason: string;
+  candidates: RoutingCandidate[];
+  triggered_by: "incoming_chat" | "escalation" | "manual";
+  created_at: string;
+}
+
+// Chat waiting for an agent with free capacity
+export interface QueuedChat {
+  chat_id: string;
+  customer_name: string;
+  channel: CommunicationChannel;
+  position: number; // 1-based
+  queued_at: string;
+}
+
+interface ChatQueueResponse {
+  chats: QueuedChat[];
+  total: number;
+}
+
+interface RoutingRulesResponse {
+  rules: RoutingRule[];
+}
+
+interface AgentRoutingProfilesResponse {
+  profiles: AgentRoutingProfile[];
+}
+
+// ============= Defaults =============
+
+export const ROUTING_CHANNELS: {
+  value: CommunicationChannel;
+  label: string;
+}[] = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "telegram", label: "Telegram" },
+  { value: "email", label: "Email" },
+  { value: "web", label: "Web Chat" },
+];
+
+export const ROUTING_STRATEGIES: {
+  value: RoutingStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "manual",
+    label: "Manual",
+    description: "Chat menunggu di antrian sampai diambil agent",
+  },
+  {
+    value: "round_robin",
+    label: "Round-robin",
+    description: "Bergiliran ke setiap agent yang tersedia",
+  },
+  {
+    value: "least_busy",
+    label: "Least busy",
+    description: "Ke agent dengan chat aktif paling sedikit",
+  },
+  {
+    value: "skill_based",
+    label: "Skill & bahasa",
+    description: "Ke agent dengan skill dan bahasa yang paling cocok",
+  },
+];
+
+export const DEFAULT_ROUTING_RULE: RoutingRuleInput = {
+  enabled: false,
+  strategy: "round_robin",
+  agent_ids: [],
+  respect_working_hours: true,
+  required_skills: [],
+  match_language: true,
+  fallback: "queue",
+};
+
+// ============= API Functions =============
+
+/**
+ * Get routing rules, one per configured channel
+ */
+export const getRoutingRules = async (): Promise<RoutingRule[]> => {
+  const response =
+    await apiClient.get<RoutingRulesResponse>("/crm/routing/rules");
+  return response.rules || [];
+};
+
+/**
+ * Create or replace the routing rule of a channel
+ */
+export const saveRoutingRule = async (
+  channel: CommunicationChannel,
+  data: RoutingRuleInput,
+): Promise<RoutingRule> => {
+  return apiClient.put<RoutingRule>(`/crm/routing/rules/${channel}`, data);
+};
+
+/**
+ * Get skills and languages of every human agent
+ */
+export const getAgentRoutingProfiles = async (): Promise<
+  AgentRoutingProfile[]
+> => {
+  const response = await apiClient.get<AgentRoutingProfilesResponse>(
+    "/crm/routing/agent-profiles",
+  );
+  return response.profiles || [];
+};
+
+/**
+ * Update skills and languages of an agent
+ */
+export const updateAgentRoutingProfile = async (
+  agentId: string,
+  data: Omit<AgentRoutingProfile, "agent_id">,
+): Promise<AgentRoutingProfile> => {
+  return apiClient.put<AgentRoutingProfile>(
+    `/crm/routing/agent-profiles/${agentId}`,
+    data,
+  );
+};
+
+/**
+ * Routing decisions recorded for a chat, newest first
+ */
+export const getChatRoutingDecisions = async (
+  chatId: string,
+): Promise<RoutingDecision[]> => {
+  const response = await apiClient.get<{ decisions: RoutingDecision[] }>(
+    `/crm/chats/${chatId}/routing-decisions`,
+  );
+  return response.decisions || [];
+};
+
+/**
+ * Run the routing engine again for a chat (e.g. after the agent went offline)
+ */
+export const rerouteChat = async (chatId: string): Promise<RoutingDecision> => {
+  return apiClient.post<RoutingDecision>(`/crm/chats/${chatId}/route`, {});
+};
+
+/**
+ * Chats waiting in the overflow queue, oldest first. They are assigned
+ * automatically as soon as an agent drops below capacity.
+ */
+export const getChatQueue = async (): Promise<ChatQueueResponse> => {
+  const response = await apiClient.get<ChatQueueResponse>("/crm/routing/queue");
+  return { chats: response.chats || [], total: response.total || 0 };
+};
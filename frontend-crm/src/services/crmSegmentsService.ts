@@ -0,0 +1,172 @@
+import { apiClient } from "@/lib/apiClient";
+import type { Customer } from "@/services/crmChatsService";
+
+/**
+ * CRM Customer Segments Service
+ * Rule-based smart lists evaluated by the backend against the customer base
+ */
+
+// ============= Type Definitions =============
+
+/**
+ * Built-in segment fields. Custom fields are referenced as `custom:<key>`.
+ */
+export type SegmentBaseField =
+  "channel" | "last_contact" | "ticket_count" | "tags" | "deal_stage";
+
+export type SegmentField = SegmentBaseField | `custom:${string}`;
+
+export type SegmentOperator =
+  | "is"
+  | "is_not"
+  | "contains"
+  | "not_contains"
+  | "gt"
+  | "lt"
+  | "eq"
+  | "within_days" // e.g. last contact within the last N days
+  | "older_than_days"
+  | "before"
+  | "after"
+  | "is_empty"
+  | "is_not_empty";
+
+export type SegmentMatch = "all" | "any";
+
+export interface SegmentRule {
+  field: SegmentField;
+  operator: SegmentOperator;
+  value: string | number | null; // null for is_empty / is_not_empty
+}
+
+export interface SegmentDefinition {
+  match: SegmentMatch;
+  rules: SegmentRule[];
+}
+
+export interface Segment extends SegmentDefinition {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  is_shared: boolean; // Visible to everyone in the organization
+  created_by: string;
+  customer_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SegmentsResponse {
+  segments: Segment[];
+  total: number;
+}
+
+export interface SegmentInput extends SegmentDefinition {
+  name: string;
+  description?: string | null;
+  is_shared: boolean;
+}
+
+export interface SegmentCustomersResponse {
+  customers: Customer[];
+  total: number;
+}
+
+// ============= API Functions =============
+
+/**
+ * Get own and shared segments of the current organization
+ */
+export const getSegments = async (): Promise<Segment[]> => {
+  const response = await apiClient.get<SegmentsResponse>("/crm/segments");
+  return response.segments || [];
+};
+
+/**
+ * Create a new segment
+ */
+export const createSegment = async (data: SegmentInput): Promise<Segment> => {
+  return apiClient.post<Segment>("/crm/segments", data);
+};
+
+/**
+ * Update a segment (name, sharing and the full rule list)
+ */
+export const updateSegment = async (
+  segmentId: string,
+  data: Partial<SegmentInput>,
+): Promise<Segment> => {
+  return apiClient.put<Segment>(`/crm/segments/${segmentId}`, data);
+};
+
+/**
+ * Delete a segment
+ */
+export const deleteSegment = async (segmentId: string): Promise<void> => {
+  await apiClient.delete(`/crm/segments/${segmentId}`);
+};
+
+/**
+ * Count customers matching an unsaved definition (live preview in the builder)
+ */
+export const previewSegmentCount = async (
+  definition: SegmentDefinition,
+): Promise<number> => {
+  const response = await apiClient.post<{ count: number }>(
+    "/crm/segments/preview",
+    definition,
+  );
+  return response.count;
+};
+
+/**
+ * Get customers of a saved segment
+ */
+export const getSegmentCustomers = async (
+  segmentId: string,
+  params?: {
+    search?: string;
+    channel?: string;
+    skip?: number;
+    limit?: number;
+  },
+): Promise<SegmentCustomersResponse> => {
+  const queryParams = new URLSearchParams();
+  if (params?.search) queryParams.append("search", params.search);
+  if (params?.channel) queryParams.append("channel", params.channel);
+  if (params?.skip !== undefined)
+    queryParams.append("skip", params.skip.toString());
+  if (params?.limit !== undefined)
+    queryParams.append("limit", params.limit.toString());
+
+  const url = `/crm/segments/${segmentId}/customers${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  return apiClient.get<SegmentCustomersResponse>(url);
+};
+
+/**
+ * Get every customer of a segment by walking all pages (used for exports)
+ */
+export const getAllSegmentCustomers = async (
+  segmentId: string,
+  params?: { search?: string },
+  pageSize = 500,
+): Promise<Customer[]> => {
+  const customers: Customer[] = [];
+  let total = Infinity;
+
+  while (customers.length < total) {
+    const page = await getSegmentCustomers(segmentId, {
+      search: params?.search,
+      skip: customers.length,
+      limit: pageSize,
+    });
+    customers.push(...page.customers);
+    total = page.total;
+    if (page.customers.length === 0) break;
+  }
+
+  return customers;
+};
@@ -0,0 +1,69 @@
+import { apiClient } from "@/lib/apiClient";
+import type { CommunicationChannel } from "./crmChatsService";
+
+/**
+ * CRM Sentiment Service
+ * Organization-wide sentiment of customer messages, scored by the backend
+ */
+
+// ============= Type Definitions =============
+
+export interface SentimentBreakdown {
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+export interface SentimentTrendPoint {
+  date: string; // YYYY-MM-DD
+  messages: number;
+  avg_score: number | null; // -1..1
+  negative_percent: number | null; // 0-100
+}
+
+export interface SentimentGroupStats {
+  key: string; // Channel name or agent id
+  name: string;
+  chats: number;
+  messages: number;
+  avg_score: number | null;
+  negative_chats: number; // Chats whose sentiment ended negative
+}
+
+export interface SentimentReport {
+  summary: {
+    messages: number; // Customer messages scored
+    chats: number;
+    avg_score: number | null;
+    negative_chats: number;
+    breakdown: SentimentBreakdown; // Message counts per label
+  };
+  trend: SentimentTrendPoint[];
+  by_channel: SentimentGroupStats[];
+  by_agent: SentimentGroupStats[]; // Human agents, by last assignee
+}
+
+export interface SentimentReportParams {
+  date_from?: string;
+  date_to?: string;
+  channel?: CommunicationChannel;
+}
+
+// ============= API Functions =============
+
+/**
+ * Sentiment trend plus breakdowns per channel and per agent
+ */
+export const getSentimentReport = async (
+  params?: SentimentReportParams,
+): Promise<SentimentReport> => {
+  const queryParams = new URLSearchParams();
+  if (params?.date_from) queryParams.append("date_from", params.date_from);
+  if (params?.date_to) queryParams.append("date_to", params.date_to);
+  if (params?.channel) queryParams.append("channel", params.channel);
+
+  const url = `/crm/analytics/sentiment${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+  return apiClient.get<SentimentReport>(url);
+};
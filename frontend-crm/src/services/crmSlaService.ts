@@ -0,0 +1,133 @@
+import { apiClient } from "@/lib/apiClient";
+import type { TicketPriority } from "./crmChatsService";
+
+/**
+ * CRM SLA Service
+ * Organization SLA policies and the business hours their timers run in
+ */
+
+// ============= Type Definitions =============
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export interface BusinessDay {
+  enabled: boolean;
+  start: string; // "HH:mm"
+  end: string; // "HH:mm"
+}
+
+export interface BusinessHours {
+  timezone: string; // IANA name, e.g. "Asia/Jakarta"
+  days: Record<Weekday, BusinessDay>;
+}
+
+export interface SlaPolicy {
+  id: string;
+  organization_id: string;
+  name: string;
+  priority: TicketPriority | null; // null = any priority
+  category: string | null; // null = any category
+  first_response_minutes: number;
+  resolution_minutes: number;
+  business_hours_only: boolean; // Timers pause outside business hours
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SlaPolicyInput = Pick<
+  SlaPolicy,
+  | "name"
+  | "priority"
+  | "category"
+  | "first_response_minutes"
+  | "resolution_minutes"
+  | "business_hours_only"
+  | "is_active"
+>;
+
+interface SlaPoliciesResponse {
+  policies: SlaPolicy[];
+  total: number;
+}
+
+// ============= Defaults =============
+
+export const WEEKDAYS: { value: Weekday; label: string }[] = [
+  { value: "mon", label: "Senin" },
+  { value: "tue", label: "Selasa" },
+  { value: "wed", label: "Rabu" },
+  { value: "thu", label: "Kamis" },
+  { value: "fri", label: "Jumat" },
+  { value: "sat", label: "Sabtu" },
+  { value: "sun", label: "Minggu" },
+];
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  timezone: "Asia/Jakarta",
+  days: {
+    mon: { enabled: true, start: "09:00", end: "17:00" },
+    tue: { enabled: true, start: "09:00", end: "17:00" },
+    wed: { enabled: true, start: "09:00", end: "17:00" },
+    thu: { enabled: true, start: "09:00", end: "17:00" },
+    fri: { enabled: true, start: "09:00", end: "17:00" },
+    sat: { enabled: false, start: "09:00", end: "13:00" },
+    sun: { enabled: false, start: "09:00", end: "13:00" },
+  },
+};
+
+// ============= API Functions =============
+
+/**
+ * Get all SLA policies of the organization
+ */
+export const getSlaPolicies = async (): Promise<SlaPolicy[]> => {
+  const response =
+    await apiClient.get<SlaPoliciesResponse>("/crm/sla/policies");
+  return response.policies || [];
+};
+
+/**
+ * Create an SLA policy
+ */
+export const createSlaPolicy = async (
+  data: SlaPolicyInput,
+): Promise<SlaPolicy> => {
+  return apiClient.post<SlaPolicy>("/crm/sla/policies", data);
+};
+
+/**
+ * Update an SLA policy. Running timers keep their original due dates.
+ */
+export const updateSlaPolicy = async (
+  policyId: string,
+  data: Partial<SlaPolicyInput>,
+): Promise<SlaPolicy> => {
+  return apiClient.put<SlaPolicy>(`/crm/sla/policies/${policyId}`, data);
+};
+
+/**
+ * Delete an SLA policy
+ */
+export const deleteSlaPolicy = async (policyId: string): Promise<void> => {
+  await apiClient.delete(`/crm/sla/policies/${policyId}`);
+};
+
+/**
+ * Get organization business hours (defaults when never configured)
+ */
+export const getBusinessHours = async (): Promise<BusinessHours> => {
+  const response = await apiClient.get<BusinessHours | null>(
+    "/crm/sla/business-hours",
+  );
+  return response || DEFAULT_BUSINESS_HOURS;
+};
+
+/**
+ * Save organization business hours
+ */
+export const updateBusinessHours = async (
+  data: BusinessHours,
+): Promise<BusinessHours> => {
+  return apiClient.put<BusinessHours>("/crm/sla/business-hours", data);
+};
@@ -0,0 +1,197 @@
+import { apiClient } from "@/lib/apiClient";
+import type { CommunicationChannel } from "./crmChatsService";
+
+/**
+ * CRM Surveys Service
+ * CSAT/NPS surveys sent over the chat's channel after it is resolved
+ */
+
+// ============= Type Definitions =============
+
+export type SurveyType = "csat" | "nps";
+
+export interface SurveyConfig {
+  id: string;
+  organization_id: string;
+  channel: CommunicationChannel;
+  enabled: boolean;
+  survey_type: SurveyType;
+  question: string; // Supports CHAT_TEMPLATE_VARIABLES, e.g. {{customer.name}}
+  comment_prompt: string | null; // Asked after the score, null = skip
+  delay_minutes: number; // Wait after resolution before sending
+  expires_after_hours: number; // Replies after this are not parsed as scores
+  updated_at: string;
+}
+
+export type SurveyConfigInput = Pick<
+  SurveyConfig,
+  | "enabled"
+  | "survey_type"
+  | "question"
+  | "comment_prompt"
+  | "delay_minutes"
+  | "expires_after_hours"
+>;
+
+export interface SurveyResponse {
+  id: string;
+  chat_id: string;
+  customer_id: string;
+  customer_name: string;
+  channel: CommunicationChannel;
+  survey_type: SurveyType;
+  score: number; // 1-5 for CSAT, 0-10 for NPS
+  comment: string | null;
+  human_agent_id: string | null;
+  human_agent_name: string | null;
+  ai_agent_id: string | null;
+  ai_agent_name: string | null;
+  sent_at: string;
+  responded_at: string;
+}
+
+export interface SurveyAgentStats {
+  agent_id: string;
+  agent_name: string;
+  responses: number;
+  avg_csat: number | null; // Average 1-5 score
+  csat_percent: number | null; // Share of 4-5 scores
+  nps: number | null; // -100..100
+}
+
+export interface SurveyTrendPoint {
+  date: string; // YYYY-MM-DD
+  responses: number;
+  csat_percent: number | null;
+  nps: number | null;
+}
+
+export interface SurveyAnalytics {
+  summary: {
+    sent: number;
+    responded: number;
+    response_rate: number; // 0-100
+    avg_csat: number | null;
+    csat_percent: number | null;
+    nps: number | null;
+  };
+  by_agent: SurveyAgentStats[];
+  by_ai_agent: SurveyAgentStats[]; // Per AI persona
+  trend: SurveyTrendPoint[];
+}
+
+export interface SurveyAnalyticsParams {
+  date_from?: string;
+  date_to?: string;
+  channel?: CommunicationChannel;
+}
+
+interface SurveyConfigsResponse {
+  configs: SurveyConfig[];
+}
+
+interface SurveyResponsesResponse {
+  responses: SurveyResponse[];
+  total: number;
+}
+
+// ============= Defaults =============
+
+export const SURVEY_CHANNELS: { value: CommunicationChannel; label: string }[] =
+  [
+    { value: "whatsapp", label: "WhatsApp" },
+    { value: "telegram", label: "Telegram" },
+    { value: "email", label: "Email" },
+    { value: "web", label: "Web Chat" },
+  ];
+
+export const SURVEY_TYPES: {
+  value: SurveyType;
+  label: string;
+  scale: string;
+}[] = [
+  { value: "csat", label: "CSAT", scale: "Skor 1-5" },
+  { value: "nps", label: "NPS", scale: "Skor 0-10" },
+];
+
+export const DEFAULT_SURVEY_QUESTIONS: Record<SurveyType, string> = {
+  csat: "Halo {{customer.first_name}}, bagaimana pengalaman Anda dengan layanan kami? Balas dengan angka 1 (sangat buruk) sampai 5 (sangat puas).",
+  nps: "Halo {{customer.first_name}}, seberapa besar kemungkinan Anda merekomendasikan kami ke teman? Balas dengan angka 0 sampai 10.",
+};
+
+export const DEFAULT_SURVEY_CONFIG: SurveyConfigInput = {
+  enabled: false,
+  survey_type: "csat",
+  question: DEFAULT_SURVEY_QUESTIONS.csat,
+  comment_prompt: "Terima kasih! Ada masukan yang ingin Anda sampaikan?",
+  delay_minutes: 5,
+  expires_after_hours: 48,
+};
+
+// ============= API Functions =============
+
+/**
+ * Get survey configuration of every configured channel
+ */
+export const getSurveyConfigs = async (): Promise<SurveyConfig[]> => {
+  const response = await apiClient.get<SurveyConfigsResponse>(
+    "/crm/surveys/configs",
+  );
+  return response.configs || [];
+};
+
+/**
+ * Create or replace the survey configuration of a channel
+ */
+export const saveSurveyConfig = async (
+  channel: CommunicationChannel,
+  data: SurveyConfigInput,
+): Promise<SurveyConfig> => {
+  return apiClient.put<SurveyConfig>(`/crm/surveys/configs/${channel}`, data);
+};
+
+/**
+ * Aggregated survey results, overall, per agent and per AI persona
+ */
+export const getSurveyAnalytics = async (
+  params?: SurveyAnalyticsParams,
+): Promise<SurveyAnalytics> => {
+  const queryParams = new URLSearchParams();
+  if (params?.date_from) queryParams.append("date_from", params.date_from);
+  if (params?.date_to) queryParams.append("date_to", params.date_to);
+  if (params?.channel) queryParams.append("channel", params.channel);
+
+  const url = `/crm/surveys/analytics${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+  return apiClient.get<SurveyAnalytics>(url);
+};
+
+/**
+ * Individual survey replies, newest first
+ */
+export const getSurveyResponses = async (params?: {
+  chat_id?: string;
+  agent_id?: string;
+  date_from?: string;
+  date_to?: string;
+  channel?: CommunicationChannel;
+  skip?: number;
+  limit?: number;
+}): Promise<SurveyResponsesResponse> => {
+  const queryParams = new URLSearchParams();
+  if (params?.chat_id) queryParams.append("chat_id", params.chat_id);
+  if (params?.agent_id) queryParams.append("agent_id", params.agent_id);
+  if (params?.date_from) queryParams.append("date_from", params.date_from);
+  if (params?.date_to) queryParams.append("date_to", params.date_to);
+  if (params?.channel) queryParams.append("channel", params.channel);
+  if (params?.skip !== undefined)
+    queryParams.append("skip", params.skip.toString());
+  if (params?.limit !== undefined)
+    queryParams.append("limit", params.limit.toString());
+
+  const url = `/crm/surveys/responses${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+  return apiClient.get<SurveyResponsesResponse>(url);
+};